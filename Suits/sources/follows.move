@@ -0,0 +1,155 @@
+/// Follow graph for Suitter
+/// A Profile is owned by its user, so nobody else can bump its counters;
+/// follow edges and per-address counts live in a shared registry instead
+module suits::follows {
+    use sui::clock::{Self, Clock};
+    use sui::event;
+    use sui::table::{Self, Table};
+
+    // ===== Error Constants =====
+
+    const E_CANNOT_FOLLOW_SELF: u64 = 50;
+    const E_ALREADY_FOLLOWING: u64 = 51;
+    const E_NOT_FOLLOWING: u64 = 52;
+
+    // ===== Structs =====
+
+    public struct FollowRegistry has key {
+        id: UID,
+        /// BCS(follower) ++ BCS(followee) for every live follow
+        follows: Table<vector<u8>, bool>,
+        /// How many accounts follow each address
+        followers: Table<address, u64>,
+        /// How many accounts each address follows
+        following: Table<address, u64>,
+    }
+
+    // ===== Events =====
+
+    public struct Followed has copy, drop {
+        follower: address,
+        followee: address,
+        timestamp: u64,
+    }
+
+    public struct Unfollowed has copy, drop {
+        follower: address,
+        followee: address,
+        timestamp: u64,
+    }
+
+    // ===== Initialization =====
+
+    fun init(ctx: &mut TxContext) {
+        let registry = FollowRegistry {
+            id: object::new(ctx),
+            follows: table::new(ctx),
+            followers: table::new(ctx),
+            following: table::new(ctx),
+        };
+        transfer::share_object(registry);
+    }
+
+    // ===== Helper Functions =====
+
+    fun create_follow_key(follower: address, followee: address): vector<u8> {
+        let mut key = std::bcs::to_bytes(&follower);
+        vector::append(&mut key, std::bcs::to_bytes(&followee));
+        key
+    }
+
+    fun increment(counts: &mut Table<address, u64>, addr: address) {
+        if (table::contains(counts, addr)) {
+            let count = table::borrow_mut(counts, addr);
+            *count = *count + 1;
+        } else {
+            table::add(counts, addr, 1);
+        }
+    }
+
+    fun decrement(counts: &mut Table<address, u64>, addr: address) {
+        let count = table::borrow_mut(counts, addr);
+        *count = *count - 1;
+    }
+
+    fun count_of(counts: &Table<address, u64>, addr: address): u64 {
+        if (table::contains(counts, addr)) {
+            *table::borrow(counts, addr)
+        } else {
+            0
+        }
+    }
+
+    // ===== Public Functions =====
+
+    public fun follow(
+        registry: &mut FollowRegistry,
+        followee: address,
+        clock: &Clock,
+        ctx: &mut TxContext
+    ) {
+        let follower = tx_context::sender(ctx);
+
+        assert!(follower != followee, E_CANNOT_FOLLOW_SELF);
+
+        let key = create_follow_key(follower, followee);
+        assert!(!table::contains(&registry.follows, key), E_ALREADY_FOLLOWING);
+
+        table::add(&mut registry.follows, key, true);
+        increment(&mut registry.followers, followee);
+        increment(&mut registry.following, follower);
+
+        event::emit(Followed {
+            follower,
+            followee,
+            timestamp: clock::timestamp_ms(clock),
+        });
+    }
+
+    public fun unfollow(
+        registry: &mut FollowRegistry,
+        followee: address,
+        clock: &Clock,
+        ctx: &mut TxContext
+    ) {
+        let follower = tx_context::sender(ctx);
+
+        let key = create_follow_key(follower, followee);
+        assert!(table::contains(&registry.follows, key), E_NOT_FOLLOWING);
+
+        table::remove(&mut registry.follows, key);
+        decrement(&mut registry.followers, followee);
+        decrement(&mut registry.following, follower);
+
+        event::emit(Unfollowed {
+            follower,
+            followee,
+            timestamp: clock::timestamp_ms(clock),
+        });
+    }
+
+    // ===== Query Functions =====
+
+    public fun is_following(
+        registry: &FollowRegistry,
+        follower: address,
+        followee: address
+    ): bool {
+        table::contains(&registry.follows, create_follow_key(follower, followee))
+    }
+
+    public fun get_followers_count(registry: &FollowRegistry, addr: address): u64 {
+        count_of(&registry.followers, addr)
+    }
+
+    public fun get_following_count(registry: &FollowRegistry, addr: address): u64 {
+        count_of(&registry.following, addr)
+    }
+
+    // ===== Test-only Functions =====
+
+    #[test_only]
+    public fun init_for_testing(ctx: &mut TxContext) {
+        init(ctx);
+    }
+}
@@ -55,6 +55,12 @@ module suits::interactions {
         timestamp: u64,
     }
 
+    public struct LikeRemoved has copy, drop {
+        like_id: ID,
+        suit_id: ID,
+        liker: address,
+    }
+
     public struct CommentCreated has copy, drop {
         comment_id: ID,
         suit_id: ID,
@@ -69,6 +75,12 @@ module suits::interactions {
         timestamp: u64,
     }
 
+    public struct RetweetRemoved has copy, drop {
+        retweet_id: ID,
+        original_suit_id: ID,
+        retweeter: address,
+    }
+
     // ===== Initialization =====
 
     fun init(ctx: &mut TxContext) {
@@ -147,6 +159,12 @@ module suits::interactions {
         
         suits::decrement_like_count(suit);
         
+        event::emit(LikeRemoved {
+            like_id: object::id(&like),
+            suit_id,
+            liker,
+        });
+        
         let Like { id, suit_id: _, liker: _, created_at: _ } = like;
         object::delete(id);
     }
@@ -246,6 +264,12 @@ module suits::interactions {
         
         suits::decrement_retweet_count(suit);
         
+        event::emit(RetweetRemoved {
+            retweet_id: object::id(&retweet),
+            original_suit_id: suit_id,
+            retweeter,
+        });
+        
         let Retweet { id, original_suit_id: _, retweeter: _, created_at: _ } = retweet;
         object::delete(id);
     }
@@ -10,6 +10,7 @@ module suits::messaging {
     const E_CANNOT_MESSAGE_SELF: u64 = 42;
     const E_MESSAGE_ALREADY_READ: u64 = 43;
     const E_EMPTY_MESSAGE: u64 = 44;
+    const E_NO_ACCESS: u64 = 45;
 
     // ===== Data Structures =====
 
@@ -116,6 +117,22 @@ module suits::messaging {
         caller == chat.participant_1 || caller == chat.participant_2
     }
 
+    fun has_prefix(bytes: &vector<u8>, prefix: &vector<u8>): bool {
+        let len = std::vector::length(prefix);
+        if (std::vector::length(bytes) < len) {
+            return false
+        };
+
+        let mut i = 0;
+        while (i < len) {
+            if (*std::vector::borrow(bytes, i) != *std::vector::borrow(prefix, i)) {
+                return false
+            };
+            i = i + 1;
+        };
+        true
+    }
+
     // ===== Public Functions =====
 
     public fun start_chat(
@@ -242,6 +259,19 @@ module suits::messaging {
         });
     }
 
+    // ===== Seal Access Policy =====
+
+    /// Seal key servers dry-run this before releasing the key for `id`.
+    ///
+    /// Messages are encrypted under IDs made of the chat's object ID followed
+    /// by a random nonce, so a key is only released for IDs in this chat and
+    /// only to its two participants.
+    entry fun seal_approve(id: vector<u8>, chat: &Chat, ctx: &tx_context::TxContext) {
+        let chat_bytes = object::uid_to_bytes(&chat.id);
+        assert!(has_prefix(&id, &chat_bytes), E_NO_ACCESS);
+        assert!(is_participant(chat, tx_context::sender(ctx)), E_NO_ACCESS);
+    }
+
     // ===== Query Functions =====
 
     /// Returns all messages in a chat with proper filtering
@@ -396,6 +426,12 @@ module suits::messaging {
         }
     }
 
+    #[test_only]
+    /// `seal_approve` is entry-only, so tests reach it through this
+    public fun seal_approve_for_testing(id: vector<u8>, chat: &Chat, ctx: &tx_context::TxContext) {
+        seal_approve(id, chat, ctx);
+    }
+
     #[test_only]
     /// Initialize registry for testing
     public fun init_for_testing(ctx: &mut tx_context::TxContext) {
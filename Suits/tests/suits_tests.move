@@ -11,6 +11,7 @@ module suits::suits_tests {
     use suits::interactions::{Self, Like, Comment, InteractionRegistry};
     use suits::tipping::{Self, TipBalance, TipBalanceRegistry};
     use suits::messaging::{Self, Chat, ChatRegistry};
+    use suits::follows::{Self, FollowRegistry};
 
     // Test addresses
     const ADMIN: address = @0xAD;
@@ -647,4 +648,178 @@ module suits::suits_tests {
         clock::destroy_for_testing(clock);
         ts::end(scenario);
     }
+
+    #[test]
+    fun test_seal_approve_for_participant() {
+        let mut scenario = ts::begin(ALICE);
+        let clock = clock::create_for_testing(ts::ctx(&mut scenario));
+        
+        // Initialize messaging module
+        {
+            ts::next_tx(&mut scenario, ADMIN);
+            messaging::init_for_testing(ts::ctx(&mut scenario));
+        };
+        
+        // Alice starts a chat with Bob
+        {
+            ts::next_tx(&mut scenario, ALICE);
+            let mut registry = ts::take_shared<ChatRegistry>(&scenario);
+            
+            messaging::start_chat(BOB, &mut registry, &clock, ts::ctx(&mut scenario));
+            
+            ts::return_shared(registry);
+        };
+        
+        // Bob may read keys for an ID under the chat's object ID
+        {
+            ts::next_tx(&mut scenario, BOB);
+            let chat = ts::take_shared<Chat>(&scenario);
+            
+            let mut id = object::id_to_bytes(&object::id(&chat));
+            std::vector::append(&mut id, b"nonce");
+            messaging::seal_approve_for_testing(id, &chat, ts::ctx(&mut scenario));
+            
+            ts::return_shared(chat);
+        };
+        
+        clock::destroy_for_testing(clock);
+        ts::end(scenario);
+    }
+
+    #[test]
+    #[expected_failure(abort_code = messaging::E_NO_ACCESS)]
+    fun test_seal_approve_for_outsider_fails() {
+        let mut scenario = ts::begin(ALICE);
+        let clock = clock::create_for_testing(ts::ctx(&mut scenario));
+        
+        // Initialize messaging module
+        {
+            ts::next_tx(&mut scenario, ADMIN);
+            messaging::init_for_testing(ts::ctx(&mut scenario));
+        };
+        
+        // Alice starts a chat with Bob
+        {
+            ts::next_tx(&mut scenario, ALICE);
+            let mut registry = ts::take_shared<ChatRegistry>(&scenario);
+            
+            messaging::start_chat(BOB, &mut registry, &clock, ts::ctx(&mut scenario));
+            
+            ts::return_shared(registry);
+        };
+        
+        // The admin isn't in the chat - should fail
+        {
+            ts::next_tx(&mut scenario, ADMIN);
+            let chat = ts::take_shared<Chat>(&scenario);
+            
+            let id = object::id_to_bytes(&object::id(&chat));
+            messaging::seal_approve_for_testing(id, &chat, ts::ctx(&mut scenario));
+            
+            ts::return_shared(chat);
+        };
+        
+        clock::destroy_for_testing(clock);
+        ts::end(scenario);
+    }
+
+    // ===== Follows Module Tests =====
+
+    #[test]
+    fun test_follow_and_unfollow() {
+        let mut scenario = ts::begin(ALICE);
+        let clock = clock::create_for_testing(ts::ctx(&mut scenario));
+        
+        // Initialize follows module
+        {
+            ts::next_tx(&mut scenario, ADMIN);
+            follows::init_for_testing(ts::ctx(&mut scenario));
+        };
+        
+        // Alice follows Bob
+        {
+            ts::next_tx(&mut scenario, ALICE);
+            let mut registry = ts::take_shared<FollowRegistry>(&scenario);
+            
+            follows::follow(&mut registry, BOB, &clock, ts::ctx(&mut scenario));
+            
+            // Verify the edge and both counts
+            assert!(follows::is_following(&registry, ALICE, BOB), 0);
+            assert!(!follows::is_following(&registry, BOB, ALICE), 1);
+            assert!(follows::get_followers_count(&registry, BOB) == 1, 2);
+            assert!(follows::get_following_count(&registry, ALICE) == 1, 3);
+            
+            ts::return_shared(registry);
+        };
+        
+        // Alice unfollows Bob
+        {
+            ts::next_tx(&mut scenario, ALICE);
+            let mut registry = ts::take_shared<FollowRegistry>(&scenario);
+            
+            follows::unfollow(&mut registry, BOB, &clock, ts::ctx(&mut scenario));
+            
+            assert!(!follows::is_following(&registry, ALICE, BOB), 0);
+            assert!(follows::get_followers_count(&registry, BOB) == 0, 1);
+            assert!(follows::get_following_count(&registry, ALICE) == 0, 2);
+            
+            ts::return_shared(registry);
+        };
+        
+        clock::destroy_for_testing(clock);
+        ts::end(scenario);
+    }
+
+    #[test]
+    #[expected_failure(abort_code = follows::E_ALREADY_FOLLOWING)]
+    fun test_follow_twice_fails() {
+        let mut scenario = ts::begin(ALICE);
+        let clock = clock::create_for_testing(ts::ctx(&mut scenario));
+        
+        // Initialize follows module
+        {
+            ts::next_tx(&mut scenario, ADMIN);
+            follows::init_for_testing(ts::ctx(&mut scenario));
+        };
+        
+        // Alice follows Bob twice - should fail
+        {
+            ts::next_tx(&mut scenario, ALICE);
+            let mut registry = ts::take_shared<FollowRegistry>(&scenario);
+            
+            follows::follow(&mut registry, BOB, &clock, ts::ctx(&mut scenario));
+            follows::follow(&mut registry, BOB, &clock, ts::ctx(&mut scenario));
+            
+            ts::return_shared(registry);
+        };
+        
+        clock::destroy_for_testing(clock);
+        ts::end(scenario);
+    }
+
+    #[test]
+    #[expected_failure(abort_code = follows::E_CANNOT_FOLLOW_SELF)]
+    fun test_follow_self_fails() {
+        let mut scenario = ts::begin(ALICE);
+        let clock = clock::create_for_testing(ts::ctx(&mut scenario));
+        
+        // Initialize follows module
+        {
+            ts::next_tx(&mut scenario, ADMIN);
+            follows::init_for_testing(ts::ctx(&mut scenario));
+        };
+        
+        // Alice tries to follow herself - should fail
+        {
+            ts::next_tx(&mut scenario, ALICE);
+            let mut registry = ts::take_shared<FollowRegistry>(&scenario);
+            
+            follows::follow(&mut registry, ALICE, &clock, ts::ctx(&mut scenario));
+            
+            ts::return_shared(registry);
+        };
+        
+        clock::destroy_for_testing(clock);
+        ts::end(scenario);
+    }
 }
@@ -0,0 +1,15 @@
+import { getFullnodeUrl } from "@mysten/sui/client";
+
+// All settings come from the environment so the same build can tail a
+// localnet, testnet, or replay a recorded fixture.
+const CONFIG = {
+  SUI_RPC_URL: process.env.SUI_RPC_URL || getFullnodeUrl("localnet"),
+  PACKAGE_ID: process.env.PACKAGE_ID || "",
+  DB_PATH: process.env.DB_PATH || "suitter-index.db",
+  PORT: Number(process.env.PORT || 4000),
+  POLL_INTERVAL_MS: Number(process.env.POLL_INTERVAL_MS || 2000),
+  /** Path to a JSON array of recorded events; replaces the RPC tailer */
+  FIXTURE: process.env.FIXTURE || "",
+};
+
+export default CONFIG;
@@ -0,0 +1,618 @@
+import Database from "better-sqlite3";
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS suits (
+    suit_id TEXT PRIMARY KEY,
+    -- Index into SuitRegistry.suit_ids; create_suit pushes in event order
+    position INTEGER NOT NULL UNIQUE,
+    creator TEXT NOT NULL,
+    content_preview TEXT NOT NULL,
+    created_at INTEGER NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS suits_by_creator ON suits (creator, position);
+
+  CREATE TABLE IF NOT EXISTS likes (
+    like_id TEXT PRIMARY KEY,
+    suit_id TEXT NOT NULL,
+    liker TEXT NOT NULL,
+    created_at INTEGER NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS likes_by_suit ON likes (suit_id);
+  CREATE INDEX IF NOT EXISTS likes_by_liker ON likes (liker);
+
+  -- LikeRemoved, kept apart from likes since the two are tailed separately
+  -- and a removal can arrive before its like
+  CREATE TABLE IF NOT EXISTS like_removals (
+    like_id TEXT PRIMARY KEY
+  );
+
+  CREATE TABLE IF NOT EXISTS comments (
+    comment_id TEXT PRIMARY KEY,
+    suit_id TEXT NOT NULL,
+    commenter TEXT NOT NULL,
+    created_at INTEGER NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS comments_by_suit ON comments (suit_id, created_at);
+
+  CREATE TABLE IF NOT EXISTS retweets (
+    retweet_id TEXT PRIMARY KEY,
+    suit_id TEXT NOT NULL,
+    retweeter TEXT NOT NULL,
+    created_at INTEGER NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS retweets_by_suit ON retweets (suit_id);
+  CREATE INDEX IF NOT EXISTS retweets_by_retweeter ON retweets (retweeter);
+
+  CREATE TABLE IF NOT EXISTS retweet_removals (
+    retweet_id TEXT PRIMARY KEY
+  );
+
+  -- TipSent has no object of its own, so the event id is the key
+  CREATE TABLE IF NOT EXISTS tips (
+    event_id TEXT PRIMARY KEY,
+    suit_id TEXT NOT NULL,
+    tipper TEXT NOT NULL,
+    recipient TEXT NOT NULL,
+    amount TEXT NOT NULL,
+    created_at INTEGER NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS tips_by_suit ON tips (suit_id);
+  CREATE INDEX IF NOT EXISTS tips_by_recipient ON tips (recipient, created_at);
+
+  CREATE TABLE IF NOT EXISTS withdrawals (
+    event_id TEXT PRIMARY KEY,
+    owner TEXT NOT NULL,
+    amount TEXT NOT NULL,
+    created_at INTEGER NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS withdrawals_by_owner
+    ON withdrawals (owner, created_at);
+
+  CREATE TABLE IF NOT EXISTS chats (
+    chat_id TEXT PRIMARY KEY,
+    participant_1 TEXT NOT NULL,
+    participant_2 TEXT NOT NULL,
+    created_at INTEGER NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS chats_by_participant_1 ON chats (participant_1);
+  CREATE INDEX IF NOT EXISTS chats_by_participant_2 ON chats (participant_2);
+
+  CREATE TABLE IF NOT EXISTS messages (
+    chat_id TEXT NOT NULL,
+    message_index INTEGER NOT NULL,
+    sender TEXT NOT NULL,
+    receiver TEXT NOT NULL,
+    created_at INTEGER NOT NULL,
+    PRIMARY KEY (chat_id, message_index)
+  );
+
+  -- MessageRead, kept apart from messages since the two are tailed
+  -- separately and a read can arrive before its message
+  CREATE TABLE IF NOT EXISTS message_reads (
+    chat_id TEXT NOT NULL,
+    message_index INTEGER NOT NULL,
+    reader TEXT NOT NULL,
+    read_at INTEGER NOT NULL,
+    PRIMARY KEY (chat_id, message_index)
+  );
+
+  CREATE TABLE IF NOT EXISTS profiles (
+    profile_id TEXT PRIMARY KEY,
+    owner TEXT NOT NULL,
+    username TEXT NOT NULL,
+    created_at INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS profiles_by_owner ON profiles (owner);
+
+  -- One row per pair that ever followed. Followed and Unfollowed are tailed
+  -- separately, so whichever happened last decides whether it's live
+  CREATE TABLE IF NOT EXISTS follows (
+    follower TEXT NOT NULL,
+    followee TEXT NOT NULL,
+    followed_at INTEGER NOT NULL DEFAULT 0,
+    unfollowed_at INTEGER NOT NULL DEFAULT 0,
+    PRIMARY KEY (follower, followee)
+  );
+  CREATE INDEX IF NOT EXISTS follows_by_followee ON follows (followee);
+
+  -- Last event consumed per event type, so restarts resume where they stopped
+  CREATE TABLE IF NOT EXISTS cursors (
+    event_type TEXT PRIMARY KEY,
+    tx_digest TEXT NOT NULL,
+    event_seq TEXT NOT NULL
+  );
+`;
+
+// ===== Row Types =====
+
+export interface SuitRow {
+  suitId: string;
+  position: number;
+  creator: string;
+  contentPreview: string;
+  createdAt: number;
+}
+
+export interface LikeRow {
+  likeId: string;
+  suitId: string;
+  liker: string;
+  createdAt: number;
+}
+
+export interface CommentRow {
+  commentId: string;
+  suitId: string;
+  commenter: string;
+  createdAt: number;
+}
+
+export interface RetweetRow {
+  retweetId: string;
+  suitId: string;
+  retweeter: string;
+  createdAt: number;
+}
+
+export interface TipRow {
+  eventId: string;
+  suitId: string;
+  tipper: string;
+  recipient: string;
+  /** u64 MIST amount, kept as a string like the RPC returns it */
+  amount: string;
+  createdAt: number;
+}
+
+export interface WithdrawalRow {
+  eventId: string;
+  owner: string;
+  /** u64 MIST amount, kept as a string like the RPC returns it */
+  amount: string;
+  createdAt: number;
+}
+
+export interface ChatRow {
+  chatId: string;
+  participant1: string;
+  participant2: string;
+  createdAt: number;
+}
+
+export interface MessageRow {
+  chatId: string;
+  messageIndex: number;
+  sender: string;
+  receiver: string;
+  createdAt: number;
+}
+
+export interface MessageReadRow {
+  chatId: string;
+  messageIndex: number;
+  reader: string;
+  readAt: number;
+}
+
+/** A message with when it was read, if it has been */
+export interface MessageWithReadRow extends MessageRow {
+  readAt: number | null;
+}
+
+export interface ProfileRow {
+  profileId: string;
+  owner: string;
+  username: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface FollowRow {
+  follower: string;
+  followee: string;
+  followedAt: number;
+}
+
+export interface EventCursor {
+  txDigest: string;
+  eventSeq: string;
+}
+
+/**
+ * SQLite-backed store for indexed Suitter events. Every write is
+ * idempotent, so replaying the same events (a fixture, or a tailer restart
+ * that overlaps its last page) leaves the index unchanged.
+ */
+export class IndexStore {
+  readonly db: Database.Database;
+
+  constructor(path: string) {
+    this.db = new Database(path);
+    this.db.pragma("journal_mode = WAL");
+    this.db.exec(SCHEMA);
+  }
+
+  /** Run several writes atomically */
+  transaction<T>(fn: () => T): T {
+    return this.db.transaction(fn)();
+  }
+
+  // ===== Writes =====
+
+  insertSuit(suit: Omit<SuitRow, "position">) {
+    this.db
+      .prepare(
+        `INSERT OR IGNORE INTO suits
+           (suit_id, position, creator, content_preview, created_at)
+         VALUES (?, (SELECT COUNT(*) FROM suits), ?, ?, ?)`
+      )
+      .run(suit.suitId, suit.creator, suit.contentPreview, suit.createdAt);
+  }
+
+  insertLike(like: LikeRow) {
+    this.db
+      .prepare(
+        `INSERT OR IGNORE INTO likes (like_id, suit_id, liker, created_at)
+         VALUES (?, ?, ?, ?)`
+      )
+      .run(like.likeId, like.suitId, like.liker, like.createdAt);
+  }
+
+  removeLike(likeId: string) {
+    this.db
+      .prepare(`INSERT OR IGNORE INTO like_removals (like_id) VALUES (?)`)
+      .run(likeId);
+  }
+
+  insertComment(comment: CommentRow) {
+    this.db
+      .prepare(
+        `INSERT OR IGNORE INTO comments
+           (comment_id, suit_id, commenter, created_at)
+         VALUES (?, ?, ?, ?)`
+      )
+      .run(
+        comment.commentId,
+        comment.suitId,
+        comment.commenter,
+        comment.createdAt
+      );
+  }
+
+  insertRetweet(retweet: RetweetRow) {
+    this.db
+      .prepare(
+        `INSERT OR IGNORE INTO retweets
+           (retweet_id, suit_id, retweeter, created_at)
+         VALUES (?, ?, ?, ?)`
+      )
+      .run(
+        retweet.retweetId,
+        retweet.suitId,
+        retweet.retweeter,
+        retweet.createdAt
+      );
+  }
+
+  removeRetweet(retweetId: string) {
+    this.db
+      .prepare(
+        `INSERT OR IGNORE INTO retweet_removals (retweet_id) VALUES (?)`
+      )
+      .run(retweetId);
+  }
+
+  insertTip(tip: TipRow) {
+    this.db
+      .prepare(
+        `INSERT OR IGNORE INTO tips
+           (event_id, suit_id, tipper, recipient, amount, created_at)
+         VALUES (?, ?, ?, ?, ?, ?)`
+      )
+      .run(
+        tip.eventId,
+        tip.suitId,
+        tip.tipper,
+        tip.recipient,
+        tip.amount,
+        tip.createdAt
+      );
+  }
+
+  insertWithdrawal(withdrawal: WithdrawalRow) {
+    this.db
+      .prepare(
+        `INSERT OR IGNORE INTO withdrawals (event_id, owner, amount, created_at)
+         VALUES (?, ?, ?, ?)`
+      )
+      .run(
+        withdrawal.eventId,
+        withdrawal.owner,
+        withdrawal.amount,
+        withdrawal.createdAt
+      );
+  }
+
+  insertChat(chat: ChatRow) {
+    this.db
+      .prepare(
+        `INSERT OR IGNORE INTO chats
+           (chat_id, participant_1, participant_2, created_at)
+         VALUES (?, ?, ?, ?)`
+      )
+      .run(chat.chatId, chat.participant1, chat.participant2, chat.createdAt);
+  }
+
+  insertMessage(message: MessageRow) {
+    this.db
+      .prepare(
+        `INSERT OR IGNORE INTO messages
+           (chat_id, message_index, sender, receiver, created_at)
+         VALUES (?, ?, ?, ?, ?)`
+      )
+      .run(
+        message.chatId,
+        message.messageIndex,
+        message.sender,
+        message.receiver,
+        message.createdAt
+      );
+  }
+
+  recordRead(read: MessageReadRow) {
+    this.db
+      .prepare(
+        `INSERT OR IGNORE INTO message_reads
+           (chat_id, message_index, reader, read_at)
+         VALUES (?, ?, ?, ?)`
+      )
+      .run(read.chatId, read.messageIndex, read.reader, read.readAt);
+  }
+
+  /**
+   * ProfileCreated carries the username; ProfileUpdated carries none, so a
+   * renamed profile keeps its old username here until it is re-read on chain
+   */
+  upsertProfile(profile: Omit<ProfileRow, "updatedAt">) {
+    this.db
+      .prepare(
+        `INSERT INTO profiles
+           (profile_id, owner, username, created_at, updated_at)
+         VALUES (?, ?, ?, ?, ?)
+         ON CONFLICT (profile_id) DO UPDATE SET username = excluded.username`
+      )
+      .run(
+        profile.profileId,
+        profile.owner,
+        profile.username,
+        profile.createdAt,
+        profile.createdAt
+      );
+  }
+
+  touchProfile(profileId: string, updatedAt: number) {
+    this.db
+      .prepare(
+        `UPDATE profiles SET updated_at = MAX(updated_at, ?)
+         WHERE profile_id = ?`
+      )
+      .run(updatedAt, profileId);
+  }
+
+  recordFollow(follower: string, followee: string, followedAt: number) {
+    this.db
+      .prepare(
+        `INSERT INTO follows (follower, followee, followed_at)
+         VALUES (?, ?, ?)
+         ON CONFLICT (follower, followee) DO UPDATE SET
+           followed_at = MAX(followed_at, excluded.followed_at)`
+      )
+      .run(follower, followee, followedAt);
+  }
+
+  recordUnfollow(follower: string, followee: string, unfollowedAt: number) {
+    this.db
+      .prepare(
+        `INSERT INTO follows (follower, followee, unfollowed_at)
+         VALUES (?, ?, ?)
+         ON CONFLICT (follower, followee) DO UPDATE SET
+           unfollowed_at = MAX(unfollowed_at, excluded.unfollowed_at)`
+      )
+      .run(follower, followee, unfollowedAt);
+  }
+
+  getCursor(eventType: string): EventCursor | null {
+    const row = this.db
+      .prepare(
+        `SELECT tx_digest AS txDigest, event_seq AS eventSeq
+         FROM cursors WHERE event_type = ?`
+      )
+      .get(eventType) as EventCursor | undefined;
+    return row ?? null;
+  }
+
+  setCursor(eventType: string, cursor: EventCursor) {
+    this.db
+      .prepare(
+        `INSERT INTO cursors (event_type, tx_digest, event_seq)
+         VALUES (?, ?, ?)
+         ON CONFLICT (event_type) DO UPDATE SET
+           tx_digest = excluded.tx_digest,
+           event_seq = excluded.event_seq`
+      )
+      .run(eventType, cursor.txDigest, cursor.eventSeq);
+  }
+
+  // ===== Queries =====
+
+  /** Total suits indexed, i.e. the registry length as far as we know */
+  countSuits(): number {
+    const row = this.db.prepare(`SELECT COUNT(*) AS n FROM suits`).get() as {
+      n: number;
+    };
+    return row.n;
+  }
+
+  /**
+   * Suits older than `before` (a registry position), newest first,
+   * optionally only those by `authors`
+   */
+  getSuits(options: {
+    authors?: string[];
+    before?: number;
+    limit: number;
+  }): SuitRow[] {
+    return this.db
+      .prepare(
+        `SELECT suit_id AS suitId, position, creator,
+                content_preview AS contentPreview, created_at AS createdAt
+         FROM suits
+         WHERE position < @before
+           AND (@authors IS NULL
+                OR creator IN (SELECT value FROM json_each(@authors)))
+         ORDER BY position DESC
+         LIMIT @limit`
+      )
+      .all({
+        before: options.before ?? Number.MAX_SAFE_INTEGER,
+        authors: options.authors ? JSON.stringify(options.authors) : null,
+        limit: options.limit,
+      }) as SuitRow[];
+  }
+
+  getComments(suitId: string): CommentRow[] {
+    return this.db
+      .prepare(
+        `SELECT comment_id AS commentId, suit_id AS suitId, commenter,
+                created_at AS createdAt
+         FROM comments WHERE suit_id = ? ORDER BY created_at DESC`
+      )
+      .all(suitId) as CommentRow[];
+  }
+
+  getLikes(suitId: string): LikeRow[] {
+    return this.db
+      .prepare(
+        `SELECT like_id AS likeId, suit_id AS suitId, liker,
+                created_at AS createdAt
+         FROM likes
+         WHERE suit_id = ?
+           AND like_id NOT IN (SELECT like_id FROM like_removals)
+         ORDER BY created_at DESC`
+      )
+      .all(suitId) as LikeRow[];
+  }
+
+  getRetweets(suitId: string): RetweetRow[] {
+    return this.db
+      .prepare(
+        `SELECT retweet_id AS retweetId, suit_id AS suitId, retweeter,
+                created_at AS createdAt
+         FROM retweets
+         WHERE suit_id = ?
+           AND retweet_id NOT IN (SELECT retweet_id FROM retweet_removals)
+         ORDER BY created_at DESC`
+      )
+      .all(suitId) as RetweetRow[];
+  }
+
+  getTips(filter: { suitId?: string; recipient?: string }): TipRow[] {
+    return this.db
+      .prepare(
+        `SELECT event_id AS eventId, suit_id AS suitId, tipper, recipient,
+                amount, created_at AS createdAt
+         FROM tips
+         WHERE (@suitId IS NULL OR suit_id = @suitId)
+           AND (@recipient IS NULL OR recipient = @recipient)
+         ORDER BY created_at DESC`
+      )
+      .all({
+        suitId: filter.suitId ?? null,
+        recipient: filter.recipient ?? null,
+      }) as TipRow[];
+  }
+
+  getWithdrawals(owner: string): WithdrawalRow[] {
+    return this.db
+      .prepare(
+        `SELECT event_id AS eventId, owner, amount, created_at AS createdAt
+         FROM withdrawals WHERE owner = ? ORDER BY created_at DESC`
+      )
+      .all(owner) as WithdrawalRow[];
+  }
+
+  getChats(participant: string): ChatRow[] {
+    return this.db
+      .prepare(
+        `SELECT chat_id AS chatId, participant_1 AS participant1,
+                participant_2 AS participant2, created_at AS createdAt
+         FROM chats
+         WHERE participant_1 = @participant OR participant_2 = @participant
+         ORDER BY created_at DESC`
+      )
+      .all({ participant }) as ChatRow[];
+  }
+
+  getMessages(chatId: string): MessageWithReadRow[] {
+    return this.db
+      .prepare(
+        `SELECT m.chat_id AS chatId, m.message_index AS messageIndex,
+                m.sender, m.receiver, m.created_at AS createdAt,
+                r.read_at AS readAt
+         FROM messages m
+         LEFT JOIN message_reads r
+           ON r.chat_id = m.chat_id AND r.message_index = m.message_index
+         WHERE m.chat_id = ? ORDER BY m.message_index`
+      )
+      .all(chatId) as MessageWithReadRow[];
+  }
+
+  /** Live follows by `follower` and/or of `followee`, newest first */
+  getFollows(filter: { follower?: string; followee?: string }): FollowRow[] {
+    return this.db
+      .prepare(
+        `SELECT follower, followee, followed_at AS followedAt
+         FROM follows
+         WHERE followed_at > unfollowed_at
+           AND (@follower IS NULL OR follower = @follower)
+           AND (@followee IS NULL OR followee = @followee)
+         ORDER BY followed_at DESC`
+      )
+      .all({
+        follower: filter.follower ?? null,
+        followee: filter.followee ?? null,
+      }) as FollowRow[];
+  }
+
+  getProfilesByOwner(owner: string): ProfileRow[] {
+    return this.db
+      .prepare(
+        `SELECT profile_id AS profileId, owner, username,
+                created_at AS createdAt, updated_at AS updatedAt
+         FROM profiles WHERE owner = ? ORDER BY created_at`
+      )
+      .all(owner) as ProfileRow[];
+  }
+
+  /** Case-insensitive match on username or owner address */
+  searchProfiles(query: string, limit: number): ProfileRow[] {
+    return this.db
+      .prepare(
+        `SELECT profile_id AS profileId, owner, username,
+                created_at AS createdAt, updated_at AS updatedAt
+         FROM profiles
+         WHERE username LIKE @pattern ESCAPE '\\' OR owner LIKE @pattern ESCAPE '\\'
+         ORDER BY updated_at DESC
+         LIMIT @limit`
+      )
+      .all({
+        pattern: `%${query.replace(/[\\%_]/g, "\\$&")}%`,
+        limit,
+      }) as ProfileRow[];
+  }
+
+  close() {
+    this.db.close();
+  }
+}
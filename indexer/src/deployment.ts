@@ -0,0 +1,62 @@
+import type { SuiObjectChange } from "@mysten/sui/client";
+
+/** Shared object each module's `init` creates, keyed by manifest field */
+export const REGISTRIES = {
+  SUIT_REGISTRY: "suits::SuitRegistry",
+  INTERACTION_REGISTRY: "interactions::InteractionRegistry",
+  USERNAME_REGISTRY: "profile::UsernameRegistry",
+  TIP_BALANCE_REGISTRY: "tipping::TipBalanceRegistry",
+  CHAT_REGISTRY: "messaging::ChatRegistry",
+  FOLLOW_REGISTRY: "follows::FollowRegistry",
+} as const;
+
+export type RegistryName = keyof typeof REGISTRIES;
+
+export const NETWORKS = ["localnet", "devnet", "testnet", "mainnet"] as const;
+
+export type Network = (typeof NETWORKS)[number];
+
+/** One network's entry in next-frontend/config/deployments.json */
+export type Deployment = {
+  PACKAGE_ID: string;
+  /** Absent for deployments recorded before the manifest existed */
+  PUBLISH_DIGEST?: string;
+} & Record<RegistryName, string>;
+
+export type DeploymentManifest = Partial<Record<Network, Deployment>>;
+
+/**
+ * Pick the package and its registries out of a publish transaction's object
+ * changes. Throws if the package or any registry is missing, so a partial
+ * manifest is never written.
+ */
+export function deploymentFromChanges(
+  digest: string,
+  changes: SuiObjectChange[]
+): Deployment {
+  const published = changes.find((change) => change.type === "published");
+  if (!published || published.type !== "published") {
+    throw new Error(`Transaction ${digest} did not publish a package`);
+  }
+  const packageId = published.packageId;
+
+  const deployment = {
+    PACKAGE_ID: packageId,
+    PUBLISH_DIGEST: digest,
+  } as Deployment;
+  for (const [name, struct] of Object.entries(REGISTRIES)) {
+    const objectType = `${packageId}::${struct}`;
+    const created = changes.find(
+      (change) =>
+        change.type === "created" &&
+        change.objectType === objectType &&
+        typeof change.owner === "object" &&
+        "Shared" in change.owner
+    );
+    if (!created || created.type !== "created") {
+      throw new Error(`No shared ${objectType} created by ${digest}`);
+    }
+    deployment[name as RegistryName] = created.objectId;
+  }
+  return deployment;
+}
@@ -0,0 +1,146 @@
+import type { SuiEvent } from "@mysten/sui/client";
+import type { IndexStore } from "./db.js";
+
+/** Event structs the indexer tails, as `module::Struct` */
+export const INDEXED_EVENTS = [
+  "suits::SuitCreated",
+  "interactions::LikeCreated",
+  "interactions::LikeRemoved",
+  "interactions::CommentCreated",
+  "interactions::RetweetCreated",
+  "interactions::RetweetRemoved",
+  "tipping::TipSent",
+  "tipping::FundsWithdrawn",
+  "messaging::ChatCreated",
+  "messaging::MessageSent",
+  "messaging::MessageRead",
+  "profile::ProfileCreated",
+  "profile::ProfileUpdated",
+  "follows::Followed",
+  "follows::Unfollowed",
+] as const;
+
+export type IndexedEvent = (typeof INDEXED_EVENTS)[number];
+
+/** `module::Struct` for a fully qualified event type, if it's one we index */
+export function indexedEventOf(type: string): IndexedEvent | null {
+  const name = type.split("::").slice(-2).join("::");
+  return (INDEXED_EVENTS as readonly string[]).includes(name)
+    ? (name as IndexedEvent)
+    : null;
+}
+
+const str = (value: unknown) => (value == null ? "" : String(value));
+const num = (value: unknown) => Number(value ?? 0);
+
+/**
+ * Write one event into the index. Returns false for events the indexer
+ * doesn't track. Field names follow the Move structs in Suits/sources.
+ */
+export function ingestEvent(store: IndexStore, event: SuiEvent): boolean {
+  const kind = indexedEventOf(event.type);
+  const p = (event.parsedJson ?? {}) as Record<string, unknown>;
+
+  switch (kind) {
+    case "suits::SuitCreated":
+      store.insertSuit({
+        suitId: str(p.suit_id),
+        creator: str(p.creator),
+        contentPreview: str(p.content_preview),
+        createdAt: num(p.timestamp),
+      });
+      return true;
+    case "interactions::LikeCreated":
+      store.insertLike({
+        likeId: str(p.like_id),
+        suitId: str(p.suit_id),
+        liker: str(p.liker),
+        createdAt: num(p.timestamp),
+      });
+      return true;
+    case "interactions::LikeRemoved":
+      store.removeLike(str(p.like_id));
+      return true;
+    case "interactions::CommentCreated":
+      store.insertComment({
+        commentId: str(p.comment_id),
+        suitId: str(p.suit_id),
+        commenter: str(p.commenter),
+        createdAt: num(p.timestamp),
+      });
+      return true;
+    case "interactions::RetweetCreated":
+      store.insertRetweet({
+        retweetId: str(p.retweet_id),
+        suitId: str(p.original_suit_id),
+        retweeter: str(p.retweeter),
+        createdAt: num(p.timestamp),
+      });
+      return true;
+    case "interactions::RetweetRemoved":
+      store.removeRetweet(str(p.retweet_id));
+      return true;
+    case "tipping::TipSent":
+      store.insertTip({
+        eventId: `${event.id.txDigest}:${event.id.eventSeq}`,
+        suitId: str(p.suit_id),
+        tipper: str(p.tipper),
+        recipient: str(p.recipient),
+        amount: str(p.amount),
+        createdAt: num(p.timestamp),
+      });
+      return true;
+    case "tipping::FundsWithdrawn":
+      store.insertWithdrawal({
+        eventId: `${event.id.txDigest}:${event.id.eventSeq}`,
+        owner: str(p.owner),
+        amount: str(p.amount),
+        createdAt: num(p.timestamp),
+      });
+      return true;
+    case "messaging::ChatCreated":
+      store.insertChat({
+        chatId: str(p.chat_id),
+        participant1: str(p.participant_1),
+        participant2: str(p.participant_2),
+        createdAt: num(p.timestamp),
+      });
+      return true;
+    case "messaging::MessageSent":
+      store.insertMessage({
+        chatId: str(p.chat_id),
+        messageIndex: num(p.message_index),
+        sender: str(p.sender),
+        receiver: str(p.receiver),
+        createdAt: num(p.timestamp),
+      });
+      return true;
+    case "messaging::MessageRead":
+      store.recordRead({
+        chatId: str(p.chat_id),
+        messageIndex: num(p.message_index),
+        reader: str(p.reader),
+        readAt: num(p.timestamp),
+      });
+      return true;
+    case "profile::ProfileCreated":
+      store.upsertProfile({
+        profileId: str(p.profile_id),
+        owner: str(p.owner),
+        username: str(p.username),
+        createdAt: num(p.timestamp),
+      });
+      return true;
+    case "profile::ProfileUpdated":
+      store.touchProfile(str(p.profile_id), num(p.timestamp));
+      return true;
+    case "follows::Followed":
+      store.recordFollow(str(p.follower), str(p.followee), num(p.timestamp));
+      return true;
+    case "follows::Unfollowed":
+      store.recordUnfollow(str(p.follower), str(p.followee), num(p.timestamp));
+      return true;
+    default:
+      return false;
+  }
+}
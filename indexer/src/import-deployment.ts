@@ -0,0 +1,98 @@
+import { readFile, writeFile } from "node:fs/promises";
+import { parseArgs } from "node:util";
+import {
+  SuiClient,
+  getFullnodeUrl,
+  type SuiTransactionBlockResponse,
+} from "@mysten/sui/client";
+import {
+  NETWORKS,
+  deploymentFromChanges,
+  type DeploymentManifest,
+  type Network,
+} from "./deployment.js";
+
+// Record a `sui client publish` of the Suits package in the frontend's
+// deployment manifest, from either the publish command's --json output or
+// the publish transaction's digest.
+//
+//   pnpm import-deployment --network testnet publish.json
+//   pnpm import-deployment --network localnet --digest <digest>
+
+const USAGE =
+  "Usage: import-deployment --network <localnet|devnet|testnet|mainnet> " +
+  "(<publish.json> | --digest <digest>) [--rpc <url>] [--out <manifest>]";
+
+const DEFAULT_MANIFEST = new URL(
+  "../../next-frontend/config/deployments.json",
+  import.meta.url
+);
+
+async function readPublishOutput(path: string) {
+  const text = await readFile(path, "utf8");
+  // The CLI can print build output ahead of the JSON
+  return JSON.parse(text.slice(text.indexOf("{"))) as SuiTransactionBlockResponse;
+}
+
+async function fetchPublishTransaction(url: string, digest: string) {
+  const suiClient = new SuiClient({ url });
+  return suiClient.getTransactionBlock({
+    digest,
+    options: { showObjectChanges: true },
+  });
+}
+
+async function readManifest(path: URL | string): Promise<DeploymentManifest> {
+  try {
+    return JSON.parse(await readFile(path, "utf8")) as DeploymentManifest;
+  } catch (e) {
+    if ((e as NodeJS.ErrnoException).code === "ENOENT") return {};
+    throw e;
+  }
+}
+
+async function main() {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      network: { type: "string" },
+      digest: { type: "string" },
+      rpc: { type: "string" },
+      out: { type: "string" },
+    },
+  });
+
+  const network = values.network as Network;
+  if (!NETWORKS.includes(network)) throw new Error(USAGE);
+  if (!values.digest === !positionals[0]) throw new Error(USAGE);
+
+  const response = values.digest
+    ? await fetchPublishTransaction(
+        values.rpc ?? getFullnodeUrl(network),
+        values.digest
+      )
+    : await readPublishOutput(positionals[0]);
+
+  if (response.effects && response.effects.status.status !== "success") {
+    throw new Error(
+      `Publish ${response.digest} failed: ${response.effects.status.error}`
+    );
+  }
+  const deployment = deploymentFromChanges(
+    response.digest,
+    response.objectChanges ?? []
+  );
+
+  const out = values.out ?? DEFAULT_MANIFEST;
+  const manifest = await readManifest(out);
+  manifest[network] = deployment;
+  await writeFile(out, JSON.stringify(manifest, null, 2) + "\n");
+
+  console.log(`Wrote ${network} deployment to ${out}`);
+  console.table(deployment);
+}
+
+main().catch((e) => {
+  console.error(e instanceof Error ? e.message : e);
+  process.exit(1);
+});
@@ -0,0 +1,46 @@
+import { SuiClient } from "@mysten/sui/client";
+import CONFIG from "./config.js";
+import { IndexStore } from "./db.js";
+import { createApi } from "./server.js";
+import { ingestFixture, tail } from "./sources.js";
+
+async function main() {
+  const store = new IndexStore(CONFIG.DB_PATH);
+  let stopTailing = () => {};
+
+  if (CONFIG.FIXTURE) {
+    const ingested = await ingestFixture(store, CONFIG.FIXTURE);
+    console.log(`Loaded ${ingested} events from ${CONFIG.FIXTURE}`);
+  } else {
+    if (!CONFIG.PACKAGE_ID) {
+      throw new Error("PACKAGE_ID is required unless FIXTURE is set");
+    }
+    const suiClient = new SuiClient({ url: CONFIG.SUI_RPC_URL });
+    console.log(`Tailing ${CONFIG.PACKAGE_ID} on ${CONFIG.SUI_RPC_URL}`);
+    stopTailing = tail(
+      store,
+      suiClient,
+      CONFIG.PACKAGE_ID,
+      CONFIG.POLL_INTERVAL_MS
+    );
+  }
+
+  const server = createApi(store).listen(CONFIG.PORT, () => {
+    console.log(`Suitter indexer listening on http://localhost:${CONFIG.PORT}`);
+  });
+
+  const shutdown = () => {
+    stopTailing();
+    server.close(() => {
+      store.close();
+      process.exit(0);
+    });
+  };
+  process.on("SIGINT", shutdown);
+  process.on("SIGTERM", shutdown);
+}
+
+main().catch((e) => {
+  console.error(e);
+  process.exit(1);
+});
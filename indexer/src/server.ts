@@ -0,0 +1,152 @@
+import { createServer, type ServerResponse } from "node:http";
+import type { IndexStore } from "./db.js";
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 100;
+
+class HttpError extends Error {
+  constructor(
+    readonly status: number,
+    message: string
+  ) {
+    super(message);
+  }
+}
+
+function send(res: ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, {
+    "Content-Type": "application/json",
+    "Access-Control-Allow-Origin": "*",
+  });
+  res.end(JSON.stringify(body));
+}
+
+function parseLimit(value: string | null) {
+  if (value === null) return DEFAULT_LIMIT;
+  const limit = Number(value);
+  if (!Number.isInteger(limit) || limit < 1) {
+    throw new HttpError(400, "limit must be a positive integer");
+  }
+  return Math.min(limit, MAX_LIMIT);
+}
+
+function parseCursor(value: string | null) {
+  if (value === null) return undefined;
+  const cursor = Number(value);
+  if (!Number.isInteger(cursor) || cursor < 0) {
+    throw new HttpError(400, "before must be a registry position");
+  }
+  return cursor;
+}
+
+function required(params: URLSearchParams, name: string) {
+  const value = params.get(name);
+  if (!value) throw new HttpError(400, `${name} is required`);
+  return value;
+}
+
+/**
+ * Read-only JSON API over the index. List responses are `{ data }`; the
+ * suits list adds registry-position cursors matching `fetchSuitPage`, and
+ * takes a comma-separated list of authors. Chat messages carry `readAt`
+ * once they have been read.
+ *
+ *   GET /health
+ *   GET /suits?author=&before=&limit=
+ *   GET /suits/:id/comments | /likes | /retweets | /tips
+ *   GET /tips?recipient=
+ *   GET /withdrawals?owner=
+ *   GET /chats?participant=
+ *   GET /chats/:id/messages
+ *   GET /profiles?owner=   or   /profiles?q=&limit=
+ *   GET /follows?follower=   or   /follows?followee=
+ */
+export function createApi(store: IndexStore) {
+  return createServer((req, res) => {
+    if (req.method === "OPTIONS") {
+      res.writeHead(204, {
+        "Access-Control-Allow-Origin": "*",
+        "Access-Control-Allow-Methods": "GET, OPTIONS",
+      });
+      res.end();
+      return;
+    }
+    if (req.method !== "GET") {
+      send(res, 405, { error: "Method not allowed" });
+      return;
+    }
+
+    try {
+      const url = new URL(req.url ?? "/", "http://localhost");
+      const params = url.searchParams;
+      const [resource, id, sub] = url.pathname.split("/").filter(Boolean);
+
+      if (resource === "health" && !id) {
+        send(res, 200, { ok: true, suits: store.countSuits() });
+      } else if (resource === "suits" && !id) {
+        const limit = parseLimit(params.get("limit"));
+        // Fetch one extra row to learn whether another page exists
+        const rows = store.getSuits({
+          authors: params.get("author")?.split(","),
+          before: parseCursor(params.get("before")),
+          limit: limit + 1,
+        });
+        const data = rows.slice(0, limit);
+        send(res, 200, {
+          data,
+          nextCursor:
+            rows.length > limit ? data[data.length - 1].position : null,
+          latestCursor: store.countSuits(),
+        });
+      } else if (resource === "suits" && id && sub === "comments") {
+        send(res, 200, { data: store.getComments(id) });
+      } else if (resource === "suits" && id && sub === "likes") {
+        send(res, 200, { data: store.getLikes(id) });
+      } else if (resource === "suits" && id && sub === "retweets") {
+        send(res, 200, { data: store.getRetweets(id) });
+      } else if (resource === "suits" && id && sub === "tips") {
+        send(res, 200, { data: store.getTips({ suitId: id }) });
+      } else if (resource === "tips" && !id) {
+        send(res, 200, {
+          data: store.getTips({ recipient: required(params, "recipient") }),
+        });
+      } else if (resource === "withdrawals" && !id) {
+        send(res, 200, {
+          data: store.getWithdrawals(required(params, "owner")),
+        });
+      } else if (resource === "chats" && !id) {
+        send(res, 200, {
+          data: store.getChats(required(params, "participant")),
+        });
+      } else if (resource === "chats" && id && sub === "messages") {
+        send(res, 200, { data: store.getMessages(id) });
+      } else if (resource === "follows" && !id) {
+        const follower = params.get("follower") ?? undefined;
+        const followee = params.get("followee") ?? undefined;
+        if (!follower && !followee) {
+          throw new HttpError(400, "follower or followee is required");
+        }
+        send(res, 200, { data: store.getFollows({ follower, followee }) });
+      } else if (resource === "profiles" && !id) {
+        const owner = params.get("owner");
+        send(res, 200, {
+          data: owner
+            ? store.getProfilesByOwner(owner)
+            : store.searchProfiles(
+                required(params, "q"),
+                parseLimit(params.get("limit"))
+              ),
+        });
+      } else {
+        send(res, 404, { error: "Not found" });
+      }
+    } catch (e) {
+      if (e instanceof HttpError) {
+        send(res, e.status, { error: e.message });
+      } else {
+        console.error("Request failed:", e);
+        send(res, 500, { error: "Internal error" });
+      }
+    }
+  });
+}
@@ -0,0 +1,87 @@
+import { readFile } from "node:fs/promises";
+import type { SuiClient, SuiEvent } from "@mysten/sui/client";
+import type { IndexStore } from "./db.js";
+import { INDEXED_EVENTS, ingestEvent } from "./events.js";
+
+const PAGE_SIZE = 50;
+
+/**
+ * Replay a recorded event fixture: a JSON array of `SuiEvent`s exactly as
+ * `suix_queryEvents` returns them. Events are applied in file order.
+ */
+export async function ingestFixture(store: IndexStore, path: string) {
+  const events = JSON.parse(await readFile(path, "utf8")) as SuiEvent[];
+  let ingested = 0;
+  store.transaction(() => {
+    for (const event of events) {
+      if (ingestEvent(store, event)) ingested++;
+    }
+  });
+  return ingested;
+}
+
+/**
+ * Pull every new event of each indexed type, one page at a time. Each page
+ * and its cursor are committed together, so a crash never skips events.
+ */
+export async function catchUp(
+  store: IndexStore,
+  suiClient: SuiClient,
+  packageId: string
+) {
+  let ingested = 0;
+  for (const name of INDEXED_EVENTS) {
+    const eventType = `${packageId}::${name}`;
+    let cursor = store.getCursor(eventType);
+    let hasNextPage = true;
+
+    while (hasNextPage) {
+      const page = await suiClient.queryEvents({
+        query: { MoveEventType: eventType },
+        cursor,
+        limit: PAGE_SIZE,
+        order: "ascending",
+      });
+
+      store.transaction(() => {
+        for (const event of page.data) {
+          if (ingestEvent(store, event)) ingested++;
+        }
+        if (page.nextCursor) {
+          store.setCursor(eventType, page.nextCursor);
+        }
+      });
+
+      cursor = page.nextCursor ?? cursor;
+      hasNextPage = page.hasNextPage && page.data.length > 0;
+    }
+  }
+  return ingested;
+}
+
+/** Keep calling `catchUp` until the returned stop function is called */
+export function tail(
+  store: IndexStore,
+  suiClient: SuiClient,
+  packageId: string,
+  intervalMs: number
+): () => void {
+  let stopped = false;
+  let timer: NodeJS.Timeout | undefined;
+
+  const tick = async () => {
+    try {
+      const ingested = await catchUp(store, suiClient, packageId);
+      if (ingested > 0) console.log(`Indexed ${ingested} events`);
+    } catch (e) {
+      console.error("Failed to tail events:", e);
+    }
+    if (!stopped) timer = setTimeout(tick, intervalMs);
+  };
+  void tick();
+
+  return () => {
+    stopped = true;
+    clearTimeout(timer);
+  };
+}
@@ -0,0 +1,121 @@
+import { X, Loader2, Trash2 } from "lucide-react";
+import { motion } from "framer-motion";
+import {
+  describeAction,
+  totalTipAmount,
+  type SuitterAction,
+} from "../services/composer";
+import { formatSui } from "@/lib/utils";
+
+interface BatchConfirmModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  actions: SuitterAction[];
+  onRemove?: (index: number) => void;
+  onConfirm: () => void;
+  isSubmitting: boolean;
+  error?: string | null;
+}
+
+/** The single confirm step for a batch: every queued action, one signature */
+export function BatchConfirmModal({
+  isOpen,
+  onClose,
+  actions,
+  onRemove,
+  onConfirm,
+  isSubmitting,
+  error,
+}: BatchConfirmModalProps) {
+  if (!isOpen) return null;
+
+  const tipTotal = totalTipAmount(actions);
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4"
+      onClick={(e) => e.stopPropagation()}
+    >
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95 }}
+        animate={{ opacity: 1, scale: 1 }}
+        exit={{ opacity: 0, scale: 0.95 }}
+        className="bg-background border border-border rounded-2xl shadow-lg max-w-md w-full"
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-border">
+          <h3 className="font-bold text-foreground">
+            Confirm {actions.length} {actions.length === 1 ? "action" : "actions"}
+          </h3>
+          <button
+            onClick={onClose}
+            disabled={isSubmitting}
+            className="p-1 hover:bg-muted rounded-full transition-colors"
+            aria-label="Close"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-4 space-y-4">
+          <ol className="space-y-2">
+            {actions.map((action, index) => (
+              <li
+                key={index}
+                className="flex items-center gap-3 px-3 py-2 bg-muted/50 rounded-lg"
+              >
+                <span className="text-xs text-muted-foreground w-4">
+                  {index + 1}
+                </span>
+                <span className="flex-1 text-sm text-foreground truncate">
+                  {describeAction(action)}
+                </span>
+                {onRemove && actions.length > 1 && (
+                  <button
+                    onClick={() => onRemove(index)}
+                    disabled={isSubmitting}
+                    className="p-1 hover:bg-muted rounded-full transition-colors text-muted-foreground"
+                    aria-label="Remove action"
+                  >
+                    <Trash2 size={14} />
+                  </button>
+                )}
+              </li>
+            ))}
+          </ol>
+
+          <p className="text-xs text-muted-foreground">
+            {tipTotal > 0 && `${formatSui(tipTotal)} SUI in tips plus gas. `}
+            Everything is sent as one transaction: your wallet asks once, and
+            either all of it goes through or none of it does.
+          </p>
+
+          {error && (
+            <div className="px-3 py-2 bg-red-500/10 border border-red-500/20 rounded-lg">
+              <p className="text-sm text-red-500">{error}</p>
+            </div>
+          )}
+
+          <div className="flex gap-2 pt-2">
+            <button
+              onClick={onClose}
+              disabled={isSubmitting}
+              className="flex-1 py-2 px-4 border border-border rounded-lg font-semibold hover:bg-muted/30 transition-colors disabled:opacity-50"
+            >
+              Back
+            </button>
+            <button
+              onClick={onConfirm}
+              disabled={isSubmitting || actions.length === 0}
+              className="flex-1 py-2 px-4 bg-foreground text-background rounded-lg font-semibold hover:opacity-90 transition-opacity disabled:opacity-50 flex items-center justify-center gap-2"
+            >
+              {isSubmitting && <Loader2 className="w-4 h-4 animate-spin" />}
+              {isSubmitting ? "Sending..." : "Confirm"}
+            </button>
+          </div>
+        </div>
+      </motion.div>
+    </div>
+  );
+}
@@ -2,17 +2,12 @@ import { useEffect, useState } from "react";
 import { X, Loader2, Send } from "lucide-react";
 import { motion, AnimatePresence } from "framer-motion";
 import { useInteractions } from "../hooks/useInteractions";
+import { useOptimisticInteractions } from "../hooks/useOptimisticInteractions";
+import { useSuitOverrides } from "../hooks/useSuitOverrides";
 import { useProfile } from "../hooks/useProfile";
 import { useCurrentAccount } from "@mysten/dapp-kit";
 import { formatTime, truncateAddress } from "@/lib/utils";
-
-interface Comment {
-  id: string;
-  suitId: string;
-  commenter: string;
-  content: string;
-  timestamp: number;
-}
+import type { Comment, Profile } from "../services/suitter";
 
 interface CommentsViewProps {
   isOpen: boolean;
@@ -35,14 +30,17 @@ export function CommentsView({
 }: CommentsViewProps) {
   const account = useCurrentAccount();
   const address = account?.address;
-  const { fetchComments, commentOnSuit, isCommenting } = useInteractions();
+  const { fetchComments } = useInteractions();
+  const { addComment } = useOptimisticInteractions();
+  const overrides = useSuitOverrides();
   const { fetchProfileByAddress } = useProfile();
   
   const [comments, setComments] = useState<Comment[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [newComment, setNewComment] = useState("");
-  const [error, setError] = useState("");
-  const [commentProfiles, setCommentProfiles] = useState<Record<string, any>>({});
+  const [commentProfiles, setCommentProfiles] = useState<
+    Record<string, Profile | null>
+  >({});
 
   // Fetch comments when modal opens
   useEffect(() => {
@@ -51,14 +49,14 @@ export function CommentsView({
     }
   }, [isOpen, suitId]);
 
-  const loadComments = async () => {
-    setIsLoading(true);
+  const loadComments = async (showSpinner = true) => {
+    if (showSpinner) setIsLoading(true);
     try {
       const fetchedComments = await fetchComments(suitId);
       setComments(fetchedComments);
 
       // Fetch profiles for commenters
-      const profiles: Record<string, any> = {};
+      const profiles: Record<string, Profile | null> = {};
       for (const comment of fetchedComments) {
         if (!profiles[comment.commenter]) {
           const profile = await fetchProfileByAddress(comment.commenter);
@@ -73,18 +71,22 @@ export function CommentsView({
     }
   };
 
+  // Pending comments sit above the loaded ones (newest first) until the
+  // transaction lands; a failure removes them and raises a toast
+  const pendingComments = overrides[suitId]?.pendingComments ?? [];
+  const shownComments = [...[...pendingComments].reverse(), ...comments];
+
   const handleSubmitComment = async () => {
-    if (!newComment.trim() || !address) return;
+    const content = newComment.trim();
+    if (!content || !address) return;
 
-    setError("");
-    try {
-      await commentOnSuit(suitId, newComment);
-      setNewComment("");
-      // Reload comments
-      await loadComments();
-    } catch (err: any) {
-      console.error("Failed to post comment:", err);
-      setError(err?.message || "Failed to post comment");
+    setNewComment("");
+    const digest = await addComment(suitId, content);
+    if (digest) {
+      await loadComments(false);
+    } else {
+      // Give the text back so it can be retried
+      setNewComment((current) => current || content);
     }
   };
 
@@ -148,21 +150,25 @@ export function CommentsView({
               <div className="flex items-center justify-center py-8">
                 <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
               </div>
-            ) : comments.length === 0 ? (
+            ) : shownComments.length === 0 ? (
               <div className="text-center py-8 text-muted-foreground">
                 <p>No comments yet</p>
                 <p className="text-sm mt-1">Be the first to comment!</p>
               </div>
             ) : (
               <div className="space-y-4">
-                {comments.map((comment) => {
+                {shownComments.map((comment) => {
+                  const isPending = comment.id.startsWith("pending:");
                   const profile = commentProfiles[comment.commenter];
                   const displayName = profile?.username || truncateAddress(comment.commenter);
                   const displayHandle = profile?.username || truncateAddress(comment.commenter);
                   const avatar = profile?.pfpUrl || displayName.slice(0, 2).toUpperCase();
 
                   return (
-                    <div key={comment.id} className="flex gap-3">
+                    <div
+                      key={comment.id}
+                      className={`flex gap-3 ${isPending ? "opacity-60" : ""}`}
+                    >
                       <div className="w-10 h-10 bg-muted rounded-full flex items-center justify-center text-sm font-bold shrink-0 overflow-hidden">
                         {profile?.pfpUrl ? (
                           <img
@@ -183,7 +189,7 @@ export function CommentsView({
                             @{displayHandle}
                           </span>
                           <span className="text-muted-foreground text-xs">
-                            · {formatTime(comment.timestamp)}
+                            · {isPending ? "Sending..." : formatTime(comment.createdAt)}
                           </span>
                         </div>
                         <p className="text-foreground mt-1 text-sm">
@@ -200,13 +206,6 @@ export function CommentsView({
           {/* Comment Input */}
           {address ? (
             <div className="border-t border-border p-4">
-              {error && (
-                <div className="mb-3 px-3 py-2 bg-red-50 dark:bg-red-950/20 border border-red-200 dark:border-red-800 rounded-lg">
-                  <p className="text-sm text-red-600 dark:text-red-400">
-                    {error}
-                  </p>
-                </div>
-              )}
               <div className="flex gap-3">
                 <div className="w-10 h-10 bg-muted rounded-full flex items-center justify-center text-sm font-bold shrink-0">
                   {address.slice(0, 2).toUpperCase()}
@@ -224,18 +223,13 @@ export function CommentsView({
                     }}
                     placeholder="Write a comment..."
                     className="flex-1 px-4 py-2 bg-muted border border-border rounded-full focus:outline-none focus:ring-2 focus:ring-blue-500"
-                    disabled={isCommenting}
                   />
                   <button
                     onClick={handleSubmitComment}
-                    disabled={!newComment.trim() || isCommenting}
+                    disabled={!newComment.trim()}
                     className="px-4 py-2 bg-foreground text-background rounded-full font-semibold hover:bg-foreground/90 disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
                   >
-                    {isCommenting ? (
-                      <Loader2 className="w-4 h-4 animate-spin" />
-                    ) : (
-                      <Send size={16} />
-                    )}
+                    <Send size={16} />
                   </button>
                 </div>
               </div>
@@ -4,6 +4,8 @@ import { useCurrentAccount } from "@mysten/dapp-kit";
 import { useSuits } from "../hooks/useSuits";
 import { useWalrusUpload } from "../hooks/useWalrusUpload";
 import { useProfile } from "../hooks/useProfile";
+import type { Profile } from "../services/suitter";
+import { describeError } from "../services/errors";
 import { motion, AnimatePresence } from "framer-motion";
 import EmojiPicker, { EmojiClickData, Theme } from "emoji-picker-react";
 
@@ -27,7 +29,7 @@ export function ComposeModal({ isOpen, onClose }: ComposeModalProps) {
   const address = currentAccount?.address;
   const { postSuit, isPosting: _isPostingOnChain } = useSuits();
   const { uploadImage, isUploading } = useWalrusUpload();
-  const { fetchMyProfileFields } = useProfile();
+  const { fetchMyProfile } = useProfile();
   const [content, setContent] = useState("");
   const [isPosting, setIsPosting] = useState(false);
   const [error, setError] = useState("");
@@ -35,7 +37,7 @@ export function ComposeModal({ isOpen, onClose }: ComposeModalProps) {
   const [cursorPosition, setCursorPosition] = useState(0);
   const [selectedFiles, setSelectedFiles] = useState<File[]>([]);
   const [previewUrls, setPreviewUrls] = useState<string[]>([]);
-  const [userProfile, setUserProfile] = useState<any>(null);
+  const [userProfile, setUserProfile] = useState<Profile | null>(null);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
   const emojiPickerRef = useRef<HTMLDivElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
@@ -71,11 +73,11 @@ export function ComposeModal({ isOpen, onClose }: ComposeModalProps) {
   useEffect(() => {
     const loadUserProfile = async () => {
       if (!address || !isOpen) return;
-      const profile = await fetchMyProfileFields();
+      const profile = await fetchMyProfile();
       setUserProfile(profile);
     };
     loadUserProfile();
-  }, [address, isOpen, fetchMyProfileFields]);
+  }, [address, isOpen, fetchMyProfile]);
 
   const handleFileSelect = (
     event: React.ChangeEvent<HTMLInputElement>,
@@ -172,7 +174,7 @@ export function ComposeModal({ isOpen, onClose }: ComposeModalProps) {
       onClose();
     } catch (error) {
       console.error("Failed to post:", error);
-      setError("Failed to post. Please try again.");
+      setError(describeError(error, "Failed to post. Please try again."));
     } finally {
       setIsPosting(false);
     }
@@ -3,6 +3,7 @@ import { X, Image, Loader2 } from "lucide-react";
 import { AnimatePresence, motion } from "framer-motion";
 import { useWalrusUpload } from "../hooks/useWalrusUpload";
 import { useProfile } from "../hooks/useProfile";
+import { describeError } from "../services/errors";
 import { useCurrentAccount } from "@mysten/dapp-kit";
 
 interface CreateProfileModalProps {
@@ -73,8 +74,8 @@ export function CreateProfileModal({
       await createProfile(username.trim(), bio.trim(), pfpUrl);
       if (onCreated) onCreated();
       onClose();
-    } catch (e: any) {
-      setError(e?.message || "Failed to create profile");
+    } catch (e) {
+      setError(describeError(e, "Failed to create profile"));
     } finally {
       setIsSubmitting(false);
     }
@@ -0,0 +1,79 @@
+import { useEffect, useState } from "react";
+import { useSuiClient } from "@mysten/dapp-kit";
+import { AlertTriangle, X } from "lucide-react";
+import { useDeployment } from "../hooks/useDeployment";
+import { checkDeployment, type DeploymentIssue } from "../services/deployment";
+
+/**
+ * Checks the selected network's deployment once on startup and lists what
+ * is wrong with it, so a stale or mistyped ID shows up here rather than as
+ * failing reads all over the app.
+ */
+export function DeploymentBanner() {
+  const suiClient = useSuiClient();
+  const deployment = useDeployment();
+  const [issues, setIssues] = useState<DeploymentIssue[]>([]);
+  const [dismissed, setDismissed] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    checkDeployment(suiClient, deployment)
+      .then((found) => {
+        if (!cancelled) setIssues(found);
+      })
+      .catch((e) => {
+        console.error("Deployment check failed:", e);
+        if (!cancelled) {
+          setIssues([
+            {
+              name: "PACKAGE_ID",
+              id: deployment.PACKAGE_ID,
+              problem: `Couldn't reach ${deployment.RPC_URL}`,
+            },
+          ]);
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [suiClient, deployment]);
+
+  if (dismissed || issues.length === 0) return null;
+
+  return (
+    <div
+      role="alert"
+      className="px-4 py-3 bg-red-500/10 border-b border-red-500/20 text-sm"
+    >
+      <div className="flex items-start gap-3 max-w-4xl">
+        <AlertTriangle size={18} className="text-red-500 shrink-0 mt-0.5" />
+        <div className="flex-1 min-w-0">
+          <p className="font-semibold text-red-500">
+            The Suitter deployment on {deployment.network} looks wrong
+          </p>
+          <ul className="mt-1 space-y-0.5 text-muted-foreground">
+            {issues.map((issue) => (
+              <li key={issue.name} className="truncate">
+                <span className="font-mono text-foreground">{issue.name}</span>
+                {issue.id && <span className="font-mono"> {issue.id}</span>}
+                {": "}
+                {issue.problem}
+              </li>
+            ))}
+          </ul>
+          <p className="mt-1 text-xs text-muted-foreground">
+            Re-run <code>pnpm import-deployment</code> in <code>indexer/</code>{" "}
+            after publishing, or switch network in Settings.
+          </p>
+        </div>
+        <button
+          onClick={() => setDismissed(true)}
+          className="p-1 hover:bg-muted rounded-full transition-colors"
+          aria-label="Dismiss"
+        >
+          <X size={16} />
+        </button>
+      </div>
+    </div>
+  );
+}
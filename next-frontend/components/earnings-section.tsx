@@ -0,0 +1,295 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { ArrowDownToLine, Download, Loader2, PiggyBank } from "lucide-react";
+import { useTipping } from "../hooks/useTipping";
+import { useSuitterClient } from "../hooks/useSuitterClient";
+import type {
+  FundsWithdrawnEvent,
+  TipBalance,
+  TipSentEvent,
+} from "../services/suitter";
+import { describeError } from "../services/errors";
+import { downloadCsv, formatSui, formatTime, suiToMist } from "@/lib/utils";
+
+interface EarningsSectionProps {
+  address: string;
+}
+
+interface SuitEarnings {
+  suitId: string;
+  preview: string;
+  total: number;
+  tips: number;
+}
+
+export function EarningsSection({ address }: EarningsSectionProps) {
+  const client = useSuitterClient();
+  const {
+    fetchTipBalance,
+    fetchTipsReceived,
+    fetchWithdrawals,
+    createTipBalance,
+    withdrawFunds,
+    isCreatingBalance,
+    isWithdrawing,
+  } = useTipping();
+
+  const [balance, setBalance] = useState<TipBalance | null>(null);
+  const [tips, setTips] = useState<TipSentEvent[]>([]);
+  const [withdrawals, setWithdrawals] = useState<FundsWithdrawnEvent[]>([]);
+  const [previews, setPreviews] = useState<Record<string, string>>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const [amount, setAmount] = useState("");
+  const [error, setError] = useState("");
+
+  const loadEarnings = useCallback(async () => {
+    setIsLoading(true);
+    const [nextBalance, nextTips, nextWithdrawals] = await Promise.all([
+      fetchTipBalance(address),
+      fetchTipsReceived(address),
+      fetchWithdrawals(address),
+    ]);
+    setBalance(nextBalance);
+    setTips(nextTips);
+    setWithdrawals(nextWithdrawals);
+    setIsLoading(false);
+
+    const suitIds = [...new Set(nextTips.map((tip) => tip.suitId))];
+    try {
+      const suits = await client.getSuits(suitIds);
+      setPreviews(
+        Object.fromEntries(suits.map((suit) => [suit.id, suit.content]))
+      );
+    } catch (e) {
+      console.error("Failed to load tipped suits:", e);
+    }
+  }, [address, client, fetchTipBalance, fetchTipsReceived, fetchWithdrawals]);
+
+  useEffect(() => {
+    loadEarnings();
+  }, [loadEarnings]);
+
+  const bySuit = useMemo(() => {
+    const totals = new Map<string, SuitEarnings>();
+    for (const tip of tips) {
+      const entry = totals.get(tip.suitId) ?? {
+        suitId: tip.suitId,
+        preview: "",
+        total: 0,
+        tips: 0,
+      };
+      entry.total += tip.amount;
+      entry.tips += 1;
+      totals.set(tip.suitId, entry);
+    }
+    return [...totals.values()]
+      .map((entry) => ({ ...entry, preview: previews[entry.suitId] ?? "" }))
+      .sort((a, b) => b.total - a.total);
+  }, [tips, previews]);
+
+  const amountMist = suiToMist(amount);
+  const canWithdraw =
+    !!balance &&
+    amountMist > 0 &&
+    amountMist <= balance.balance &&
+    !isWithdrawing;
+
+  const handleWithdraw = async () => {
+    setError("");
+    try {
+      await withdrawFunds(amountMist);
+      setAmount("");
+      await loadEarnings();
+    } catch (e) {
+      setError(describeError(e, "Failed to withdraw funds"));
+    }
+  };
+
+  const handleCreateBalance = async () => {
+    setError("");
+    try {
+      await createTipBalance();
+      await loadEarnings();
+    } catch (e) {
+      setError(describeError(e, "Failed to create tip balance"));
+    }
+  };
+
+  const handleExport = () => {
+    downloadCsv(`suitter-withdrawals-${address.slice(0, 8)}.csv`, [
+      ["date", "amount_sui", "amount_mist", "tx_digest"],
+      ...withdrawals.map((withdrawal) => [
+        new Date(withdrawal.timestamp).toISOString(),
+        formatSui(withdrawal.amount, 9).replace(/,/g, ""),
+        withdrawal.amount,
+        withdrawal.txDigest,
+      ]),
+    ]);
+  };
+
+  if (isLoading) {
+    return (
+      <div className="p-4 border-b border-border">
+        <div className="h-32 bg-muted animate-pulse rounded-2xl" />
+      </div>
+    );
+  }
+
+  if (!balance) {
+    return (
+      <div className="p-4 border-b border-border">
+        <div className="border border-border rounded-2xl p-6 text-center">
+          <PiggyBank size={32} className="mx-auto mb-3 text-muted-foreground" />
+          <h3 className="font-bold text-foreground mb-1">Creator earnings</h3>
+          <p className="text-sm text-muted-foreground mb-4">
+            Open a tip balance so people can tip your suits.
+          </p>
+          <button
+            onClick={handleCreateBalance}
+            disabled={isCreatingBalance}
+            className="px-4 py-2 bg-foreground text-background rounded-lg font-semibold hover:opacity-90 transition-opacity disabled:opacity-50 inline-flex items-center gap-2"
+          >
+            {isCreatingBalance && <Loader2 className="w-4 h-4 animate-spin" />}
+            {isCreatingBalance ? "Creating..." : "Enable tips"}
+          </button>
+          {error && <p className="text-sm text-red-500 mt-3">{error}</p>}
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-4 border-b border-border space-y-4">
+      <div className="border border-border rounded-2xl p-4 space-y-4">
+        <div className="flex items-center gap-2">
+          <PiggyBank size={20} className="text-primary" />
+          <h3 className="font-bold text-foreground">Creator earnings</h3>
+        </div>
+
+        <div className="grid grid-cols-3 gap-2">
+          {[
+            ["Available", balance.balance],
+            ["Total received", balance.totalReceived],
+            ["Total withdrawn", balance.totalWithdrawn],
+          ].map(([label, value]) => (
+            <div key={label} className="bg-muted/50 rounded-lg p-3">
+              <p className="text-xs text-muted-foreground">{label}</p>
+              <p className="font-semibold">{formatSui(Number(value))} SUI</p>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex gap-2">
+          <div className="relative flex-1">
+            <input
+              type="number"
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              step="0.01"
+              min="0"
+              disabled={isWithdrawing || balance.balance === 0}
+              placeholder="Amount (SUI)"
+              className="w-full px-4 py-2 bg-muted border border-border rounded-lg text-foreground placeholder-muted-foreground focus:outline-none focus:border-foreground focus:ring-1 focus:ring-foreground/20 transition-all"
+            />
+            <button
+              onClick={() => setAmount(formatSui(balance.balance, 9).replace(/,/g, ""))}
+              disabled={isWithdrawing || balance.balance === 0}
+              className="absolute right-2 top-1/2 -translate-y-1/2 text-xs font-semibold text-primary hover:underline disabled:opacity-50"
+            >
+              Max
+            </button>
+          </div>
+          <button
+            onClick={handleWithdraw}
+            disabled={!canWithdraw}
+            className="px-4 py-2 bg-foreground text-background rounded-lg font-semibold hover:opacity-90 transition-opacity disabled:opacity-50 flex items-center gap-2"
+          >
+            {isWithdrawing ? (
+              <Loader2 className="w-4 h-4 animate-spin" />
+            ) : (
+              <ArrowDownToLine size={16} />
+            )}
+            {isWithdrawing ? "Withdrawing..." : "Withdraw"}
+          </button>
+        </div>
+        {amountMist > balance.balance && (
+          <p className="text-xs text-red-500">
+            You can withdraw at most {formatSui(balance.balance)} SUI
+          </p>
+        )}
+        {error && (
+          <div className="px-3 py-2 bg-red-500/10 border border-red-500/20 rounded-lg">
+            <p className="text-sm text-red-500">{error}</p>
+          </div>
+        )}
+      </div>
+
+      {/* Per-suit breakdown */}
+      <div className="border border-border rounded-2xl p-4">
+        <h4 className="font-semibold text-foreground mb-3">Tips by suit</h4>
+        {bySuit.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No tips yet.</p>
+        ) : (
+          <ul className="divide-y divide-border">
+            {bySuit.map((entry) => (
+              <li
+                key={entry.suitId}
+                className="flex items-center justify-between gap-4 py-2"
+              >
+                <div className="min-w-0">
+                  <p className="text-sm text-foreground truncate">
+                    {entry.preview || `Suit #${entry.suitId.slice(-4)}`}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {entry.tips} {entry.tips === 1 ? "tip" : "tips"}
+                  </p>
+                </div>
+                <p className="text-sm font-semibold whitespace-nowrap">
+                  {formatSui(entry.total)} SUI
+                </p>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {/* Withdrawal history */}
+      <div className="border border-border rounded-2xl p-4">
+        <div className="flex items-center justify-between mb-3">
+          <h4 className="font-semibold text-foreground">Withdrawals</h4>
+          <button
+            onClick={handleExport}
+            disabled={withdrawals.length === 0}
+            className="flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground transition-colors disabled:opacity-50"
+          >
+            <Download size={14} />
+            Export CSV
+          </button>
+        </div>
+        {withdrawals.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No withdrawals yet.</p>
+        ) : (
+          <ul className="divide-y divide-border">
+            {withdrawals.map((withdrawal) => (
+              <li
+                key={`${withdrawal.txDigest}-${withdrawal.timestamp}`}
+                className="flex items-center justify-between gap-4 py-2"
+              >
+                <div className="min-w-0">
+                  <p className="text-xs font-mono text-muted-foreground truncate">
+                    {withdrawal.txDigest}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {formatTime(withdrawal.timestamp)}
+                  </p>
+                </div>
+                <p className="text-sm font-semibold whitespace-nowrap">
+                  {formatSui(withdrawal.amount)} SUI
+                </p>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
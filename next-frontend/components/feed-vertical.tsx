@@ -1,6 +1,11 @@
-import { useState } from "react";
+import { useCallback, useEffect, useRef, useState } from "react";
 import { Heart, MessageCircle, Share, Bookmark } from "lucide-react";
-import { useSui } from "./sui-context";
+import { useCurrentAccount } from "@mysten/dapp-kit";
+import { useFollowingFeed } from "../hooks/useFollowingFeed";
+import { useProfile } from "../hooks/useProfile";
+import { useInfiniteScroll } from "../hooks/useInfiniteScroll";
+import type { Suit } from "../services/suitter";
+import { truncateAddress } from "@/lib/utils";
 
 interface VideoPost {
   id: string;
@@ -59,11 +64,89 @@ const SAMPLE_VIDEOS: VideoPost[] = [
   },
 ];
 
-export function FeedVertical() {
-  const { address: _address } = useSui();
-  const [videos, setVideos] = useState<VideoPost[]>(SAMPLE_VIDEOS);
+const PAGE_SIZE = 10;
+
+interface FeedVerticalProps {
+  /** Show suits by the accounts the wallet follows instead of the samples */
+  following?: boolean;
+}
+
+export function FeedVertical({ following = false }: FeedVerticalProps) {
+  const account = useCurrentAccount();
+  const address = account?.address ?? null;
+  const { fetchFollowingPage } = useFollowingFeed();
+  const { fetchProfileByAddress } = useProfile();
+  const [sampleVideos, setSampleVideos] = useState<VideoPost[]>(SAMPLE_VIDEOS);
+  const [followingVideos, setFollowingVideos] = useState<VideoPost[]>([]);
+  const [cursor, setCursor] = useState<number | null>(null);
+  const [hasMore, setHasMore] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  // Bumped on every reload so pages for a previous account are dropped
+  const requestRef = useRef(0);
   const [bookmarks, setBookmarks] = useState<Set<string>>(new Set());
 
+  const videos = following ? followingVideos : sampleVideos;
+  const setVideos = following ? setFollowingVideos : setSampleVideos;
+
+  const toPost = useCallback(
+    async (suit: Suit): Promise<VideoPost> => {
+      const profile = await fetchProfileByAddress(suit.creator);
+      const name = profile?.username || truncateAddress(suit.creator);
+      return {
+        id: suit.id,
+        author: name,
+        handle: name,
+        avatar: suit.creator.slice(-2).toUpperCase(),
+        content: suit.content,
+        videoUrl: suit.mediaUrls[0] ?? "",
+        timestamp: suit.createdAt,
+        likes: suit.likeCount,
+        replies: suit.commentCount,
+        reposts: suit.retweetCount,
+        liked: false,
+      };
+    },
+    [fetchProfileByAddress]
+  );
+
+  // Fetch a page of suits by followed accounts; a null cursor starts over
+  const loadFollowing = useCallback(
+    async (from: number | null) => {
+      const request =
+        from === null ? ++requestRef.current : requestRef.current;
+      setIsLoading(true);
+      try {
+        const page = await fetchFollowingPage(from, PAGE_SIZE);
+        if (request !== requestRef.current) return;
+        if (!page) {
+          setHasMore(false);
+          return;
+        }
+        const posts = await Promise.all(page.suits.map(toPost));
+        if (request !== requestRef.current) return;
+        setFollowingVideos((prev) => {
+          if (from === null) return posts;
+          const seen = new Set(prev.map((p) => p.id));
+          return [...prev, ...posts.filter((p) => !seen.has(p.id))];
+        });
+        setCursor(page.nextCursor);
+        setHasMore(page.nextCursor !== null);
+      } finally {
+        if (request === requestRef.current) setIsLoading(false);
+      }
+    },
+    [fetchFollowingPage, toPost]
+  );
+
+  useEffect(() => {
+    if (following) loadFollowing(null);
+  }, [following, address, loadFollowing]);
+
+  const sentinelRef = useInfiniteScroll(
+    () => loadFollowing(cursor),
+    following && hasMore && !isLoading
+  );
+
   const toggleLike = (id: string) => {
     setVideos(
       videos.map((video) =>
@@ -183,6 +266,20 @@ export function FeedVertical() {
             </div>
           </div>
         ))}
+        {following && (
+          <div
+            ref={sentinelRef}
+            className="py-6 text-center text-sm text-muted-foreground"
+          >
+            {isLoading
+              ? "Loading suits..."
+              : videos.length === 0
+              ? address
+                ? "Follow people to see their suits here."
+                : "Connect your wallet to see who you follow."
+              : null}
+          </div>
+        )}
       </div>
     </div>
   );
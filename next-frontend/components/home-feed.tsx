@@ -1,8 +1,19 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useCallback, useRef } from "react";
 import { useCurrentAccount } from "@mysten/dapp-kit";
 import { useSuits } from "../hooks/useSuits";
 import { useInteractions } from "../hooks/useInteractions";
+import { useOptimisticInteractions } from "../hooks/useOptimisticInteractions";
+import {
+  suitOverrides,
+  useSuitOverrides,
+  withOverride,
+} from "../hooks/useSuitOverrides";
 import { useProfile } from "../hooks/useProfile";
+import { useFollowingFeed } from "../hooks/useFollowingFeed";
+import { useBookmarks } from "../hooks/useBookmarks";
+import { useInfiniteScroll } from "../hooks/useInfiniteScroll";
+import type { Profile, Suit as OnChainSuit } from "../services/suitter";
+import { Link } from "react-router-dom";
 import { SuitCard } from "./suit-card";
 import { FeedVertical } from "./feed-vertical";
 import { ReplyModal } from "./reply-modal";
@@ -20,6 +31,7 @@ interface Suit {
   likes: number;
   replies: number;
   reposts: number;
+  tipTotal?: number;
   liked: boolean;
   reposted?: boolean;
   isNFT: boolean;
@@ -32,6 +44,10 @@ interface Suit {
   };
 }
 
+const PAGE_SIZE = 20;
+// How often the poll also re-reads loaded cards for their latest counts
+const COUNTS_REFRESH_MS = 10_000;
+
 interface HomeFeedProps {
   onCompose: () => void;
 }
@@ -101,192 +117,285 @@ const SAMPLE_SUITS: Suit[] = [
   },
 ];
 
-const FOLLOWING_SUITS: Suit[] = [
-  {
-    id: "f1",
-    author: "Sui Builder",
-    handle: "suibuilder",
-    avatar: "SB",
-    content:
-      "Just deployed my first dApp on Sui testnet! The developer experience is amazing. Gas fees are incredibly low compared to other chains.",
-    timestamp: Date.now() - 1 * 60 * 60 * 1000,
-    likes: 456,
-    replies: 89,
-    reposts: 123,
-    liked: false,
-    reposted: false,
-    isNFT: true,
-    nftValue: 0.4,
-    currentBid: 0.55,
-    isEncrypted: false,
-  },
-  {
-    id: "f2",
-    author: "NFT Collector",
-    handle: "nftcollector",
-    avatar: "NC",
-    content:
-      "My latest NFT collection on Sui is live! Each piece represents a unique moment in blockchain history. Check out the dynamic metadata updates.",
-    timestamp: Date.now() - 3 * 60 * 60 * 1000,
-    likes: 789,
-    replies: 234,
-    reposts: 456,
-    liked: true,
-    reposted: false,
-    isNFT: true,
-    nftValue: 1.2,
-    currentBid: 1.5,
-    isEncrypted: true,
-    media: {
-      type: "image",
-      url: "https://images.unsplash.com/photo-1620321023374-d1a68fbc720d?w=800&q=80",
-    },
-  },
-  {
-    id: "f3",
-    author: "DeFi Enthusiast",
-    handle: "defilife",
-    avatar: "DE",
-    content:
-      "Sui's parallel execution is a game changer for DeFi. No more waiting for transactions to process sequentially. The future is here!",
-    timestamp: Date.now() - 5 * 60 * 60 * 1000,
-    likes: 1024,
-    replies: 178,
-    reposts: 567,
-    liked: false,
-    reposted: true,
-    isNFT: true,
-    nftValue: 0.6,
-    currentBid: 0.8,
-    isEncrypted: false,
-  },
-  {
-    id: "f4",
-    author: "Move Developer",
-    handle: "movedev",
-    avatar: "MD",
-    content:
-      "Writing smart contracts in Move is such a pleasant experience. The safety guarantees and expressiveness make development faster and more secure.",
-    timestamp: Date.now() - 8 * 60 * 60 * 1000,
-    likes: 623,
-    replies: 145,
-    reposts: 289,
-    liked: true,
-    reposted: false,
-    isNFT: true,
-    nftValue: 0.35,
-    currentBid: 0.45,
-    isEncrypted: true,
-    media: {
-      type: "image",
-      url: "https://images.unsplash.com/photo-1555066931-4365d14bab8c?w=800&q=80",
-    },
-  },
-];
-
 export function HomeFeed({ onCompose }: HomeFeedProps) {
   const account = useCurrentAccount();
   const address = account?.address ?? null;
-  const { fetchSuits } = useSuits();
-  const {
-    likeSuit,
-    retweetSuit,
-    commentOnSuit,
-  } = useInteractions();
-  const { fetchProfileByAddress, fetchMyProfileFields } = useProfile();
-  const [forYouSuits, setForYouSuits] = useState<Suit[]>(SAMPLE_SUITS);
-  const [followingSuits, setFollowingSuits] = useState<Suit[]>(FOLLOWING_SUITS);
+  const { fetchSuitPage, fetchNewSuits, refreshSuits } = useSuits();
+  const { fetchInteractionState } = useInteractions();
+  const { toggleLike, toggleRepost, addComment } = useOptimisticInteractions();
+  const overrides = useSuitOverrides();
+  const { fetchProfileByAddress, fetchMyProfile } = useProfile();
+  const { fetchFollowingPage, suggestFollows } = useFollowingFeed();
+  const [forYouSuits] = useState<Suit[]>(SAMPLE_SUITS);
+  const [followingSuits, setFollowingSuits] = useState<Suit[]>([]);
+  const [followingCursor, setFollowingCursor] = useState<number | null>(null);
+  const [hasMoreFollowing, setHasMoreFollowing] = useState(false);
+  const [isLoadingFollowing, setIsLoadingFollowing] = useState(false);
+  const [followingFailed, setFollowingFailed] = useState(false);
+  // Null until the first page says whether the account follows anyone
+  const [followsAnyone, setFollowsAnyone] = useState<boolean | null>(null);
+  const [suggestions, setSuggestions] = useState<
+    { address: string; name: string }[]
+  >([]);
+  // Bumped on every reload so pages for a previous account are dropped
+  const followingRequestRef = useRef(0);
   const [onChainSuits, setOnChainSuits] = useState<Suit[]>([]);
   const [tab, setTab] = useState<"foryou" | "following" | "feed">("foryou");
-  const [bookmarks, setBookmarks] = useState<Set<string>>(new Set());
+  const { isBookmarked, toggle: toggleOnChainBookmark } = useBookmarks();
+  // Sample suits can't be read back from chain, so they aren't saved
+  const [sampleBookmarks, setSampleBookmarks] = useState<Set<string>>(
+    new Set()
+  );
   const [replyModalOpen, setReplyModalOpen] = useState(false);
   const [replyToSuit, setReplyToSuit] = useState<Suit | null>(null);
   const [commentsViewOpen, setCommentsViewOpen] = useState(false);
   const [commentsForSuit, setCommentsForSuit] = useState<Suit | null>(null);
-  const [userProfile, setUserProfile] = useState<any>(null);
+  const [userProfile, setUserProfile] = useState<Profile | null>(null);
+  const [nextCursor, setNextCursor] = useState<number | null>(null);
+  const [hasMore, setHasMore] = useState(true);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [loadFailed, setLoadFailed] = useState(false);
+  // Registry position of the newest suit shown; null until the first page
+  const latestCursorRef = useRef<number | null>(null);
+  const isPollingRef = useRef(false);
+  // On-chain cards in the open tab, and when their counts were last re-read
+  const loadedIdsRef = useRef<string[]>([]);
+  const countsRefreshedAtRef = useRef(Date.now());
 
   // Fetch user profile
   useEffect(() => {
     const loadUserProfile = async () => {
       if (!address) return;
-      const profile = await fetchMyProfileFields();
+      const profile = await fetchMyProfile();
       setUserProfile(profile);
     };
     loadUserProfile();
-  }, [address, fetchMyProfileFields]);
-
-  // Fetch on-chain suits on mount
-  useEffect(() => {
-    const loadSuits = async () => {
-      const suits = await fetchSuits(20, 0);
-
-      // Transform on-chain suits to component format
-      const transformedPromises = suits.map(async (suit: any) => {
-        const fields = suit?.content?.fields;
-        if (!fields) return null;
-
-        const creatorAddress = fields.creator || "";
-        let displayName = truncateAddress(creatorAddress || "Unknown");
-        let handleName = truncateAddress(creatorAddress || "unknown", 4, 4);
-
-        // Fetch profile for the creator
-        let avatarUrl = creatorAddress?.slice(-2).toUpperCase() || "??";
-        if (creatorAddress) {
-          const profile = await fetchProfileByAddress(creatorAddress);
-          if (profile) {
-            if (profile.username) {
-              displayName = profile.username;
-              handleName = profile.username;
-            }
-            if (profile.pfpUrl) {
-              avatarUrl = profile.pfpUrl;
+  }, [address, fetchMyProfile]);
+
+  // Transform on-chain suits to component format
+  const toCards = useCallback(
+    async (suits: OnChainSuit[]): Promise<Suit[]> => {
+      // The heart and repost icons toggle, so they need the real state
+      const interactions = address
+        ? await fetchInteractionState(address)
+        : null;
+
+      return Promise.all(
+        suits.map(async (suit) => {
+          const creatorAddress = suit.creator;
+          let displayName = truncateAddress(creatorAddress || "Unknown");
+          let handleName = truncateAddress(creatorAddress || "unknown", 4, 4);
+
+          // Fetch profile for the creator
+          let avatarUrl = creatorAddress?.slice(-2).toUpperCase() || "??";
+          if (creatorAddress) {
+            const profile = await fetchProfileByAddress(creatorAddress);
+            if (profile) {
+              if (profile.username) {
+                displayName = profile.username;
+                handleName = profile.username;
+              }
+              if (profile.pfpUrl) {
+                avatarUrl = profile.pfpUrl;
+              }
             }
           }
-        }
 
-        return {
-          id: suit.objectId,
-          author: displayName,
-          handle: handleName,
-          avatar: avatarUrl,
-          authorAddress: creatorAddress,
-          content: fields.content || "",
-          timestamp: parseInt(fields.created_at) || Date.now(),
-          likes: parseInt(fields.like_count) || 0,
-          replies: parseInt(fields.comment_count) || 0,
-          reposts: parseInt(fields.retweet_count) || 0,
-          liked: false,
-          reposted: false,
-          isNFT: true,
-          nftValue: 0,
-          currentBid: 0,
-          isEncrypted: false,
-          media:
-            fields.media_urls?.length > 0
-              ? {
-                  type: "image" as const,
-                  url: fields.media_urls[0],
-                }
-              : undefined,
-        };
-      });
+          return {
+            id: suit.id,
+            author: displayName,
+            handle: handleName,
+            avatar: avatarUrl,
+            authorAddress: creatorAddress,
+            content: suit.content,
+            timestamp: suit.createdAt || Date.now(),
+            likes: suit.likeCount,
+            replies: suit.commentCount,
+            reposts: suit.retweetCount,
+            tipTotal: suit.tipTotal,
+            liked: !!interactions?.liked[suit.id],
+            reposted: !!interactions?.reposted[suit.id],
+            isNFT: true,
+            nftValue: 0,
+            currentBid: 0,
+            isEncrypted: false,
+            media:
+              suit.mediaUrls.length > 0
+                ? {
+                    type: "image" as const,
+                    url: suit.mediaUrls[0],
+                  }
+                : undefined,
+          };
+        })
+      );
+    },
+    [address, fetchProfileByAddress, fetchInteractionState]
+  );
+
+  // Cursors are exact registry positions, so pages never overlap; the id
+  // check only guards against a page being applied twice
+  const mergeSuits = useCallback(
+    (incoming: Suit[], position: "start" | "end") =>
+      setOnChainSuits((prev) => {
+        const seen = new Set(prev.map((s) => s.id));
+        const fresh = incoming.filter((s) => !seen.has(s.id));
+        return position === "start"
+          ? [...fresh, ...prev]
+          : [...prev, ...fresh];
+      }),
+    []
+  );
+
+  // Load the next page of older suits
+  const loadMore = useCallback(async () => {
+    if (isLoadingMore || !hasMore) return;
+    setIsLoadingMore(true);
+    try {
+      const page = await fetchSuitPage(nextCursor, PAGE_SIZE);
+      if (!page) {
+        setLoadFailed(true);
+        return;
+      }
+      setLoadFailed(false);
+      if (latestCursorRef.current === null) {
+        latestCursorRef.current = page.latestCursor;
+      }
+      mergeSuits(await toCards(page.suits), "end");
+      setNextCursor(page.nextCursor);
+      setHasMore(page.nextCursor !== null);
+    } finally {
+      setIsLoadingMore(false);
+    }
+  }, [isLoadingMore, hasMore, nextCursor, fetchSuitPage, toCards, mergeSuits]);
+
+  const sentinelRef = useInfiniteScroll(
+    loadMore,
+    tab === "foryou" && hasMore && !isLoadingMore && !loadFailed
+  );
+
+  // Fetch a page of suits by followed accounts; a null cursor starts over
+  const loadFollowing = useCallback(
+    async (cursor: number | null) => {
+      const request =
+        cursor === null
+          ? ++followingRequestRef.current
+          : followingRequestRef.current;
+      setIsLoadingFollowing(true);
+      try {
+        const page = await fetchFollowingPage(cursor, PAGE_SIZE);
+        if (request !== followingRequestRef.current) return;
+        if (!page) {
+          setFollowingFailed(true);
+          return;
+        }
+        setFollowingFailed(false);
+
+        const cards = await toCards(page.suits);
+        if (request !== followingRequestRef.current) return;
+        setFollowingSuits((prev) => {
+          if (cursor === null) return cards;
+          const seen = new Set(prev.map((s) => s.id));
+          return [...prev, ...cards.filter((c) => !seen.has(c.id))];
+        });
+        setFollowingCursor(page.nextCursor);
+        setHasMoreFollowing(page.nextCursor !== null);
+        setFollowsAnyone(page.following.length > 0);
+      } finally {
+        if (request === followingRequestRef.current) {
+          setIsLoadingFollowing(false);
+        }
+      }
+    },
+    [fetchFollowingPage, toCards]
+  );
 
-      const transformed = (await Promise.all(transformedPromises)).filter(
-        Boolean
-      ) as Suit[];
+  // Reload whenever the tab is opened, so follows made elsewhere show up
+  useEffect(() => {
+    if (tab !== "following") return;
+    setFollowingSuits([]);
+    setFollowsAnyone(null);
+    loadFollowing(null);
+  }, [tab, address, loadFollowing]);
+
+  const followingSentinelRef = useInfiniteScroll(
+    () => loadFollowing(followingCursor),
+    tab === "following" &&
+      hasMoreFollowing &&
+      !isLoadingFollowing &&
+      !followingFailed
+  );
 
-      setOnChainSuits(transformed);
+  // With nobody followed, suggest recent authors to start with
+  useEffect(() => {
+    if (!address || followsAnyone !== false) return;
+    let cancelled = false;
+    (async () => {
+      const addresses = await suggestFollows();
+      const named = await Promise.all(
+        addresses.map(async (suggested) => {
+          const profile = await fetchProfileByAddress(suggested);
+          return {
+            address: suggested,
+            name: profile?.username || truncateAddress(suggested),
+          };
+        })
+      );
+      if (!cancelled) setSuggestions(named);
+    })();
+    return () => {
+      cancelled = true;
     };
+  }, [address, followsAnyone, suggestFollows, fetchProfileByAddress]);
 
-    const intervalId = setInterval(() => {
-      loadSuits();
+  // Poll for suits posted since the first page and put them on top. Cards
+  // already loaded are re-read now and then, so their counts keep up with
+  // everyone else's likes, reposts and comments.
+  useEffect(() => {
+    const intervalId = setInterval(async () => {
+      const since = latestCursorRef.current;
+      if (since === null || isPollingRef.current) return;
+      isPollingRef.current = true;
+      try {
+        const page = await fetchNewSuits(since);
+        latestCursorRef.current = page.latestCursor;
+        if (page.suits.length > 0) {
+          mergeSuits(await toCards(page.suits), "start");
+        }
+        if (Date.now() - countsRefreshedAtRef.current >= COUNTS_REFRESH_MS) {
+          countsRefreshedAtRef.current = Date.now();
+          await refreshSuits(loadedIdsRef.current);
+        }
+      } finally {
+        isPollingRef.current = false;
+      }
     }, 2000);
 
     // Cleanup interval on unmount
     return () => clearInterval(intervalId);
+  }, [fetchNewSuits, refreshSuits, toCards, mergeSuits]);
 
-    // loadSuits();
-  }, [fetchSuits, fetchProfileByAddress]);
+  // Cards keep the flags of whoever was connected when they loaded, so
+  // re-read them when the wallet changes
+  const flagsOwnerRef = useRef(address);
+  useEffect(() => {
+    if (flagsOwnerRef.current === address) return;
+    flagsOwnerRef.current = address;
+
+    (async () => {
+      const interactions = address
+        ? await fetchInteractionState(address)
+        : null;
+      if (flagsOwnerRef.current !== address) return;
+      setOnChainSuits((prev) =>
+        prev.map((s) => ({
+          ...s,
+          liked: !!interactions?.liked[s.id],
+          reposted: !!interactions?.reposted[s.id],
+        }))
+      );
+    })();
+  }, [address, fetchInteractionState]);
 
   // Get current suits based on active tab
   const currentSuits =
@@ -295,109 +404,45 @@ export function HomeFeed({ onCompose }: HomeFeedProps) {
       : tab === "foryou"
       ? [...onChainSuits, ...forYouSuits]
       : forYouSuits;
+  loadedIdsRef.current = currentSuits
+    .filter((suit) => suit.id.startsWith("0x"))
+    .map((suit) => suit.id);
+  const visibleSuits = currentSuits.map((suit) =>
+    withOverride(suit, overrides[suit.id])
+  );
 
-  const toggleLike = async (id: string) => {
+  // Suits from the sample data have nothing on chain to update
+  const toggleSampleSuit = (suit: Suit, kind: "like" | "repost") =>
+    suitOverrides.patch(
+      suit.id,
+      kind === "like"
+        ? { liked: !suit.liked, likes: suit.likes + (suit.liked ? -1 : 1) }
+        : {
+            reposted: !suit.reposted,
+            reposts: suit.reposts + (suit.reposted ? -1 : 1),
+          }
+    );
+
+  const handleLike = (id: string) => {
     if (!address) {
       console.log("Please connect wallet to like");
       return;
     }
-
-    const suit = currentSuits.find((s) => s.id === id);
+    const suit = visibleSuits.find((s) => s.id === id);
     if (!suit) return;
-    const isOnChain = id.startsWith("0x");
-
-    // Optimistically update UI - update both arrays
-    const updateSuit = (suits: Suit[]) =>
-      suits.map((s) =>
-        s.id === id
-          ? {
-              ...s,
-              liked: !s.liked,
-              likes: s.liked ? s.likes - 1 : s.likes + 1,
-            }
-          : s
-      );
-
-    setOnChainSuits(updateSuit(onChainSuits));
-    setForYouSuits(updateSuit(forYouSuits));
-    setFollowingSuits(updateSuit(followingSuits));
-
-    // Only call blockchain for on-chain suits
-    if (isOnChain) {
-      try {
-        await likeSuit(id);
-        console.log("Suit liked successfully!");
-      } catch (error: any) {
-        console.error("Failed to like suit:", error);
-        // Revert optimistic update on error
-        const revertSuit = (suits: Suit[]) =>
-          suits.map((s) =>
-            s.id === id
-              ? {
-                  ...s,
-                  liked: suit.liked,
-                  likes: suit.likes,
-                }
-              : s
-          );
-
-        setOnChainSuits(revertSuit(onChainSuits));
-        setForYouSuits(revertSuit(forYouSuits));
-        setFollowingSuits(revertSuit(followingSuits));
-      }
-    }
+    if (id.startsWith("0x")) toggleLike(suit);
+    else toggleSampleSuit(suit, "like");
   };
 
-  const toggleRepost = async (id: string) => {
+  const handleRepost = (id: string) => {
     if (!address) {
       console.log("Please connect wallet to retweet");
       return;
     }
-
-    const suit = currentSuits.find((s) => s.id === id);
+    const suit = visibleSuits.find((s) => s.id === id);
     if (!suit) return;
-    const isOnChain = id.startsWith("0x");
-
-    // Optimistically update UI - update both arrays
-    const updateSuit = (suits: Suit[]) =>
-      suits.map((s) =>
-        s.id === id
-          ? {
-              ...s,
-              reposted: !s.reposted,
-              reposts: s.reposted ? s.reposts - 1 : s.reposts + 1,
-            }
-          : s
-      );
-
-    setOnChainSuits(updateSuit(onChainSuits));
-    setForYouSuits(updateSuit(forYouSuits));
-    setFollowingSuits(updateSuit(followingSuits));
-
-    // Only call blockchain for on-chain suits
-    if (isOnChain) {
-      try {
-        await retweetSuit(id);
-        console.log("Suit retweeted successfully!");
-      } catch (error: any) {
-        console.error("Failed to retweet suit:", error);
-        // Revert optimistic update on error
-        const revertSuit = (suits: Suit[]) =>
-          suits.map((s) =>
-            s.id === id
-              ? {
-                  ...s,
-                  reposted: suit.reposted,
-                  reposts: suit.reposts,
-                }
-              : s
-          );
-
-        setOnChainSuits(revertSuit(onChainSuits));
-        setForYouSuits(revertSuit(forYouSuits));
-        setFollowingSuits(revertSuit(followingSuits));
-      }
-    }
+    if (id.startsWith("0x")) toggleRepost(suit);
+    else toggleSampleSuit(suit, "repost");
   };
 
   const handleReply = (id: string) => {
@@ -416,31 +461,18 @@ export function HomeFeed({ onCompose }: HomeFeedProps) {
     }
   };
 
-  const handleReplySubmit = async (suitId: string, replyContent: string) => {
+  const handleReplySubmit = (suitId: string, replyContent: string) => {
     if (!address) {
       console.log("Please connect wallet to comment");
       return;
     }
 
-    try {
-      const isOnChain = suitId.startsWith("0x");
-      // Submit comment to blockchain only for on-chain suits
-      if (isOnChain) {
-        await commentOnSuit(suitId, replyContent);
-        console.log("Comment submitted successfully!");
-      }
-
-      // Increment the reply count - update both arrays
-      const updateReplies = (suits: Suit[]) =>
-        suits.map((suit) =>
-          suit.id === suitId ? { ...suit, replies: suit.replies + 1 } : suit
-        );
-
-      setOnChainSuits(updateReplies(onChainSuits));
-      setForYouSuits(updateReplies(forYouSuits));
-      setFollowingSuits(updateReplies(followingSuits));
-    } catch (error: any) {
-      console.error("Failed to comment on suit:", error);
+    // Submit comment to blockchain only for on-chain suits
+    if (suitId.startsWith("0x")) {
+      addComment(suitId, replyContent);
+    } else {
+      const suit = visibleSuits.find((s) => s.id === suitId);
+      if (suit) suitOverrides.patch(suitId, { replies: suit.replies + 1 });
     }
   };
 
@@ -462,14 +494,22 @@ export function HomeFeed({ onCompose }: HomeFeedProps) {
     }
   };
 
-  const toggleBookmark = (id: string, isBookmarked: boolean) => {
-    const newBookmarks = new Set(bookmarks);
-    if (isBookmarked) {
+  const toggleBookmark = (id: string, bookmarked: boolean) => {
+    if (id.startsWith("0x")) {
+      if (!address) {
+        console.log("Please connect wallet to bookmark");
+        return;
+      }
+      toggleOnChainBookmark(id, bookmarked);
+      return;
+    }
+    const newBookmarks = new Set(sampleBookmarks);
+    if (bookmarked) {
       newBookmarks.add(id);
     } else {
       newBookmarks.delete(id);
     }
-    setBookmarks(newBookmarks);
+    setSampleBookmarks(newBookmarks);
   };
 
   return (
@@ -548,20 +588,87 @@ export function HomeFeed({ onCompose }: HomeFeedProps) {
           <FeedVertical />
         ) : (
           <>
-            {currentSuits.map((suit) => (
+            {visibleSuits.map((suit) => (
               <SuitCard
                 key={suit.id}
                 {...suit}
                 media={suit.media}
-                onLike={toggleLike}
-                onRepost={toggleRepost}
+                onLike={handleLike}
+                onRepost={handleRepost}
                 onReply={handleReply}
                 onViewComments={handleViewComments}
                 onShare={handleShare}
                 onBookmark={toggleBookmark}
-                bookmarked={bookmarks.has(suit.id)}
+                bookmarked={
+                  isBookmarked(suit.id) || sampleBookmarks.has(suit.id)
+                }
               />
             ))}
+            {tab === "following" && followsAnyone === false && (
+              <div className="px-6 py-12 text-center">
+                <p className="font-semibold text-foreground">
+                  {address
+                    ? "You're not following anyone yet"
+                    : "Connect your wallet to see who you follow"}
+                </p>
+                {address && (
+                  <p className="mt-1 text-sm text-muted-foreground">
+                    Suits from people you follow will show up here.
+                    {suggestions.length > 0 && " Some people to start with:"}
+                  </p>
+                )}
+                {address && suggestions.length > 0 && (
+                  <div className="mt-4 flex flex-col gap-2 max-w-xs mx-auto">
+                    {suggestions.map((suggestion) => (
+                      <Link
+                        key={suggestion.address}
+                        to={`/profile?address=${suggestion.address}`}
+                        className="px-4 py-2 border border-border rounded-full hover:bg-muted transition-colors font-semibold text-sm"
+                      >
+                        {suggestion.name}
+                      </Link>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
+            {tab === "following" && followsAnyone !== false && (
+              <div ref={followingSentinelRef} className="py-6 text-center">
+                {isLoadingFollowing ? (
+                  <p className="text-sm text-muted-foreground">
+                    Loading suits...
+                  </p>
+                ) : followingFailed ? (
+                  <button
+                    onClick={() => loadFollowing(followingCursor)}
+                    className="text-sm text-muted-foreground hover:text-foreground transition-colors"
+                  >
+                    Couldn't load suits. Retry
+                  </button>
+                ) : followsAnyone && followingSuits.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">
+                    The people you follow haven't posted yet.
+                  </p>
+                ) : null}
+              </div>
+            )}
+            {tab === "foryou" && (
+              <div ref={sentinelRef} className="py-6 text-center">
+                {isLoadingMore ? (
+                  <p className="text-sm text-muted-foreground">
+                    Loading suits...
+                  </p>
+                ) : loadFailed ? (
+                  <button
+                    // Re-enabling the sentinel triggers another load
+                    onClick={() => setLoadFailed(false)}
+                    className="text-sm text-muted-foreground hover:text-foreground transition-colors"
+                  >
+                    Couldn't load suits. Retry
+                  </button>
+                ) : null}
+              </div>
+            )}
           </>
         )}
       </div>
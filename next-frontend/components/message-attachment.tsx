@@ -0,0 +1,87 @@
+import { Download, FileText, ImageOff, Loader2 } from "lucide-react";
+import {
+  isImageAttachment,
+  useMessageAttachment,
+} from "../hooks/useMessageAttachment";
+import type { MessageAttachment } from "../services/messageAttachments";
+
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+interface MessageAttachmentViewProps {
+  attachment: MessageAttachment;
+}
+
+/** An image previewed inline, or a card to download any other file */
+export function MessageAttachmentView({
+  attachment,
+}: MessageAttachmentViewProps) {
+  const { status, url, error, download } = useMessageAttachment(attachment);
+  const isImage = isImageAttachment(attachment);
+
+  if (status === "expired" || status === "failed") {
+    return (
+      <div className="flex items-start gap-2 mt-2 p-2 rounded-lg border border-red-500/50 bg-red-500/10 text-red-500 text-xs">
+        <ImageOff size={16} className="shrink-0 mt-0.5" />
+        <div className="flex-1 min-w-0">
+          <div className="font-semibold truncate">{attachment.name}</div>
+          <div>{error}</div>
+          {status === "failed" && (
+            <button onClick={download} className="underline mt-1">
+              Try again
+            </button>
+          )}
+        </div>
+      </div>
+    );
+  }
+
+  if (isImage && status === "ready" && url) {
+    return (
+      <a href={url} download={attachment.name} className="block mt-2">
+        <img
+          src={url}
+          alt={attachment.name}
+          className="max-h-64 rounded-lg object-contain"
+        />
+      </a>
+    );
+  }
+
+  return (
+    <div className="flex items-center gap-2 mt-2 p-2 rounded-lg border border-current/20">
+      {status === "loading" ? (
+        <Loader2 size={18} className="shrink-0 animate-spin" />
+      ) : (
+        <FileText size={18} className="shrink-0" />
+      )}
+      <div className="flex-1 min-w-0 text-xs">
+        <div className="font-semibold truncate">{attachment.name}</div>
+        <div className="opacity-70">{formatFileSize(attachment.size)}</div>
+      </div>
+      {status === "ready" && url ? (
+        <a
+          href={url}
+          download={attachment.name}
+          className="p-1 rounded-full hover:opacity-70"
+          aria-label={`Save ${attachment.name}`}
+        >
+          <Download size={16} />
+        </a>
+      ) : (
+        status === "idle" && (
+          <button
+            onClick={download}
+            className="p-1 rounded-full hover:opacity-70"
+            aria-label={`Download ${attachment.name}`}
+          >
+            <Download size={16} />
+          </button>
+        )
+      )}
+    </div>
+  );
+}
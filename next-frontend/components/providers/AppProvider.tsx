@@ -1,32 +1,72 @@
-import {
-  SuiClientProvider,
-  WalletProvider,
-  createNetworkConfig,
-} from "@mysten/dapp-kit";
+import { useCallback, useEffect, useState } from "react";
+import { SuiClientProvider, WalletProvider } from "@mysten/dapp-kit";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import CONFIG, { SUITTER_NETWORKS, type SuitterNetwork } from "../../config";
+import { networkConfig } from "../../hooks/useDeployment";
+import { suitterKeys } from "../../hooks/queryKeys";
+import { suitOverrides } from "../../hooks/useSuitOverrides";
 import { SessionKeyProvider } from "../../providers/SessionKeyProvider";
 import { MessagingClientProvider } from "../../providers/MessagingClientProvider";
+import { ToastProvider } from "../../providers/ToastProvider";
 
 const queryClient = new QueryClient();
 
-const { networkConfig } = createNetworkConfig({
-  testnet: { url: "https://fullnode.testnet.sui.io:443" },
-  devnet: { url: "https://fullnode.devnet.sui.io:443" },
-});
+const NETWORK_STORAGE_KEY = "suitter-network";
+
+type MockChain = typeof import("../../services/mockChain");
+
+// Only mock mode loads the fake chain, which registers the fake wallet
+const mockChainLoad: Promise<MockChain> | null = CONFIG.MOCK_CHAIN
+  ? import("../../services/mockChain")
+  : null;
+
+function loadNetwork(): SuitterNetwork {
+  const stored = localStorage.getItem(NETWORK_STORAGE_KEY) as SuitterNetwork;
+  return SUITTER_NETWORKS.includes(stored) ? stored : CONFIG.DEFAULT_NETWORK;
+}
 
 export function AppProvider({ children }: { children: React.ReactNode }) {
+  const [network, setNetwork] = useState(loadNetwork);
+  const [mockChain, setMockChain] = useState<MockChain | null>(null);
+
+  useEffect(() => {
+    mockChainLoad?.then(setMockChain);
+  }, []);
+
+  const handleNetworkChange = useCallback((next: SuitterNetwork) => {
+    localStorage.setItem(NETWORK_STORAGE_KEY, next);
+    // Cached reads and optimistic overrides describe the old network's
+    // objects. dapp-kit's own queries are already keyed by network.
+    queryClient.removeQueries({ queryKey: suitterKeys.all });
+    suitOverrides.reset();
+    setNetwork(next);
+  }, []);
+
+  // The wallet has to be registered before autoConnect looks for it
+  if (mockChainLoad && !mockChain) return null;
+
   return (
     <QueryClientProvider client={queryClient}>
-      <SuiClientProvider networks={networkConfig} defaultNetwork="testnet">
+      <SuiClientProvider
+        networks={networkConfig}
+        network={network}
+        onNetworkChange={handleNetworkChange}
+        createClient={mockChain?.createFakeClient}
+      >
         <WalletProvider
           autoConnect={true}
+          preferredWallets={mockChain ? [mockChain.FAKE_WALLET_NAME] : undefined}
           slushWallet={{
             name: "suitter",
           }}
         >
-          <SessionKeyProvider>
-            <MessagingClientProvider>{children}</MessagingClientProvider>
-          </SessionKeyProvider>
+          <ToastProvider>
+            {/* Remount everything below on a switch so no page, session
+                key or messaging client keeps the old network's state */}
+            <SessionKeyProvider key={network}>
+              <MessagingClientProvider>{children}</MessagingClientProvider>
+            </SessionKeyProvider>
+          </ToastProvider>
         </WalletProvider>
       </SuiClientProvider>
     </QueryClientProvider>
@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import {
   Heart,
   MessageCircle,
@@ -6,10 +6,13 @@ import {
   Bookmark,
   Share,
   MoreHorizontal,
+  Coins,
 } from "lucide-react";
-import { formatTime } from "@/lib/utils";
+import { useCurrentAccount } from "@mysten/dapp-kit";
+import { formatSui, formatTime } from "@/lib/utils";
 import { OwnershipHistoryModal } from "./ownership-history-modal";
 import { BidModal } from "./bid-modal";
+import { TipModal } from "./tip-modal";
 import { Link } from "react-router-dom";
 
 interface SuitCardProps {
@@ -23,6 +26,8 @@ interface SuitCardProps {
   likes: number;
   replies: number;
   reposts: number;
+  /** Total tips received in MIST; on-chain suits only */
+  tipTotal?: number;
   liked: boolean;
   reposted?: boolean;
   isNFT?: boolean;
@@ -53,6 +58,7 @@ export function SuitCard({
   likes,
   replies,
   reposts,
+  tipTotal,
   liked,
   reposted = false,
   isNFT = true,
@@ -71,6 +77,18 @@ export function SuitCard({
   const [showBidMenu, setShowBidMenu] = useState(false);
   const [showHistory, setShowHistory] = useState(false);
   const [showBidModal, setShowBidModal] = useState(false);
+  const [showTipModal, setShowTipModal] = useState(false);
+  // Tips sent from this card since tipTotal was loaded
+  const [tippedHere, setTippedHere] = useState(0);
+  const account = useCurrentAccount();
+  const canTip =
+    tipTotal !== undefined &&
+    !!authorAddress &&
+    !!account &&
+    account.address !== authorAddress;
+
+  // A fresh tipTotal already includes anything tipped from here
+  useEffect(() => setTippedHere(0), [tipTotal]);
 
   const ownershipHistory = [
     {
@@ -252,6 +270,8 @@ export function SuitCard({
                 onRepost?.(id);
               }}
               className="flex items-center gap-2 p-2 rounded-full hover:bg-muted transition-colors group/btn"
+              title={reposted ? "Undo repost" : "Repost"}
+              aria-pressed={reposted}
             >
               <Repeat2
                 size={16}
@@ -266,6 +286,8 @@ export function SuitCard({
                 onLike(id);
               }}
               className="flex items-center gap-2 p-2 rounded-full hover:bg-muted transition-colors group/btn"
+              title={liked ? "Unlike" : "Like"}
+              aria-pressed={liked}
             >
               <Heart
                 size={16}
@@ -274,6 +296,22 @@ export function SuitCard({
               />
               <span className="text-xs">{likes}</span>
             </button>
+            {tipTotal !== undefined && (
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  if (canTip) setShowTipModal(true);
+                }}
+                disabled={!canTip}
+                className="flex items-center gap-2 p-2 rounded-full hover:bg-muted transition-colors group/btn disabled:hover:bg-transparent"
+                title={canTip ? "Tip creator" : "Tips received"}
+              >
+                <Coins size={16} />
+                <span className="text-xs">
+                  {formatSui(tipTotal + tippedHere)}
+                </span>
+              </button>
+            )}
             <button
               onClick={(e) => {
                 e.stopPropagation();
@@ -318,6 +356,19 @@ export function SuitCard({
         currentBid={currentBid || 0.75}
         onPlaceBid={handlePlaceBid}
       />
+
+      {authorAddress && (
+        <TipModal
+          isOpen={showTipModal}
+          onClose={() => setShowTipModal(false)}
+          suitId={id}
+          suitName={content}
+          creator={authorAddress}
+          creatorName={author}
+          liked={liked}
+          onTipped={(amount) => setTippedHere((t) => t + amount)}
+        />
+      )}
     </>
   );
 }
@@ -0,0 +1,230 @@
+import { X, Loader2 } from "lucide-react";
+import { motion } from "framer-motion";
+import { useState } from "react";
+import { useTipping } from "../hooks/useTipping";
+import { useComposer } from "../hooks/useComposer";
+import { MIN_TIP_AMOUNT } from "../services/suitter";
+import type { SuitterAction } from "../services/composer";
+import { describeError } from "../services/errors";
+import { BatchConfirmModal } from "./batch-confirm-modal";
+import { formatSui, suiToMist } from "@/lib/utils";
+
+interface TipModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  suitId: string;
+  suitName: string;
+  creator: string;
+  creatorName: string;
+  /** Hides the "also like" option when the viewer already likes the suit */
+  liked?: boolean;
+  onTipped?: (amount: number) => void;
+}
+
+const PRESET_TIPS = ["0.01", "0.1", "0.5", "1"];
+
+export function TipModal({
+  isOpen,
+  onClose,
+  suitId,
+  suitName,
+  creator,
+  creatorName,
+  liked = false,
+  onTipped,
+}: TipModalProps) {
+  const { tipSuit, isTipping: isSendingTip } = useTipping();
+  const composer = useComposer();
+  const [tipAmount, setTipAmount] = useState(PRESET_TIPS[0]);
+  const [alsoLike, setAlsoLike] = useState(false);
+  const [comment, setComment] = useState("");
+  const [batch, setBatch] = useState<SuitterAction[] | null>(null);
+  const [error, setError] = useState("");
+
+  const amountMist = suiToMist(tipAmount);
+  const isBelowMinimum = !(amountMist >= MIN_TIP_AMOUNT);
+  const isTipping = isSendingTip || composer.isSubmitting;
+
+  const handleSubmit = async () => {
+    setError("");
+    const extras: SuitterAction[] = [
+      ...(alsoLike && !liked ? [{ kind: "like" as const, suitId }] : []),
+      ...(comment.trim()
+        ? [{ kind: "comment" as const, suitId, content: comment.trim() }]
+        : []),
+    ];
+    // A like or comment alongside the tip goes out as one transaction,
+    // listed in full before the wallet is asked
+    if (extras.length > 0) {
+      setBatch([...extras, { kind: "tip", suitId, creator, amount: amountMist }]);
+      return;
+    }
+    try {
+      await tipSuit(suitId, creator, amountMist);
+      onTipped?.(amountMist);
+      onClose();
+    } catch (e) {
+      setError(describeError(e, "Failed to send tip"));
+    }
+  };
+
+  const handleConfirmBatch = async () => {
+    if (!batch) return;
+    setError("");
+    try {
+      // The tip may have been taken out of the batch before confirming
+      const tip = batch.find((action) => action.kind === "tip");
+      await composer.submit(batch);
+      if (tip?.kind === "tip") onTipped?.(tip.amount);
+      setBatch(null);
+      onClose();
+    } catch (e) {
+      setError(describeError(e, "Failed to send transaction"));
+    }
+  };
+
+  if (!isOpen) return null;
+
+  if (batch) {
+    return (
+      <BatchConfirmModal
+        isOpen
+        onClose={() => {
+          setBatch(null);
+          setError("");
+        }}
+        actions={batch}
+        onRemove={(index) =>
+          setBatch((prev) => prev && prev.filter((_, i) => i !== index))
+        }
+        onConfirm={handleConfirmBatch}
+        isSubmitting={composer.isSubmitting}
+        error={error}
+      />
+    );
+  }
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4"
+      onClick={(e) => e.stopPropagation()}
+    >
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95 }}
+        animate={{ opacity: 1, scale: 1 }}
+        exit={{ opacity: 0, scale: 0.95 }}
+        className="bg-background border border-border rounded-2xl shadow-lg max-w-md w-full"
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-border">
+          <h3 className="font-bold text-foreground">Tip {creatorName}</h3>
+          <button
+            onClick={onClose}
+            disabled={isTipping}
+            className="p-1 hover:bg-muted rounded-full transition-colors"
+            aria-label="Close"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-4 space-y-4">
+          <div>
+            <p className="text-sm text-muted-foreground mb-1">Suit</p>
+            <p className="font-semibold text-foreground line-clamp-2">
+              {suitName}
+            </p>
+          </div>
+
+          <div className="grid grid-cols-4 gap-2">
+            {PRESET_TIPS.map((preset) => (
+              <button
+                key={preset}
+                onClick={() => setTipAmount(preset)}
+                disabled={isTipping}
+                className={`py-2 rounded-lg border text-sm font-semibold transition-colors ${
+                  tipAmount === preset
+                    ? "border-foreground bg-foreground text-background"
+                    : "border-border hover:bg-muted/30"
+                }`}
+              >
+                {preset} SUI
+              </button>
+            ))}
+          </div>
+
+          <div>
+            <label className="text-sm font-semibold text-foreground mb-2 block">
+              Amount (SUI)
+            </label>
+            <input
+              type="number"
+              value={tipAmount}
+              onChange={(e) => setTipAmount(e.target.value)}
+              step="0.01"
+              min={formatSui(MIN_TIP_AMOUNT)}
+              disabled={isTipping}
+              placeholder="Enter tip amount"
+              className="w-full px-4 py-3 bg-muted border border-border rounded-lg text-foreground placeholder-muted-foreground focus:outline-none focus:border-foreground focus:ring-1 focus:ring-foreground/20 transition-all"
+            />
+            <p className="text-xs text-muted-foreground mt-2">
+              Minimum tip is {formatSui(MIN_TIP_AMOUNT)} SUI. Tips go straight
+              to the creator's tip balance.
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            {!liked && (
+              <label className="flex items-center gap-2 text-sm text-foreground">
+                <input
+                  type="checkbox"
+                  checked={alsoLike}
+                  onChange={(e) => setAlsoLike(e.target.checked)}
+                  disabled={isTipping}
+                />
+                Also like this suit
+              </label>
+            )}
+            <input
+              type="text"
+              value={comment}
+              onChange={(e) => setComment(e.target.value)}
+              disabled={isTipping}
+              placeholder="Add a comment (optional)"
+              className="w-full px-4 py-2 bg-muted border border-border rounded-lg text-sm text-foreground placeholder-muted-foreground focus:outline-none focus:border-foreground focus:ring-1 focus:ring-foreground/20 transition-all"
+            />
+          </div>
+
+          {error && (
+            <div className="px-3 py-2 bg-red-500/10 border border-red-500/20 rounded-lg">
+              <p className="text-sm text-red-500">{error}</p>
+            </div>
+          )}
+
+          <div className="flex gap-2 pt-2">
+            <button
+              onClick={onClose}
+              disabled={isTipping}
+              className="flex-1 py-2 px-4 border border-border rounded-lg font-semibold hover:bg-muted/30 transition-colors disabled:opacity-50"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSubmit}
+              disabled={isTipping || isBelowMinimum}
+              className="flex-1 py-2 px-4 bg-foreground text-background rounded-lg font-semibold hover:opacity-90 transition-opacity disabled:opacity-50 flex items-center justify-center gap-2"
+            >
+              {isTipping && <Loader2 className="w-4 h-4 animate-spin" />}
+              {isTipping
+                ? "Sending..."
+                : (alsoLike && !liked) || comment.trim()
+                  ? "Review"
+                  : "Send Tip"}
+            </button>
+          </div>
+        </div>
+      </motion.div>
+    </div>
+  );
+}
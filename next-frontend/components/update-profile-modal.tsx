@@ -3,6 +3,7 @@ import { X, Loader2, Upload } from "lucide-react";
 import { motion, AnimatePresence } from "framer-motion";
 import { useProfile } from "../hooks/useProfile";
 import { useWalrusUpload } from "../hooks/useWalrusUpload";
+import { describeError } from "../services/errors";
 
 interface UpdateProfileModalProps {
   isOpen: boolean;
@@ -85,9 +86,9 @@ export function UpdateProfileModal({
       await updateProfile(currentProfile.profileId, username, bio, finalPfpUrl);
       onUpdated();
       onClose();
-    } catch (err: any) {
+    } catch (err) {
       console.error("Failed to update profile:", err);
-      setError(err?.message || "Failed to update profile");
+      setError(describeError(err, "Failed to update profile"));
     }
   };
 
@@ -1,18 +1,140 @@
+import deployments from "./deployments.json";
+
+export type SuitterNetwork = "localnet" | "devnet" | "testnet" | "mainnet";
+
+export const SUITTER_NETWORKS: SuitterNetwork[] = [
+  "localnet",
+  "devnet",
+  "testnet",
+  "mainnet",
+];
+
+/** Where the Suitter package and its shared registries live on one network */
+export interface SuitterDeployment {
+  RPC_URL: string;
+  /** Empty until the package is published on this network */
+  PACKAGE_ID: string;
+  SUIT_REGISTRY: string;
+  INTERACTION_REGISTRY: string;
+  USERNAME_REGISTRY: string;
+  TIP_BALANCE_REGISTRY: string;
+  CHAT_REGISTRY: string;
+  FOLLOW_REGISTRY: string;
+  /** The publish transaction, when the manifest recorded it */
+  PUBLISH_DIGEST?: string;
+}
+
+/** Shared object each module's `init` creates, keyed by deployment field */
+export const REGISTRY_TYPES = {
+  SUIT_REGISTRY: "suits::SuitRegistry",
+  INTERACTION_REGISTRY: "interactions::InteractionRegistry",
+  USERNAME_REGISTRY: "profile::UsernameRegistry",
+  TIP_BALANCE_REGISTRY: "tipping::TipBalanceRegistry",
+  CHAT_REGISTRY: "messaging::ChatRegistry",
+  FOLLOW_REGISTRY: "follows::FollowRegistry",
+} as const;
+
+export type RegistryName = keyof typeof REGISTRY_TYPES;
+
+/**
+ * Registries the app can run without, leaving their feature off, for
+ * packages published before the module that creates them
+ */
+export const OPTIONAL_REGISTRIES: RegistryName[] = ["FOLLOW_REGISTRY"];
+
+type DeploymentManifest = Partial<
+  Record<SuitterNetwork, Omit<SuitterDeployment, "RPC_URL">>
+>;
+
+// Written by `pnpm import-deployment` in /indexer from the publish output
+const MANIFEST: DeploymentManifest = deployments;
+
+const RPC_URLS: Record<SuitterNetwork, string> = {
+  localnet: "http://127.0.0.1:9000",
+  devnet: "https://fullnode.devnet.sui.io:443",
+  testnet: "https://fullnode.testnet.sui.io:443",
+  mainnet: "https://fullnode.mainnet.sui.io:443",
+};
+
+// Seal key servers that release the keys to direct messages. Messages can
+// only be sent encrypted, so a network without any can't send them, and
+// neither can one whose package lacks `messaging::seal_approve`
+const SEAL_KEY_SERVERS: Record<SuitterNetwork, string[]> = {
+  localnet: [],
+  devnet: [],
+  testnet: [
+    "0x73d05d62c18d9374e3ea529e8e0ed6161da1a141a94d3f76ae3fe4e99356db75",
+    "0xf5d14a81a982144ae441cd7d64b09027f116a468bd36e7eca494f750591623c8",
+  ],
+  mainnet: [],
+};
+
+const NOT_DEPLOYED = {
+  PACKAGE_ID: "",
+  SUIT_REGISTRY: "",
+  INTERACTION_REGISTRY: "",
+  USERNAME_REGISTRY: "",
+  TIP_BALANCE_REGISTRY: "",
+  CHAT_REGISTRY: "",
+  FOLLOW_REGISTRY: "",
+};
+
+const DEFAULT_NETWORK: SuitterNetwork =
+  (import.meta.env.VITE_NETWORK as SuitterNetwork) || "testnet";
+
+const DEPLOYMENTS = Object.fromEntries(
+  SUITTER_NETWORKS.map((network) => [
+    network,
+    { RPC_URL: RPC_URLS[network], ...(MANIFEST[network] ?? NOT_DEPLOYED) },
+  ])
+) as Record<SuitterNetwork, SuitterDeployment>;
+
+// VITE_PACKAGE_ID still overrides the package on the default network
+if (import.meta.env.VITE_PACKAGE_ID) {
+  DEPLOYMENTS[DEFAULT_NETWORK].PACKAGE_ID = import.meta.env.VITE_PACKAGE_ID;
+}
+
+// VITE_SEAL_KEY_SERVERS (comma-separated object IDs) replaces the default
+// network's key servers
+if (import.meta.env.VITE_SEAL_KEY_SERVERS) {
+  SEAL_KEY_SERVERS[DEFAULT_NETWORK] = import.meta.env.VITE_SEAL_KEY_SERVERS
+    .split(",")
+    .map((id: string) => id.trim())
+    .filter(Boolean);
+}
+
+// VITE_MOCK_CHAIN=1 runs the app against an in-memory chain seeded with
+// fixtures (see services/fakeChain.ts) instead of a full node
+const MOCK_CHAIN = import.meta.env.VITE_MOCK_CHAIN === "1";
+
+// The fake chain simulates the package as it is in Suits/sources. Registries
+// newer than a recorded deployment get a stand-in ID for it to create them at
+if (MOCK_CHAIN) {
+  for (const deployment of Object.values(DEPLOYMENTS)) {
+    if (!deployment.PACKAGE_ID) continue;
+    (Object.keys(REGISTRY_TYPES) as RegistryName[]).forEach((name, i) => {
+      deployment[name] ||= `0xfa4e${i}`;
+    });
+  }
+}
+
 const CONFIG = {
-  VITE_PACKAGE_ID: import.meta.env.VITE_PACKAGE_ID || "0x349c57e121990b4382c11baa199ba35cf38e8cac2822936d8f3a6d58f77cd68d",
-  VITE_API_URL: import.meta.env.VITE_API_URL || "https://api.example.com",
+  DEFAULT_NETWORK,
+  DEPLOYMENTS,
+  MOCK_CHAIN,
+  SEAL_KEY_SERVERS,
+  // Suitter indexer (see /indexer); leave unset to read events over RPC.
+  // The fake chain's objects aren't indexed, so it is ignored in mock mode
+  VITE_API_URL: MOCK_CHAIN ? "" : import.meta.env.VITE_API_URL || "",
+  // The network the indexer tails; other networks read events over RPC
+  VITE_API_NETWORK:
+    (import.meta.env.VITE_API_NETWORK as SuitterNetwork) || DEFAULT_NETWORK,
   VITE_WALRUS_URL:
     import.meta.env.VITE_WALRUS_URL || "https://walrus.example.com",
-  SUIT_REGISTRY:
-    "0x17cb8f6021f22d4b60c048613d3bc7e268ad6a8d47526ffadc02e46d23a4ef59",
-  INTERACTION_REGISTRY:
-    "0x1aecc3614874ccc49a25e436c95ec58305c810fd0c19d857c685eadc4bfcbcd7",
-  USERNAME_REGISTRY:
-    "0xbe17db5ac2579db939365aa678a1cef032b3021a1da4101f766798340686c3c9",
-  TIP_BALANCE_REGISTRY:
-    "0xd9b8fea8096d13242cd190428c6e341b3543918f59ec47409e2b5580aca7a709",
-  CHAT_REGISTRY:
-    "0x45cd28a957c645f5c92cb11b8190908ffe4907c11873d04bac5075c9888aa7ae",
 };
 
+export function isDeployed(network: SuitterNetwork) {
+  return DEPLOYMENTS[network].PACKAGE_ID !== "";
+}
+
 export default CONFIG;
@@ -0,0 +1,64 @@
+// Query keys shared by every hook that caches on-chain reads in React Query.
+// Mutations invalidate by prefix, so keep related keys nested under one root.
+
+export const suitterKeys = {
+  all: ["suitter"] as const,
+  suits: () => [...suitterKeys.all, "suits"] as const,
+  suitPage: (
+    cursor: number | null,
+    limit: number,
+    creator?: string | string[]
+  ) =>
+    [...suitterKeys.suits(), "page", { cursor, limit, creator }] as const,
+  // The latest read of each suit, whichever page or refresh it came from
+  suitReads: () => [...suitterKeys.suits(), "suit"] as const,
+  suit: (suitId: string) => [...suitterKeys.suitReads(), suitId] as const,
+  interactions: (owner: string) =>
+    [...suitterKeys.all, "interactions", owner] as const,
+  comments: (suitId: string) =>
+    [...suitterKeys.all, "comments", suitId] as const,
+  profiles: () => [...suitterKeys.all, "profile"] as const,
+  profile: (address: string) => [...suitterKeys.profiles(), address] as const,
+  chats: (address: string) => [...suitterKeys.all, "chats", address] as const,
+  chat: (chatId: string) => [...suitterKeys.all, "chat", chatId] as const,
+  // Under the chat, so whatever refreshes a chat refreshes its receipts too
+  messageReads: (chatId: string) =>
+    [...suitterKeys.chat(chatId), "reads"] as const,
+  sealSupport: (packageId: string) =>
+    [...suitterKeys.all, "sealSupport", packageId] as const,
+  attachment: (blobId: string) =>
+    [...suitterKeys.all, "attachment", blobId] as const,
+  tipBalanceId: (owner: string) =>
+    [...suitterKeys.all, "tipBalanceId", owner] as const,
+  earnings: (owner: string) => [...suitterKeys.all, "earnings", owner] as const,
+  tipBalance: (owner: string) =>
+    [...suitterKeys.earnings(owner), "balance"] as const,
+  tipsReceived: (owner: string) =>
+    [...suitterKeys.earnings(owner), "tips"] as const,
+  withdrawals: (owner: string) =>
+    [...suitterKeys.earnings(owner), "withdrawals"] as const,
+  follows: () => [...suitterKeys.all, "follows"] as const,
+  isFollowing: (follower: string, followee: string) =>
+    [...suitterKeys.follows(), "edge", follower, followee] as const,
+  followCounts: (address: string) =>
+    [...suitterKeys.follows(), "counts", address] as const,
+  followers: (address: string) =>
+    [...suitterKeys.follows(), "followers", address] as const,
+  following: (address: string) =>
+    [...suitterKeys.follows(), "following", address] as const,
+};
+
+/** How long each kind of read is served from cache before refetching (ms) */
+export const STALE_TIMES = {
+  suits: 10_000,
+  comments: 30_000,
+  // Patched after every like and repost, so only other devices make it stale
+  interactions: 5 * 60_000,
+  profile: 5 * 60_000,
+  tipBalanceId: 60_000,
+  earnings: 15_000,
+  follows: 30_000,
+  // Chats are polled, so these must stay below the polling intervals
+  chats: 5_000,
+  chat: 1_000,
+};
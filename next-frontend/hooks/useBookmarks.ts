@@ -0,0 +1,326 @@
+import { useCallback, useEffect, useMemo, useSyncExternalStore } from "react";
+import { useCurrentAccount } from "@mysten/dapp-kit";
+import {
+  createBookmarkStorage,
+  EMPTY_BOOKMARKS,
+  type Bookmark,
+  type BookmarkData,
+  type BookmarkFolder,
+  type BookmarkStorage,
+} from "../services/bookmarkStorage";
+import { describeError } from "../services/errors";
+import type { Suit } from "../services/suitter";
+import { useToast } from "../providers/ToastProvider";
+import { useDeployment } from "./useDeployment";
+import { useSuitterClient } from "./useSuitterClient";
+
+/**
+ * How a bookmark's suit read back: `live` with fresh values, `stale` when
+ * the read failed so the snapshot is all there is, or `removed` when the
+ * object no longer exists as a suit
+ */
+export type BookmarkStatus = "live" | "stale" | "removed";
+
+interface BookmarkRead {
+  suitId: string;
+  suit: Suit | null;
+  status: BookmarkStatus;
+}
+
+interface BookmarkState extends BookmarkData {
+  /** False until the current wallet's bookmarks have been read */
+  isLoaded: boolean;
+}
+
+type Listener = () => void;
+
+// Every page that shows a bookmark toggle reads the same bookmarks, so they
+// live outside the pages like suit overrides do, and are written through to
+// storage on every change
+class BookmarkStore {
+  private state: BookmarkState = { ...EMPTY_BOOKMARKS, isLoaded: false };
+  private key: string | null = null;
+  private ready: Promise<void> = Promise.resolve();
+  private saving: Promise<void> = Promise.resolve();
+  private readonly listeners = new Set<Listener>();
+
+  constructor(private storage: BookmarkStorage) {}
+
+  getSnapshot = () => this.state;
+
+  subscribe = (listener: Listener) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  /** Switch to another wallet's bookmarks; null when none is connected */
+  setKey(key: string | null) {
+    if (key === this.key) return;
+    this.key = key;
+    this.publish({ ...EMPTY_BOOKMARKS, isLoaded: key === null });
+    if (!key) return;
+
+    this.ready = this.storage
+      .load(key)
+      .catch((e) => {
+        console.error("Failed to load bookmarks:", e);
+        return null;
+      })
+      .then((data) => {
+        if (this.key === key) {
+          this.publish({ ...(data ?? EMPTY_BOOKMARKS), isLoaded: true });
+        }
+      });
+  }
+
+  /**
+   * Apply `change` once the current wallet's bookmarks have loaded, and
+   * queue the result to be saved. Resolves to the new data.
+   */
+  async update(change: (data: BookmarkData) => BookmarkData) {
+    const key = this.key;
+    if (!key) throw new Error("Wallet not connected");
+    await this.ready;
+    if (this.key !== key) throw new Error("The connected wallet changed");
+
+    const { bookmarks, folders } = change(this.state);
+    this.publish({ bookmarks, folders, isLoaded: true });
+    this.saving = this.saving
+      .then(() => this.storage.save(key, { bookmarks, folders }))
+      .catch((e) => console.error("Failed to save bookmarks:", e));
+    return { bookmarks, folders };
+  }
+
+  /** Resolves once every queued save has been written */
+  flush() {
+    return this.saving;
+  }
+
+  /** Read and write somewhere else from now on, e.g. in tests */
+  setStorage(storage: BookmarkStorage) {
+    this.storage = storage;
+    this.key = null;
+    this.publish({ ...EMPTY_BOOKMARKS, isLoaded: false });
+  }
+
+  private publish(state: BookmarkState) {
+    this.state = state;
+    this.listeners.forEach((listener) => listener());
+  }
+}
+
+export const bookmarkStore = new BookmarkStore(createBookmarkStorage());
+
+function withoutBookmark(data: BookmarkData, suitId: string) {
+  return data.bookmarks.filter((b) => b.suitId !== suitId);
+}
+
+function checkFolderName(folders: BookmarkFolder[], name: string, id?: string) {
+  const trimmed = name.trim();
+  if (!trimmed) throw new Error("A folder needs a name.");
+  const taken = folders.some(
+    (f) => f.id !== id && f.name.toLowerCase() === trimmed.toLowerCase()
+  );
+  if (taken) throw new Error(`You already have a folder called "${trimmed}".`);
+  return trimmed;
+}
+
+export function useBookmarks() {
+  const client = useSuitterClient();
+  const account = useCurrentAccount();
+  const { network } = useDeployment();
+  const { toast } = useToast();
+  const address = account?.address ?? null;
+
+  // Suit IDs only mean something on the network they were read from
+  const key = address ? `${network}:${address}` : null;
+  useEffect(() => {
+    bookmarkStore.setKey(key);
+  }, [key]);
+
+  const state = useSyncExternalStore(
+    bookmarkStore.subscribe,
+    bookmarkStore.getSnapshot
+  );
+
+  const bookmarkedIds = useMemo(
+    () => new Set(state.bookmarks.map((b) => b.suitId)),
+    [state.bookmarks]
+  );
+
+  const isBookmarked = useCallback(
+    (suitId: string) => bookmarkedIds.has(suitId),
+    [bookmarkedIds]
+  );
+
+  /** Bookmark a suit, snapshotting it as it is on chain now */
+  const add = useCallback(
+    async (suitId: string, folderId: string | null = null) => {
+      const suit = await client.getSuit(suitId);
+      if (!suit) throw new Error("This suit no longer exists.");
+
+      const now = Date.now();
+      const bookmark: Bookmark = {
+        suitId,
+        folderId,
+        savedAt: now,
+        snapshot: suit,
+        snapshotAt: now,
+      };
+      await bookmarkStore.update((data) => ({
+        ...data,
+        bookmarks: [bookmark, ...withoutBookmark(data, suitId)],
+      }));
+      return bookmark;
+    },
+    [client]
+  );
+
+  const remove = useCallback(async (suitId: string) => {
+    await bookmarkStore.update((data) => ({
+      ...data,
+      bookmarks: withoutBookmark(data, suitId),
+    }));
+  }, []);
+
+  /** For `SuitCard.onBookmark`: failures are toasted rather than thrown */
+  const toggle = useCallback(
+    async (suitId: string, bookmarked: boolean) => {
+      try {
+        if (bookmarked) await add(suitId);
+        else await remove(suitId);
+      } catch (e) {
+        console.error("Failed to update bookmark:", e);
+        toast({
+          title: bookmarked
+            ? "Couldn't bookmark this suit"
+            : "Couldn't remove this bookmark",
+          description: describeError(e, "Your bookmarks weren't changed."),
+          variant: "error",
+        });
+      }
+    },
+    [add, remove, toast]
+  );
+
+  const createFolder = useCallback(async (name: string) => {
+    let folder: BookmarkFolder | null = null;
+    await bookmarkStore.update((data) => {
+      folder = {
+        id: crypto.randomUUID(),
+        name: checkFolderName(data.folders, name),
+        createdAt: Date.now(),
+      };
+      return { ...data, folders: [...data.folders, folder] };
+    });
+    return folder!;
+  }, []);
+
+  const renameFolder = useCallback(async (folderId: string, name: string) => {
+    await bookmarkStore.update((data) => {
+      const trimmed = checkFolderName(data.folders, name, folderId);
+      return {
+        ...data,
+        folders: data.folders.map((f) =>
+          f.id === folderId ? { ...f, name: trimmed } : f
+        ),
+      };
+    });
+  }, []);
+
+  /** Delete a folder; its bookmarks are kept, unsorted */
+  const deleteFolder = useCallback(async (folderId: string) => {
+    await bookmarkStore.update((data) => ({
+      folders: data.folders.filter((f) => f.id !== folderId),
+      bookmarks: data.bookmarks.map((b) =>
+        b.folderId === folderId ? { ...b, folderId: null } : b
+      ),
+    }));
+  }, []);
+
+  const moveToFolder = useCallback(
+    async (suitId: string, folderId: string | null) => {
+      await bookmarkStore.update((data) => {
+        if (folderId && !data.folders.some((f) => f.id === folderId)) {
+          throw new Error("That folder no longer exists.");
+        }
+        return {
+          ...data,
+          bookmarks: data.bookmarks.map((b) =>
+            b.suitId === suitId ? { ...b, folderId } : b
+          ),
+        };
+      });
+    },
+    []
+  );
+
+  /**
+   * Re-read every bookmarked suit, refreshing the snapshots of those still
+   * on chain. Resolves to each bookmark's status by suit ID.
+   */
+  const refresh = useCallback(async (): Promise<
+    Record<string, BookmarkStatus>
+  > => {
+    const { bookmarks } = bookmarkStore.getSnapshot();
+    const reads = await Promise.all(
+      bookmarks.map(async (b): Promise<BookmarkRead> => {
+        try {
+          const suit = await client.getSuit(b.suitId);
+          return { suitId: b.suitId, suit, status: suit ? "live" : "removed" };
+        } catch (e) {
+          console.error(`Failed to refresh bookmark ${b.suitId}:`, e);
+          return { suitId: b.suitId, suit: null, status: "stale" };
+        }
+      })
+    );
+
+    const fresh = new Map(
+      reads.filter((r) => r.suit).map((r) => [r.suitId, r.suit!])
+    );
+    if (fresh.size > 0) {
+      const now = Date.now();
+      await bookmarkStore.update((data) => ({
+        ...data,
+        bookmarks: data.bookmarks.map((b) => {
+          const suit = fresh.get(b.suitId);
+          return suit ? { ...b, snapshot: suit, snapshotAt: now } : b;
+        }),
+      }));
+    }
+    return Object.fromEntries(reads.map((r) => [r.suitId, r.status]));
+  }, [client]);
+
+  return useMemo(
+    () => ({
+      address,
+      isLoaded: state.isLoaded,
+      bookmarks: state.bookmarks,
+      folders: state.folders,
+      isBookmarked,
+      add,
+      remove,
+      toggle,
+      createFolder,
+      renameFolder,
+      deleteFolder,
+      moveToFolder,
+      refresh,
+    }),
+    [
+      address,
+      state,
+      isBookmarked,
+      add,
+      remove,
+      toggle,
+      createFolder,
+      renameFolder,
+      deleteFolder,
+      moveToFolder,
+      refresh,
+    ]
+  );
+}
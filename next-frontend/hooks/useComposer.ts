@@ -0,0 +1,225 @@
+import { useCallback, useMemo, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import {
+  useCurrentAccount,
+  useSignAndExecuteTransaction,
+  useSuiClient,
+} from "@mysten/dapp-kit";
+import { Transaction } from "@mysten/sui/transactions";
+import {
+  addActions,
+  splitOutcomes,
+  type ActionOutcome,
+  type SuitterAction,
+} from "../services/composer";
+import { MIN_TIP_AMOUNT } from "../services/suitter";
+import { assertTxSucceeded, toSuitterError } from "../services/errors";
+import { formatSui } from "../lib/utils";
+import { useDeployment } from "./useDeployment";
+import { useInteractions } from "./useInteractions";
+import { useSuitterClient } from "./useSuitterClient";
+import { rememberSuits, suitOverrides } from "./useSuitOverrides";
+import { STALE_TIMES, suitterKeys } from "./queryKeys";
+
+export interface BatchResult {
+  digest: string;
+  /** One per action sent whose event was found, in batch order */
+  outcomes: ActionOutcome[];
+}
+
+/**
+ * Send several Suitter actions as one programmable transaction block, so the
+ * wallet prompts once for the whole list.
+ */
+export function useComposer() {
+  const suiClient = useSuiClient();
+  const client = useSuitterClient();
+  const queryClient = useQueryClient();
+  const account = useCurrentAccount();
+  const { mutateAsync: signAndExecute } = useSignAndExecuteTransaction();
+  const deployment = useDeployment();
+  const { fetchInteractionState } = useInteractions();
+
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const address = account?.address ?? null;
+
+  // Same checks the single-action hooks make, up front, so one bad action
+  // doesn't abort the whole block on chain
+  const validate = useCallback(
+    (batch: SuitterAction[]) => {
+      for (const action of batch) {
+        if (action.kind === "tip") {
+          if (action.creator === address) {
+            throw new Error("You can't tip your own suit");
+          }
+          if (
+            !Number.isInteger(action.amount) ||
+            action.amount < MIN_TIP_AMOUNT
+          ) {
+            throw new Error(
+              `Tips must be at least ${formatSui(MIN_TIP_AMOUNT)} SUI`
+            );
+          }
+        }
+        if (
+          (action.kind === "comment" || action.kind === "post") &&
+          !action.content.trim()
+        ) {
+          throw new Error("Comments and posts can't be empty");
+        }
+      }
+    },
+    [address]
+  );
+
+  // A like or repost the account has already made would abort the whole
+  // block, so it is left out; the suit ends up liked or reposted either way
+  const withoutRepeats = useCallback(
+    async (owner: string, batch: SuitterAction[]) => {
+      if (!batch.some((a) => a.kind === "like" || a.kind === "retweet")) {
+        return batch;
+      }
+      const { liked, reposted } = await fetchInteractionState(owner);
+      const done = {
+        like: new Set(Object.keys(liked)),
+        retweet: new Set(Object.keys(reposted)),
+      };
+      return batch.filter((action) => {
+        if (action.kind !== "like" && action.kind !== "retweet") return true;
+        if (done[action.kind].has(action.suitId)) return false;
+        done[action.kind].add(action.suitId);
+        return true;
+      });
+    },
+    [fetchInteractionState]
+  );
+
+  /** Send `requested` as one transaction, less any repeated like or repost */
+  const submit = useCallback(
+    async (requested: SuitterAction[]): Promise<BatchResult> => {
+      if (!address) throw new Error("Wallet not connected");
+      if (requested.length === 0) throw new Error("Nothing to send");
+      setIsSubmitting(true);
+      setError(null);
+      try {
+        validate(requested);
+        const batch = await withoutRepeats(address, requested);
+        if (batch.length === 0) throw new Error("Nothing to send");
+
+        const creators = [
+          ...new Set(
+            batch.flatMap((action) =>
+              action.kind === "tip" ? [action.creator] : []
+            )
+          ),
+        ];
+        const balanceIds = await Promise.all(
+          creators.map((creator) =>
+            queryClient.fetchQuery({
+              queryKey: suitterKeys.tipBalanceId(creator),
+              queryFn: () =>
+                client.getTipBalanceId(
+                  creator,
+                  deployment.TIP_BALANCE_REGISTRY
+                ),
+              staleTime: STALE_TIMES.tipBalanceId,
+            })
+          )
+        );
+        const tipBalances: Record<string, string> = {};
+        creators.forEach((creator, i) => {
+          const balanceId = balanceIds[i];
+          if (balanceId) tipBalances[creator] = balanceId;
+        });
+
+        const tx = new Transaction();
+        addActions(tx, batch, {
+          packageId: deployment.PACKAGE_ID,
+          suitRegistryId: deployment.SUIT_REGISTRY,
+          interactionRegistryId: deployment.INTERACTION_REGISTRY,
+          tipBalances,
+        });
+
+        const { digest } = await signAndExecute({ transaction: tx });
+        const result = await suiClient.waitForTransaction({
+          digest,
+          options: { showEffects: true, showEvents: true },
+        });
+        assertTxSucceeded(result);
+        const outcomes = splitOutcomes(batch, result.events ?? []);
+
+        // Like the single-action hooks: refresh what changed and show the
+        // on-chain counts for every suit the batch touched
+        const touched = [
+          ...new Set(
+            batch.flatMap((action) =>
+              action.kind === "post" ? [] : [action.suitId]
+            )
+          ),
+        ];
+        await Promise.all([
+          queryClient.invalidateQueries({ queryKey: suitterKeys.suits() }),
+          queryClient.invalidateQueries({
+            queryKey: suitterKeys.interactions(address),
+          }),
+          ...touched.map((suitId) =>
+            queryClient.invalidateQueries({
+              queryKey: suitterKeys.comments(suitId),
+            })
+          ),
+          ...creators.map((creator) =>
+            queryClient.invalidateQueries({
+              queryKey: suitterKeys.earnings(creator),
+            })
+          ),
+        ]);
+        const liked = new Set(
+          batch.flatMap((a) => (a.kind === "like" ? [a.suitId] : []))
+        );
+        const reposted = new Set(
+          batch.flatMap((a) => (a.kind === "retweet" ? [a.suitId] : []))
+        );
+        const settled = await client.getSuits(touched);
+        rememberSuits(queryClient, settled);
+        for (const suit of settled) {
+          suitOverrides.patch(suit.id, {
+            likes: undefined,
+            reposts: undefined,
+            replies: undefined,
+            ...(liked.has(suit.id) && { liked: true }),
+            ...(reposted.has(suit.id) && { reposted: true }),
+          });
+        }
+
+        return { digest, outcomes };
+      } catch (e: any) {
+        const error = toSuitterError(e, "Failed to send transaction");
+        setError(error.message);
+        throw error;
+      } finally {
+        setIsSubmitting(false);
+      }
+    },
+    [
+      address,
+      deployment,
+      validate,
+      withoutRepeats,
+      client,
+      queryClient,
+      signAndExecute,
+      suiClient,
+    ]
+  );
+
+  return useMemo(
+    () => ({
+      address,
+      isSubmitting,
+      error,
+      submit,
+    }),
+    [address, isSubmitting, error, submit]
+  );
+}
@@ -0,0 +1,34 @@
+import { useMemo } from "react";
+import {
+  createNetworkConfig,
+  useSuiClientContext,
+} from "@mysten/dapp-kit";
+import CONFIG, {
+  SUITTER_NETWORKS,
+  type SuitterDeployment,
+  type SuitterNetwork,
+} from "../config";
+
+// One dapp-kit network per Suitter deployment, with the deployment's object
+// IDs as that network's variables
+export const { networkConfig, useNetworkVariables } = createNetworkConfig(
+  Object.fromEntries(
+    SUITTER_NETWORKS.map((network) => [
+      network,
+      {
+        url: CONFIG.DEPLOYMENTS[network].RPC_URL,
+        variables: CONFIG.DEPLOYMENTS[network],
+      },
+    ])
+  ) as Record<SuitterNetwork, { url: string; variables: SuitterDeployment }>
+);
+
+/** The selected network and the Suitter object IDs deployed on it */
+export function useDeployment() {
+  const { network } = useSuiClientContext();
+  const deployment = useNetworkVariables();
+  return useMemo(
+    () => ({ network: network as SuitterNetwork, ...deployment }),
+    [network, deployment]
+  );
+}
@@ -0,0 +1,256 @@
+import { useCallback, useMemo, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import {
+  useCurrentAccount,
+  useSignAndExecuteTransaction,
+  useSuiClient,
+} from "@mysten/dapp-kit";
+import type { SuiEvent } from "@mysten/sui/client";
+import { Transaction } from "@mysten/sui/transactions";
+import {
+  decodeFollowEvent,
+  type FollowCounts,
+  type FollowEvent,
+} from "../services/suitter";
+import { indexerFor } from "../services/indexer";
+import { assertTxSucceeded, toSuitterError } from "../services/errors";
+import { useDeployment } from "./useDeployment";
+import { useSuitterClient } from "./useSuitterClient";
+import { STALE_TIMES, suitterKeys } from "./queryKeys";
+
+const NO_FOLLOWS: FollowCounts = { followers: 0, following: 0 };
+
+/**
+ * Replay the follows module's events, newest first as the chain ordered
+ * them, into the follows that still stand. A pair's latest event wins.
+ */
+function liveFollows(events: SuiEvent[]): FollowEvent[] {
+  const settled = new Set<string>();
+  const live: FollowEvent[] = [];
+  for (const event of events) {
+    const followed = event.type.endsWith("::follows::Followed");
+    if (!followed && !event.type.endsWith("::follows::Unfollowed")) continue;
+    const follow = decodeFollowEvent(event);
+    const pair = `${follow.follower}:${follow.followee}`;
+    if (settled.has(pair)) continue;
+    settled.add(pair);
+    if (followed) live.push(follow);
+  }
+  return live;
+}
+
+export function useFollow() {
+  const suiClient = useSuiClient();
+  const client = useSuitterClient();
+  const queryClient = useQueryClient();
+  const account = useCurrentAccount();
+  const { mutateAsync: signAndExecute } = useSignAndExecuteTransaction();
+  const { network, PACKAGE_ID, FOLLOW_REGISTRY } = useDeployment();
+  const indexer = indexerFor(network);
+
+  // Not every deployment has a FollowRegistry; without one nothing can be
+  // followed, and reads come back empty
+  const isAvailable = !!FOLLOW_REGISTRY;
+
+  const [isUpdating, setIsUpdating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const address = account?.address ?? null;
+
+  /** Whether `follower` (the connected account by default) follows `followee` */
+  const isFollowing = useCallback(
+    async (followee: string, follower: string | null = address) => {
+      if (!follower || !FOLLOW_REGISTRY) return false;
+      try {
+        return await queryClient.fetchQuery({
+          queryKey: suitterKeys.isFollowing(follower, followee),
+          queryFn: () => client.isFollowing(follower, followee, FOLLOW_REGISTRY),
+          staleTime: STALE_TIMES.follows,
+        });
+      } catch (e) {
+        console.error("Failed to check follow:", e);
+        return false;
+      }
+    },
+    [address, client, queryClient, FOLLOW_REGISTRY]
+  );
+
+  const fetchFollowCounts = useCallback(
+    async (target: string): Promise<FollowCounts> => {
+      if (!FOLLOW_REGISTRY) return NO_FOLLOWS;
+      try {
+        return await queryClient.fetchQuery({
+          queryKey: suitterKeys.followCounts(target),
+          queryFn: () => client.getFollowCounts(target, FOLLOW_REGISTRY),
+          staleTime: STALE_TIMES.follows,
+        });
+      } catch (e) {
+        console.error("Failed to fetch follow counts:", e);
+        return NO_FOLLOWS;
+      }
+    },
+    [client, queryClient, FOLLOW_REGISTRY]
+  );
+
+  // Follows touching `target` from the indexer, or from the package's
+  // follow events when it's unavailable
+  const loadFollows = useCallback(
+    async (target: string, side: "follower" | "followee") => {
+      if (indexer) {
+        try {
+          return side === "followee"
+            ? await indexer.getFollowers(target)
+            : await indexer.getFollowing(target);
+        } catch (e) {
+          console.error("Indexer unavailable, scanning events:", e);
+        }
+      }
+      const events = await client.queryAllModuleEvents("follows");
+      return liveFollows(events).filter((event) => event[side] === target);
+    },
+    [client, indexer]
+  );
+
+  /** Addresses following `target`, most recent first */
+  const listFollowers = useCallback(
+    async (target: string): Promise<string[]> => {
+      if (!FOLLOW_REGISTRY) return [];
+      try {
+        return await queryClient.fetchQuery({
+          queryKey: suitterKeys.followers(target),
+          queryFn: async () =>
+            (await loadFollows(target, "followee")).map((f) => f.follower),
+          staleTime: STALE_TIMES.follows,
+        });
+      } catch (e) {
+        console.error("Failed to list followers:", e);
+        return [];
+      }
+    },
+    [queryClient, loadFollows, FOLLOW_REGISTRY]
+  );
+
+  /** Addresses `target` follows, most recent first */
+  const listFollowing = useCallback(
+    async (target: string): Promise<string[]> => {
+      if (!FOLLOW_REGISTRY) return [];
+      try {
+        return await queryClient.fetchQuery({
+          queryKey: suitterKeys.following(target),
+          queryFn: async () =>
+            (await loadFollows(target, "follower")).map((f) => f.followee),
+          staleTime: STALE_TIMES.follows,
+        });
+      } catch (e) {
+        console.error("Failed to list following:", e);
+        return [];
+      }
+    },
+    [queryClient, loadFollows, FOLLOW_REGISTRY]
+  );
+
+  // follow and unfollow take the same arguments and touch the same reads
+  const setFollowing = useCallback(
+    async (target: string, follow: boolean) => {
+      if (!address) throw new Error("Wallet not connected");
+      setIsUpdating(true);
+      setError(null);
+      try {
+        if (!FOLLOW_REGISTRY) {
+          throw new Error("Follows aren't deployed on this network yet");
+        }
+
+        const tx = new Transaction();
+        tx.moveCall({
+          target: `${PACKAGE_ID}::follows::${follow ? "follow" : "unfollow"}`,
+          arguments: [
+            tx.object(FOLLOW_REGISTRY), // &mut FollowRegistry
+            tx.pure.address(target), // followee
+            tx.object("0x6"), // Clock object
+          ],
+        });
+
+        const { digest } = await signAndExecute({ transaction: tx });
+        assertTxSucceeded(
+          await suiClient.waitForTransaction({
+            digest,
+            options: { showEffects: true },
+          })
+        );
+
+        queryClient.setQueryData(
+          suitterKeys.isFollowing(address, target),
+          follow
+        );
+        await Promise.all([
+          queryClient.invalidateQueries({
+            queryKey: suitterKeys.followCounts(target),
+          }),
+          queryClient.invalidateQueries({
+            queryKey: suitterKeys.followCounts(address),
+          }),
+          queryClient.invalidateQueries({
+            queryKey: suitterKeys.followers(target),
+          }),
+          queryClient.invalidateQueries({
+            queryKey: suitterKeys.following(address),
+          }),
+        ]);
+        return digest;
+      } catch (e: any) {
+        const error = toSuitterError(
+          e,
+          follow ? "Failed to follow" : "Failed to unfollow"
+        );
+        setError(error.message);
+        throw error;
+      } finally {
+        setIsUpdating(false);
+      }
+    },
+    [
+      address,
+      PACKAGE_ID,
+      FOLLOW_REGISTRY,
+      signAndExecute,
+      suiClient,
+      queryClient,
+    ]
+  );
+
+  const follow = useCallback(
+    (target: string) => setFollowing(target, true),
+    [setFollowing]
+  );
+
+  const unfollow = useCallback(
+    (target: string) => setFollowing(target, false),
+    [setFollowing]
+  );
+
+  return useMemo(
+    () => ({
+      address,
+      isAvailable,
+      isUpdating,
+      error,
+      follow,
+      unfollow,
+      isFollowing,
+      fetchFollowCounts,
+      listFollowers,
+      listFollowing,
+    }),
+    [
+      address,
+      isAvailable,
+      isUpdating,
+      error,
+      follow,
+      unfollow,
+      isFollowing,
+      fetchFollowCounts,
+      listFollowers,
+      listFollowing,
+    ]
+  );
+}
@@ -0,0 +1,63 @@
+import { useCallback, useMemo } from "react";
+import { useFollow } from "./useFollow";
+import { useSuits, type SuitPage } from "./useSuits";
+
+export interface FollowingPage extends SuitPage {
+  /** Everyone the account follows; empty means there is nothing to show */
+  following: string[];
+}
+
+const NO_FOLLOWING: FollowingPage = {
+  suits: [],
+  nextCursor: null,
+  latestCursor: 0,
+  following: [],
+};
+
+/**
+ * Suits by the accounts the connected wallet follows, merged newest first
+ * across creators and paged like `fetchSuitPage`
+ */
+export function useFollowingFeed() {
+  const { address, listFollowing } = useFollow();
+  const { fetchSuitPage } = useSuits();
+
+  const fetchFollowingPage = useCallback(
+    async (
+      cursor: number | null = null,
+      limit: number = 20
+    ): Promise<FollowingPage | null> => {
+      if (!address) return NO_FOLLOWING;
+      const following = await listFollowing(address);
+      // An empty author list would walk the whole registry to find nothing
+      if (following.length === 0) return NO_FOLLOWING;
+
+      const page = await fetchSuitPage(cursor, limit, following);
+      return page && { ...page, following };
+    },
+    [address, listFollowing, fetchSuitPage]
+  );
+
+  /** Recent authors the account doesn't follow yet, for an empty feed */
+  const suggestFollows = useCallback(
+    async (limit: number = 3): Promise<string[]> => {
+      const [page, following] = await Promise.all([
+        fetchSuitPage(null, 20),
+        address ? listFollowing(address) : [],
+      ]);
+      const skip = new Set([address, ...following]);
+      const authors = new Set(
+        (page?.suits ?? [])
+          .map((suit) => suit.creator)
+          .filter((creator) => !skip.has(creator))
+      );
+      return [...authors].slice(0, limit);
+    },
+    [address, listFollowing, fetchSuitPage]
+  );
+
+  return useMemo(
+    () => ({ address, fetchFollowingPage, suggestFollows }),
+    [address, fetchFollowingPage, suggestFollows]
+  );
+}
@@ -0,0 +1,34 @@
+import { useEffect, useRef } from "react";
+
+/**
+ * Calls `onLoadMore` when the returned sentinel ref scrolls near the viewport.
+ * Attach it to an element after the last item and pass `enabled` as
+ * `hasMore && !isLoading`: the observer is recreated each time it flips back
+ * on, so a sentinel that is still visible after a short page triggers again.
+ */
+export function useInfiniteScroll<T extends Element = HTMLDivElement>(
+  onLoadMore: () => void,
+  enabled: boolean
+) {
+  const sentinelRef = useRef<T | null>(null);
+  const onLoadMoreRef = useRef(onLoadMore);
+  onLoadMoreRef.current = onLoadMore;
+
+  useEffect(() => {
+    const node = sentinelRef.current;
+    if (!enabled || !node) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((entry) => entry.isIntersecting)) {
+          onLoadMoreRef.current();
+        }
+      },
+      { rootMargin: "400px" }
+    );
+    observer.observe(node);
+    return () => observer.disconnect();
+  }, [enabled]);
+
+  return sentinelRef;
+}
@@ -1,18 +1,43 @@
 import { useCallback, useMemo, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
 import {
   useCurrentAccount,
   useSignAndExecuteTransaction,
   useSuiClient,
 } from "@mysten/dapp-kit";
 import { Transaction } from "@mysten/sui/transactions";
-import CONFIG from "../config";
+import {
+  decodeCommentCreated,
+  decodeLikeCreated,
+  decodeRetweetCreated,
+  type Comment,
+} from "../services/suitter";
+import { indexerFor } from "../services/indexer";
+import { assertTxSucceeded, toSuitterError } from "../services/errors";
+import { useDeployment } from "./useDeployment";
+import { useSuitterClient } from "./useSuitterClient";
+import { STALE_TIMES, suitterKeys } from "./queryKeys";
+import { rememberSuits } from "./useSuitOverrides";
+
+/**
+ * Suits a user has liked and reposted, keyed by suit ID. Values are the
+ * user's `Like` / `Retweet` object IDs, which unlike and unretweet consume.
+ */
+export interface InteractionState {
+  liked: Record<string, string>;
+  reposted: Record<string, string>;
+}
 
-const INTERACTION_REGISTRY_ID = CONFIG.INTERACTION_REGISTRY;
+const EMPTY_INTERACTIONS: InteractionState = { liked: {}, reposted: {} };
 
 export function useInteractions() {
   const suiClient = useSuiClient();
+  const client = useSuitterClient();
+  const queryClient = useQueryClient();
   const account = useCurrentAccount();
   const { mutateAsync: signAndExecute } = useSignAndExecuteTransaction();
+  const { network, INTERACTION_REGISTRY } = useDeployment();
+  const indexer = indexerFor(network);
 
   const [isLiking, setIsLiking] = useState(false);
   const [isCommenting, setIsCommenting] = useState(false);
@@ -22,23 +47,62 @@ export function useInteractions() {
 
   // Resolve the package ID from a Suit object's type to avoid config coupling
   const getPackageIdFromSuit = useCallback(
-    async (suitId: string) => {
-      const obj = await suiClient.getObject({
-        id: suitId,
-        options: { showContent: true },
-      });
-      const typeStr = (obj as any)?.data?.content?.type as string | undefined;
-      if (!typeStr || typeof typeStr !== "string") {
-        throw new Error("Unable to resolve suit type for package id");
-      }
-      // Expect format: 0xPACKAGE::suits::Suit
-      const pkg = typeStr.split("::")[0];
-      if (!pkg?.startsWith("0x")) {
-        throw new Error("Invalid package id derived from suit type");
+    (suitId: string) => client.getPackageIdOf(suitId),
+    [client]
+  );
+
+  // One pass over every Like and Retweet the user owns. Feeds read their
+  // flags from this instead of asking per suit.
+  const fetchInteractionState = useCallback(
+    async (owner: string): Promise<InteractionState> => {
+      try {
+        return await queryClient.fetchQuery({
+          queryKey: suitterKeys.interactions(owner),
+          queryFn: async () => {
+            const [likes, retweets] = await Promise.all([
+              client.getOwnedLikes(owner),
+              client.getOwnedRetweets(owner),
+            ]);
+            return {
+              liked: Object.fromEntries(
+                likes.map((like) => [like.suitId, like.id])
+              ),
+              reposted: Object.fromEntries(
+                retweets.map((retweet) => [retweet.originalSuitId, retweet.id])
+              ),
+            };
+          },
+          staleTime: STALE_TIMES.interactions,
+        });
+      } catch (e) {
+        console.error("Failed to fetch liked and reposted suits:", e);
+        return EMPTY_INTERACTIONS;
       }
-      return pkg;
     },
-    [suiClient]
+    [client, queryClient]
+  );
+
+  // Patch the cached state after a toggle instead of re-reading every
+  // owned object; a null objectId removes the entry
+  const patchInteractionState = useCallback(
+    (
+      owner: string,
+      kind: keyof InteractionState,
+      suitId: string,
+      objectId: string | null
+    ) => {
+      queryClient.setQueryData<InteractionState>(
+        suitterKeys.interactions(owner),
+        (prev) => {
+          if (!prev) return prev;
+          const next = { ...prev[kind] };
+          if (objectId) next[suitId] = objectId;
+          else delete next[suitId];
+          return { ...prev, [kind]: next };
+        }
+      );
+    },
+    [queryClient]
   );
 
   const likeSuit = useCallback(
@@ -54,22 +118,103 @@ export function useInteractions() {
           target: `${pkg}::interactions::like_suit`,
           arguments: [
             tx.object(suitId), // &mut Suit
-            tx.object(INTERACTION_REGISTRY_ID), // &mut InteractionRegistry
+            tx.object(INTERACTION_REGISTRY), // &mut InteractionRegistry
             tx.object("0x6"), // Clock object
           ],
         });
 
         const { digest } = await signAndExecute({ transaction: tx });
-        await suiClient.waitForTransaction({ digest });
+        const result = await suiClient.waitForTransaction({
+          digest,
+          options: { showEffects: true, showEvents: true },
+        });
+        assertTxSucceeded(result);
+
+        const likeCreated = result.events?.find((e) =>
+          e.type.endsWith("::interactions::LikeCreated")
+        );
+        if (likeCreated) {
+          patchInteractionState(
+            address,
+            "liked",
+            suitId,
+            decodeLikeCreated(likeCreated).likeId
+          );
+        } else {
+          await queryClient.invalidateQueries({
+            queryKey: suitterKeys.interactions(address),
+          });
+        }
+        await queryClient.invalidateQueries({ queryKey: suitterKeys.suits() });
         return digest;
       } catch (e: any) {
-        setError(e?.message ?? "Failed to like suit");
-        throw e;
+        const error = toSuitterError(e, "Failed to like suit");
+        setError(error.message);
+        throw error;
       } finally {
         setIsLiking(false);
       }
     },
-    [address, signAndExecute, suiClient, getPackageIdFromSuit]
+    [
+      address,
+      INTERACTION_REGISTRY,
+      signAndExecute,
+      suiClient,
+      queryClient,
+      getPackageIdFromSuit,
+      patchInteractionState,
+    ]
+  );
+
+  // unlike_suit consumes the caller's Like object, so look its ID up first
+  const unlikeSuit = useCallback(
+    async (suitId: string) => {
+      if (!address) throw new Error("Wallet not connected");
+      setIsLiking(true);
+      setError(null);
+      try {
+        const pkg = await getPackageIdFromSuit(suitId);
+        const likeId = (await fetchInteractionState(address)).liked[suitId];
+        if (!likeId) throw new Error("You haven't liked this suit");
+
+        const tx = new Transaction();
+        tx.moveCall({
+          target: `${pkg}::interactions::unlike_suit`,
+          arguments: [
+            tx.object(suitId), // &mut Suit
+            tx.object(likeId), // Like
+            tx.object(INTERACTION_REGISTRY), // &mut InteractionRegistry
+          ],
+        });
+
+        const { digest } = await signAndExecute({ transaction: tx });
+        assertTxSucceeded(
+          await suiClient.waitForTransaction({
+            digest,
+            options: { showEffects: true },
+          })
+        );
+        patchInteractionState(address, "liked", suitId, null);
+        await queryClient.invalidateQueries({ queryKey: suitterKeys.suits() });
+        return digest;
+      } catch (e: any) {
+        const error = toSuitterError(e, "Failed to unlike suit");
+        setError(error.message);
+        throw error;
+      } finally {
+        setIsLiking(false);
+      }
+    },
+    [
+      address,
+      INTERACTION_REGISTRY,
+      signAndExecute,
+      suiClient,
+      queryClient,
+      getPackageIdFromSuit,
+      fetchInteractionState,
+      patchInteractionState,
+    ]
   );
 
   const commentOnSuit = useCallback(
@@ -91,16 +236,28 @@ export function useInteractions() {
         });
 
         const { digest } = await signAndExecute({ transaction: tx });
-        await suiClient.waitForTransaction({ digest });
+        assertTxSucceeded(
+          await suiClient.waitForTransaction({
+            digest,
+            options: { showEffects: true },
+          })
+        );
+        await Promise.all([
+          queryClient.invalidateQueries({
+            queryKey: suitterKeys.comments(suitId),
+          }),
+          queryClient.invalidateQueries({ queryKey: suitterKeys.suits() }),
+        ]);
         return digest;
       } catch (e: any) {
-        setError(e?.message ?? "Failed to comment on suit");
-        throw e;
+        const error = toSuitterError(e, "Failed to comment on suit");
+        setError(error.message);
+        throw error;
       } finally {
         setIsCommenting(false);
       }
     },
-    [address, signAndExecute, suiClient, getPackageIdFromSuit]
+    [address, signAndExecute, suiClient, queryClient, getPackageIdFromSuit]
   );
 
   const retweetSuit = useCallback(
@@ -116,110 +273,178 @@ export function useInteractions() {
           target: `${pkg}::interactions::retweet_suit`,
           arguments: [
             tx.object(suitId), // &mut Suit
-            tx.object(INTERACTION_REGISTRY_ID), // &mut InteractionRegistry
+            tx.object(INTERACTION_REGISTRY), // &mut InteractionRegistry
             tx.object("0x6"), // Clock object
           ],
         });
 
         const { digest } = await signAndExecute({ transaction: tx });
-        await suiClient.waitForTransaction({ digest });
+        const result = await suiClient.waitForTransaction({
+          digest,
+          options: { showEffects: true, showEvents: true },
+        });
+        assertTxSucceeded(result);
+
+        const retweetCreated = result.events?.find((e) =>
+          e.type.endsWith("::interactions::RetweetCreated")
+        );
+        if (retweetCreated) {
+          patchInteractionState(
+            address,
+            "reposted",
+            suitId,
+            decodeRetweetCreated(retweetCreated).retweetId
+          );
+        } else {
+          await queryClient.invalidateQueries({
+            queryKey: suitterKeys.interactions(address),
+          });
+        }
+        await queryClient.invalidateQueries({ queryKey: suitterKeys.suits() });
         return digest;
       } catch (e: any) {
-        setError(e?.message ?? "Failed to retweet suit");
-        throw e;
+        const error = toSuitterError(e, "Failed to retweet suit");
+        setError(error.message);
+        throw error;
       } finally {
         setIsRetweeting(false);
       }
     },
-    [address, signAndExecute, suiClient, getPackageIdFromSuit]
+    [
+      address,
+      INTERACTION_REGISTRY,
+      signAndExecute,
+      suiClient,
+      queryClient,
+      getPackageIdFromSuit,
+      patchInteractionState,
+    ]
   );
 
-  const checkUserLiked = useCallback(
-    async (suitId: string, userAddress: string) => {
+  // unretweet_suit consumes the caller's Retweet object, so look its ID up
+  // first
+  const unretweetSuit = useCallback(
+    async (suitId: string) => {
+      if (!address) throw new Error("Wallet not connected");
+      setIsRetweeting(true);
+      setError(null);
       try {
         const pkg = await getPackageIdFromSuit(suitId);
-        // Note: This is a simplified check. In production, you'd need to query
-        // the likes table or check for owned Like objects
-        const likeObjects = await suiClient.getOwnedObjects({
-          owner: userAddress,
-          filter: {
-            StructType: `${pkg}::interactions::Like`,
-          },
-        });
+        const retweetId = (await fetchInteractionState(address)).reposted[
+          suitId
+        ];
+        if (!retweetId) throw new Error("You haven't reposted this suit");
 
-        return likeObjects.data.some((obj: any) => {
-          const fields = obj.data?.content?.fields;
-          return fields?.suit_id === suitId;
+        const tx = new Transaction();
+        tx.moveCall({
+          target: `${pkg}::interactions::unretweet_suit`,
+          arguments: [
+            tx.object(suitId), // &mut Suit
+            tx.object(retweetId), // Retweet
+            tx.object(INTERACTION_REGISTRY), // &mut InteractionRegistry
+          ],
         });
-      } catch (e) {
-        console.error("Failed to check if user liked:", e);
-        return false;
+
+        const { digest } = await signAndExecute({ transaction: tx });
+        assertTxSucceeded(
+          await suiClient.waitForTransaction({
+            digest,
+            options: { showEffects: true },
+          })
+        );
+        patchInteractionState(address, "reposted", suitId, null);
+        await queryClient.invalidateQueries({ queryKey: suitterKeys.suits() });
+        return digest;
+      } catch (e: any) {
+        const error = toSuitterError(e, "Failed to unretweet suit");
+        setError(error.message);
+        throw error;
+      } finally {
+        setIsRetweeting(false);
       }
     },
-    [suiClient, getPackageIdFromSuit]
+    [
+      address,
+      INTERACTION_REGISTRY,
+      signAndExecute,
+      suiClient,
+      queryClient,
+      getPackageIdFromSuit,
+      fetchInteractionState,
+      patchInteractionState,
+    ]
   );
 
-  const checkUserRetweeted = useCallback(
-    async (suitId: string, userAddress: string) => {
-      try {
-        const pkg = await getPackageIdFromSuit(suitId);
-        const retweetObjects = await suiClient.getOwnedObjects({
-          owner: userAddress,
-          filter: {
-            StructType: `${pkg}::interactions::Retweet`,
-          },
-        });
-
-        return retweetObjects.data.some((obj: any) => {
-          const fields = obj.data?.content?.fields;
-          return fields?.original_suit_id === suitId;
-        });
-      } catch (e) {
-        console.error("Failed to check if user retweeted:", e);
-        return false;
-      }
+  /** Re-read a suit from chain, e.g. to settle counts after a toggle */
+  // Read a suit straight from chain, keeping it as its latest counts
+  const fetchSuit = useCallback(
+    async (suitId: string) => {
+      const suit = await client.getSuit(suitId);
+      if (suit) rememberSuits(queryClient, [suit]);
+      return suit;
     },
-    [suiClient, getPackageIdFromSuit]
+    [client, queryClient]
+  );
+
+  const checkUserLiked = useCallback(
+    async (suitId: string, userAddress: string) =>
+      suitId in (await fetchInteractionState(userAddress)).liked,
+    [fetchInteractionState]
+  );
+
+  const checkUserRetweeted = useCallback(
+    async (suitId: string, userAddress: string) =>
+      suitId in (await fetchInteractionState(userAddress)).reposted,
+    [fetchInteractionState]
   );
 
   const fetchComments = useCallback(
-    async (suitId: string) => {
+    async (suitId: string): Promise<Comment[]> => {
       try {
-        const pkg = await getPackageIdFromSuit(suitId);
-        
-        // Query for Comment events
-        const events = await suiClient.queryEvents({
-          query: {
-            MoveEventType: `${pkg}::interactions::CommentCreated`,
-          },
-          limit: 100,
-        });
+        return await queryClient.fetchQuery({
+          queryKey: suitterKeys.comments(suitId),
+          queryFn: async () => {
+            let commentIds: string[] | null = null;
+            if (indexer) {
+              try {
+                const indexed = await indexer.getComments(suitId);
+                commentIds = indexed.map((c) => c.commentId);
+              } catch (e) {
+                console.error("Indexer unavailable, scanning events:", e);
+              }
+            }
 
-        // Filter comments for this specific suit
-        const comments = events.data
-          .filter((event: any) => {
-            const parsedJson = event.parsedJson;
-            return parsedJson?.suit_id === suitId;
-          })
-          .map((event: any) => {
-            const parsedJson = event.parsedJson;
-            return {
-              id: event.id.txDigest,
-              suitId: parsedJson.suit_id,
-              commenter: parsedJson.commenter,
-              content: parsedJson.content,
-              timestamp: parseInt(parsedJson.timestamp) || Date.now(),
-            };
-          })
-          .sort((a, b) => b.timestamp - a.timestamp); // Most recent first
+            if (!commentIds) {
+              const pkg = await getPackageIdFromSuit(suitId);
+
+              // Every CommentCreated on the network, so a new comment isn't
+              // lost past the first page
+              const events = await client.queryAllEvents(
+                "interactions",
+                "CommentCreated",
+                decodeCommentCreated,
+                { packageId: pkg }
+              );
+              commentIds = events
+                .filter((event) => event.suitId === suitId)
+                .map((event) => event.commentId);
+            }
 
-        return comments;
+            // CommentCreated carries no content, so load the Comment objects
+            // for this specific suit
+            const comments = await client.getComments(commentIds);
+
+            // Most recent first
+            return comments.sort((a, b) => b.createdAt - a.createdAt);
+          },
+          staleTime: STALE_TIMES.comments,
+        });
       } catch (e) {
         console.error("Failed to fetch comments:", e);
         return [];
       }
     },
-    [suiClient, getPackageIdFromSuit]
+    [client, queryClient, indexer, getPackageIdFromSuit]
   );
 
   return useMemo(
@@ -230,8 +455,12 @@ export function useInteractions() {
       isRetweeting,
       error,
       likeSuit,
+      unlikeSuit,
       commentOnSuit,
       retweetSuit,
+      unretweetSuit,
+      fetchSuit,
+      fetchInteractionState,
       checkUserLiked,
       checkUserRetweeted,
       fetchComments,
@@ -243,8 +472,12 @@ export function useInteractions() {
       isRetweeting,
       error,
       likeSuit,
+      unlikeSuit,
       commentOnSuit,
       retweetSuit,
+      unretweetSuit,
+      fetchSuit,
+      fetchInteractionState,
       checkUserLiked,
       checkUserRetweeted,
       fetchComments,
@@ -0,0 +1,83 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import {
+  AttachmentError,
+  downloadAttachment,
+  type MessageAttachment,
+} from "../services/messageAttachments";
+import { suitterKeys } from "./queryKeys";
+
+export type AttachmentStatus =
+  | "idle"
+  | "loading"
+  | "ready"
+  | "expired"
+  | "failed";
+
+export function isImageAttachment(attachment: MessageAttachment) {
+  return attachment.mimeType.startsWith("image/");
+}
+
+/**
+ * Download and decrypt `attachment` for display. Images start right away so
+ * they can be previewed inline; anything else waits for `download`. The
+ * object URL lives as long as the component using it.
+ */
+export function useMessageAttachment(attachment: MessageAttachment) {
+  const queryClient = useQueryClient();
+  // Each request downloads again, so a failure can be retried
+  const [attempt, setAttempt] = useState(() =>
+    isImageAttachment(attachment) ? 1 : 0
+  );
+  const [status, setStatus] = useState<AttachmentStatus>("idle");
+  const [url, setUrl] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Messages are decoded afresh on each read from chain; only the blob ID
+  // says whether this is still the same file
+  const attachmentRef = useRef(attachment);
+  attachmentRef.current = attachment;
+  const { blobId } = attachment;
+
+  useEffect(() => {
+    if (attempt === 0) return;
+    let cancelled = false;
+    let objectUrl: string | null = null;
+
+    setStatus("loading");
+    setError(null);
+    queryClient
+      .fetchQuery({
+        queryKey: suitterKeys.attachment(blobId),
+        queryFn: () => downloadAttachment(attachmentRef.current),
+        // A blob's contents never change
+        staleTime: Infinity,
+      })
+      .then((blob) => {
+        if (cancelled) return;
+        objectUrl = URL.createObjectURL(blob);
+        setUrl(objectUrl);
+        setStatus("ready");
+      })
+      .catch((e) => {
+        if (cancelled) return;
+        console.error("Failed to load attachment:", e);
+        setStatus(
+          e instanceof AttachmentError && e.reason === "expired"
+            ? "expired"
+            : "failed"
+        );
+        setError(e instanceof Error ? e.message : "Couldn't load this file.");
+      });
+
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+      setUrl(null);
+    };
+  }, [attempt, blobId, queryClient]);
+
+  const download = useCallback(() => setAttempt((n) => n + 1), []);
+
+  return { status, url, error, download };
+}
@@ -3,27 +3,47 @@ import {
   useCurrentAccount,
   useSuiClient,
 } from "@mysten/dapp-kit";
-import { useState, useCallback, useEffect, useMemo } from "react";
+import { useState, useCallback, useEffect, useMemo, useRef } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import type { EventId, SuiClient, SuiEvent } from "@mysten/sui/client";
 import { Transaction } from "@mysten/sui/transactions";
-import CONFIG from "../config";
+import { toHex } from "@mysten/sui/utils";
+import CONFIG, { type SuitterNetwork } from "../config";
+import {
+  decodeChatCreated,
+  decodeMessageRead,
+  decodeMessageSent,
+  type Chat,
+  type Message,
+  type SuitterClient,
+} from "../services/suitter";
 import { useProfile } from "./useProfile";
-
-// Types for our custom messaging contract
-interface Message {
-  sender: string;
-  encrypted_message: number[];
-  content_hash: number[];
-  sent_timestamp: string;
-  is_read: boolean;
-}
-
-interface Chat {
-  id: { id: string };
-  participant_1: string;
-  participant_2: string;
-  messages: Message[];
-  created_at: string;
-}
+import { indexerFor } from "../services/indexer";
+import { chatDirectory, chatDirectoryKey } from "../services/chatDirectory";
+import { assertTxSucceeded, toSuitterError } from "../services/errors";
+import {
+  checkMessageIntegrity,
+  messageContentHash,
+  type MessageIntegrity,
+} from "../services/messageIntegrity";
+import {
+  checkAttachments,
+  decodeMessagePayload,
+  encodeMessagePayload,
+  uploadAttachment,
+  type MessageAttachment,
+} from "../services/messageAttachments";
+import {
+  providedCipher,
+  SealMessageCipher,
+  type MessageCipher,
+} from "../services/seal";
+import { useSessionKey } from "../providers/SessionKeyProvider";
+import { useDeployment } from "./useDeployment";
+import { useSuitterClient } from "./useSuitterClient";
+import { useOptimistic } from "./useOptimistic";
+import { useSyncTask } from "./useSyncTask";
+import { STALE_TIMES, suitterKeys } from "./queryKeys";
 
 interface ChatWithMetadata {
   id: string;
@@ -31,6 +51,8 @@ interface ChatWithMetadata {
   participant_2: string;
   lastMessage?: {
     text: string;
+    /** Encrypted and not readable until a session key is signed */
+    locked: boolean;
     sender: string;
     timestamp: number;
   };
@@ -38,11 +60,98 @@ interface ChatWithMetadata {
   created_at: number;
 }
 
+/**
+ * Seal on networks with key servers, or the client's own stand-in as under
+ * VITE_MOCK_CHAIN. Null where messages can't be encrypted.
+ */
+function createMessageCipher(
+  suiClient: SuiClient,
+  network: SuitterNetwork,
+  packageId: string
+): MessageCipher | null {
+  const provided = providedCipher(suiClient);
+  if (provided) return provided;
+  const keyServers = CONFIG.SEAL_KEY_SERVERS[network];
+  return keyServers.length > 0
+    ? new SealMessageCipher(suiClient, packageId, keyServers)
+    : null;
+}
+
+// How often the open chat and the chat list are checked for changes: at the
+// shortest right after a change or a send, backing off while nothing happens
+const OPEN_CHAT_SYNC = { minInterval: 1_000, maxInterval: 30_000 };
+const CHAT_LIST_SYNC = { minInterval: 4_000, maxInterval: 60_000 };
+
+// Messages seen on screen are marked read together, at most once per interval
+const READ_RECEIPT_INTERVAL_MS = 3_000;
+
+/** What reading a message from chain found */
+interface OpenedMessage {
+  /** Missing while the message is locked; null if it wouldn't decrypt */
+  text?: string | null;
+  integrity: MessageIntegrity;
+}
+
+/**
+ * Every MessageRead read so far, as [message index, read at] by chat, and
+ * the cursor to read on from
+ */
+interface ReadLog {
+  client: SuitterClient;
+  cursor: EventId | null;
+  reads: Map<string, [number, number][]>;
+  catchingUp: Promise<void> | null;
+}
+
+/** A sent message shown until it is read back from chain */
+interface PendingMessage {
+  localId: string;
+  chatId: string;
+  text: string;
+  /** Files still being encrypted and uploaded */
+  attachmentCount: number;
+  /** Hex, once the message has been encrypted and hashed */
+  contentHash: string | null;
+  sentTimestamp: number;
+}
+
+/** What the chat list shows of a decrypted message */
+function previewText(plaintext: string) {
+  const { text, attachments } = decodeMessagePayload(plaintext);
+  if (text || attachments.length === 0) return text;
+  return attachments.length === 1
+    ? "Sent an attachment"
+    : `Sent ${attachments.length} attachments`;
+}
+
+/** Messages are told apart by their content hash */
+function isSameMessage(a: Message | undefined, b: Message | undefined) {
+  return !!a && !!b && toHex(a.contentHash) === toHex(b.contentHash);
+}
+
+/** Where a message is kept once opened */
+function messageKey(chatId: string, index: number) {
+  return `${chatId}:${index}`;
+}
+
 export const useMessaging = () => {
   const { mutateAsync: signAndExecute } = useSignAndExecuteTransaction();
   const currentAccount = useCurrentAccount();
   const suiClient = useSuiClient();
+  const client = useSuitterClient();
+  const queryClient = useQueryClient();
   const { fetchProfileByAddress } = useProfile();
+  const runOptimistic = useOptimistic();
+  const { network, PACKAGE_ID, CHAT_REGISTRY } = useDeployment();
+  const indexer = indexerFor(network);
+  const { sessionKey, isInitializing, initializeSessionKey } = useSessionKey();
+
+  const cipher = useMemo(
+    () => createMessageCipher(suiClient, network, PACKAGE_ID),
+    [suiClient, network, PACKAGE_ID]
+  );
+  const hasSessionKey = !!sessionKey && !sessionKey.isExpired();
+  const isLockedOut = !!cipher?.needsSessionKey && !hasSessionKey;
 
   // Chat state
   const [chats, setChats] = useState<ChatWithMetadata[]>([]);
@@ -56,11 +165,197 @@ export const useMessaging = () => {
   const [isFetchingMessages, setIsFetchingMessages] = useState(false);
   const [isSendingMessage, setIsSendingMessage] = useState(false);
 
+  // Messages opened so far, by `messageKey`
+  const [opened, setOpened] = useState<Record<string, OpenedMessage>>({});
+  // Read by the async paths, which mustn't wait for a render to see changes
+  const openedRef = useRef(opened);
+  const updateOpened = useCallback(
+    (
+      change: (prev: Record<string, OpenedMessage>) => Record<string, OpenedMessage>
+    ) => {
+      openedRef.current = change(openedRef.current);
+      setOpened(openedRef.current);
+    },
+    []
+  );
+  const [pending, setPending] = useState<PendingMessage[]>([]);
+  // Plaintext of messages sent from here, by content hash, so they read
+  // back without a round trip to the key servers
+  const sentTextsRef = useRef(new Map<string, string>());
+
+  // When the other participant read the account's messages, by `messageKey`
+  const [readAt, setReadAt] = useState<Record<string, number>>({});
+  // Message indexes seen on screen and not yet marked read, by chat
+  const seenQueueRef = useRef(new Map<string, Set<number>>());
+  // Every message queued from here, so none is marked read twice
+  const markedRef = useRef(new Set<string>());
+  const readTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const lastReadFlushRef = useRef(0);
+  // Where each background check last read each messaging event, by
+  // `${check}:${event}`; missing until the check has looked once
+  const eventCursorsRef = useRef(new Map<string, EventId | null>());
+  // Read times from MessageRead events when there's no indexer
+  const readLogRef = useRef<ReadLog | null>(null);
+
   // Username cache for participants
   const [usernameCache, setUsernameCache] = useState<Record<string, string>>(
     {}
   );
 
+  // Load a single chat through the query cache
+  const loadChat = useCallback(
+    (chatId: string) =>
+      queryClient.fetchQuery({
+        queryKey: suitterKeys.chat(chatId),
+        queryFn: () => client.getChat(chatId),
+        staleTime: STALE_TIMES.chat,
+      }),
+    [client, queryClient]
+  );
+
+  // Drop sent messages once a read from chain has them
+  const settlePending = useCallback((chatId: string, list: Message[]) => {
+    const landed = new Set(list.map((msg) => toHex(msg.contentHash)));
+    setPending((prev) => {
+      const next = prev.filter(
+        (p) =>
+          p.chatId !== chatId || !p.contentHash || !landed.has(p.contentHash)
+      );
+      return next.length === prev.length ? prev : next;
+    });
+  }, []);
+
+  // Bring the read log up to date, reading only the MessageRead events since
+  // it was last brought up to date. Callers at the same time share one read.
+  const catchUpReadLog = useCallback(async (): Promise<ReadLog> => {
+    if (readLogRef.current?.client !== client) {
+      readLogRef.current = {
+        client,
+        cursor: null,
+        reads: new Map(),
+        catchingUp: null,
+      };
+    }
+    const log = readLogRef.current;
+    log.catchingUp ??= (async () => {
+      for (;;) {
+        const page = await client.queryEventsSince(
+          "messaging",
+          "MessageRead",
+          decodeMessageRead,
+          log.cursor
+        );
+        for (const event of page.data) {
+          const reads = log.reads.get(event.chatId) ?? [];
+          reads.push([event.messageIndex, event.timestamp]);
+          log.reads.set(event.chatId, reads);
+        }
+        log.cursor = page.cursor;
+        if (!page.hasNextPage) return;
+      }
+    })().finally(() => {
+      log.catchingUp = null;
+    });
+    await log.catchingUp;
+    return log;
+  }, [client]);
+
+  // Read receipts come from the indexer, else from MessageRead events
+  const fetchReadReceipts = useCallback(
+    async (chatId: string) => {
+      try {
+        const receipts = await queryClient.fetchQuery({
+          queryKey: suitterKeys.messageReads(chatId),
+          queryFn: async (): Promise<[number, number][]> => {
+            if (indexer) {
+              try {
+                const indexed = await indexer.getMessages(chatId);
+                return indexed.flatMap((msg) =>
+                  msg.readAt === null ? [] : [[msg.messageIndex, msg.readAt]]
+                );
+              } catch (e) {
+                console.error("Indexer unavailable, scanning events:", e);
+              }
+            }
+
+            const log = await catchUpReadLog();
+            return [...(log.reads.get(chatId) ?? [])];
+          },
+          staleTime: STALE_TIMES.chat,
+        });
+        setReadAt((prev) => ({
+          ...prev,
+          ...Object.fromEntries(
+            receipts.map(([index, at]) => [messageKey(chatId, index), at])
+          ),
+        }));
+      } catch (err) {
+        console.error("Error fetching read receipts:", err);
+      }
+    },
+    [queryClient, indexer, catchUpReadLog]
+  );
+
+  // Check and decrypt a chat's messages that haven't been opened yet,
+  // keeping the results. Messages sent before encryption are plain UTF-8.
+  const openMessages = useCallback(
+    async (chatId: string, list: Message[]) => {
+      if (!currentAccount) return openedRef.current;
+
+      const results: Record<string, OpenedMessage> = {};
+      const sealed: Message[] = [];
+      for (const msg of list) {
+        const key = messageKey(chatId, msg.index);
+        const prev = openedRef.current[key];
+        if (prev?.text !== undefined) continue;
+
+        const integrity =
+          prev?.integrity ?? (await checkMessageIntegrity(chatId, msg));
+        const sentText = sentTextsRef.current.get(toHex(msg.contentHash));
+        if (sentText !== undefined && integrity === "verified") {
+          results[key] = { text: sentText, integrity };
+        } else if (cipher?.keyId(msg.encryptedMessage)) {
+          results[key] = { integrity };
+          sealed.push(msg);
+        } else {
+          results[key] = {
+            text: new TextDecoder().decode(msg.encryptedMessage),
+            integrity,
+          };
+        }
+      }
+
+      // Without a session key, encrypted messages stay locked until one is
+      // signed
+      if (sealed.length > 0 && cipher && !isLockedOut) {
+        try {
+          const texts = await cipher.decrypt(
+            chatId,
+            sealed.map((msg) => msg.encryptedMessage),
+            { address: currentAccount.address, sessionKey }
+          );
+          sealed.forEach((msg, i) => {
+            results[messageKey(chatId, msg.index)].text = texts[i];
+          });
+        } catch (err) {
+          console.error("Error decrypting messages:", err);
+          setChatError(
+            toSuitterError(err, "Couldn't decrypt these messages").message
+          );
+          sealed.forEach((msg) => {
+            results[messageKey(chatId, msg.index)].text = null;
+          });
+        }
+      }
+
+      if (Object.keys(results).length > 0) {
+        updateOpened((prev) => ({ ...prev, ...results }));
+      }
+      return openedRef.current;
+    },
+    [currentAccount, cipher, isLockedOut, sessionKey, updateOpened]
+  );
+
   // Start chat function
   const startChat = useCallback(
     async (otherUserAddress: string) => {
@@ -76,10 +371,10 @@ export const useMessaging = () => {
         const tx = new Transaction();
 
         tx.moveCall({
-          target: `${CONFIG.VITE_PACKAGE_ID}::messaging::start_chat`,
+          target: `${PACKAGE_ID}::messaging::start_chat`,
           arguments: [
             tx.pure.address(otherUserAddress),
-            tx.object(CONFIG.CHAT_REGISTRY),
+            tx.object(CHAT_REGISTRY),
             tx.object("0x6"), // Clock object
           ],
         });
@@ -89,31 +384,42 @@ export const useMessaging = () => {
         // Wait for transaction
         const result = await suiClient.waitForTransaction({
           digest,
-          options: { showObjectChanges: true, showEvents: true },
+          options: { showEffects: true, showObjectChanges: true, showEvents: true },
         });
+        assertTxSucceeded(result);
 
         // Get the created chat ID from events
         const chatCreatedEvent = result.events?.find((e) =>
           e.type.endsWith("::messaging::ChatCreated")
         );
 
-        const chatId = (chatCreatedEvent?.parsedJson as any)?.chat_id;
+        const chatId = chatCreatedEvent
+          ? decodeChatCreated(chatCreatedEvent).chatId
+          : undefined;
 
         // Refresh chats list
+        await queryClient.invalidateQueries({
+          queryKey: suitterKeys.chats(currentAccount.address),
+        });
         await fetchChats();
 
         return { chatId };
       } catch (err) {
-        const errorMsg =
-          err instanceof Error ? err.message : "Failed to start chat";
-        setChatError(errorMsg);
+        setChatError(toSuitterError(err, "Failed to start chat").message);
         console.error("Error starting chat:", err);
         return null;
       } finally {
         setIsCreatingChat(false);
       }
     },
-    [currentAccount, signAndExecute, suiClient]
+    [
+      currentAccount,
+      PACKAGE_ID,
+      CHAT_REGISTRY,
+      signAndExecute,
+      suiClient,
+      queryClient,
+    ]
   );
 
   // Fetch all chats for current user by querying ChatCreated events
@@ -125,7 +431,7 @@ export const useMessaging = () => {
       }
 
       console.log("Fetching chats for:", currentAccount.address);
-      console.log("Using PACKAGE_ID:", CONFIG.VITE_PACKAGE_ID);
+      console.log("Using PACKAGE_ID:", PACKAGE_ID);
 
       if (!silent) {
         setIsFetchingChats(true);
@@ -133,125 +439,98 @@ export const useMessaging = () => {
       setChatError(null);
 
       try {
-        // Query ChatCreated events to find all chats
-        const events = await suiClient.queryEvents({
-          query: {
-            MoveEventType: `${CONFIG.VITE_PACKAGE_ID}::messaging::ChatCreated`,
-          },
-          limit: 50,
-        });
-
-        console.log("ChatCreated events:", events);
-
-        if (!events.data || events.data.length === 0) {
-          console.log("No ChatCreated events found");
-          setChats([]);
-          if (!silent) {
-            setIsFetchingChats(false);
-          }
-          return;
-        }
+        const validChats = await queryClient.fetchQuery({
+          queryKey: suitterKeys.chats(currentAccount.address),
+          queryFn: async () => {
+            let chatIds: string[] | null = null;
+            if (indexer) {
+              try {
+                const indexed = await indexer.getChats(currentAccount.address);
+                chatIds = indexed.map((chat) => chat.chatId);
+              } catch (e) {
+                console.error("Indexer unavailable, scanning events:", e);
+              }
+            }
 
-        // Fetch all chat objects from events
-        const chatObjects = await Promise.all(
-          events.data.map(async (event) => {
-            try {
-              const eventData = event.parsedJson as any;
-              const chatId = eventData.chat_id;
-
-              console.log("Processing chat ID:", chatId);
-
-              // Get the actual chat object
-              const chatObj = await suiClient.getObject({
-                id: chatId,
-                options: { showContent: true },
-              });
-
-              console.log("Chat object:", chatObj);
-
-              if (chatObj.data?.content?.dataType === "moveObject") {
-                const fields = (chatObj.data.content as any).fields;
-
-                console.log("Chat fields:", fields);
-                console.log("Participant 1:", fields.participant_1);
-                console.log("Participant 2:", fields.participant_2);
-                console.log("Current user:", currentAccount.address);
-
-                // Only return chats where current user is a participant
-                if (
-                  fields.participant_1 === currentAccount.address ||
-                  fields.participant_2 === currentAccount.address
-                ) {
-                  console.log("User is participant, including chat");
-
-                  // Transform messages to extract fields if nested
-                  const messages = (fields.messages || []).map((msg: any) => {
-                    if (msg.fields) {
-                      return {
-                        sender: msg.fields.sender,
-                        encrypted_message: msg.fields.encrypted_message,
-                        content_hash: msg.fields.content_hash,
-                        sent_timestamp: msg.fields.sent_timestamp,
-                        is_read: msg.fields.is_read,
-                      };
-                    }
-                    return msg;
-                  });
-
-                  return {
-                    id: chatId,
-                    participant_1: fields.participant_1,
-                    participant_2: fields.participant_2,
-                    messages: messages,
-                    created_at: parseInt(fields.created_at),
-                  };
-                } else {
-                  console.log("User is not participant, skipping chat");
-                }
+            if (!chatIds) {
+              // Chats found on earlier visits show straight away, and any
+              // created since are added once the directory has caught up
+              const directoryKey = chatDirectoryKey(
+                network,
+                PACKAGE_ID,
+                currentAccount.address
+              );
+              const cached = await chatDirectory.cached(directoryKey);
+              const sync = chatDirectory.sync(
+                client,
+                directoryKey,
+                currentAccount.address
+              );
+              if (cached) {
+                sync
+                  .then(async (synced) => {
+                    if (synced.length === cached.length) return;
+                    await queryClient.invalidateQueries({
+                      queryKey: suitterKeys.chats(currentAccount.address),
+                    });
+                    await fetchChats(true);
+                  })
+                  .catch((e) => console.error("Error syncing chats:", e));
               }
-              return null;
-            } catch (err) {
-              console.error("Error fetching chat:", err);
-              return null;
+              const known = cached ?? (await sync);
+              chatIds = known.map((chat) => chat.chatId);
             }
-          })
-        );
 
-        // Filter out nulls and transform to ChatWithMetadata
-        const validChats = chatObjects.filter((c): c is any => c !== null);
+            // Fetch all chat objects in one batch
+            const chatObjects = await client.getChats(chatIds);
 
+            // Only keep chats where current user is a participant
+            return chatObjects.filter(
+              (chat) =>
+                chat.participant1 === currentAccount.address ||
+                chat.participant2 === currentAccount.address
+            );
+          },
+          staleTime: STALE_TIMES.chats,
+        });
+
+        // Transform to ChatWithMetadata
         console.log("Valid chats count:", validChats.length);
         console.log("Valid chats:", validChats);
 
-        const chatsWithMetadata: ChatWithMetadata[] = validChats.map((chat) => {
-          const lastMsg = chat.messages[chat.messages.length - 1];
-
-          // Extract message fields if nested
-          const lastMsgFields = lastMsg?.fields || lastMsg;
-
-          return {
-            id: chat.id,
-            participant_1: chat.participant_1,
-            participant_2: chat.participant_2,
-            lastMessage: lastMsgFields
-              ? {
-                  text: new TextDecoder().decode(
-                    new Uint8Array(lastMsgFields.encrypted_message)
-                  ),
-                  sender: lastMsgFields.sender,
-                  timestamp: parseInt(lastMsgFields.sent_timestamp),
-                }
-              : undefined,
-            unreadCount: chat.messages.filter((m: any) => {
-              const msgFields = m.fields || m;
-              return (
-                msgFields.sender !== currentAccount.address &&
-                !msgFields.is_read
-              );
-            }).length,
-            created_at: chat.created_at,
-          };
-        });
+        const chatsWithMetadata: ChatWithMetadata[] = await Promise.all(
+          validChats.map(async (chat) => {
+            const lastMsg = chat.messages[chat.messages.length - 1];
+            const opened = lastMsg
+              ? await openMessages(chat.id, [lastMsg])
+              : {};
+            const plaintext = lastMsg
+              ? opened[messageKey(chat.id, lastMsg.index)]?.text
+              : undefined;
+            const text = plaintext && previewText(plaintext);
+
+            return {
+              id: chat.id,
+              participant_1: chat.participant1,
+              participant_2: chat.participant2,
+              lastMessage: lastMsg
+                ? {
+                    text:
+                      text === undefined
+                        ? "Encrypted message"
+                        : (text ?? "Couldn't decrypt this message"),
+                    locked: text === undefined,
+                    sender: lastMsg.sender,
+                    timestamp: lastMsg.sentTimestamp,
+                  }
+                : undefined,
+              unreadCount: chat.messages.filter(
+                (m) => m.sender !== currentAccount.address && !m.isRead
+              ).length,
+              created_at: chat.createdAt,
+            };
+          })
+        );
 
         console.log("Chats with metadata:", chatsWithMetadata);
 
@@ -273,6 +552,7 @@ export const useMessaging = () => {
               const hasChanged =
                 existingChat.lastMessage?.timestamp !==
                   newChat.lastMessage?.timestamp ||
+                existingChat.lastMessage?.text !== newChat.lastMessage?.text ||
                 existingChat.unreadCount !== newChat.unreadCount;
 
               return hasChanged ? newChat : existingChat;
@@ -300,7 +580,15 @@ export const useMessaging = () => {
         }
       }
     },
-    [currentAccount, suiClient]
+    [
+      currentAccount,
+      PACKAGE_ID,
+      network,
+      client,
+      queryClient,
+      indexer,
+      openMessages,
+    ]
   ); // Get chat by ID
   const getChatById = useCallback(
     async (chatId: string) => {
@@ -311,43 +599,11 @@ export const useMessaging = () => {
       setChatError(null);
 
       try {
-        const chatObj = await suiClient.getObject({
-          id: chatId,
-          options: { showContent: true },
-        });
-
-        if (chatObj.data?.content?.dataType === "moveObject") {
-          const fields = (chatObj.data.content as any).fields;
-
-          // Transform messages to flatten nested fields structure
-          const transformedMessages = (fields.messages || []).map(
-            (msg: any) => {
-              // If message has nested fields, extract them
-              if (msg.fields) {
-                return {
-                  encrypted_message: msg.fields.encrypted_message,
-                  sender: msg.fields.sender,
-                  sent_timestamp: msg.fields.sent_timestamp,
-                  is_read: msg.fields.is_read,
-                  content_hash: msg.fields.content_hash,
-                };
-              }
-              // Otherwise return as-is
-              return msg;
-            }
-          );
-
-          const chat: Chat = {
-            id: { id: fields.id.id },
-            participant_1: fields.participant_1,
-            participant_2: fields.participant_2,
-            messages: transformedMessages,
-            created_at: fields.created_at,
-          };
+        const chat = await loadChat(chatId);
+        if (chat) {
           setCurrentChat(chat);
-          return chat;
         }
-        return null;
+        return chat;
       } catch (err) {
         const errorMsg =
           err instanceof Error ? err.message : "Failed to fetch chat";
@@ -356,7 +612,14 @@ export const useMessaging = () => {
         return null;
       }
     },
-    [currentAccount, suiClient]
+    [currentAccount, loadChat]
+  );
+
+  // Whether the other participant has read any of the account's messages
+  const hasReadOwnMessages = useCallback(
+    (list: Message[]) =>
+      list.some((msg) => msg.sender === currentAccount?.address && msg.isRead),
+    [currentAccount]
   );
 
   // Fetch messages for a chat
@@ -380,6 +643,11 @@ export const useMessaging = () => {
           console.log("Setting messages:", chat.messages);
           console.log("Message count:", chat.messages.length);
           setMessages(chat.messages);
+          settlePending(chatId, chat.messages);
+          await openMessages(chatId, chat.messages);
+          if (hasReadOwnMessages(chat.messages)) {
+            await fetchReadReceipts(chatId);
+          }
         } else {
           console.log("No chat found");
           setMessages([]);
@@ -395,121 +663,405 @@ export const useMessaging = () => {
         }
       }
     },
-    [currentAccount, getChatById]
+    [
+      currentAccount,
+      getChatById,
+      settlePending,
+      openMessages,
+      hasReadOwnMessages,
+      fetchReadReceipts,
+    ]
+  );
+
+  // Messaging events since `check` last looked. The first look only finds
+  // where the chain is and returns null, so the caller rereads everything.
+  const readEventsSince = useCallback(
+    async <T>(
+      check: string,
+      name: string,
+      decode: (event: SuiEvent) => T
+    ): Promise<T[] | null> => {
+      const key = `${check}:${name}`;
+      const cursors = eventCursorsRef.current;
+      if (!cursors.has(key)) {
+        cursors.set(key, await client.latestEventCursor("messaging", name));
+        return null;
+      }
+      const res = await client.queryEventsSince(
+        "messaging",
+        name,
+        decode,
+        cursors.get(key) ?? null
+      );
+      cursors.set(key, res.cursor);
+      return res.data;
+    },
+    [client]
+  );
+
+  // Reread the open chat only once a message has been sent or read in it
+  const syncOpenChat = async (): Promise<boolean> => {
+    if (!currentChat || !currentAccount) return false;
+    const chatId = currentChat.id;
+
+    try {
+      const [sent, read] = await Promise.all([
+        readEventsSince(`chat:${chatId}`, "MessageSent", decodeMessageSent),
+        readEventsSince(`chat:${chatId}`, "MessageRead", decodeMessageRead),
+      ]);
+      if (sent && read) {
+        const touched = [...sent, ...read].some((e) => e.chatId === chatId);
+        if (!touched) return false;
+      }
+      await queryClient.invalidateQueries({
+        queryKey: suitterKeys.chat(chatId),
+      });
+    } catch (err) {
+      // Without event queries, fall back to rereading the chat every time
+      console.error("Error reading messaging events:", err);
+    }
+
+    const chat = await loadChat(chatId);
+    if (!chat) return false;
+    const polledMessages = chat.messages;
+
+    // Compare messages by content and read state to avoid unnecessary
+    // re-renders
+    const hasChanges =
+      polledMessages.length !== messages.length ||
+      polledMessages.some(
+        (msg, idx) =>
+          !isSameMessage(messages[idx], msg) ||
+          messages[idx].isRead !== msg.isRead
+      );
+
+    if (hasChanges) {
+      settlePending(chatId, polledMessages);
+      await openMessages(chatId, polledMessages);
+      setMessages(polledMessages);
+      if (hasReadOwnMessages(polledMessages)) {
+        await fetchReadReceipts(chatId);
+      }
+    }
+    return hasChanges;
+  };
+
+  // Refresh the chat list once a chat involving the account has changed
+  const syncChatList = async (): Promise<boolean> => {
+    if (!currentAccount) return false;
+    const me = currentAccount.address;
+
+    let changed = false;
+    try {
+      const [created, sent, read] = await Promise.all([
+        readEventsSince("chats", "ChatCreated", decodeChatCreated),
+        readEventsSince("chats", "MessageSent", decodeMessageSent),
+        readEventsSince("chats", "MessageRead", decodeMessageRead),
+      ]);
+      if (created && sent && read) {
+        changed =
+          created.some((e) => e.participant1 === me || e.participant2 === me) ||
+          sent.some((e) => e.sender === me || e.receiver === me) ||
+          read.some((e) => e.reader === me || e.originalSender === me);
+        if (!changed) return false;
+        await queryClient.invalidateQueries({
+          queryKey: suitterKeys.chats(me),
+        });
+      }
+    } catch (err) {
+      console.error("Error reading messaging events:", err);
+    }
+
+    await fetchChats(true); // silent = true for background refresh
+    return changed;
+  };
+
+  const syncNowOpenChat = useSyncTask(
+    currentChat && currentAccount ? `messages:${currentChat.id}` : null,
+    syncOpenChat,
+    OPEN_CHAT_SYNC
+  );
+  const syncNowChatList = useSyncTask(
+    currentAccount ? `chats:${currentAccount.address}` : null,
+    syncChatList,
+    CHAT_LIST_SYNC
   );
 
   // Send message function
   const sendMessage = useCallback(
-    async (chatId: string, message: string) => {
+    async (chatId: string, message: string, files: File[] = []) => {
       if (!currentAccount) {
         setChatError("Account not connected");
         return null;
       }
+      try {
+        checkAttachments(files);
+      } catch (e) {
+        setChatError((e as Error).message);
+        return null;
+      }
 
       setIsSendingMessage(true);
       setChatError(null);
 
-      // Optimistically add message to UI immediately
-      const optimisticMessage: Message = {
-        sender: currentAccount.address,
-        encrypted_message: Array.from(new TextEncoder().encode(message)),
-        content_hash: Array.from(
-          new TextEncoder().encode(`hash_${Date.now()}`)
-        ),
-        sent_timestamp: Date.now().toString(),
-        is_read: false,
+      // Shown in the thread until a read from chain, the refetch below or a
+      // poll, returns a message with the same content hash
+      const optimisticMessage: PendingMessage = {
+        localId: crypto.randomUUID(),
+        chatId,
+        text: message,
+        attachmentCount: files.length,
+        contentHash: null,
+        sentTimestamp: Date.now(),
       };
-
-      setMessages((prev) => [...prev, optimisticMessage]);
+      const forgetOptimistic = () =>
+        setPending((prev) =>
+          prev.filter((p) => p.localId !== optimisticMessage.localId)
+        );
 
       try {
-        const tx = new Transaction();
-
-        // Simple encryption: convert message to bytes
-        const messageBytes = new TextEncoder().encode(message);
-        const contentHash = new TextEncoder().encode(`hash_${Date.now()}`);
-
-        tx.moveCall({
-          target: `${CONFIG.VITE_PACKAGE_ID}::messaging::send_message`,
-          arguments: [
-            tx.object(chatId),
-            tx.pure.vector("u8", Array.from(messageBytes)),
-            tx.pure.vector("u8", Array.from(contentHash)),
-            tx.object("0x6"), // Clock object
-          ],
-        });
-
-        const { digest } = await signAndExecute({ transaction: tx });
+        return await runOptimistic({
+          apply: () => {
+            setPending((prev) => [...prev, optimisticMessage]);
+            return forgetOptimistic;
+          },
+          mutate: async () => {
+            // Messages are only ever sent encrypted: with no key servers, or
+            // a package without `messaging::seal_approve` to release keys,
+            // nothing is sent at all
+            const canEncrypt =
+              !!cipher &&
+              (await queryClient.fetchQuery({
+                queryKey: suitterKeys.sealSupport(PACKAGE_ID),
+                queryFn: () => cipher.isSupported(),
+                // A published package never changes
+                staleTime: Infinity,
+              }));
+            if (!cipher || !canEncrypt) {
+              throw new Error(
+                `Direct messages can't be encrypted on ${network} yet.`
+              );
+            }
+            const tx = new Transaction();
+
+            // Files go to Walrus first, each under its own key, which the
+            // message carries
+            const attachments: MessageAttachment[] = [];
+            for (const file of files) {
+              attachments.push(
+                await uploadAttachment(file, currentAccount.address)
+              );
+            }
+            const payload = encodeMessagePayload({ text: message, attachments });
+
+            // Encrypted for the chat's two participants. An empty message
+            // has nothing to encrypt, and the chain rejects it as empty.
+            const messageBytes = payload
+              ? await cipher.encrypt(chatId, payload)
+              : new Uint8Array();
+            const contentHash = await messageContentHash(
+              chatId,
+              currentAccount.address,
+              messageBytes
+            );
+            const hashHex = toHex(contentHash);
+            sentTextsRef.current.set(hashHex, payload);
+            setPending((prev) =>
+              prev.map((p) =>
+                p.localId === optimisticMessage.localId
+                  ? { ...p, contentHash: hashHex }
+                  : p
+              )
+            );
+
+            tx.moveCall({
+              target: `${PACKAGE_ID}::messaging::send_message`,
+              arguments: [
+                tx.object(chatId),
+                tx.pure.vector("u8", Array.from(messageBytes)),
+                tx.pure.vector("u8", Array.from(contentHash)),
+                tx.object("0x6"), // Clock object
+              ],
+            });
 
-        // Wait for transaction
-        await suiClient.waitForTransaction({
-          digest,
-          options: { showEffects: true },
+            const { digest } = await signAndExecute({ transaction: tx });
+            assertTxSucceeded(
+              await suiClient.waitForTransaction({
+                digest,
+                options: { showEffects: true },
+              })
+            );
+            return { digest };
+          },
+          // Replace the optimistic message with the one read from chain
+          reconcile: async () => {
+            await Promise.all([
+              queryClient.invalidateQueries({
+                queryKey: suitterKeys.chat(chatId),
+              }),
+              queryClient.invalidateQueries({
+                queryKey: suitterKeys.chats(currentAccount.address),
+              }),
+            ]);
+            await fetchMessages(chatId);
+            // The other participant may well reply soon
+            syncNowOpenChat();
+            syncNowChatList();
+          },
+          failureTitle: "Couldn't send your message",
         });
-
-        // Refresh messages to get the actual blockchain data
-        await fetchMessages(chatId);
-
-        return { digest };
-      } catch (err) {
-        const errorMsg =
-          err instanceof Error ? err.message : "Failed to send message";
-        setChatError(errorMsg);
-        console.error("Error sending message:", err);
-
-        // Remove optimistic message on error
-        setMessages((prev) =>
-          prev.filter(
-            (msg) => msg.sent_timestamp !== optimisticMessage.sent_timestamp
-          )
-        );
-
-        return null;
       } finally {
         setIsSendingMessage(false);
       }
     },
-    [currentAccount, signAndExecute, suiClient, fetchMessages]
+    [
+      currentAccount,
+      PACKAGE_ID,
+      network,
+      cipher,
+      runOptimistic,
+      signAndExecute,
+      suiClient,
+      queryClient,
+      fetchMessages,
+      syncNowOpenChat,
+      syncNowChatList,
+    ]
   );
 
-  // Mark message as read
+  // Mark messages as read, all in one transaction
   const markAsRead = useCallback(
-    async (chatId: string, messageIndex: number) => {
-      if (!currentAccount) {
+    async (chatId: string, messageIndexes: number[]) => {
+      if (!currentAccount || messageIndexes.length === 0) {
         return null;
       }
 
       try {
         const tx = new Transaction();
 
-        tx.moveCall({
-          target: `${CONFIG.VITE_PACKAGE_ID}::messaging::mark_as_read`,
-          arguments: [
-            tx.object(chatId),
-            tx.pure.u64(messageIndex),
-            tx.object("0x6"), // Clock object
-          ],
-        });
+        for (const messageIndex of messageIndexes) {
+          tx.moveCall({
+            target: `${PACKAGE_ID}::messaging::mark_as_read`,
+            arguments: [
+              tx.object(chatId),
+              tx.pure.u64(messageIndex),
+              tx.object("0x6"), // Clock object
+            ],
+          });
+        }
 
         const { digest } = await signAndExecute({ transaction: tx });
 
-        await suiClient.waitForTransaction({
-          digest,
-          options: { showEffects: true },
-        });
+        assertTxSucceeded(
+          await suiClient.waitForTransaction({
+            digest,
+            options: { showEffects: true },
+          })
+        );
 
-        // Refresh messages
-        await fetchMessages(chatId);
+        // Refresh unread counts; the open chat picks it up on its next poll
+        await Promise.all([
+          queryClient.invalidateQueries({
+            queryKey: suitterKeys.chat(chatId),
+          }),
+          queryClient.invalidateQueries({
+            queryKey: suitterKeys.chats(currentAccount.address),
+          }),
+        ]);
+        await fetchChats(true);
 
         return { digest };
       } catch (err) {
-        console.error("Error marking message as read:", err);
+        console.error("Error marking messages as read:", err);
         return null;
       }
     },
-    [currentAccount, signAndExecute, suiClient, fetchMessages]
+    [
+      currentAccount,
+      PACKAGE_ID,
+      signAndExecute,
+      suiClient,
+      queryClient,
+      fetchChats,
+    ]
   );
 
+  // Mark what was queued by `markSeen` as read, then wait out the interval
+  // before the next batch
+  const scheduleReadReceipts = useCallback(() => {
+    if (readTimerRef.current || !currentAccount) return;
+
+    const flush = async () => {
+      const queued = seenQueueRef.current;
+      seenQueueRef.current = new Map();
+      for (const [chatId, indexes] of queued) {
+        try {
+          // One message read elsewhere meanwhile would abort the whole
+          // transaction, so check against the latest chat
+          const chat = await loadChat(chatId);
+          const unread = [...indexes]
+            .filter((index) => {
+              const msg = chat?.messages[index];
+              return (
+                !!msg && msg.sender !== currentAccount.address && !msg.isRead
+              );
+            })
+            .sort((a, b) => a - b);
+          if (unread.length === 0) continue;
+
+          // Let a rejected or failed batch be retried when seen again
+          if (!(await markAsRead(chatId, unread))) {
+            for (const index of unread) {
+              markedRef.current.delete(messageKey(chatId, index));
+            }
+          }
+        } catch (err) {
+          console.error("Error marking messages as read:", err);
+        }
+      }
+
+      lastReadFlushRef.current = Date.now();
+      readTimerRef.current = null;
+      if (seenQueueRef.current.size > 0) scheduleReadReceipts();
+    };
+
+    readTimerRef.current = setTimeout(
+      flush,
+      Math.max(
+        0,
+        lastReadFlushRef.current + READ_RECEIPT_INTERVAL_MS - Date.now()
+      )
+    );
+  }, [currentAccount, loadChat, markAsRead]);
+
+  /**
+   * Queue a message that has been seen on screen to be marked read. Batches
+   * go out in one transaction at most every few seconds, and only with
+   * messages from the other participant that aren't read yet.
+   */
+  const markSeen = useCallback(
+    (chatId: string, messageIndex: number) => {
+      const key = messageKey(chatId, messageIndex);
+      if (markedRef.current.has(key)) return;
+      markedRef.current.add(key);
+
+      const queue = seenQueueRef.current;
+      queue.set(chatId, (queue.get(chatId) ?? new Set()).add(messageIndex));
+      scheduleReadReceipts();
+    },
+    [scheduleReadReceipts]
+  );
+
+  // Another account's receipts aren't this one's to send
+  useEffect(() => {
+    seenQueueRef.current = new Map();
+    markedRef.current = new Set();
+    return () => {
+      if (readTimerRef.current) clearTimeout(readTimerRef.current);
+      readTimerRef.current = null;
+    };
+  }, [currentAccount?.address]);
+
   // Fetch chats when account changes
   useEffect(() => {
     if (currentAccount) {
@@ -552,90 +1104,31 @@ export const useMessaging = () => {
     }
   }, [chats, currentAccount, fetchProfileByAddress]);
 
-  // Listen for new messages in the current chat
-  useEffect(() => {
-    if (!currentChat || !currentAccount) return;
-
-    const chatId =
-      typeof currentChat.id === "object" ? currentChat.id.id : currentChat.id;
-
-    // Poll for new messages every 2 seconds for smoother updates
-    const pollInterval = setInterval(async () => {
-      try {
-        const chatObj = await suiClient.getObject({
-          id: chatId,
-          options: { showContent: true },
-        });
-
-        if (chatObj.data?.content?.dataType === "moveObject") {
-          const fields = (chatObj.data.content as any).fields;
-
-          // Transform messages to flatten nested fields structure
-          const transformedMessages = (fields.messages || []).map(
-            (msg: any) => {
-              if (msg.fields) {
-                return {
-                  encrypted_message: msg.fields.encrypted_message,
-                  sender: msg.fields.sender,
-                  sent_timestamp: msg.fields.sent_timestamp,
-                  is_read: msg.fields.is_read,
-                  content_hash: msg.fields.content_hash,
-                };
-              }
-              return msg;
-            }
-          );
-
-          // Compare messages by content to avoid unnecessary re-renders
-          const hasNewMessages = transformedMessages.length !== messages.length;
-          const lastMessageChanged =
-            messages.length > 0 &&
-            transformedMessages.length > 0 &&
-            messages[messages.length - 1]?.sent_timestamp !==
-              transformedMessages[transformedMessages.length - 1]
-                ?.sent_timestamp;
-
-          if (hasNewMessages || lastMessageChanged) {
-            // Only update messages that actually changed
-            setMessages((prevMessages) => {
-              // If lengths are different, definitely update
-              if (prevMessages.length !== transformedMessages.length) {
-                return transformedMessages;
-              }
-
-              // Check if any message content changed
-              const hasChanges = transformedMessages.some(
-                (msg: any, idx: number) => {
-                  const prevMsg = prevMessages[idx];
-                  return (
-                    !prevMsg || prevMsg.sent_timestamp !== msg.sent_timestamp
-                  );
-                }
-              );
-
-              return hasChanges ? transformedMessages : prevMessages;
-            });
-          }
-        }
-      } catch (err) {
-        console.error("Error polling for new messages:", err);
-      }
-    }, 2000); // Poll every 2 seconds
-
-    return () => clearInterval(pollInterval);
-  }, [currentChat, currentAccount, suiClient, messages]);
-
-  // Listen for new chats - poll less frequently since new chats are less common
+  // Once a session key is signed, retry what couldn't be opened without it.
+  // Only when the key changes, not on every new chat or message.
+  const retriedSessionKeyRef = useRef<typeof sessionKey>(null);
+  const chatId = currentChat?.id;
   useEffect(() => {
-    if (!currentAccount) return;
-
-    // Poll for new chats every 8 seconds in silent mode
-    const pollInterval = setInterval(() => {
-      fetchChats(true); // silent = true for background refresh
-    }, 8000); // Poll every 8 seconds
-
-    return () => clearInterval(pollInterval);
-  }, [currentAccount, fetchChats]);
+    if (!hasSessionKey || retriedSessionKeyRef.current === sessionKey) return;
+    retriedSessionKeyRef.current = sessionKey;
+    updateOpened((prev) =>
+      Object.fromEntries(
+        Object.entries(prev).map(([key, msg]) => [
+          key,
+          msg.text === null ? { integrity: msg.integrity } : msg,
+        ])
+      )
+    );
+    if (chatId) fetchMessages(chatId, true);
+    fetchChats(true);
+  }, [
+    hasSessionKey,
+    sessionKey,
+    chatId,
+    fetchMessages,
+    fetchChats,
+    updateOpened,
+  ]);
 
   // Transform for UI with memoization to prevent flickering
   const transformedChats = useMemo(() => {
@@ -655,46 +1148,88 @@ export const useMessaging = () => {
         user: displayName,
         handle: handle,
         lastMsg: chat.lastMessage?.text || "No messages yet",
+        locked: !!chat.lastMessage?.locked,
         timestamp: chat.lastMessage?.timestamp || chat.created_at,
         unread: chat.unreadCount,
       };
     });
   }, [chats, currentAccount, usernameCache]);
 
-  return {
-    // State
-    chats: transformedChats,
-    currentChat,
-    messages: messages.map((msg) => {
-      let text = "";
-      try {
-        if (Array.isArray(msg.encrypted_message)) {
-          text = new TextDecoder().decode(
-            new Uint8Array(msg.encrypted_message)
-          );
-        } else if (typeof msg.encrypted_message === "string") {
-          text = msg.encrypted_message;
-        } else {
-          text = "[Unable to decode message]";
-        }
-      } catch (err) {
-        console.error("Error decoding message:", err);
-        text = "[Error decoding message]";
-      }
+  const readableMessages = useMemo(() => {
+    if (!chatId) return [];
+    const onChain = messages.map((msg) => {
+      const key = messageKey(chatId, msg.index);
+      const entry = opened[key];
+      const text = entry?.text;
+      const payload = text ? decodeMessagePayload(text) : null;
 
       return {
-        id: msg.sent_timestamp,
+        id: key,
+        index: msg.index as number | null,
         sender: msg.sender,
-        text: text,
-        timestamp: parseInt(msg.sent_timestamp),
-        is_read: msg.is_read,
+        text:
+          text === undefined
+            ? "[Encrypted message]"
+            : text === null
+              ? "[Couldn't decrypt this message]"
+              : (payload?.text ?? text),
+        attachments: payload?.attachments ?? [],
+        // Only known while a sent message is uploading
+        pendingAttachments: 0,
+        locked: text === undefined,
+        // null until checked
+        integrity: entry?.integrity ?? null,
+        pending: false,
+        timestamp: msg.sentTimestamp,
+        is_read: msg.isRead,
+        // When the other participant read it, once known
+        readAt: (readAt[key] ?? null) as number | null,
       };
-    }),
+    });
+
+    // A sent message that has already been read back is shown once
+    const landed = new Set(messages.map((msg) => toHex(msg.contentHash)));
+    const stillPending = pending
+      .filter(
+        (p) =>
+          p.chatId === chatId && !(p.contentHash && landed.has(p.contentHash))
+      )
+      .map((p) => ({
+        id: p.localId,
+        index: null,
+        sender: currentAccount?.address ?? "",
+        text: p.text,
+        attachments: [] as MessageAttachment[],
+        pendingAttachments: p.attachmentCount,
+        locked: false,
+        integrity: "verified" as MessageIntegrity | null,
+        pending: true,
+        timestamp: p.sentTimestamp,
+        is_read: false,
+        readAt: null,
+      }));
+
+    return [...onChain, ...stillPending];
+  }, [messages, chatId, opened, readAt, pending, currentAccount]);
+
+  // Ask for a session key only once there's something it would unlock
+  const needsSessionKey =
+    isLockedOut &&
+    (readableMessages.some((msg) => msg.locked) ||
+      transformedChats.some((chat) => chat.locked));
+
+  return {
+    // State
+    chats: transformedChats,
+    currentChat,
+    messages: readableMessages,
     isLoadingChats: isFetchingChats,
     isLoadingMessages: isFetchingMessages,
     isSendingMessage,
     isCreatingChat,
     error: chatError,
+    needsSessionKey,
+    isInitializingSessionKey: isInitializing,
 
     // Actions
     startChat,
@@ -703,5 +1238,7 @@ export const useMessaging = () => {
     fetchMessages,
     sendMessage,
     markAsRead,
+    markSeen,
+    initializeSessionKey,
   };
 };
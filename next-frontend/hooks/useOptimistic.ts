@@ -0,0 +1,57 @@
+import { useCallback } from "react";
+import { useToast } from "../providers/ToastProvider";
+import { describeError } from "../services/errors";
+
+export interface OptimisticUpdate<T> {
+  /** Show the expected outcome now; returns an undo */
+  apply: () => () => void;
+  /** Sign and execute the transaction, resolving once it has finalised */
+  mutate: () => Promise<T>;
+  /** Replace the guess with what actually happened on chain */
+  reconcile?: (result: T) => Promise<void> | void;
+  /** Toast title if the transaction fails, e.g. "Couldn't like this suit" */
+  failureTitle: string;
+}
+
+/**
+ * Runs a transaction behind an optimistic update: the change shows straight
+ * away, is reconciled with chain state once the transaction finalises, and
+ * is rolled back with an explanatory toast if it fails or the wallet
+ * rejects it. Resolves to null on failure.
+ */
+export function useOptimistic() {
+  const { toast } = useToast();
+
+  return useCallback(
+    async <T>(update: OptimisticUpdate<T>): Promise<T | null> => {
+      const undo = update.apply();
+
+      let result: T;
+      try {
+        result = await update.mutate();
+      } catch (e) {
+        console.error(`${update.failureTitle}:`, e);
+        undo();
+        toast({
+          title: update.failureTitle,
+          description: describeError(
+            e,
+            "The transaction failed, so your change was undone."
+          ),
+          variant: "error",
+        });
+        return null;
+      }
+
+      // The transaction went through; a failed read-back only leaves the
+      // optimistic values in place until the next refresh
+      try {
+        await update.reconcile?.(result);
+      } catch (e) {
+        console.error("Failed to reconcile optimistic update:", e);
+      }
+      return result;
+    },
+    [toast]
+  );
+}
@@ -0,0 +1,160 @@
+import { useCallback, useMemo } from "react";
+import { useCurrentAccount } from "@mysten/dapp-kit";
+import type { Comment } from "../services/suitter";
+import { useInteractions } from "./useInteractions";
+import { useOptimistic } from "./useOptimistic";
+import {
+  suitOverrides,
+  type SuitCounts,
+  type SuitOverride,
+} from "./useSuitOverrides";
+
+// "like:<id>" / "repost:<id>" while a toggle is on its way to chain. Shared
+// by every page so a suit shown twice can't be toggled twice.
+const inFlight = new Set<string>();
+
+/**
+ * Likes, reposts and comments that show up immediately. Each call resolves
+ * to the transaction digest, or null if it was rolled back (or ignored
+ * because the same toggle is still in flight).
+ */
+export function useOptimisticInteractions() {
+  const account = useCurrentAccount();
+  const address = account?.address ?? null;
+  const {
+    likeSuit,
+    unlikeSuit,
+    retweetSuit,
+    unretweetSuit,
+    commentOnSuit,
+    fetchComments,
+    fetchSuit,
+  } = useInteractions();
+  const runOptimistic = useOptimistic();
+
+  // Drop the guessed `count` once the suit is read back after the
+  // transaction. The read is kept as the suit's latest counts, which also
+  // picks up anyone else's activity, and later reads replace it. Dropping a
+  // pending comment in the same write keeps replies from counting it twice.
+  const settleSuit = useCallback(
+    async (
+      suitId: string,
+      count: "likes" | "reposts" | "replies",
+      settledCommentId?: string
+    ) => {
+      const suit = await fetchSuit(suitId);
+      const pending = suitOverrides.get(suitId).pendingComments ?? [];
+      const settled: SuitOverride = {
+        pendingComments: pending.filter((c) => c.id !== settledCommentId),
+      };
+      // Without a read, the guess is the best there is
+      if (suit) settled[count] = undefined;
+      suitOverrides.patch(suitId, settled);
+    },
+    [fetchSuit]
+  );
+
+  const runToggle = useCallback(
+    async (key: string, run: () => Promise<string | null>) => {
+      if (!address || inFlight.has(key)) return null;
+      inFlight.add(key);
+      try {
+        return await run();
+      } finally {
+        inFlight.delete(key);
+      }
+    },
+    [address]
+  );
+
+  /** Like or unlike `card` depending on what it currently shows */
+  const toggleLike = useCallback(
+    (card: SuitCounts) => {
+      const liked = !card.liked;
+      return runToggle(`like:${card.id}`, () =>
+        runOptimistic({
+          apply: () =>
+            suitOverrides.patch(card.id, {
+              liked,
+              likes: card.likes + (liked ? 1 : -1),
+            }),
+          mutate: () => (liked ? likeSuit(card.id) : unlikeSuit(card.id)),
+          reconcile: () => settleSuit(card.id, "likes"),
+          failureTitle: liked
+            ? "Couldn't like this suit"
+            : "Couldn't remove your like",
+        })
+      );
+    },
+    [runToggle, runOptimistic, likeSuit, unlikeSuit, settleSuit]
+  );
+
+  /** Repost or undo the repost of `card` depending on what it shows */
+  const toggleRepost = useCallback(
+    (card: SuitCounts) => {
+      const reposted = !card.reposted;
+      return runToggle(`repost:${card.id}`, () =>
+        runOptimistic({
+          apply: () =>
+            suitOverrides.patch(card.id, {
+              reposted,
+              reposts: card.reposts + (reposted ? 1 : -1),
+            }),
+          mutate: () =>
+            reposted ? retweetSuit(card.id) : unretweetSuit(card.id),
+          reconcile: () => settleSuit(card.id, "reposts"),
+          failureTitle: reposted
+            ? "Couldn't repost this suit"
+            : "Couldn't undo your repost",
+        })
+      );
+    },
+    [runToggle, runOptimistic, retweetSuit, unretweetSuit, settleSuit]
+  );
+
+  /** Comment on a suit; the comment is listed as pending until it lands */
+  const addComment = useCallback(
+    async (suitId: string, content: string) => {
+      if (!address) return null;
+      const pending: Comment = {
+        id: `pending:${Date.now()}`,
+        suitId,
+        commenter: address,
+        content,
+        createdAt: Date.now(),
+      };
+      const dropPending = () =>
+        suitOverrides.patch(suitId, {
+          pendingComments: (
+            suitOverrides.get(suitId).pendingComments ?? []
+          ).filter((c) => c.id !== pending.id),
+        });
+
+      return runOptimistic({
+        apply: () => {
+          suitOverrides.patch(suitId, {
+            pendingComments: [
+              ...(suitOverrides.get(suitId).pendingComments ?? []),
+              pending,
+            ],
+          });
+          return dropPending;
+        },
+        mutate: () => commentOnSuit(suitId, content),
+        reconcile: async () => {
+          // Refill the comments cache first so the real comment is ready
+          // to replace the pending one
+          await fetchComments(suitId);
+          await settleSuit(suitId, "replies", pending.id);
+        },
+        failureTitle: "Couldn't post your comment",
+      });
+    },
+    [address, runOptimistic, commentOnSuit, fetchComments, settleSuit]
+  );
+
+  return useMemo(
+    () => ({ toggleLike, toggleRepost, addComment }),
+    [toggleLike, toggleRepost, addComment]
+  );
+}
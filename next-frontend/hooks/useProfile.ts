@@ -1,114 +1,59 @@
 import { useCallback, useMemo, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
 import {
   useCurrentAccount,
   useSignAndExecuteTransaction,
   useSuiClient,
 } from "@mysten/dapp-kit";
 import { Transaction } from "@mysten/sui/transactions";
-import CONFIG from "../config";
-
-const PACKAGE_ID = CONFIG.VITE_PACKAGE_ID;
-const USERNAME_REGISTRY_ID = CONFIG.USERNAME_REGISTRY;
-const PROFILE_TYPE = `${PACKAGE_ID}::profile::Profile`;
+import type { Profile } from "../services/suitter";
+import { assertTxSucceeded, toSuitterError } from "../services/errors";
+import { useDeployment } from "./useDeployment";
+import { useSuitterClient } from "./useSuitterClient";
+import { STALE_TIMES, suitterKeys } from "./queryKeys";
 
 export function useProfile() {
   const suiClient = useSuiClient();
+  const client = useSuitterClient();
+  const queryClient = useQueryClient();
   const account = useCurrentAccount();
   const { mutateAsync: signAndExecute } = useSignAndExecuteTransaction();
+  const { network, PACKAGE_ID, USERNAME_REGISTRY } = useDeployment();
 
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
   const address = account?.address ?? null;
 
-  const fetchMyProfile = useCallback(async () => {
-    if (!address) return null;
-    try {
-      const res = await suiClient.getOwnedObjects({
-        owner: address,
-        filter: { StructType: PROFILE_TYPE },
-        options: { showType: true, showContent: true, showDisplay: true },
-      });
-      const obj = res.data?.[0];
-      if (!obj) return null;
-      return obj;
-    } catch (e) {
-      console.error("fetchMyProfile failed", e);
-      return null;
-    }
-  }, [address, suiClient]);
-
-  const fetchMyProfileFields = useCallback(async () => {
-    const obj: any = await fetchMyProfile();
-    if (!obj) return null;
-    const content = obj?.data?.content;
-    const objectId = obj?.data?.objectId ?? obj?.objectId;
-    let username = "";
-    let bio = "";
-    let pfpUrl = "";
-    let fields = {};
-    if (content && typeof content === "object" && "fields" in content) {
-      fields = (content as any).fields;
-    }
-    const readStr = (v: any) => {
-      if (typeof v === "string") return v;
-      if (v && typeof v === "object" && typeof v.bytes === "string")
-        return v.bytes;
-      return "";
-    };
-    if ((fields as any).username) username = readStr((fields as any).username);
-    if ((fields as any).bio) bio = readStr((fields as any).bio);
-    if ((fields as any).pfp_url) pfpUrl = readStr((fields as any).pfp_url);
-    return { profileId: objectId as string, username, bio, pfpUrl };
-  }, [fetchMyProfile]);
-
   const fetchProfileByAddress = useCallback(
-    async (userAddress: string) => {
+    async (userAddress: string): Promise<Profile | null> => {
       if (!userAddress) return null;
       try {
-        const res = await suiClient.getOwnedObjects({
-          owner: userAddress,
-          filter: { StructType: PROFILE_TYPE },
-          options: { showType: true, showContent: true, showDisplay: true },
+        return await queryClient.fetchQuery({
+          queryKey: suitterKeys.profile(userAddress),
+          queryFn: () => client.getProfileByOwner(userAddress),
+          staleTime: STALE_TIMES.profile,
         });
-        const obj = res.data?.[0];
-        if (!obj) return null;
-
-        const content = obj?.data?.content;
-        const objectId = obj?.data?.objectId;
-        let fields = {};
-        if (content && typeof content === "object" && "fields" in content) {
-          fields = (content as any).fields;
-        }
-        const readStr = (v: any) => {
-          if (typeof v === "string") return v;
-          if (v && typeof v === "object" && typeof v.bytes === "string")
-            return v.bytes;
-          return "";
-        };
-        const username = (fields as any).username
-          ? readStr((fields as any).username)
-          : "";
-        const bio = (fields as any).bio ? readStr((fields as any).bio) : "";
-        const pfpUrl = (fields as any).pfp_url
-          ? readStr((fields as any).pfp_url)
-          : "";
-        return { profileId: objectId as string, username, bio, pfpUrl };
       } catch (e) {
         console.error("fetchProfileByAddress failed", e);
         return null;
       }
     },
-    [suiClient]
+    [client, queryClient]
   );
 
+  const fetchMyProfile = useCallback(async () => {
+    if (!address) return null;
+    return fetchProfileByAddress(address);
+  }, [address, fetchProfileByAddress]);
+
   const createProfile = useCallback(
     async (username: string, bio: string, pfpUrl: string) => {
       if (!address) throw new Error("Wallet not connected");
-      if (!PACKAGE_ID || PACKAGE_ID === "0x...") {
-        throw new Error("VITE_PACKAGE_ID not configured");
+      if (!PACKAGE_ID) {
+        throw new Error(`Suitter isn't deployed on ${network}`);
       }
-      if (!USERNAME_REGISTRY_ID) {
+      if (!USERNAME_REGISTRY) {
         throw new Error("USERNAME_REGISTRY not configured");
       }
       setIsLoading(true);
@@ -119,7 +64,7 @@ export function useProfile() {
         const [profile] = tx.moveCall({
           target: `${PACKAGE_ID}::profile::create_profile`,
           arguments: [
-            tx.object(USERNAME_REGISTRY_ID), // &mut UsernameRegistry
+            tx.object(USERNAME_REGISTRY), // &mut UsernameRegistry
             tx.pure.string(username),
             tx.pure.string(bio),
             tx.pure.string(pfpUrl),
@@ -128,16 +73,33 @@ export function useProfile() {
         // Transfer the profile to the sender
         tx.transferObjects([profile], tx.pure.address(address));
         const { digest } = await signAndExecute({ transaction: tx });
-        await suiClient.waitForTransaction({ digest });
+        assertTxSucceeded(
+          await suiClient.waitForTransaction({
+            digest,
+            options: { showEffects: true },
+          })
+        );
+        await queryClient.invalidateQueries({
+          queryKey: suitterKeys.profile(address),
+        });
         return digest;
       } catch (e: any) {
-        setError(e?.message ?? "Failed to create profile");
-        throw e;
+        const error = toSuitterError(e, "Failed to create profile");
+        setError(error.message);
+        throw error;
       } finally {
         setIsLoading(false);
       }
     },
-    [address, signAndExecute, suiClient]
+    [
+      address,
+      network,
+      PACKAGE_ID,
+      USERNAME_REGISTRY,
+      signAndExecute,
+      suiClient,
+      queryClient,
+    ]
   );
 
   const updateProfile = useCallback(
@@ -148,10 +110,10 @@ export function useProfile() {
       pfpUrl: string
     ) => {
       if (!address) throw new Error("Wallet not connected");
-      if (!PACKAGE_ID || PACKAGE_ID === "0x...") {
-        throw new Error("VITE_PACKAGE_ID not configured");
+      if (!PACKAGE_ID) {
+        throw new Error(`Suitter isn't deployed on ${network}`);
       }
-      if (!USERNAME_REGISTRY_ID) {
+      if (!USERNAME_REGISTRY) {
         throw new Error("USERNAME_REGISTRY not configured");
       }
       setIsLoading(true);
@@ -162,23 +124,40 @@ export function useProfile() {
           target: `${PACKAGE_ID}::profile::update_profile`,
           arguments: [
             tx.object(profileId), // &mut Profile
-            tx.object(USERNAME_REGISTRY_ID), // &mut UsernameRegistry
+            tx.object(USERNAME_REGISTRY), // &mut UsernameRegistry
             tx.pure.string(username),
             tx.pure.string(bio),
             tx.pure.string(pfpUrl),
           ],
         });
         const { digest } = await signAndExecute({ transaction: tx });
-        await suiClient.waitForTransaction({ digest });
+        assertTxSucceeded(
+          await suiClient.waitForTransaction({
+            digest,
+            options: { showEffects: true },
+          })
+        );
+        await queryClient.invalidateQueries({
+          queryKey: suitterKeys.profile(address),
+        });
         return digest;
       } catch (e: any) {
-        setError(e?.message ?? "Failed to update profile");
-        throw e;
+        const error = toSuitterError(e, "Failed to update profile");
+        setError(error.message);
+        throw error;
       } finally {
         setIsLoading(false);
       }
     },
-    [address, signAndExecute, suiClient]
+    [
+      address,
+      network,
+      PACKAGE_ID,
+      USERNAME_REGISTRY,
+      signAndExecute,
+      suiClient,
+      queryClient,
+    ]
   );
 
   return useMemo(
@@ -187,7 +166,6 @@ export function useProfile() {
       isLoading,
       error,
       fetchMyProfile,
-      fetchMyProfileFields,
       fetchProfileByAddress,
       createProfile,
       updateProfile,
@@ -197,7 +175,6 @@ export function useProfile() {
       isLoading,
       error,
       fetchMyProfile,
-      fetchMyProfileFields,
       fetchProfileByAddress,
       createProfile,
       updateProfile,
@@ -1,9 +1,7 @@
 import { useCallback, useState } from "react";
-import { useSuiClient } from "@mysten/dapp-kit";
-import CONFIG from "../config";
-
-const PACKAGE_ID = CONFIG.VITE_PACKAGE_ID;
-const SUIT_REGISTRY_ID = CONFIG.SUIT_REGISTRY;
+import { decodeProfileCreated } from "../services/suitter";
+import { useDeployment } from "./useDeployment";
+import { useSuitterClient } from "./useSuitterClient";
 
 export interface SearchResult {
   type: "user" | "post";
@@ -24,75 +22,53 @@ export interface SearchResult {
 }
 
 export function useSearch() {
-  const suiClient = useSuiClient();
+  const client = useSuitterClient();
+  const { SUIT_REGISTRY } = useDeployment();
   const [isSearching, setIsSearching] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
-  const readStr = (v: any): string => {
-    if (typeof v === "string") return v;
-    if (v && typeof v === "object" && typeof v.bytes === "string")
-      return v.bytes;
-    return "";
-  };
-
   const searchUsers = useCallback(
     async (query: string): Promise<SearchResult[]> => {
       if (!query.trim()) return [];
 
       try {
         // Get all Profile objects
-        const profiles = await suiClient.queryEvents({
-          query: {
-            MoveEventType: `${PACKAGE_ID}::profile::ProfileCreated`,
-          },
-          limit: 50,
-        });
-
-        const userResults: SearchResult[] = [];
-
-        // Fetch profile details for each event
-        for (const event of profiles.data) {
-          try {
-            const parsedJson = event.parsedJson as any;
-            const profileId = parsedJson?.profile_id;
-            const ownerAddress = parsedJson?.owner;
-
-            if (!profileId) continue;
-
-            const profileObj = await suiClient.getObject({
-              id: profileId,
-              options: { showContent: true },
-            });
-
-            const content = profileObj.data?.content as any;
-            const fields = content?.fields;
-
-            if (fields) {
-              const username = readStr(fields.username);
-              const bio = readStr(fields.bio);
-              const pfpUrl = readStr(fields.pfp_url);
-
-              // Check if username or bio matches the search query
-              const queryLower = query.toLowerCase();
-              if (
-                username.toLowerCase().includes(queryLower) ||
-                bio.toLowerCase().includes(queryLower) ||
-                ownerAddress?.toLowerCase().includes(queryLower)
-              ) {
-                userResults.push({
-                  type: "user",
-                  id: profileId,
-                  username,
-                  bio,
-                  pfpUrl,
-                  address: ownerAddress,
-                });
-              }
-            }
-          } catch (e) {
-            console.error("Error fetching profile:", e);
-          }
-        }
+        const profiles = await client.queryEvents(
+          "profile",
+          "ProfileCreated",
+          decodeProfileCreated,
+          { limit: 50 }
+        );
+
+        // Fetch profile details for every event in one batch
+        const ownerByProfile = new Map(
+          profiles.data
+            .filter((event) => event.profileId)
+            .map((event) => [event.profileId, event.owner])
+        );
+        const details = await client.getProfiles([...ownerByProfile.keys()]);
+
+        // Check if username, bio or owner matches the search query
+        const queryLower = query.toLowerCase();
+        const userResults: SearchResult[] = details
+          .map((profile) => ({
+            profile,
+            owner: ownerByProfile.get(profile.id) ?? profile.owner,
+          }))
+          .filter(
+            ({ profile, owner }) =>
+              profile.username.toLowerCase().includes(queryLower) ||
+              profile.bio.toLowerCase().includes(queryLower) ||
+              owner.toLowerCase().includes(queryLower)
+          )
+          .map(({ profile, owner }) => ({
+            type: "user",
+            id: profile.id,
+            username: profile.username,
+            bio: profile.bio,
+            pfpUrl: profile.pfpUrl,
+            address: owner,
+          }));
 
         return userResults;
       } catch (e) {
@@ -100,7 +76,7 @@ export function useSearch() {
         return [];
       }
     },
-    [suiClient]
+    [client]
   );
 
   const searchPosts = useCallback(
@@ -109,61 +85,33 @@ export function useSearch() {
 
       try {
         // Get the SuitRegistry to fetch suit IDs
-        const registry = await suiClient.getObject({
-          id: SUIT_REGISTRY_ID,
-          options: { showContent: true },
-        });
-
-        const registryContent = registry.data?.content as any;
-        const suitIds = registryContent?.fields?.suit_ids || [];
+        const registry = await client.getSuitRegistry(SUIT_REGISTRY);
+        const suitIds = registry?.suitIds ?? [];
 
         // Fetch recent suits (limit to 50 for performance)
         const recentSuitIds = suitIds.slice(-50).reverse();
 
-        const postResults: SearchResult[] = [];
-
-        for (const suitId of recentSuitIds) {
-          try {
-            const suit = await suiClient.getObject({
-              id: suitId,
-              options: { showContent: true },
-            });
-
-            const content = suit.data?.content as any;
-            const fields = content?.fields;
-
-            if (fields) {
-              const postContent = fields.content || "";
-              const creator = fields.creator || "";
-              const createdAt = parseInt(fields.created_at) || Date.now();
-              const likeCount = parseInt(fields.like_count) || 0;
-              const commentCount = parseInt(fields.comment_count) || 0;
-              const retweetCount = parseInt(fields.retweet_count) || 0;
-              const mediaUrls = fields.media_urls || [];
-
-              // Check if content or creator matches the search query
-              const queryLower = query.toLowerCase();
-              if (
-                postContent.toLowerCase().includes(queryLower) ||
-                creator.toLowerCase().includes(queryLower)
-              ) {
-                postResults.push({
-                  type: "post",
-                  id: suitId,
-                  content: postContent,
-                  creator,
-                  createdAt,
-                  likeCount,
-                  commentCount,
-                  retweetCount,
-                  mediaUrls,
-                });
-              }
-            }
-          } catch (e) {
-            console.error(`Error fetching suit ${suitId}:`, e);
-          }
-        }
+        const suits = await client.getSuits(recentSuitIds);
+
+        // Check if content or creator matches the search query
+        const queryLower = query.toLowerCase();
+        const postResults: SearchResult[] = suits
+          .filter(
+            (suit) =>
+              suit.content.toLowerCase().includes(queryLower) ||
+              suit.creator.toLowerCase().includes(queryLower)
+          )
+          .map((suit) => ({
+            type: "post",
+            id: suit.id,
+            content: suit.content,
+            creator: suit.creator,
+            createdAt: suit.createdAt || Date.now(),
+            likeCount: suit.likeCount,
+            commentCount: suit.commentCount,
+            retweetCount: suit.retweetCount,
+            mediaUrls: suit.mediaUrls,
+          }));
 
         return postResults;
       } catch (e) {
@@ -171,7 +119,7 @@ export function useSearch() {
         return [];
       }
     },
-    [suiClient]
+    [client, SUIT_REGISTRY]
   );
 
   const search = useCallback(
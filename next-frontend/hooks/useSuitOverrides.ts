@@ -0,0 +1,170 @@
+import { useEffect, useMemo, useState, useSyncExternalStore } from "react";
+import { useCurrentAccount } from "@mysten/dapp-kit";
+import { useQueryClient, type QueryClient } from "@tanstack/react-query";
+import type { Comment, Suit } from "../services/suitter";
+import { suitterKeys } from "./queryKeys";
+
+/**
+ * What the UI should show for a suit in place of the copy a page loaded:
+ * an optimistic guess while a transaction is in flight, or the counts last
+ * read from chain if they are newer than the page's.
+ */
+export interface SuitOverride {
+  likes?: number;
+  reposts?: number;
+  replies?: number;
+  liked?: boolean;
+  reposted?: boolean;
+  /** Comments sent but not yet readable from chain */
+  pendingComments?: Comment[];
+}
+
+/** The card fields an override can replace */
+export interface SuitCounts {
+  id: string;
+  likes: number;
+  reposts: number;
+  replies: number;
+  liked: boolean;
+  reposted?: boolean;
+}
+
+type Listener = () => void;
+
+// Pages keep their own arrays of cards, so overrides live outside them and
+// every page overlays the same entries when it renders
+class SuitOverrideStore {
+  private overrides: Record<string, SuitOverride> = {};
+  private owner: string | null = null;
+  private readonly listeners = new Set<Listener>();
+
+  getSnapshot = () => this.overrides;
+
+  subscribe = (listener: Listener) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  get(suitId: string): SuitOverride {
+    return this.overrides[suitId] ?? {};
+  }
+
+  /**
+   * Merge `patch` into a suit's override. Returns an undo that puts back
+   * only the fields this patch touched, so it can't clobber a concurrent
+   * change to the same suit's other fields.
+   */
+  patch(suitId: string, patch: SuitOverride): () => void {
+    const before = this.get(suitId);
+    const previous = Object.fromEntries(
+      Object.keys(patch).map((key) => [
+        key,
+        before[key as keyof SuitOverride],
+      ])
+    ) as SuitOverride;
+    this.write(suitId, { ...before, ...patch });
+    return () => this.write(suitId, { ...this.get(suitId), ...previous });
+  }
+
+  /** Overrides hold one wallet's flags, so drop them all when it changes */
+  setOwner(owner: string | null) {
+    if (owner === this.owner) return;
+    this.owner = owner;
+    this.reset();
+  }
+
+  /** Drop every override, e.g. when switching to another network's suits */
+  reset() {
+    this.overrides = {};
+    this.listeners.forEach((listener) => listener());
+  }
+
+  private write(suitId: string, override: SuitOverride) {
+    this.overrides = { ...this.overrides, [suitId]: override };
+    this.listeners.forEach((listener) => listener());
+  }
+}
+
+export const suitOverrides = new SuitOverrideStore();
+
+/**
+ * Keep `suits` as just read from chain. Every page shows their counts in
+ * place of the ones it loaded with, until a later read replaces them.
+ */
+export function rememberSuits(queryClient: QueryClient, suits: Suit[]) {
+  // Pages hold their cards for the whole session, so these must last as long
+  queryClient.setQueryDefaults(suitterKeys.suitReads(), { gcTime: Infinity });
+  for (const suit of suits) {
+    queryClient.setQueryData(suitterKeys.suit(suit.id), suit);
+  }
+}
+
+const isSuitRead = (queryKey: readonly unknown[]) =>
+  suitterKeys
+    .suitReads()
+    .every((part, i) => JSON.stringify(queryKey[i]) === JSON.stringify(part));
+
+/**
+ * Current overrides by suit ID, over the counts last read for each suit;
+ * re-renders whenever either changes
+ */
+export function useSuitOverrides(): Record<string, SuitOverride> {
+  const address = useCurrentAccount()?.address ?? null;
+  const queryClient = useQueryClient();
+  useEffect(() => {
+    suitOverrides.setOwner(address);
+  }, [address]);
+
+  const overrides = useSyncExternalStore(
+    suitOverrides.subscribe,
+    suitOverrides.getSnapshot
+  );
+
+  const [readsVersion, setReadsVersion] = useState(0);
+  useEffect(
+    () =>
+      queryClient.getQueryCache().subscribe((event) => {
+        if (isSuitRead(event.query.queryKey)) setReadsVersion((n) => n + 1);
+      }),
+    [queryClient]
+  );
+
+  return useMemo(() => {
+    const merged = { ...overrides };
+    const reads = queryClient.getQueriesData<Suit>({
+      queryKey: suitterKeys.suitReads(),
+    });
+    for (const [, suit] of reads) {
+      if (!suit) continue;
+      const override = overrides[suit.id] ?? {};
+      merged[suit.id] = {
+        ...override,
+        likes: override.likes ?? suit.likeCount,
+        reposts: override.reposts ?? suit.retweetCount,
+        replies: override.replies ?? suit.commentCount,
+      };
+    }
+    return merged;
+    // readsVersion stands in for the query cache, which changes in place
+  }, [overrides, queryClient, readsVersion]);
+}
+
+/** `card` with any override for it applied */
+export function withOverride<T extends SuitCounts>(
+  card: T,
+  override: SuitOverride | undefined
+): T {
+  if (!override) return card;
+  return {
+    ...card,
+    likes: override.likes ?? card.likes,
+    reposts: override.reposts ?? card.reposts,
+    replies:
+      (override.replies ?? card.replies) +
+      (override.pendingComments?.length ?? 0),
+    liked: override.liked ?? card.liked,
+    reposted: override.reposted ?? card.reposted,
+  };
+}
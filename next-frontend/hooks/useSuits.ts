@@ -1,4 +1,5 @@
 import { useCallback, useMemo, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
 import {
   useCurrentAccount,
   useSignAndExecuteTransaction,
@@ -6,74 +7,175 @@ import {
 } from "@mysten/dapp-kit";
 import { Transaction } from "@mysten/sui/transactions";
 import { bcs } from "@mysten/sui/bcs";
-import CONFIG from "../config";
+import type { Suit } from "../services/suitter";
+import { indexerFor } from "../services/indexer";
+import { assertTxSucceeded, toSuitterError } from "../services/errors";
+import { useDeployment } from "./useDeployment";
+import { useSuitterClient } from "./useSuitterClient";
+import { STALE_TIMES, suitterKeys } from "./queryKeys";
+import { rememberSuits } from "./useSuitOverrides";
 
-const PACKAGE_ID = CONFIG.VITE_PACKAGE_ID;
-const SUIT_REGISTRY_ID = CONFIG.SUIT_REGISTRY;
+export interface SuitPage {
+  /** May be short, or empty, when filtering by creator; check nextCursor */
+  suits: Suit[];
+  /** Pass back to `fetchSuitPage` for older suits; null once exhausted */
+  nextCursor: number | null;
+  /** Registry length when the page was read; pass to `fetchNewSuits` */
+  latestCursor: number;
+}
+
+/** Registry entries a page reads at most while looking for a creator's suits */
+const MAX_SUITS_READ = 100;
+
+/** Whether a suit is by `creator`, or by any of them if given several */
+function byCreator(creator: string | string[]) {
+  const creators = new Set([creator].flat());
+  return (suit: Suit) => creators.has(suit.creator);
+}
 
 export function useSuits() {
   const suiClient = useSuiClient();
+  const client = useSuitterClient();
+  const queryClient = useQueryClient();
   const account = useCurrentAccount();
   const { mutateAsync: signAndExecute } = useSignAndExecuteTransaction();
+  const { network, PACKAGE_ID, SUIT_REGISTRY, TIP_BALANCE_REGISTRY } =
+    useDeployment();
+  const indexer = indexerFor(network);
 
   const [isPosting, setIsPosting] = useState(false);
   const [isFetching, setIsFetching] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const address = account?.address ?? null;
 
-  const fetchSuits = useCallback(
-    async (limit: number = 20, offset: number = 0) => {
+  // Suits are paged by their position in SuitRegistry.suit_ids. The vector
+  // is append-only, so an index keeps pointing at the same suit no matter how
+  // many are posted after it was handed out. `creator` may list several
+  // authors, e.g. everyone the account follows.
+  const fetchSuitPage = useCallback(
+    async (
+      cursor: number | null = null,
+      limit: number = 20,
+      creator?: string | string[]
+    ): Promise<SuitPage | null> => {
       setIsFetching(true);
       setError(null);
       try {
-        // Get the SuitRegistry to fetch suit IDs
-        const registry = await suiClient.getObject({
-          id: SUIT_REGISTRY_ID,
-          options: { showContent: true },
-        });
+        return await queryClient.fetchQuery({
+          queryKey: suitterKeys.suitPage(cursor, limit, creator),
+          queryFn: async () => {
+            // The indexer looks suits up by author directly. Its cursors are
+            // the same registry positions the walk below uses.
+            if (indexer && creator) {
+              try {
+                const page = await indexer.getSuits({
+                  author: creator,
+                  before: cursor,
+                  limit,
+                });
+                const suits = await client.getSuits(
+                  page.data.map((suit) => suit.suitId)
+                );
+                rememberSuits(queryClient, suits);
+                return {
+                  suits,
+                  nextCursor: page.nextCursor,
+                  latestCursor: page.latestCursor,
+                };
+              } catch (e) {
+                console.error("Indexer unavailable, walking registry:", e);
+              }
+            }
 
-        const registryContent = registry.data?.content as any;
-        const suitIds = registryContent?.fields?.suit_ids || [];
-
-        // Get recent suits (reverse order for newest first)
-        const recentSuitIds = suitIds
-          .slice(-limit - offset)
-          .reverse()
-          .slice(offset, offset + limit);
-
-        // Fetch all suit objects
-        const suits = await Promise.all(
-          recentSuitIds.map(async (id: string) => {
-            try {
-              const suit = await suiClient.getObject({
-                id,
-                options: { showContent: true, showOwner: true },
-              });
-              return suit.data;
-            } catch (e) {
-              console.error(`Failed to fetch suit ${id}:`, e);
-              return null;
+            const registry = await client.getSuitRegistry(SUIT_REGISTRY);
+            const suitIds = registry?.suitIds ?? [];
+            const latestCursor = suitIds.length;
+
+            const suits: Suit[] = [];
+            let end = Math.min(cursor ?? latestCursor, latestCursor);
+            let read = 0;
+            // A window may hold no suits by `creator`, so keep walking back
+            // until the page is full or the registry runs out. Authors who
+            // post rarely could otherwise have every page read the whole
+            // registry, so stop after MAX_SUITS_READ and hand back a cursor
+            // to carry on from, even if the page is short or empty.
+            while (end > 0 && suits.length < limit && read < MAX_SUITS_READ) {
+              const start = Math.max(0, end - limit);
+              // Newest first
+              const window = await client.getSuits(
+                suitIds.slice(start, end).reverse()
+              );
+              suits.push(
+                ...(creator ? window.filter(byCreator(creator)) : window)
+              );
+              read += end - start;
+              end = start;
             }
-          })
-        );
+            rememberSuits(queryClient, suits);
 
-        return suits.filter(Boolean);
+            return {
+              suits,
+              nextCursor: end > 0 ? end : null,
+              latestCursor,
+            };
+          },
+          staleTime: STALE_TIMES.suits,
+        });
       } catch (e: any) {
         setError(e?.message ?? "Failed to fetch suits");
         console.error("Failed to fetch suits:", e);
-        return [];
+        return null;
       } finally {
         setIsFetching(false);
       }
     },
-    [suiClient]
+    [client, queryClient, indexer, SUIT_REGISTRY]
+  );
+
+  /** Suits posted at or after `since` (a `latestCursor`), newest first */
+  const fetchNewSuits = useCallback(
+    async (since: number, creator?: string | string[]): Promise<SuitPage> => {
+      try {
+        const registry = await client.getSuitRegistry(SUIT_REGISTRY);
+        const suitIds = registry?.suitIds ?? [];
+        if (suitIds.length <= since) {
+          return { suits: [], nextCursor: null, latestCursor: since };
+        }
+
+        const suits = await client.getSuits(suitIds.slice(since).reverse());
+        rememberSuits(queryClient, suits);
+        return {
+          suits: creator ? suits.filter(byCreator(creator)) : suits,
+          nextCursor: null,
+          latestCursor: suitIds.length,
+        };
+      } catch (e) {
+        console.error("Failed to fetch new suits:", e);
+        return { suits: [], nextCursor: null, latestCursor: since };
+      }
+    },
+    [client, queryClient, SUIT_REGISTRY]
+  );
+
+  // Read `suitIds` again for their latest like, repost and comment counts,
+  // which every page shows over the copies it loaded
+  const refreshSuits = useCallback(
+    async (suitIds: string[]) => {
+      if (suitIds.length === 0) return;
+      try {
+        rememberSuits(queryClient, await client.getSuits(suitIds));
+      } catch (e) {
+        console.error("Failed to refresh suits:", e);
+      }
+    },
+    [client, queryClient]
   );
 
   const postSuit = useCallback(
     async (content: string, mediaUrls?: string[]) => {
       if (!address) throw new Error("Wallet not connected");
-      if (!PACKAGE_ID || PACKAGE_ID === "0x...") {
-        throw new Error("VITE_PACKAGE_ID not configured");
+      if (!PACKAGE_ID) {
+        throw new Error(`Suitter isn't deployed on ${network}`);
       }
       setIsPosting(true);
       setError(null);
@@ -83,7 +185,7 @@ export function useSuits() {
         tx.moveCall({
           target: `${PACKAGE_ID}::suits::create_suit`,
           arguments: [
-            tx.object(SUIT_REGISTRY_ID), // &mut SuitRegistry
+            tx.object(SUIT_REGISTRY), // &mut SuitRegistry
             tx.pure.string(content), // vector<u8> content
             tx.pure(
               bcs
@@ -98,21 +200,81 @@ export function useSuits() {
           ],
         });
 
+        // Only the author can open their TipBalance, so do it with their
+        // first post; tippers can't create it for them
+        const hasTipBalance = await client
+          .getTipBalanceId(address, TIP_BALANCE_REGISTRY)
+          .catch((e) => {
+            console.error("Failed to look up tip balance:", e);
+            return true; // Don't block posting on the lookup
+          });
+        if (!hasTipBalance) {
+          tx.moveCall({
+            target: `${PACKAGE_ID}::tipping::create_tip_balance`,
+            arguments: [tx.object(TIP_BALANCE_REGISTRY)],
+          });
+        }
+
         const { digest } = await signAndExecute({ transaction: tx });
-        await suiClient.waitForTransaction({ digest });
+        assertTxSucceeded(
+          await suiClient.waitForTransaction({
+            digest,
+            options: { showEffects: true },
+          })
+        );
+        await queryClient.invalidateQueries({ queryKey: suitterKeys.suits() });
+        if (!hasTipBalance) {
+          await Promise.all([
+            queryClient.invalidateQueries({
+              queryKey: suitterKeys.tipBalanceId(address),
+            }),
+            queryClient.invalidateQueries({
+              queryKey: suitterKeys.tipBalance(address),
+            }),
+          ]);
+        }
         return digest;
       } catch (e: any) {
-        setError(e?.message ?? "Failed to post suit");
-        throw e;
+        const error = toSuitterError(e, "Failed to post suit");
+        setError(error.message);
+        throw error;
       } finally {
         setIsPosting(false);
       }
     },
-    [address, signAndExecute, suiClient]
+    [
+      address,
+      network,
+      PACKAGE_ID,
+      SUIT_REGISTRY,
+      TIP_BALANCE_REGISTRY,
+      client,
+      signAndExecute,
+      suiClient,
+      queryClient,
+    ]
   );
 
   return useMemo(
-    () => ({ address, isPosting, isFetching, error, postSuit, fetchSuits }),
-    [address, isPosting, isFetching, error, postSuit, fetchSuits]
+    () => ({
+      address,
+      isPosting,
+      isFetching,
+      error,
+      postSuit,
+      fetchSuitPage,
+      fetchNewSuits,
+      refreshSuits,
+    }),
+    [
+      address,
+      isPosting,
+      isFetching,
+      error,
+      postSuit,
+      fetchSuitPage,
+      fetchNewSuits,
+      refreshSuits,
+    ]
   );
 }
@@ -0,0 +1,13 @@
+import { useMemo } from "react";
+import { useSuiClient } from "@mysten/dapp-kit";
+import { SuitterClient } from "../services/suitter";
+import { useDeployment } from "./useDeployment";
+
+export function useSuitterClient() {
+  const suiClient = useSuiClient();
+  const { PACKAGE_ID } = useDeployment();
+  return useMemo(
+    () => new SuitterClient(suiClient, PACKAGE_ID),
+    [suiClient, PACKAGE_ID]
+  );
+}
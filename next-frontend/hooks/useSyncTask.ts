@@ -0,0 +1,35 @@
+import { useCallback, useEffect, useRef } from "react";
+import {
+  syncScheduler,
+  type SyncTask,
+  type SyncTaskOptions,
+} from "../services/syncScheduler";
+
+/**
+ * Run `task` on the shared sync scheduler while `key` is set. The latest
+ * `task` is always the one run, so passing a new closure each render doesn't
+ * reschedule anything. Returns a function that runs it again right away and
+ * resets its backoff, for after the user changes something.
+ */
+export function useSyncTask(
+  key: string | null,
+  task: SyncTask,
+  { minInterval, maxInterval }: SyncTaskOptions
+): () => void {
+  const taskRef = useRef(task);
+  useEffect(() => {
+    taskRef.current = task;
+  });
+
+  useEffect(() => {
+    if (!key) return;
+    return syncScheduler.register(key, () => taskRef.current(), {
+      minInterval,
+      maxInterval,
+    });
+  }, [key, minInterval, maxInterval]);
+
+  return useCallback(() => {
+    if (key) syncScheduler.boost(key);
+  }, [key]);
+}
@@ -0,0 +1,341 @@
+import { useCallback, useMemo, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import {
+  useCurrentAccount,
+  useSignAndExecuteTransaction,
+  useSuiClient,
+} from "@mysten/dapp-kit";
+import { Transaction } from "@mysten/sui/transactions";
+import {
+  MIN_TIP_AMOUNT,
+  decodeFundsWithdrawn,
+  decodeTipSent,
+  type FundsWithdrawnEvent,
+  type TipBalance,
+  type TipSentEvent,
+} from "../services/suitter";
+import { indexerFor } from "../services/indexer";
+import { assertTxSucceeded, toSuitterError } from "../services/errors";
+import { formatSui } from "../lib/utils";
+import { useDeployment } from "./useDeployment";
+import { useSuitterClient } from "./useSuitterClient";
+import { STALE_TIMES, suitterKeys } from "./queryKeys";
+
+export function useTipping() {
+  const suiClient = useSuiClient();
+  const client = useSuitterClient();
+  const queryClient = useQueryClient();
+  const account = useCurrentAccount();
+  const { mutateAsync: signAndExecute } = useSignAndExecuteTransaction();
+  const { network, PACKAGE_ID, TIP_BALANCE_REGISTRY } = useDeployment();
+  const indexer = indexerFor(network);
+
+  const [isTipping, setIsTipping] = useState(false);
+  const [isCreatingBalance, setIsCreatingBalance] = useState(false);
+  const [isWithdrawing, setIsWithdrawing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const address = account?.address ?? null;
+
+  /** The creator's `TipBalance` ID, or null if they can't receive tips yet */
+  const getTipBalanceId = useCallback(
+    (owner: string) =>
+      queryClient.fetchQuery({
+        queryKey: suitterKeys.tipBalanceId(owner),
+        queryFn: () => client.getTipBalanceId(owner, TIP_BALANCE_REGISTRY),
+        staleTime: STALE_TIMES.tipBalanceId,
+      }),
+    [client, queryClient, TIP_BALANCE_REGISTRY]
+  );
+
+  /** The owner's `TipBalance`, or null if they haven't opened one */
+  const fetchTipBalance = useCallback(
+    async (owner: string): Promise<TipBalance | null> => {
+      try {
+        return await queryClient.fetchQuery({
+          queryKey: suitterKeys.tipBalance(owner),
+          queryFn: async () => {
+            const balanceId = await getTipBalanceId(owner);
+            return balanceId ? client.getTipBalance(balanceId) : null;
+          },
+          staleTime: STALE_TIMES.earnings,
+        });
+      } catch (e: any) {
+        setError(e?.message ?? "Failed to fetch tip balance");
+        console.error("Failed to fetch tip balance:", e);
+        return null;
+      }
+    },
+    [client, queryClient, getTipBalanceId]
+  );
+
+  /** Every TipSent to `recipient`, newest first */
+  const fetchTipsReceived = useCallback(
+    async (recipient: string): Promise<TipSentEvent[]> => {
+      try {
+        return await queryClient.fetchQuery({
+          queryKey: suitterKeys.tipsReceived(recipient),
+          queryFn: async () => {
+            if (indexer) {
+              try {
+                const tips = await indexer.getTipsReceived(recipient);
+                return tips.map((tip) => ({
+                  suitId: tip.suitId,
+                  tipper: tip.tipper,
+                  recipient: tip.recipient,
+                  amount: Number(tip.amount),
+                  timestamp: tip.createdAt,
+                  txDigest: tip.eventId.split(":")[0],
+                }));
+              } catch (e) {
+                console.error("Indexer unavailable, scanning events:", e);
+              }
+            }
+
+            const events = await client.queryAllEvents(
+              "tipping",
+              "TipSent",
+              decodeTipSent
+            );
+            return events.filter((event) => event.recipient === recipient);
+          },
+          staleTime: STALE_TIMES.earnings,
+        });
+      } catch (e: any) {
+        setError(e?.message ?? "Failed to fetch tips");
+        console.error("Failed to fetch tips:", e);
+        return [];
+      }
+    },
+    [client, queryClient, indexer]
+  );
+
+  /** Every FundsWithdrawn by `owner`, newest first */
+  const fetchWithdrawals = useCallback(
+    async (owner: string): Promise<FundsWithdrawnEvent[]> => {
+      try {
+        return await queryClient.fetchQuery({
+          queryKey: suitterKeys.withdrawals(owner),
+          queryFn: async () => {
+            if (indexer) {
+              try {
+                const withdrawals = await indexer.getWithdrawals(owner);
+                return withdrawals.map((withdrawal) => ({
+                  owner: withdrawal.owner,
+                  amount: Number(withdrawal.amount),
+                  timestamp: withdrawal.createdAt,
+                  txDigest: withdrawal.eventId.split(":")[0],
+                }));
+              } catch (e) {
+                console.error("Indexer unavailable, scanning events:", e);
+              }
+            }
+
+            const events = await client.queryAllEvents(
+              "tipping",
+              "FundsWithdrawn",
+              decodeFundsWithdrawn
+            );
+            return events.filter((event) => event.owner === owner);
+          },
+          staleTime: STALE_TIMES.earnings,
+        });
+      } catch (e: any) {
+        setError(e?.message ?? "Failed to fetch withdrawals");
+        console.error("Failed to fetch withdrawals:", e);
+        return [];
+      }
+    },
+    [client, queryClient, indexer]
+  );
+
+  // create_tip_balance registers the sender, so users can only open their
+  // own balance; postSuit does it for every new author
+  const createTipBalance = useCallback(async () => {
+    if (!address) throw new Error("Wallet not connected");
+    setIsCreatingBalance(true);
+    setError(null);
+    try {
+      const tx = new Transaction();
+      tx.moveCall({
+        target: `${PACKAGE_ID}::tipping::create_tip_balance`,
+        arguments: [tx.object(TIP_BALANCE_REGISTRY)],
+      });
+
+      const { digest } = await signAndExecute({ transaction: tx });
+      assertTxSucceeded(
+        await suiClient.waitForTransaction({
+          digest,
+          options: { showEffects: true },
+        })
+      );
+      await Promise.all([
+        queryClient.invalidateQueries({
+          queryKey: suitterKeys.tipBalanceId(address),
+        }),
+        queryClient.invalidateQueries({
+          queryKey: suitterKeys.tipBalance(address),
+        }),
+      ]);
+      return digest;
+    } catch (e: any) {
+      const error = toSuitterError(e, "Failed to create tip balance");
+      setError(error.message);
+      throw error;
+    } finally {
+      setIsCreatingBalance(false);
+    }
+  }, [
+    address,
+    PACKAGE_ID,
+    TIP_BALANCE_REGISTRY,
+    signAndExecute,
+    suiClient,
+    queryClient,
+  ]);
+
+  /** Move `amount` MIST from the connected wallet's TipBalance to the wallet */
+  const withdrawFunds = useCallback(
+    async (amount: number) => {
+      if (!address) throw new Error("Wallet not connected");
+      if (!Number.isInteger(amount) || amount <= 0) {
+        throw new Error("Enter an amount to withdraw");
+      }
+      setIsWithdrawing(true);
+      setError(null);
+      try {
+        const balanceId = await getTipBalanceId(address);
+        if (!balanceId) throw new Error("You don't have a tip balance yet");
+
+        const tx = new Transaction();
+        tx.moveCall({
+          target: `${PACKAGE_ID}::tipping::withdraw_funds`,
+          arguments: [
+            tx.object(balanceId), // &mut TipBalance
+            tx.pure.u64(amount), // amount in MIST
+            tx.object("0x6"), // Clock object
+          ],
+        });
+
+        const { digest } = await signAndExecute({ transaction: tx });
+        assertTxSucceeded(
+          await suiClient.waitForTransaction({
+            digest,
+            options: { showEffects: true },
+          })
+        );
+        await queryClient.invalidateQueries({
+          queryKey: suitterKeys.earnings(address),
+        });
+        return digest;
+      } catch (e: any) {
+        const error = toSuitterError(e, "Failed to withdraw funds");
+        setError(error.message);
+        throw error;
+      } finally {
+        setIsWithdrawing(false);
+      }
+    },
+    [
+      address,
+      PACKAGE_ID,
+      getTipBalanceId,
+      signAndExecute,
+      suiClient,
+      queryClient,
+    ]
+  );
+
+  /** Tip a suit's creator `amount` MIST, paid from the gas coin */
+  const tipSuit = useCallback(
+    async (suitId: string, creator: string, amount: number) => {
+      if (!address) throw new Error("Wallet not connected");
+      if (creator === address) throw new Error("You can't tip your own suit");
+      if (!Number.isInteger(amount) || amount < MIN_TIP_AMOUNT) {
+        throw new Error(
+          `Tips must be at least ${formatSui(MIN_TIP_AMOUNT)} SUI`
+        );
+      }
+      setIsTipping(true);
+      setError(null);
+      try {
+        const balanceId = await getTipBalanceId(creator);
+        if (!balanceId) {
+          throw new Error("This creator hasn't set up tipping yet");
+        }
+
+        const tx = new Transaction();
+        const [payment] = tx.splitCoins(tx.gas, [tx.pure.u64(amount)]);
+        tx.moveCall({
+          target: `${PACKAGE_ID}::tipping::tip_suit`,
+          arguments: [
+            tx.object(suitId), // &mut Suit
+            tx.object(balanceId), // &mut TipBalance
+            payment, // Coin<SUI>
+            tx.object("0x6"), // Clock object
+          ],
+        });
+
+        const { digest } = await signAndExecute({ transaction: tx });
+        assertTxSucceeded(
+          await suiClient.waitForTransaction({
+            digest,
+            options: { showEffects: true },
+          })
+        );
+        // tip_total lives on the Suit, the rest on the creator's balance
+        await Promise.all([
+          queryClient.invalidateQueries({ queryKey: suitterKeys.suits() }),
+          queryClient.invalidateQueries({
+            queryKey: suitterKeys.earnings(creator),
+          }),
+        ]);
+        return digest;
+      } catch (e: any) {
+        const error = toSuitterError(e, "Failed to send tip");
+        setError(error.message);
+        throw error;
+      } finally {
+        setIsTipping(false);
+      }
+    },
+    [
+      address,
+      PACKAGE_ID,
+      getTipBalanceId,
+      signAndExecute,
+      suiClient,
+      queryClient,
+    ]
+  );
+
+  return useMemo(
+    () => ({
+      address,
+      isTipping,
+      isCreatingBalance,
+      isWithdrawing,
+      error,
+      getTipBalanceId,
+      fetchTipBalance,
+      fetchTipsReceived,
+      fetchWithdrawals,
+      createTipBalance,
+      withdrawFunds,
+      tipSuit,
+    }),
+    [
+      address,
+      isTipping,
+      isCreatingBalance,
+      isWithdrawing,
+      error,
+      getTipBalanceId,
+      fetchTipBalance,
+      fetchTipsReceived,
+      fetchWithdrawals,
+      createTipBalance,
+      withdrawFunds,
+      tipSuit,
+    ]
+  );
+}
@@ -21,9 +21,40 @@ export function formatTime(timestamp: number): string {
   return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })
 }
 
+export const MIST_PER_SUI = 1_000_000_000
+
+/** Format a MIST amount as SUI, e.g. 12_500_000 -> "0.0125" */
+export function formatSui(mist: number, maxDecimals: number = 4): string {
+  return (mist / MIST_PER_SUI).toLocaleString('en-US', {
+    maximumFractionDigits: maxDecimals,
+  })
+}
+
+/** Parse a SUI amount typed by the user into MIST; NaN if it isn't a number */
+export function suiToMist(sui: string | number): number {
+  return Math.round(Number(sui) * MIST_PER_SUI)
+}
+
 export function truncateAddress(address: string, startChars: number = 6, endChars: number = 4): string {
   if (!address || address.length <= startChars + endChars) {
     return address
   }
   return `${address.slice(0, startChars)}...${address.slice(-endChars)}`
-}
\ No newline at end of file
+}
+
+/** Quote a CSV cell if it contains a delimiter, quote or newline */
+function csvCell(value: string | number): string {
+  const text = String(value)
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/** Build a CSV file from `rows` (first row is the header) and download it */
+export function downloadCsv(filename: string, rows: (string | number)[][]) {
+  const csv = rows.map((row) => row.map(csvCell).join(',')).join('\r\n')
+  const url = URL.createObjectURL(new Blob([csv], { type: 'text/csv;charset=utf-8' }))
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  link.click()
+  URL.revokeObjectURL(url)
+}
@@ -12,9 +12,8 @@ import {
   ReactNode,
   useCallback,
 } from "react";
+import { useDeployment } from "../hooks/useDeployment";
 
-const PACKAGE_ID =
-  "0x984960ebddd75c15c6d38355ac462621db0ffc7d6647214c802cd3b685e1af3d";
 const SESSION_KEY_TTL_MIN = 30; // 30 minutes
 
 interface SessionKeyContextType {
@@ -36,6 +35,7 @@ export const SessionKeyProvider = ({ children }: SessionKeyProviderProps) => {
   const currentAccount = useCurrentAccount();
   const { mutateAsync: signPersonalMessage } = useSignPersonalMessage();
   const suiClient = useSuiClient();
+  const { network, PACKAGE_ID } = useDeployment();
   const [sessionKey, setSessionKey] = useState<SessionKey | null>(null);
   const [isInitializing, setIsInitializing] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -47,7 +47,7 @@ export const SessionKeyProvider = ({ children }: SessionKeyProviderProps) => {
       return;
     }
 
-    const storageKey = `sessionKey-${currentAccount.address}`;
+    const storageKey = `sessionKey-${network}-${currentAccount.address}`;
     const stored = localStorage.getItem(storageKey);
 
     if (stored) {
@@ -67,7 +67,7 @@ export const SessionKeyProvider = ({ children }: SessionKeyProviderProps) => {
         localStorage.removeItem(storageKey);
       }
     }
-  }, [currentAccount, suiClient]);
+  }, [currentAccount, suiClient, network]);
 
   // Manual initialization function
   const initializeSessionKey = useCallback(async () => {
@@ -100,7 +100,7 @@ export const SessionKeyProvider = ({ children }: SessionKeyProviderProps) => {
       setSessionKey(key);
 
       // Save to localStorage
-      const storageKey = `sessionKey-${currentAccount.address}`;
+      const storageKey = `sessionKey-${network}-${currentAccount.address}`;
       localStorage.setItem(
         storageKey,
         JSON.stringify({
@@ -117,7 +117,7 @@ export const SessionKeyProvider = ({ children }: SessionKeyProviderProps) => {
     } finally {
       setIsInitializing(false);
     }
-  }, [currentAccount, signPersonalMessage, suiClient]);
+  }, [currentAccount, signPersonalMessage, suiClient, network, PACKAGE_ID]);
 
   return (
     <SessionKeyContext.Provider
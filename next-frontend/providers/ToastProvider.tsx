@@ -0,0 +1,84 @@
+import { createContext, useCallback, useContext, useMemo, useState } from "react";
+import * as ToastPrimitive from "@radix-ui/react-toast";
+import { X } from "lucide-react";
+
+export interface ToastOptions {
+  title: string;
+  description?: string;
+  variant?: "default" | "error";
+}
+
+interface ToastEntry extends ToastOptions {
+  id: number;
+}
+
+interface ToastContextValue {
+  toast: (options: ToastOptions) => void;
+}
+
+const ToastContext = createContext<ToastContextValue | undefined>(undefined);
+
+let nextToastId = 0;
+
+/** Renders toasts raised anywhere below it through `useToast` */
+export function ToastProvider({ children }: { children: React.ReactNode }) {
+  const [toasts, setToasts] = useState<ToastEntry[]>([]);
+
+  const toast = useCallback((options: ToastOptions) => {
+    setToasts((prev) => [...prev, { ...options, id: nextToastId++ }]);
+  }, []);
+
+  const dismiss = (id: number) =>
+    setToasts((prev) => prev.filter((entry) => entry.id !== id));
+
+  const value = useMemo(() => ({ toast }), [toast]);
+
+  return (
+    <ToastContext.Provider value={value}>
+      <ToastPrimitive.Provider swipeDirection="right" duration={6000}>
+        {children}
+        {toasts.map((entry) => (
+          <ToastPrimitive.Root
+            key={entry.id}
+            onOpenChange={(open) => !open && dismiss(entry.id)}
+            className={`flex items-start gap-3 rounded-xl border p-4 shadow-lg bg-background ${
+              entry.variant === "error"
+                ? "border-red-500/40"
+                : "border-border"
+            }`}
+          >
+            <div className="flex-1 min-w-0">
+              <ToastPrimitive.Title
+                className={`text-sm font-semibold ${
+                  entry.variant === "error" ? "text-red-500" : "text-foreground"
+                }`}
+              >
+                {entry.title}
+              </ToastPrimitive.Title>
+              {entry.description && (
+                <ToastPrimitive.Description className="text-sm text-muted-foreground mt-1">
+                  {entry.description}
+                </ToastPrimitive.Description>
+              )}
+            </div>
+            <ToastPrimitive.Close
+              className="p-1 hover:bg-muted rounded-full transition-colors"
+              aria-label="Dismiss"
+            >
+              <X size={14} />
+            </ToastPrimitive.Close>
+          </ToastPrimitive.Root>
+        ))}
+        <ToastPrimitive.Viewport className="fixed bottom-4 right-4 z-100 flex w-96 max-w-[calc(100vw-2rem)] flex-col gap-2 outline-none" />
+      </ToastPrimitive.Provider>
+    </ToastContext.Provider>
+  );
+}
+
+export function useToast() {
+  const context = useContext(ToastContext);
+  if (!context) {
+    throw new Error("useToast must be used within ToastProvider");
+  }
+  return context;
+}
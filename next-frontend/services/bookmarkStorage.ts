@@ -0,0 +1,39 @@
+import { createKeyValueStorage, type KeyValueStorage } from "./keyValueStorage";
+import type { Suit } from "./suitter";
+
+// Bookmarks are private to the browser they were made in, so they are kept
+// in IndexedDB rather than on chain: one record per wallet and network.
+
+export interface BookmarkFolder {
+  id: string;
+  name: string;
+  createdAt: number;
+}
+
+export interface Bookmark {
+  suitId: string;
+  /** null while the bookmark isn't sorted into a folder */
+  folderId: string | null;
+  savedAt: number;
+  /** The suit as last read from chain, shown if it can't be read again */
+  snapshot: Suit;
+  snapshotAt: number;
+}
+
+export interface BookmarkData {
+  /** Newest first */
+  bookmarks: Bookmark[];
+  folders: BookmarkFolder[];
+}
+
+export const EMPTY_BOOKMARKS: BookmarkData = { bookmarks: [], folders: [] };
+
+export type BookmarkStorage = KeyValueStorage<BookmarkData>;
+
+export function createBookmarkStorage(): BookmarkStorage {
+  return createKeyValueStorage(
+    "suitter-bookmarks",
+    "bookmarks",
+    "IndexedDB is unavailable; bookmarks won't outlive this tab"
+  );
+}
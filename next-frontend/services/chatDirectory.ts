@@ -0,0 +1,134 @@
+import type { EventId } from "@mysten/sui/client";
+import { createKeyValueStorage, type KeyValueStorage } from "./keyValueStorage";
+import { decodeChatCreated, type SuitterClient } from "./suitter";
+
+// Which chats an account is in. `ChatRegistry` is keyed by participant pair,
+// so without the indexer the only way to find them is to read every
+// `ChatCreated` event. That is done once, page by page, and kept in
+// IndexedDB per wallet and deployment with the cursor it stopped at, so
+// later visits only read the events since.
+
+export interface KnownChat {
+  chatId: string;
+  participant1: string;
+  participant2: string;
+  createdAt: number;
+}
+
+export interface ChatDirectoryData {
+  /** Oldest first */
+  chats: KnownChat[];
+  /** The last `ChatCreated` event read, null before the first */
+  cursor: EventId | null;
+}
+
+export const EMPTY_CHAT_DIRECTORY: ChatDirectoryData = {
+  chats: [],
+  cursor: null,
+};
+
+export type ChatDirectoryStorage = KeyValueStorage<ChatDirectoryData>;
+
+/**
+ * Which directory to use. A republished package starts a new one, as its
+ * chats and events are separate from the old package's.
+ */
+export function chatDirectoryKey(
+  network: string,
+  packageId: string,
+  address: string
+) {
+  return `${network}:${packageId}:${address}`;
+}
+
+export function createChatDirectoryStorage(): ChatDirectoryStorage {
+  return createKeyValueStorage(
+    "suitter-chats",
+    "directories",
+    "IndexedDB is unavailable; chats will be rescanned each visit"
+  );
+}
+
+// Events read between saves, so an interrupted first sync resumes close to
+// where it stopped
+const PAGES_PER_SAVE = 10;
+
+export class ChatDirectory {
+  // One sync per directory at a time, so two can't append the same chats
+  private syncing = new Map<string, Promise<KnownChat[]>>();
+
+  constructor(private storage: ChatDirectoryStorage) {}
+
+  /** The chats found by the last sync, or null if there hasn't been one */
+  async cached(key: string): Promise<KnownChat[] | null> {
+    return (await this.load(key))?.chats ?? null;
+  }
+
+  /**
+   * Read the `ChatCreated` events since the last sync and resolve to every
+   * chat `address` is in, oldest first
+   */
+  sync(client: SuitterClient, key: string, address: string) {
+    let running = this.syncing.get(key);
+    if (!running) {
+      running = this.read(client, key, address).finally(() => {
+        this.syncing.delete(key);
+      });
+      this.syncing.set(key, running);
+    }
+    return running;
+  }
+
+  /** Read and write somewhere else from now on, e.g. in tests */
+  setStorage(storage: ChatDirectoryStorage) {
+    this.storage = storage;
+    this.syncing.clear();
+  }
+
+  private async load(key: string): Promise<ChatDirectoryData | null> {
+    try {
+      return await this.storage.load(key);
+    } catch (e) {
+      console.error("Failed to load the chat directory:", e);
+      return null;
+    }
+  }
+
+  private async read(client: SuitterClient, key: string, address: string) {
+    let { chats, cursor } = (await this.load(key)) ?? EMPTY_CHAT_DIRECTORY;
+    const known = new Set(chats.map((chat) => chat.chatId));
+
+    for (;;) {
+      const page = await client.queryEventsSince(
+        "messaging",
+        "ChatCreated",
+        decodeChatCreated,
+        cursor,
+        { maxPages: PAGES_PER_SAVE }
+      );
+      const found = page.data.filter(
+        (event) =>
+          (event.participant1 === address || event.participant2 === address) &&
+          !known.has(event.chatId)
+      );
+      found.forEach((event) => known.add(event.chatId));
+      chats = [
+        ...chats,
+        ...found.map(({ chatId, participant1, participant2, timestamp }) => ({
+          chatId,
+          participant1,
+          participant2,
+          createdAt: timestamp,
+        })),
+      ];
+      cursor = page.cursor;
+
+      await this.storage
+        .save(key, { chats, cursor })
+        .catch((e) => console.error("Failed to save the chat directory:", e));
+      if (!page.hasNextPage) return chats;
+    }
+  }
+}
+
+export const chatDirectory = new ChatDirectory(createChatDirectoryStorage());
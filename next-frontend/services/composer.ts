@@ -0,0 +1,198 @@
+import type { SuiEvent } from "@mysten/sui/client";
+import type { Transaction } from "@mysten/sui/transactions";
+import { bcs } from "@mysten/sui/bcs";
+import {
+  decodeCommentCreated,
+  decodeLikeCreated,
+  decodeRetweetCreated,
+  decodeSuitCreated,
+  decodeTipSent,
+  type CommentCreatedEvent,
+  type LikeCreatedEvent,
+  type RetweetCreatedEvent,
+  type SuitCreatedEvent,
+  type TipSentEvent,
+} from "./suitter";
+import { formatSui } from "../lib/utils";
+
+// Several Suitter calls in one programmable transaction block: one wallet
+// prompt and one wait, and the block is atomic so they all land or none do.
+
+export type SuitterAction =
+  | { kind: "like"; suitId: string }
+  | { kind: "comment"; suitId: string; content: string }
+  | { kind: "retweet"; suitId: string }
+  | { kind: "tip"; suitId: string; creator: string; amount: number }
+  | { kind: "post"; content: string; mediaUrls?: string[] };
+
+export type ActionOutcome =
+  | { kind: "like"; action: SuitterAction; event: LikeCreatedEvent }
+  | { kind: "comment"; action: SuitterAction; event: CommentCreatedEvent }
+  | { kind: "retweet"; action: SuitterAction; event: RetweetCreatedEvent }
+  | { kind: "tip"; action: SuitterAction; event: TipSentEvent }
+  | { kind: "post"; action: SuitterAction; event: SuitCreatedEvent };
+
+export interface ComposerObjects {
+  packageId: string;
+  suitRegistryId: string;
+  interactionRegistryId: string;
+  /** Creator address -> their TipBalance ID, for every tip in the batch */
+  tipBalances: Record<string, string>;
+}
+
+// The event each action's Move call emits, in emission order
+const EVENT_OF: Record<SuitterAction["kind"], string> = {
+  like: "::interactions::LikeCreated",
+  comment: "::interactions::CommentCreated",
+  retweet: "::interactions::RetweetCreated",
+  tip: "::tipping::TipSent",
+  post: "::suits::SuitCreated",
+};
+
+/** One line per action for the confirm step */
+export function describeAction(action: SuitterAction): string {
+  switch (action.kind) {
+    case "like":
+      return "Like suit";
+    case "comment":
+      return `Comment "${action.content}"`;
+    case "retweet":
+      return "Repost suit";
+    case "tip":
+      return `Tip ${formatSui(action.amount)} SUI`;
+    case "post":
+      return `Post "${action.content}"`;
+  }
+}
+
+/** MIST the batch pays out on top of gas */
+export function totalTipAmount(actions: SuitterAction[]): number {
+  return actions.reduce(
+    (sum, action) => sum + (action.kind === "tip" ? action.amount : 0),
+    0
+  );
+}
+
+/** Append a Move call for every action to `tx`, in order */
+export function addActions(
+  tx: Transaction,
+  actions: SuitterAction[],
+  objects: ComposerObjects
+) {
+  const { packageId } = objects;
+
+  for (const action of actions) {
+    switch (action.kind) {
+      case "like":
+        tx.moveCall({
+          target: `${packageId}::interactions::like_suit`,
+          arguments: [
+            tx.object(action.suitId), // &mut Suit
+            tx.object(objects.interactionRegistryId), // &mut InteractionRegistry
+            tx.object("0x6"), // Clock object
+          ],
+        });
+        break;
+      case "comment":
+        tx.moveCall({
+          target: `${packageId}::interactions::comment_on_suit`,
+          arguments: [
+            tx.object(action.suitId), // &mut Suit
+            tx.pure.string(action.content), // vector<u8> content
+            tx.object("0x6"), // Clock object
+          ],
+        });
+        break;
+      case "retweet":
+        tx.moveCall({
+          target: `${packageId}::interactions::retweet_suit`,
+          arguments: [
+            tx.object(action.suitId), // &mut Suit
+            tx.object(objects.interactionRegistryId), // &mut InteractionRegistry
+            tx.object("0x6"), // Clock object
+          ],
+        });
+        break;
+      case "tip": {
+        const balanceId = objects.tipBalances[action.creator];
+        if (!balanceId) {
+          throw new Error("This creator hasn't set up tipping yet");
+        }
+        const [payment] = tx.splitCoins(tx.gas, [tx.pure.u64(action.amount)]);
+        tx.moveCall({
+          target: `${packageId}::tipping::tip_suit`,
+          arguments: [
+            tx.object(action.suitId), // &mut Suit
+            tx.object(balanceId), // &mut TipBalance
+            payment, // Coin<SUI>
+            tx.object("0x6"), // Clock object
+          ],
+        });
+        break;
+      }
+      case "post":
+        tx.moveCall({
+          target: `${packageId}::suits::create_suit`,
+          arguments: [
+            tx.object(objects.suitRegistryId), // &mut SuitRegistry
+            tx.pure.string(action.content), // vector<u8> content
+            tx.pure(
+              bcs
+                .vector(bcs.vector(bcs.u8()))
+                .serialize(
+                  (action.mediaUrls || []).map((url) =>
+                    Array.from(new TextEncoder().encode(url))
+                  )
+                )
+            ), // vector<vector<u8>> media URLs
+            tx.object("0x6"), // Clock object
+          ],
+        });
+        break;
+    }
+  }
+}
+
+function decodeOutcome(action: SuitterAction, event: SuiEvent): ActionOutcome {
+  switch (action.kind) {
+    case "like":
+      return { kind: "like", action, event: decodeLikeCreated(event) };
+    case "comment":
+      return { kind: "comment", action, event: decodeCommentCreated(event) };
+    case "retweet":
+      return { kind: "retweet", action, event: decodeRetweetCreated(event) };
+    case "tip":
+      return { kind: "tip", action, event: decodeTipSent(event) };
+    case "post":
+      return { kind: "post", action, event: decodeSuitCreated(event) };
+  }
+}
+
+/**
+ * Match the batch's events back to the actions that emitted them. Each
+ * action emits exactly one event and events come out in call order, so the
+ * n-th event of a type belongs to the n-th action of that kind. The block has
+ * already landed by now, so an action whose event is missing is left without
+ * an outcome rather than reported as failed.
+ */
+export function splitOutcomes(
+  actions: SuitterAction[],
+  events: SuiEvent[]
+): ActionOutcome[] {
+  const seen: Partial<Record<SuitterAction["kind"], number>> = {};
+
+  return actions.flatMap((action) => {
+    const matching = events.filter((event) =>
+      event.type.endsWith(EVENT_OF[action.kind])
+    );
+    const index = seen[action.kind] ?? 0;
+    seen[action.kind] = index + 1;
+
+    const event = matching[index];
+    if (!event) {
+      console.warn(`Missing ${EVENT_OF[action.kind].slice(2)} event`);
+      return [];
+    }
+    return [decodeOutcome(action, event)];
+  });
+}
@@ -0,0 +1,69 @@
+import type { SuiClient } from "@mysten/sui/client";
+import {
+  OPTIONAL_REGISTRIES,
+  REGISTRY_TYPES,
+  type RegistryName,
+  type SuitterDeployment,
+} from "../config";
+
+export interface DeploymentIssue {
+  /** `PACKAGE_ID` or the registry's deployment field */
+  name: "PACKAGE_ID" | RegistryName;
+  id: string;
+  problem: string;
+}
+
+/**
+ * Check that a deployment's package and every shared registry exist on the
+ * connected network and have the types the app calls into. Returns one issue
+ * per object that doesn't; an empty list means the deployment is usable.
+ * Optional registries are only checked when configured.
+ */
+export async function checkDeployment(
+  suiClient: SuiClient,
+  deployment: SuitterDeployment
+): Promise<DeploymentIssue[]> {
+  const { PACKAGE_ID } = deployment;
+  if (!PACKAGE_ID) {
+    return [{ name: "PACKAGE_ID", id: "", problem: "Not configured" }];
+  }
+
+  const names = Object.keys(REGISTRY_TYPES) as RegistryName[];
+  const issues: DeploymentIssue[] = names
+    .filter((name) => !deployment[name] && !OPTIONAL_REGISTRIES.includes(name))
+    .map((name) => ({ name, id: "", problem: "Not configured" }));
+  const configured = names.filter((name) => deployment[name]);
+
+  const [pkg, ...registries] = await suiClient.multiGetObjects({
+    ids: [PACKAGE_ID, ...configured.map((name) => deployment[name])],
+    options: { showType: true },
+  });
+
+  if (pkg.data?.type !== "package") {
+    issues.unshift({
+      name: "PACKAGE_ID",
+      id: PACKAGE_ID,
+      problem: pkg.error ? "Not found on this network" : "Not a Move package",
+    });
+  }
+
+  configured.forEach((name, i) => {
+    const object = registries[i];
+    const expected = `${PACKAGE_ID}::${REGISTRY_TYPES[name]}`;
+    if (!object?.data) {
+      issues.push({
+        name,
+        id: deployment[name],
+        problem: "Not found on this network",
+      });
+    } else if (object.data.type !== expected) {
+      issues.push({
+        name,
+        id: deployment[name],
+        problem: `Expected ${REGISTRY_TYPES[name]}, found ${object.data.type}`,
+      });
+    }
+  });
+
+  return issues;
+}
@@ -0,0 +1,283 @@
+import type { SuiTransactionBlockResponse } from "@mysten/sui/client";
+import type { SuitterModule } from "./suitter";
+
+// Turns wallet and execution failures into something a person can act on.
+// Move aborts carry only a module and a u64, so the table below mirrors the
+// `const E_*` declarations in Suits/sources (see Suits/ERROR_CONSTANTS.md).
+
+interface AbortInfo {
+  code: string;
+  message: string;
+  remedy?: string;
+}
+
+const MOVE_ABORTS: Record<SuitterModule, Record<number, AbortInfo>> = {
+  profile: {
+    1: {
+      code: "E_NOT_PROFILE_OWNER",
+      message: "Only the profile's owner can change it.",
+      remedy: "Connect the wallet that created this profile.",
+    },
+    2: {
+      code: "E_USERNAME_TAKEN",
+      message: "That username is already taken.",
+      remedy: "Pick a different username.",
+    },
+    3: {
+      code: "E_INVALID_USERNAME",
+      message: "That username isn't valid.",
+      remedy: "Use between 3 and 20 characters.",
+    },
+    4: {
+      code: "E_PROFILE_NOT_FOUND",
+      message: "No profile was found for that username.",
+      remedy: "Check the spelling, or create a profile in Settings.",
+    },
+  },
+  suits: {
+    10: {
+      code: "E_EMPTY_CONTENT",
+      message: "A suit can't be empty.",
+      remedy: "Write something before posting.",
+    },
+    11: {
+      code: "E_CONTENT_TOO_LONG",
+      message: "That suit is longer than 280 characters.",
+      remedy: "Shorten it and try again.",
+    },
+  },
+  interactions: {
+    20: {
+      code: "E_ALREADY_LIKED",
+      message: "You've already liked this suit.",
+      remedy: "Refresh to see your like.",
+    },
+    21: {
+      code: "E_NOT_LIKED",
+      message: "That like doesn't belong to this suit.",
+      remedy: "Refresh and try again.",
+    },
+    22: {
+      code: "E_ALREADY_RETWEETED",
+      message: "You've already reposted this suit.",
+      remedy: "Refresh to see your repost.",
+    },
+    23: {
+      code: "E_NOT_RETWEETED",
+      message: "That repost doesn't belong to this suit.",
+      remedy: "Refresh and try again.",
+    },
+    24: {
+      code: "E_CANNOT_LIKE_OWN_SUIT",
+      message: "You can't like or repost your own suit.",
+    },
+    25: {
+      code: "E_EMPTY_COMMENT",
+      message: "A comment can't be empty.",
+      remedy: "Write something before replying.",
+    },
+  },
+  tipping: {
+    30: {
+      code: "E_INSUFFICIENT_BALANCE",
+      message: "That's more than your tip balance holds.",
+      remedy: "Withdraw a smaller amount.",
+    },
+    31: {
+      code: "E_INVALID_TIP_AMOUNT",
+      message: "That tip can't be sent.",
+      remedy: "Tips must be at least 0.01 SUI.",
+    },
+    32: {
+      code: "E_CANNOT_TIP_SELF",
+      message: "You can't tip your own suit.",
+    },
+    33: {
+      code: "E_WITHDRAWAL_FAILED",
+      message: "Only the balance's owner can withdraw from it.",
+      remedy: "Connect the wallet that owns this tip balance.",
+    },
+    34: {
+      code: "E_ZERO_BALANCE",
+      message: "There's nothing to withdraw yet.",
+    },
+  },
+  messaging: {
+    40: {
+      code: "E_NOT_PARTICIPANT",
+      message: "You aren't part of this chat.",
+      remedy: "Open the chat from the wallet that started it.",
+    },
+    41: {
+      code: "E_INVALID_MESSAGE_INDEX",
+      message: "That message doesn't exist.",
+      remedy: "Refresh the chat and try again.",
+    },
+    42: {
+      code: "E_CANNOT_MESSAGE_SELF",
+      message: "You can't start a chat with yourself.",
+      remedy: "Enter someone else's address.",
+    },
+    43: {
+      code: "E_MESSAGE_ALREADY_READ",
+      message: "That message is already marked as read.",
+    },
+    44: {
+      code: "E_EMPTY_MESSAGE",
+      message: "A message can't be empty.",
+      remedy: "Type something before sending.",
+    },
+    45: {
+      code: "E_NO_ACCESS",
+      message: "Only the people in this chat can read its messages.",
+      remedy: "Connect the wallet that's part of this chat.",
+    },
+  },
+  follows: {
+    50: {
+      code: "E_CANNOT_FOLLOW_SELF",
+      message: "You can't follow yourself.",
+    },
+    51: {
+      code: "E_ALREADY_FOLLOWING",
+      message: "You already follow this account.",
+      remedy: "Refresh the profile to see the latest state.",
+    },
+    52: {
+      code: "E_NOT_FOLLOWING",
+      message: "You don't follow this account.",
+      remedy: "Refresh the profile to see the latest state.",
+    },
+  },
+};
+
+export type SuitterErrorKind =
+  | "move_abort"
+  | "wallet_rejected"
+  | "insufficient_gas"
+  | "unknown";
+
+/** A failed Suitter action, with a sentence for the UI and what to try next */
+export class SuitterError extends Error {
+  readonly kind: SuitterErrorKind;
+  /** The Move constant (e.g. `E_ALREADY_LIKED`) for known aborts */
+  readonly code?: string;
+  readonly module?: string;
+  readonly abortCode?: number;
+  readonly remedy?: string;
+  readonly cause: unknown;
+
+  constructor(
+    message: string,
+    details: {
+      kind: SuitterErrorKind;
+      code?: string;
+      module?: string;
+      abortCode?: number;
+      remedy?: string;
+      cause?: unknown;
+    }
+  ) {
+    super(message);
+    this.name = "SuitterError";
+    this.kind = details.kind;
+    this.code = details.code;
+    this.module = details.module;
+    this.abortCode = details.abortCode;
+    this.remedy = details.remedy;
+    this.cause = details.cause;
+  }
+}
+
+/**
+ * Module and code of a `MoveAbort` in an RPC or wallet error message, e.g.
+ * `MoveAbort(MoveLocation { module: ModuleId { address: 0x…, name:
+ * Identifier("interactions") }, … }, 20) in command 0`
+ */
+export function parseMoveAbort(
+  message: string
+): { module: string; abortCode: number } | null {
+  const match = message.match(
+    /MoveAbort\(.*?name:\s*Identifier\("(\w+)"\).*?,\s*(\d+)\)/s
+  );
+  if (!match) return null;
+  return { module: match[1], abortCode: Number(match[2]) };
+}
+
+const WALLET_REJECTION_MESSAGE =
+  /\buser (rejected|declined|cancell?ed)\b|\brejected (by|from) (the )?user\b/i;
+
+/**
+ * Whether a wallet threw because its user declined to sign. Wallets report
+ * this as EIP-1193's code 4001, a `UserRejected…` error name, or a "rejected
+ * by the user" message ("User rejected the request.", Suiet's "Rejected from
+ * user"). Other errors that mention denial or cancellation, like Seal's
+ * "access denied" or a cancelled RPC request, aren't rejections.
+ */
+function isWalletRejection(e: unknown, raw: string): boolean {
+  if (typeof e === "object" && e) {
+    if ("code" in e && (e.code === 4001 || e.code === "USER_REJECTED")) {
+      return true;
+    }
+    if ("name" in e && /^UserReject/.test(String(e.name))) return true;
+  }
+  return WALLET_REJECTION_MESSAGE.test(raw);
+}
+
+/**
+ * Wrap anything a transaction threw in a SuitterError. `fallback` is the
+ * message when nothing more specific is known, e.g. "Failed to like suit".
+ */
+export function toSuitterError(e: unknown, fallback: string): SuitterError {
+  if (e instanceof SuitterError) return e;
+  // Wallets reject with plain objects as well as Errors
+  const raw =
+    typeof e === "object" && e && "message" in e
+      ? String(e.message)
+      : String(e ?? "");
+
+  const abort = parseMoveAbort(raw);
+  if (abort) {
+    const info =
+      MOVE_ABORTS[abort.module as SuitterModule]?.[abort.abortCode];
+    return new SuitterError(
+      info?.message ?? `${fallback}: the transaction aborted on chain.`,
+      { kind: "move_abort", ...abort, ...info, cause: e }
+    );
+  }
+  if (isWalletRejection(e, raw)) {
+    return new SuitterError("The transaction was rejected in your wallet.", {
+      kind: "wallet_rejected",
+      cause: e,
+    });
+  }
+  if (/insufficient.*(gas|balance)|GasBalanceTooLow/i.test(raw)) {
+    return new SuitterError("Your wallet doesn't have enough SUI for gas.", {
+      kind: "insufficient_gas",
+      remedy: "Add SUI to your wallet and try again.",
+      cause: e,
+    });
+  }
+  return new SuitterError(raw || fallback, { kind: "unknown", cause: e });
+}
+
+/** The error's message followed by its remedy, for toasts and inline errors */
+export function describeError(e: unknown, fallback: string): string {
+  const error = toSuitterError(e, fallback);
+  return error.remedy ? `${error.message} ${error.remedy}` : error.message;
+}
+
+/**
+ * Throw if a finalised transaction failed. Executing an aborted transaction
+ * doesn't throw, so its abort only shows up in the effects. Needs
+ * `showEffects` in the wait options.
+ */
+export function assertTxSucceeded(result: SuiTransactionBlockResponse) {
+  const status = result.effects?.status;
+  if (status && status.status !== "success") {
+    throw toSuitterError(
+      new Error(status.error ?? "Transaction failed"),
+      "Transaction failed"
+    );
+  }
+}
@@ -0,0 +1,823 @@
+import type {
+  ObjectOwner,
+  SuiEvent,
+  SuiObjectChange,
+  SuiObjectData,
+} from "@mysten/sui/client";
+import { normalizeSuiAddress, toBase58, toHex } from "@mysten/sui/utils";
+import type { SuitterDeployment } from "../config";
+import { suitterType, type SuitterModule } from "./suitter";
+
+// In-memory Suitter state for VITE_MOCK_CHAIN and tests. Objects are kept in
+// the shape the JSON-RPC renders them (u64s as strings, UIDs as `{ id }`) so
+// the decoders in ./suitter read them unchanged. Each Move function below
+// mirrors its counterpart in Suits/sources, aborts included.
+
+export const MIST_PER_SUI = 1_000_000_000;
+
+export interface FakeObject {
+  objectId: string;
+  type: string;
+  owner: ObjectOwner;
+  fields: Record<string, any>;
+  version: number;
+  previousTransaction: string;
+}
+
+export interface FakeTransaction {
+  digest: string;
+  sender: string;
+  timestampMs: number;
+  /** The MoveAbort message when the transaction failed */
+  error?: string;
+  events: SuiEvent[];
+  created: string[];
+  mutated: string[];
+}
+
+/** Context of the transaction a Move function runs in */
+export interface TxContext {
+  readonly sender: string;
+  readonly digest: string;
+  readonly timestampMs: number;
+  /** 0-based index of the PTB command, for abort messages */
+  command: number;
+}
+
+/** Thrown by a simulated Move function, rendered like a full node would */
+export class MoveAbortError extends Error {
+  constructor(
+    packageId: string,
+    readonly module: SuitterModule,
+    readonly functionName: string,
+    readonly abortCode: number,
+    command: number
+  ) {
+    super(
+      `MoveAbort(MoveLocation { module: ModuleId { address: ${packageId}, ` +
+        `name: Identifier("${module}") }, function: 0, instruction: 0, ` +
+        `function_name: Some("${functionName}") }, ${abortCode}) ` +
+        `in command ${command}`
+    );
+    this.name = "MoveAbortError";
+  }
+}
+
+interface ChainState {
+  objects: Map<string, FakeObject>;
+  events: SuiEvent[];
+  /** Table ID -> key -> value, for tables read as dynamic fields */
+  tables: Map<string, Map<string, string>>;
+  /** Keys of the tables only Move reads (likes, usernames, chat pairs) */
+  keys: Set<string>;
+  balances: Map<string, bigint>;
+}
+
+const SHARED: ObjectOwner = { Shared: { initial_shared_version: "1" } };
+
+function randomDigest(): string {
+  return toBase58(crypto.getRandomValues(new Uint8Array(32)));
+}
+
+export class FakeChain {
+  readonly packageId: string;
+  private state: ChainState = {
+    objects: new Map(),
+    events: [],
+    tables: new Map(),
+    keys: new Set(),
+    balances: new Map(),
+  };
+  private transactions = new Map<string, FakeTransaction>();
+  private nextId = 0x1000;
+  /** The transaction being applied; objects it touches are recorded on it */
+  private current: FakeTransaction | null = null;
+
+  /**
+   * Publish the package and create each module's registry at the IDs the
+   * deployment names, so the app's config works against it unchanged
+   */
+  constructor(readonly deployment: SuitterDeployment) {
+    this.packageId = deployment.PACKAGE_ID;
+    this.transact(normalizeSuiAddress("0x0"), () => {
+      this.createRegistry("SUIT_REGISTRY", "suits", "SuitRegistry", {
+        suits: this.newTable("0x2::object::ID", "address"),
+        suit_ids: [],
+      });
+      this.createRegistry(
+        "INTERACTION_REGISTRY",
+        "interactions",
+        "InteractionRegistry",
+        {
+          likes: this.newTable("vector<u8>", "bool"),
+          retweets: this.newTable("vector<u8>", "bool"),
+        }
+      );
+      this.createRegistry("USERNAME_REGISTRY", "profile", "UsernameRegistry", {
+        usernames: this.newTable("0x1::string::String", "address"),
+      });
+      this.createRegistry(
+        "TIP_BALANCE_REGISTRY",
+        "tipping",
+        "TipBalanceRegistry",
+        { balances: this.newTable("address", "0x2::object::ID") }
+      );
+      this.createRegistry("CHAT_REGISTRY", "messaging", "ChatRegistry", {
+        chats: this.newTable("vector<u8>", "0x2::object::ID"),
+      });
+      this.createRegistry("FOLLOW_REGISTRY", "follows", "FollowRegistry", {
+        follows: this.newTable("vector<u8>", "bool"),
+        followers: this.newTable("address", "u64"),
+        following: this.newTable("address", "u64"),
+      });
+    });
+  }
+
+  // ===== Reads =====
+
+  getObject(id: string): FakeObject | null {
+    if (!id) return null;
+    return this.state.objects.get(normalizeSuiAddress(id)) ?? null;
+  }
+
+  /** The RPC's `SuiObjectData` for an object, or for the package itself */
+  getObjectData(id: string): SuiObjectData | null {
+    if (id && normalizeSuiAddress(id) === normalizeSuiAddress(this.packageId)) {
+      return {
+        objectId: this.packageId,
+        version: "1",
+        digest: this.packageId,
+        type: "package",
+        owner: "Immutable",
+        content: { dataType: "package", disassembled: {} },
+      };
+    }
+    const object = this.getObject(id);
+    if (!object) return null;
+    return {
+      objectId: object.objectId,
+      version: String(object.version),
+      digest: object.previousTransaction,
+      type: object.type,
+      owner: object.owner,
+      previousTransaction: object.previousTransaction,
+      content: {
+        dataType: "moveObject",
+        type: object.type,
+        hasPublicTransfer: false,
+        fields: { id: { id: object.objectId }, ...object.fields },
+      },
+    };
+  }
+
+  ownedBy(address: string): FakeObject[] {
+    const normalized = normalizeSuiAddress(address);
+    return [...this.state.objects.values()].filter(
+      ({ owner }) =>
+        typeof owner === "object" &&
+        "AddressOwner" in owner &&
+        owner.AddressOwner === normalized
+    );
+  }
+
+  /** Every event emitted so far, oldest first */
+  get events(): readonly SuiEvent[] {
+    return this.state.events;
+  }
+
+  getTransaction(digest: string): FakeTransaction | null {
+    return this.transactions.get(digest) ?? null;
+  }
+
+  getTableEntry(tableId: string, key: string): string | null {
+    return this.state.tables.get(normalizeSuiAddress(tableId))?.get(key) ?? null;
+  }
+
+  getBalance(owner: string): bigint {
+    return this.state.balances.get(normalizeSuiAddress(owner)) ?? 0n;
+  }
+
+  setBalance(owner: string, mist: bigint) {
+    this.state.balances.set(normalizeSuiAddress(owner), mist);
+  }
+
+  // ===== Transactions =====
+
+  /**
+   * Run `body` as one transaction from `sender`. Like a real PTB it is
+   * atomic: if any call aborts, nothing it did is kept and the transaction
+   * is recorded as failed with the abort message.
+   */
+  transact(
+    sender: string,
+    body: (ctx: TxContext) => void,
+    timestampMs: number = Date.now()
+  ): FakeTransaction {
+    const tx: FakeTransaction = {
+      digest: randomDigest(),
+      sender: normalizeSuiAddress(sender),
+      timestampMs,
+      events: [],
+      created: [],
+      mutated: [],
+    };
+    const snapshot = this.snapshot();
+    const ctx: TxContext = {
+      sender: tx.sender,
+      digest: tx.digest,
+      timestampMs,
+      command: 0,
+    };
+
+    this.current = tx;
+    try {
+      body(ctx);
+    } catch (e) {
+      this.state = snapshot;
+      if (!(e instanceof MoveAbortError)) throw e;
+      tx.error = e.message;
+      tx.events = [];
+      tx.created = [];
+      tx.mutated = [];
+    } finally {
+      this.current = null;
+    }
+
+    this.transactions.set(tx.digest, tx);
+    return tx;
+  }
+
+  /**
+   * Run read-only `body` as `sender` without recording a transaction, as a
+   * dry run does. Returns the abort if it aborted.
+   */
+  dryRun(
+    sender: string,
+    body: (ctx: TxContext) => void
+  ): MoveAbortError | null {
+    const ctx: TxContext = {
+      sender: normalizeSuiAddress(sender),
+      digest: randomDigest(),
+      timestampMs: Date.now(),
+      command: 0,
+    };
+    try {
+      body(ctx);
+      return null;
+    } catch (e) {
+      if (e instanceof MoveAbortError) return e;
+      throw e;
+    }
+  }
+
+  /** `SuiObjectChange`s of a transaction, as `showObjectChanges` returns */
+  objectChanges(tx: FakeTransaction): SuiObjectChange[] {
+    const change = (id: string) => {
+      const object = this.getObject(id)!;
+      return {
+        sender: tx.sender,
+        owner: object.owner,
+        objectType: object.type,
+        objectId: object.objectId,
+        version: String(object.version),
+        digest: tx.digest,
+      };
+    };
+    return [
+      ...tx.created.map((id) => ({ type: "created" as const, ...change(id) })),
+      ...tx.mutated.map((id) => ({
+        type: "mutated" as const,
+        previousVersion: String(this.getObject(id)!.version - 1),
+        ...change(id),
+      })),
+    ];
+  }
+
+  // ===== profile =====
+
+  /** `profile::create_profile`, with the Profile transferred to the sender */
+  createProfile(
+    ctx: TxContext,
+    username: string,
+    bio: string,
+    pfpUrl: string
+  ): string {
+    const length = [...username].length;
+    this.assert(ctx, length >= 3 && length <= 20, "profile", "create_profile", 3);
+    this.assert(
+      ctx,
+      !this.state.keys.has(`username:${username}`),
+      "profile",
+      "create_profile",
+      2
+    );
+
+    const profileId = this.create("profile", "Profile", addressOwner(ctx.sender), {
+      owner: ctx.sender,
+      username,
+      bio,
+      pfp_url: pfpUrl,
+      created_at: "0",
+      followers_count: "0",
+      following_count: "0",
+    });
+    this.state.keys.add(`username:${username}`);
+    this.touch(this.deployment.USERNAME_REGISTRY);
+
+    this.emit(ctx, "profile", "ProfileCreated", {
+      profile_id: profileId,
+      owner: ctx.sender,
+      username,
+      timestamp: "0",
+    });
+    return profileId;
+  }
+
+  // ===== suits =====
+
+  createSuit(ctx: TxContext, content: string, mediaUrls: string[]): string {
+    const length = [...content].length;
+    this.assert(ctx, length > 0, "suits", "create_suit", 10);
+    this.assert(ctx, length <= 280, "suits", "create_suit", 11);
+
+    const suitId = this.create("suits", "Suit", SHARED, {
+      creator: ctx.sender,
+      content,
+      media_urls: mediaUrls,
+      created_at: String(ctx.timestampMs),
+      like_count: "0",
+      comment_count: "0",
+      retweet_count: "0",
+      tip_total: "0",
+    });
+    const registry = this.touch(this.deployment.SUIT_REGISTRY);
+    registry.fields.suit_ids = [...registry.fields.suit_ids, suitId];
+
+    this.emit(ctx, "suits", "SuitCreated", {
+      suit_id: suitId,
+      creator: ctx.sender,
+      content_preview: [...content].slice(0, 100).join(""),
+      timestamp: String(ctx.timestampMs),
+    });
+    return suitId;
+  }
+
+  // ===== interactions =====
+
+  /** `interactions::like_suit`, with the Like transferred to the liker */
+  likeSuit(ctx: TxContext, suitId: string): string {
+    const suit = this.borrow(ctx, suitId, "suits", "Suit", "like_suit");
+    const key = `like:${suit.objectId}:${ctx.sender}`;
+    this.assert(
+      ctx,
+      ctx.sender !== suit.fields.creator,
+      "interactions",
+      "like_suit",
+      24
+    );
+    this.assert(
+      ctx,
+      !this.state.keys.has(key),
+      "interactions",
+      "like_suit",
+      20
+    );
+
+    const likeId = this.create("interactions", "Like", addressOwner(ctx.sender), {
+      suit_id: suit.objectId,
+      liker: ctx.sender,
+      created_at: String(ctx.timestampMs),
+    });
+    this.state.keys.add(key);
+    this.touch(this.deployment.INTERACTION_REGISTRY);
+    this.touch(suit.objectId);
+    suit.fields.like_count = String(Number(suit.fields.like_count) + 1);
+
+    this.emit(ctx, "interactions", "LikeCreated", {
+      like_id: likeId,
+      suit_id: suit.objectId,
+      liker: ctx.sender,
+      timestamp: String(ctx.timestampMs),
+    });
+    return likeId;
+  }
+
+  /** `interactions::comment_on_suit`, with the Comment sent to the commenter */
+  commentOnSuit(ctx: TxContext, suitId: string, content: string): string {
+    const suit = this.borrow(ctx, suitId, "suits", "Suit", "comment_on_suit");
+    this.assert(
+      ctx,
+      content.length > 0,
+      "interactions",
+      "comment_on_suit",
+      25
+    );
+
+    const commentId = this.create(
+      "interactions",
+      "Comment",
+      addressOwner(ctx.sender),
+      {
+        suit_id: suit.objectId,
+        commenter: ctx.sender,
+        content,
+        created_at: String(ctx.timestampMs),
+      }
+    );
+    this.touch(suit.objectId);
+    suit.fields.comment_count = String(Number(suit.fields.comment_count) + 1);
+
+    this.emit(ctx, "interactions", "CommentCreated", {
+      comment_id: commentId,
+      suit_id: suit.objectId,
+      commenter: ctx.sender,
+      timestamp: String(ctx.timestampMs),
+    });
+    return commentId;
+  }
+
+  // ===== tipping =====
+
+  /** `tipping::create_tip_balance`; returns the existing one if any */
+  createTipBalance(ctx: TxContext): string {
+    const registry = this.getObject(this.deployment.TIP_BALANCE_REGISTRY)!;
+    const tableId: string = registry.fields.balances.fields.id.id;
+    const existing = this.getTableEntry(tableId, ctx.sender);
+    if (existing) return existing;
+
+    this.touch(registry.objectId);
+    const tipBalanceId = this.create("tipping", "TipBalance", SHARED, {
+      owner: ctx.sender,
+      balance: "0",
+      total_received: "0",
+      total_withdrawn: "0",
+    });
+    this.state.tables.get(tableId)!.set(ctx.sender, tipBalanceId);
+    return tipBalanceId;
+  }
+
+  // ===== messaging =====
+
+  /** `messaging::start_chat`; returns the existing chat between the two */
+  startChat(ctx: TxContext, otherUser: string): string {
+    const other = normalizeSuiAddress(otherUser);
+    this.assert(ctx, ctx.sender !== other, "messaging", "start_chat", 42);
+
+    const registry = this.getObject(this.deployment.CHAT_REGISTRY)!;
+    const tableId: string = registry.fields.chats.fields.id.id;
+    // Move orders the pair by their BCS bytes, which for addresses is the
+    // same as ordering the normalized hex
+    const [participant1, participant2] = [ctx.sender, other].sort();
+    const key = `${participant1}:${participant2}`;
+    const existing = this.getTableEntry(tableId, key);
+    if (existing) return existing;
+
+    this.touch(registry.objectId);
+    const chatId = this.create("messaging", "Chat", SHARED, {
+      participant_1: participant1,
+      participant_2: participant2,
+      messages: [],
+      created_at: String(ctx.timestampMs),
+    });
+    this.state.tables.get(tableId)!.set(key, chatId);
+
+    this.emit(ctx, "messaging", "ChatCreated", {
+      chat_id: chatId,
+      participant_1: participant1,
+      participant_2: participant2,
+      timestamp: String(ctx.timestampMs),
+    });
+    return chatId;
+  }
+
+  sendMessage(
+    ctx: TxContext,
+    chatId: string,
+    encryptedMessage: number[],
+    contentHash: number[]
+  ): number {
+    const chat = this.borrow(ctx, chatId, "messaging", "Chat", "send_message");
+    const { participant_1, participant_2 } = chat.fields;
+    this.assert(
+      ctx,
+      ctx.sender === participant_1 || ctx.sender === participant_2,
+      "messaging",
+      "send_message",
+      40
+    );
+    this.assert(
+      ctx,
+      encryptedMessage.length > 0,
+      "messaging",
+      "send_message",
+      44
+    );
+
+    this.touch(chat.objectId);
+    const messages = [
+      ...chat.fields.messages,
+      {
+        type: suitterType("messaging", "Message", this.packageId),
+        fields: {
+          sender: ctx.sender,
+          encrypted_message: encryptedMessage,
+          content_hash: contentHash,
+          sent_timestamp: String(ctx.timestampMs),
+          is_read: false,
+        },
+      },
+    ];
+    chat.fields.messages = messages;
+    const messageIndex = messages.length - 1;
+
+    this.emit(ctx, "messaging", "MessageSent", {
+      chat_id: chat.objectId,
+      sender: ctx.sender,
+      receiver: ctx.sender === participant_1 ? participant_2 : participant_1,
+      message_index: String(messageIndex),
+      timestamp: String(ctx.timestampMs),
+    });
+    return messageIndex;
+  }
+
+  /** `messaging::mark_as_read` */
+  markAsRead(ctx: TxContext, chatId: string, messageIndex: number) {
+    const chat = this.borrow(ctx, chatId, "messaging", "Chat", "mark_as_read");
+    const { participant_1, participant_2 } = chat.fields;
+    this.assert(
+      ctx,
+      ctx.sender === participant_1 || ctx.sender === participant_2,
+      "messaging",
+      "mark_as_read",
+      40
+    );
+    this.assert(
+      ctx,
+      messageIndex < chat.fields.messages.length,
+      "messaging",
+      "mark_as_read",
+      41
+    );
+    const message = chat.fields.messages[messageIndex];
+    // Nobody marks their own message as read
+    this.assert(
+      ctx,
+      ctx.sender !== message.fields.sender,
+      "messaging",
+      "mark_as_read",
+      40
+    );
+    this.assert(ctx, !message.fields.is_read, "messaging", "mark_as_read", 43);
+
+    this.touch(chat.objectId);
+    chat.fields.messages = chat.fields.messages.map(
+      (msg: typeof message, i: number) =>
+        i === messageIndex
+          ? { ...msg, fields: { ...msg.fields, is_read: true } }
+          : msg
+    );
+
+    this.emit(ctx, "messaging", "MessageRead", {
+      chat_id: chat.objectId,
+      message_index: String(messageIndex),
+      reader: ctx.sender,
+      original_sender: message.fields.sender,
+      timestamp: String(ctx.timestampMs),
+    });
+  }
+
+  /** `messaging::seal_approve`, which key servers dry-run */
+  sealApprove(ctx: TxContext, id: number[], chatId: string) {
+    const chat = this.borrow(ctx, chatId, "messaging", "Chat", "seal_approve");
+    const { participant_1, participant_2 } = chat.fields;
+    this.assert(
+      ctx,
+      toHex(Uint8Array.from(id)).startsWith(chat.objectId.slice(2)),
+      "messaging",
+      "seal_approve",
+      45
+    );
+    this.assert(
+      ctx,
+      ctx.sender === participant_1 || ctx.sender === participant_2,
+      "messaging",
+      "seal_approve",
+      45
+    );
+  }
+
+  // ===== follows =====
+
+  /** `follows::follow` */
+  follow(ctx: TxContext, followee: string) {
+    const other = normalizeSuiAddress(followee);
+    this.assert(ctx, ctx.sender !== other, "follows", "follow", 50);
+
+    const registry = this.borrow(
+      ctx,
+      this.deployment.FOLLOW_REGISTRY,
+      "follows",
+      "FollowRegistry",
+      "follow"
+    );
+    const tables = this.followTables(registry);
+    const key = followKey(ctx.sender, other);
+    this.assert(ctx, !tables.follows.has(key), "follows", "follow", 51);
+
+    this.touch(registry.objectId);
+    tables.follows.set(key, "true");
+    addCount(tables.followers, other, 1);
+    addCount(tables.following, ctx.sender, 1);
+
+    this.emit(ctx, "follows", "Followed", {
+      follower: ctx.sender,
+      followee: other,
+      timestamp: String(ctx.timestampMs),
+    });
+  }
+
+  /** `follows::unfollow` */
+  unfollow(ctx: TxContext, followee: string) {
+    const other = normalizeSuiAddress(followee);
+    const registry = this.borrow(
+      ctx,
+      this.deployment.FOLLOW_REGISTRY,
+      "follows",
+      "FollowRegistry",
+      "unfollow"
+    );
+    const tables = this.followTables(registry);
+    const key = followKey(ctx.sender, other);
+    this.assert(ctx, tables.follows.has(key), "follows", "unfollow", 52);
+
+    this.touch(registry.objectId);
+    tables.follows.delete(key);
+    addCount(tables.followers, other, -1);
+    addCount(tables.following, ctx.sender, -1);
+
+    this.emit(ctx, "follows", "Unfollowed", {
+      follower: ctx.sender,
+      followee: other,
+      timestamp: String(ctx.timestampMs),
+    });
+  }
+
+  // ===== Internals =====
+
+  private followTables(registry: FakeObject) {
+    const table = (field: string) =>
+      this.state.tables.get(registry.fields[field].fields.id.id)!;
+    return {
+      follows: table("follows"),
+      followers: table("followers"),
+      following: table("following"),
+    };
+  }
+
+  private snapshot(): ChainState {
+    return structuredClone(this.state);
+  }
+
+  private newId(): string {
+    return normalizeSuiAddress((this.nextId++).toString(16));
+  }
+
+  private newTable(keyType: string, valueType: string) {
+    const id = this.newId();
+    this.state.tables.set(id, new Map());
+    return {
+      type: `0x2::table::Table<${keyType}, ${valueType}>`,
+      fields: { id: { id }, size: "0" },
+    };
+  }
+
+  private createRegistry(
+    name: keyof SuitterDeployment,
+    module: SuitterModule,
+    struct: string,
+    fields: Record<string, any>
+  ) {
+    const id = this.deployment[name];
+    if (!id) return;
+    this.insert(normalizeSuiAddress(id), module, struct, SHARED, fields);
+  }
+
+  private create(
+    module: SuitterModule,
+    struct: string,
+    objectOwner: ObjectOwner,
+    fields: Record<string, any>
+  ): string {
+    return this.insert(this.newId(), module, struct, objectOwner, fields);
+  }
+
+  private insert(
+    objectId: string,
+    module: SuitterModule,
+    struct: string,
+    objectOwner: ObjectOwner,
+    fields: Record<string, any>
+  ): string {
+    const tx = this.current!;
+    this.state.objects.set(objectId, {
+      objectId,
+      type: suitterType(module, struct, this.packageId),
+      owner: objectOwner,
+      fields,
+      version: 1,
+      previousTransaction: tx.digest,
+    });
+    tx.created.push(objectId);
+    return objectId;
+  }
+
+  /** Mark an object as mutated by the current transaction and return it */
+  private touch(id: string): FakeObject {
+    const object = this.getObject(id);
+    if (!object) throw new Error(`Fake chain has no object ${id}`);
+    const tx = this.current!;
+    if (!tx.created.includes(object.objectId)) {
+      if (!tx.mutated.includes(object.objectId)) {
+        tx.mutated.push(object.objectId);
+        object.version += 1;
+      }
+      object.previousTransaction = tx.digest;
+    }
+    return object;
+  }
+
+  /** An object argument, checked against the type the function expects */
+  private borrow(
+    ctx: TxContext,
+    id: string,
+    module: SuitterModule,
+    struct: string,
+    functionName: string
+  ): FakeObject {
+    const object = this.getObject(id);
+    const type = suitterType(module, struct, this.packageId);
+    if (!object || object.type !== type) {
+      throw new Error(
+        `${functionName} (command ${ctx.command}): object ${id} is not a ${type}`
+      );
+    }
+    return object;
+  }
+
+  private assert(
+    ctx: TxContext,
+    condition: boolean,
+    module: SuitterModule,
+    functionName: string,
+    abortCode: number
+  ) {
+    if (!condition) {
+      throw new MoveAbortError(
+        this.packageId,
+        module,
+        functionName,
+        abortCode,
+        ctx.command
+      );
+    }
+  }
+
+  private emit(
+    ctx: TxContext,
+    module: SuitterModule,
+    name: string,
+    parsedJson: Record<string, unknown>
+  ) {
+    const tx = this.current!;
+    const event: SuiEvent = {
+      id: { txDigest: ctx.digest, eventSeq: String(tx.events.length) },
+      packageId: this.packageId,
+      transactionModule: module,
+      sender: ctx.sender,
+      type: suitterType(module, name, this.packageId),
+      parsedJson,
+      bcs: "",
+      bcsEncoding: "base64",
+      timestampMs: String(ctx.timestampMs),
+    };
+    tx.events.push(event);
+    this.state.events.push(event);
+  }
+}
+
+/**
+ * `follows::create_follow_key` as the hex the fake client turns a
+ * `vector<u8>` field name into: BCS(follower) ++ BCS(followee)
+ */
+function followKey(follower: string, followee: string): string {
+  return follower.slice(2) + followee.slice(2);
+}
+
+/** Adjust a u64 count stored in a table, which holds values as strings */
+function addCount(table: Map<string, string>, address: string, by: number) {
+  table.set(address, String(Number(table.get(address) ?? 0) + by));
+}
+
+function addressOwner(address: string): ObjectOwner {
+  return { AddressOwner: address };
+}
@@ -0,0 +1,160 @@
+import { normalizeSuiAddress } from "@mysten/sui/utils";
+import type { SuitterDeployment } from "../config";
+import { FakeChain, MIST_PER_SUI } from "./fakeChain";
+
+// Seed data for the fake chain: a handful of people who have posted, liked,
+// followed and messaged each other, so every page has something on it offline.
+
+export const FIXTURE_ACCOUNTS = {
+  alice: normalizeSuiAddress("0xa11ce"),
+  bob: normalizeSuiAddress("0xb0b"),
+  carol: normalizeSuiAddress("0xca201"),
+  dave: normalizeSuiAddress("0xda7e"),
+};
+
+/** The account the fake wallet connects as */
+export const FIXTURE_WALLET_ADDRESS = FIXTURE_ACCOUNTS.alice;
+
+const HOUR = 60 * 60 * 1000;
+
+const PROFILES: [keyof typeof FIXTURE_ACCOUNTS, string, string][] = [
+  ["alice", "alice", "Building on Sui. Posting from the fake chain."],
+  ["bob", "bob_builds", "Move developer, coffee enthusiast"],
+  ["carol", "carol", "Designer. Suits about type and colour."],
+  ["dave", "dave_on_chain", "Mostly here for the tips"],
+];
+
+// Oldest first: [author, content, hours ago]
+const SUITS: [keyof typeof FIXTURE_ACCOUNTS, string, number][] = [
+  ["bob", "gm Suitter 👋 first suit on the fake chain", 72],
+  ["carol", "Shared objects are just group chats for your data", 50],
+  ["dave", "Who else is tipping their favourite posts today?", 30],
+  ["alice", "Shipping a new feature this week. Stay tuned!", 20],
+  ["bob", "Hot take: PTBs are the best thing about Sui", 8],
+  ["carol", "Working on a new colour palette for the app 🎨", 3],
+  ["dave", "Testing offline mode, everything still works", 1],
+];
+
+// [liker, index into SUITS]
+const LIKES: [keyof typeof FIXTURE_ACCOUNTS, number][] = [
+  ["alice", 0],
+  ["carol", 0],
+  ["bob", 1],
+  ["alice", 2],
+  ["bob", 3],
+  ["carol", 3],
+  ["dave", 3],
+  ["alice", 4],
+  ["dave", 5],
+];
+
+// [follower, followee, hours ago]
+const FOLLOWS: [
+  keyof typeof FIXTURE_ACCOUNTS,
+  keyof typeof FIXTURE_ACCOUNTS,
+  number,
+][] = [
+  ["bob", "alice", 90],
+  ["alice", "bob", 89],
+  ["carol", "alice", 48],
+  ["dave", "carol", 24],
+];
+
+// [from, to, message, hours ago]
+const MESSAGES: [
+  keyof typeof FIXTURE_ACCOUNTS,
+  keyof typeof FIXTURE_ACCOUNTS,
+  string,
+  number,
+][] = [
+  ["bob", "alice", "Hey! Saw your post about the new feature", 6],
+  ["alice", "bob", "Thanks! Want to try it before it ships?", 5],
+  ["bob", "alice", "Absolutely, send it over", 4],
+  ["carol", "alice", "Love the new profile picture", 2],
+];
+
+// [reader, the other participant, index of their message, hours ago]
+const READS: [
+  keyof typeof FIXTURE_ACCOUNTS,
+  keyof typeof FIXTURE_ACCOUNTS,
+  number,
+  number,
+][] = [["bob", "alice", 1, 4.5]];
+
+/**
+ * A FakeChain with the deployment's package and registries, and the fixture
+ * profiles, suits, likes, follows, tip balances, chats and read receipts
+ * on top
+ */
+export function createFixtureChain(
+  deployment: SuitterDeployment,
+  now: number = Date.now()
+): FakeChain {
+  const chain = new FakeChain(deployment);
+  const encode = (text: string) => Array.from(new TextEncoder().encode(text));
+
+  for (const [name, username, bio] of PROFILES) {
+    const address = FIXTURE_ACCOUNTS[name];
+    chain.setBalance(address, BigInt(42 * MIST_PER_SUI));
+    chain.transact(
+      address,
+      (ctx) => {
+        chain.createProfile(ctx, username, bio, "");
+        chain.createTipBalance(ctx);
+      },
+      now - 96 * HOUR
+    );
+  }
+
+  const suitIds = SUITS.map(([name, content, hoursAgo]) => {
+    let suitId = "";
+    chain.transact(
+      FIXTURE_ACCOUNTS[name],
+      (ctx) => {
+        suitId = chain.createSuit(ctx, content, []);
+      },
+      now - hoursAgo * HOUR
+    );
+    return suitId;
+  });
+
+  for (const [name, index] of LIKES) {
+    chain.transact(
+      FIXTURE_ACCOUNTS[name],
+      (ctx) => chain.likeSuit(ctx, suitIds[index]),
+      now - (SUITS[index][2] - 0.5) * HOUR
+    );
+  }
+
+  for (const [follower, followee, hoursAgo] of FOLLOWS) {
+    chain.transact(
+      FIXTURE_ACCOUNTS[follower],
+      (ctx) => chain.follow(ctx, FIXTURE_ACCOUNTS[followee]),
+      now - hoursAgo * HOUR
+    );
+  }
+
+  for (const [from, to, text, hoursAgo] of MESSAGES) {
+    chain.transact(
+      FIXTURE_ACCOUNTS[from],
+      (ctx) => {
+        const chatId = chain.startChat(ctx, FIXTURE_ACCOUNTS[to]);
+        chain.sendMessage(ctx, chatId, encode(text), encode(`hash_${text}`));
+      },
+      now - hoursAgo * HOUR
+    );
+  }
+
+  for (const [reader, other, index, hoursAgo] of READS) {
+    chain.transact(
+      FIXTURE_ACCOUNTS[reader],
+      (ctx) => {
+        const chatId = chain.startChat(ctx, FIXTURE_ACCOUNTS[other]);
+        chain.markAsRead(ctx, chatId, index);
+      },
+      now - hoursAgo * HOUR
+    );
+  }
+
+  return chain;
+}
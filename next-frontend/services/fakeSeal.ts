@@ -0,0 +1,123 @@
+import { fromHex, toHex } from "@mysten/sui/utils";
+import type { FakeChain } from "./fakeChain";
+import { messageKeyId, type MessageCipher, type MessageReader } from "./seal";
+
+// Stands in for Seal's key servers under VITE_MOCK_CHAIN and in tests. Each
+// Seal ID's key is derived from one master secret, as a key server derives
+// it, and only used once `messaging::seal_approve` passes on the fake chain.
+// Messages are sealed with AES-GCM behind magic bytes rather than in Seal's
+// format, so they read as encrypted without any real key server.
+
+const MAGIC = new TextEncoder().encode("FAKESEAL");
+const IV_BYTES = 12;
+
+// Fixed for the page's lifetime, like the fake chain it guards
+const MASTER_KEY = crypto.getRandomValues(new Uint8Array(32));
+
+// WebCrypto takes only bytes backed by a plain ArrayBuffer
+type Bytes = Uint8Array<ArrayBuffer>;
+
+interface Envelope {
+  id: Bytes;
+  iv: Bytes;
+  ciphertext: Bytes;
+}
+
+async function deriveKey(id: Bytes): Promise<CryptoKey> {
+  const master = await crypto.subtle.importKey(
+    "raw",
+    MASTER_KEY,
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+  const secret = await crypto.subtle.sign("HMAC", master, id);
+  return crypto.subtle.importKey("raw", secret, "AES-GCM", false, [
+    "encrypt",
+    "decrypt",
+  ]);
+}
+
+/** MAGIC ++ u8 ID length ++ ID ++ IV ++ AES-GCM ciphertext */
+function seal({ id, iv, ciphertext }: Envelope): Uint8Array {
+  return new Uint8Array([
+    ...MAGIC,
+    id.length,
+    ...id,
+    ...iv,
+    ...ciphertext,
+  ]);
+}
+
+function open(data: Uint8Array): Envelope | null {
+  if (!MAGIC.every((byte, i) => data[i] === byte)) return null;
+  const idStart = MAGIC.length + 1;
+  const ivStart = idStart + data[MAGIC.length];
+  if (data.length <= ivStart + IV_BYTES) return null;
+  return {
+    id: data.slice(idStart, ivStart),
+    iv: data.slice(ivStart, ivStart + IV_BYTES),
+    ciphertext: data.slice(ivStart + IV_BYTES),
+  };
+}
+
+export class FakeSealCipher implements MessageCipher {
+  // The fake wallet can't sign Seal's personal message, and there are no
+  // key servers to present it to
+  readonly needsSessionKey = false;
+
+  constructor(private readonly chain: FakeChain) {}
+
+  // The fake chain simulates the package as it is in Suits/sources
+  async isSupported(): Promise<boolean> {
+    return true;
+  }
+
+  async encrypt(chatId: string, text: string): Promise<Uint8Array> {
+    const id = Uint8Array.from(fromHex(messageKeyId(chatId)));
+    const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+    const ciphertext = await crypto.subtle.encrypt(
+      { name: "AES-GCM", iv },
+      await deriveKey(id),
+      new TextEncoder().encode(text)
+    );
+    return seal({ id, iv, ciphertext: new Uint8Array(ciphertext) });
+  }
+
+  keyId(data: Uint8Array): string | null {
+    const envelope = open(data);
+    return envelope ? toHex(envelope.id) : null;
+  }
+
+  async decrypt(
+    chatId: string,
+    data: Uint8Array[],
+    { address }: MessageReader
+  ): Promise<(string | null)[]> {
+    const envelopes = data.map(open);
+    for (const envelope of envelopes) {
+      if (!envelope) continue;
+      const abort = this.chain.dryRun(address, (ctx) =>
+        this.chain.sealApprove(ctx, Array.from(envelope.id), chatId)
+      );
+      if (abort) throw abort;
+    }
+
+    return Promise.all(
+      envelopes.map(async (envelope) => {
+        if (!envelope) return null;
+        try {
+          const plain = await crypto.subtle.decrypt(
+            { name: "AES-GCM", iv: envelope.iv },
+            await deriveKey(envelope.id),
+            envelope.ciphertext
+          );
+          return new TextDecoder().decode(plain);
+        } catch (e) {
+          console.error("Failed to decrypt message:", e);
+          return null;
+        }
+      })
+    );
+  }
+}
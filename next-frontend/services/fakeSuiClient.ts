@@ -0,0 +1,392 @@
+import type {
+  CoinBalance,
+  EventId,
+  ExecuteTransactionBlockParams,
+  GetBalanceParams,
+  GetDynamicFieldObjectParams,
+  GetObjectParams,
+  GetOwnedObjectsParams,
+  GetTransactionBlockParams,
+  MultiGetObjectsParams,
+  OwnedObjectRef,
+  PaginatedEvents,
+  PaginatedObjectsResponse,
+  QueryEventsParams,
+  SuiClient,
+  SuiEvent,
+  SuiEventFilter,
+  SuiObjectResponse,
+  SuiTransactionBlockResponse,
+  SuiTransactionBlockResponseOptions,
+} from "@mysten/sui/client";
+import { bcs } from "@mysten/sui/bcs";
+import {
+  Transaction,
+  type Argument,
+  type CallArg,
+} from "@mysten/sui/transactions";
+import { fromBase64, normalizeSuiAddress, toHex } from "@mysten/sui/utils";
+import type { FakeChain, FakeTransaction, TxContext } from "./fakeChain";
+import { FakeSealCipher } from "./fakeSeal";
+import type { MessageCipher } from "./seal";
+
+// The slice of `SuiClient` Suitter uses, answered from a FakeChain instead of
+// a full node. Transactions arrive as the JSON the fake wallet "signs" (see
+// ./fakeWallet); each Move call in them is applied through the chain's
+// simulated entry functions.
+
+const SUI_COIN_TYPE = "0x2::sui::SUI";
+const DEFAULT_PAGE_SIZE = 50;
+
+/** Typed reads of a Move call's arguments */
+class CallArgs {
+  constructor(
+    private readonly inputs: CallArg[],
+    private readonly args: Argument[]
+  ) {}
+
+  object(i: number): string {
+    const input = this.input(i);
+    if (input.UnresolvedObject) return input.UnresolvedObject.objectId;
+    const object = input.Object;
+    if (object?.SharedObject) return object.SharedObject.objectId;
+    if (object?.ImmOrOwnedObject) return object.ImmOrOwnedObject.objectId;
+    throw new Error(`Argument ${i} is not an object`);
+  }
+
+  string(i: number): string {
+    return bcs.string().parse(this.pure(i));
+  }
+
+  strings(i: number): string[] {
+    return bcs.vector(bcs.string()).parse(this.pure(i));
+  }
+
+  bytes(i: number): number[] {
+    return bcs.vector(bcs.u8()).parse(this.pure(i));
+  }
+
+  u64(i: number): number {
+    return Number(bcs.u64().parse(this.pure(i)));
+  }
+
+  address(i: number): string {
+    return bcs.Address.parse(this.pure(i));
+  }
+
+  private pure(i: number): Uint8Array {
+    const input = this.input(i);
+    if (!input.Pure) throw new Error(`Argument ${i} is not a pure value`);
+    return fromBase64(input.Pure.bytes);
+  }
+
+  private input(i: number) {
+    const arg = this.args[i];
+    if (arg?.$kind !== "Input") {
+      throw new Error(`Argument ${i} is not a transaction input`);
+    }
+    return this.inputs[arg.Input];
+  }
+}
+
+/** The Move calls the fake signer can apply, keyed by `module::function` */
+const MOVE_CALLS: Record<
+  string,
+  (chain: FakeChain, ctx: TxContext, args: CallArgs) => void
+> = {
+  "suits::create_suit": (chain, ctx, args) => {
+    chain.createSuit(ctx, args.string(1), args.strings(2));
+  },
+  "interactions::like_suit": (chain, ctx, args) => {
+    chain.likeSuit(ctx, args.object(0));
+  },
+  "interactions::comment_on_suit": (chain, ctx, args) => {
+    chain.commentOnSuit(ctx, args.object(0), args.string(1));
+  },
+  "tipping::create_tip_balance": (chain, ctx) => {
+    chain.createTipBalance(ctx);
+  },
+  "messaging::start_chat": (chain, ctx, args) => {
+    chain.startChat(ctx, args.address(0));
+  },
+  "messaging::send_message": (chain, ctx, args) => {
+    chain.sendMessage(ctx, args.object(0), args.bytes(1), args.bytes(2));
+  },
+  "messaging::mark_as_read": (chain, ctx, args) => {
+    chain.markAsRead(ctx, args.object(0), args.u64(1));
+  },
+  "follows::follow": (chain, ctx, args) => {
+    chain.follow(ctx, args.address(1));
+  },
+  "follows::unfollow": (chain, ctx, args) => {
+    chain.unfollow(ctx, args.address(1));
+  },
+};
+
+function page<T, C>(
+  items: T[],
+  cursorOf: (item: T) => C,
+  matches: (item: T, cursor: C) => boolean,
+  cursor: C | null | undefined,
+  limit: number | null | undefined
+) {
+  const start = cursor ? items.findIndex((item) => matches(item, cursor)) + 1 : 0;
+  const data = items.slice(start, start + (limit ?? DEFAULT_PAGE_SIZE));
+  const hasNextPage = start + data.length < items.length;
+  return {
+    data,
+    hasNextPage,
+    nextCursor: data.length ? cursorOf(data[data.length - 1]) : null,
+  };
+}
+
+function eventMatches(event: SuiEvent, filter: SuiEventFilter): boolean {
+  if ("MoveEventType" in filter) return event.type === filter.MoveEventType;
+  if ("Sender" in filter) {
+    return event.sender === normalizeSuiAddress(filter.Sender);
+  }
+  if ("Transaction" in filter) return event.id.txDigest === filter.Transaction;
+  if ("MoveModule" in filter) {
+    return (
+      event.transactionModule === filter.MoveModule.module &&
+      normalizeSuiAddress(event.packageId) ===
+        normalizeSuiAddress(filter.MoveModule.package)
+    );
+  }
+  throw new Error(`The fake chain can't query events by ${Object.keys(filter)}`);
+}
+
+export class FakeSuiClient {
+  constructor(readonly chain: FakeChain) {}
+
+  /** Seal's stand-in for this chain, picked up by `providedCipher` */
+  messageCipher(): MessageCipher {
+    return new FakeSealCipher(this.chain);
+  }
+
+  async getObject({ id }: GetObjectParams): Promise<SuiObjectResponse> {
+    const data = this.chain.getObjectData(id);
+    return data ? { data } : { error: { code: "notExists", object_id: id } };
+  }
+
+  async multiGetObjects({
+    ids,
+  }: MultiGetObjectsParams): Promise<SuiObjectResponse[]> {
+    return Promise.all(ids.map((id) => this.getObject({ id })));
+  }
+
+  async getOwnedObjects({
+    owner,
+    filter,
+    cursor,
+    limit,
+  }: GetOwnedObjectsParams): Promise<PaginatedObjectsResponse> {
+    if (filter && !("StructType" in filter)) {
+      throw new Error(
+        `The fake chain can't filter owned objects by ${Object.keys(filter)}`
+      );
+    }
+    const owned = this.chain
+      .ownedBy(owner)
+      .filter((object) => !filter || object.type === filter.StructType);
+    const result = page(
+      owned,
+      (object) => object.objectId,
+      (object, id) => object.objectId === id,
+      cursor,
+      limit
+    );
+    return {
+      ...result,
+      data: result.data.map((object) => ({
+        data: this.chain.getObjectData(object.objectId),
+      })),
+    };
+  }
+
+  /** Entries of the tables the app reads (`TipBalanceRegistry.balances`) */
+  async getDynamicFieldObject({
+    parentId,
+    name,
+  }: GetDynamicFieldObjectParams): Promise<SuiObjectResponse> {
+    const key =
+      name.type === "address"
+        ? normalizeSuiAddress(String(name.value))
+        : name.type === "vector<u8>" && Array.isArray(name.value)
+          ? toHex(Uint8Array.from(name.value))
+          : String(name.value);
+    const value = this.chain.getTableEntry(parentId, key);
+    if (!value) {
+      return {
+        error: { code: "dynamicFieldNotFound", parent_object_id: parentId },
+      };
+    }
+    const type = `0x2::dynamic_field::Field<${name.type}, 0x2::object::ID>`;
+    return {
+      data: {
+        objectId: parentId,
+        version: "1",
+        digest: parentId,
+        type,
+        content: {
+          dataType: "moveObject",
+          type,
+          hasPublicTransfer: false,
+          fields: { id: { id: parentId }, name: key, value },
+        },
+      },
+    };
+  }
+
+  async queryEvents({
+    query,
+    cursor,
+    limit,
+    order,
+  }: QueryEventsParams): Promise<PaginatedEvents> {
+    const events = this.chain.events.filter((event) =>
+      eventMatches(event, query)
+    );
+    if (order === "descending") events.reverse();
+    return page(
+      events,
+      (event): EventId => event.id,
+      (event, id) =>
+        event.id.txDigest === id.txDigest && event.id.eventSeq === id.eventSeq,
+      cursor,
+      limit
+    );
+  }
+
+  async getBalance({
+    owner,
+    coinType = SUI_COIN_TYPE,
+  }: GetBalanceParams): Promise<CoinBalance> {
+    const balance = coinType === SUI_COIN_TYPE ? this.chain.getBalance(owner) : 0n;
+    return {
+      coinType: coinType ?? SUI_COIN_TYPE,
+      coinObjectCount: balance > 0n ? 1 : 0,
+      totalBalance: balance.toString(),
+      lockedBalance: {},
+    };
+  }
+
+  async getTransactionBlock({
+    digest,
+    options,
+  }: GetTransactionBlockParams): Promise<SuiTransactionBlockResponse> {
+    const tx = this.chain.getTransaction(digest);
+    if (!tx) {
+      throw new Error(
+        `Could not find the referenced transaction [TransactionDigest(${digest})]`
+      );
+    }
+    return this.response(tx, options);
+  }
+
+  /** Transactions apply synchronously, so there is never anything to wait for */
+  async waitForTransaction(
+    input: GetTransactionBlockParams
+  ): Promise<SuiTransactionBlockResponse> {
+    return this.getTransactionBlock(input);
+  }
+
+  /**
+   * Apply a transaction the fake wallet signed. Like a full node, an abort
+   * doesn't throw; it shows up in the effects' status.
+   */
+  async executeTransactionBlock({
+    transactionBlock,
+    options,
+  }: ExecuteTransactionBlockParams): Promise<SuiTransactionBlockResponse> {
+    const bytes =
+      typeof transactionBlock === "string"
+        ? fromBase64(transactionBlock)
+        : transactionBlock;
+    const data = Transaction.from(new TextDecoder().decode(bytes)).getData();
+    if (!data.sender) throw new Error("Transaction has no sender");
+
+    const tx = this.chain.transact(data.sender, (ctx) => {
+      data.commands.forEach((command, i) => {
+        ctx.command = i;
+        if (!command.MoveCall) {
+          throw new Error(`The fake chain doesn't simulate ${command.$kind}`);
+        }
+        const { package: pkg, module, function: fn } = command.MoveCall;
+        const apply = MOVE_CALLS[`${module}::${fn}`];
+        if (
+          !apply ||
+          normalizeSuiAddress(pkg) !== normalizeSuiAddress(this.chain.packageId)
+        ) {
+          throw new Error(`The fake chain doesn't simulate ${module}::${fn}`);
+        }
+        apply(this.chain, ctx, new CallArgs(data.inputs, command.MoveCall.arguments));
+      });
+    });
+
+    return { ...this.response(tx, options), rawEffects: [] };
+  }
+
+  /** dapp-kit looks up SuiNS names for connected accounts; there are none */
+  async resolveNameServiceNames() {
+    return { data: [], hasNextPage: false, nextCursor: null };
+  }
+
+  private response(
+    tx: FakeTransaction,
+    options?: SuiTransactionBlockResponseOptions | null
+  ): SuiTransactionBlockResponse {
+    const ref = (objectId: string): OwnedObjectRef => {
+      const object = this.chain.getObject(objectId)!;
+      return {
+        owner: object.owner,
+        reference: {
+          objectId,
+          version: String(object.version),
+          digest: tx.digest,
+        },
+      };
+    };
+
+    return {
+      digest: tx.digest,
+      timestampMs: String(tx.timestampMs),
+      checkpoint: null,
+      effects: options?.showEffects
+        ? {
+            messageVersion: "v1",
+            status: tx.error
+              ? { status: "failure", error: tx.error }
+              : { status: "success" },
+            executedEpoch: "0",
+            transactionDigest: tx.digest,
+            gasUsed: {
+              computationCost: "0",
+              storageCost: "0",
+              storageRebate: "0",
+              nonRefundableStorageFee: "0",
+            },
+            gasObject: {
+              owner: { AddressOwner: tx.sender },
+              reference: {
+                objectId: normalizeSuiAddress("0x0"),
+                version: "0",
+                digest: tx.digest,
+              },
+            },
+            created: tx.created.map(ref),
+            mutated: tx.mutated.map(ref),
+          }
+        : undefined,
+      events: options?.showEvents ? tx.events : undefined,
+      objectChanges: options?.showObjectChanges
+        ? this.chain.objectChanges(tx)
+        : undefined,
+    };
+  }
+}
+
+/** A FakeSuiClient typed as the real client, for providers and hooks */
+export function createFakeSuiClient(chain: FakeChain): SuiClient {
+  return new FakeSuiClient(chain) as unknown as SuiClient;
+}
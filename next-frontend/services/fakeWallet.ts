@@ -0,0 +1,72 @@
+import { toBase64 } from "@mysten/sui/utils";
+import { SUITTER_NETWORKS } from "../config";
+
+// A Wallet Standard wallet for VITE_MOCK_CHAIN. It "signs" by handing back
+// the transaction's JSON as its bytes, which only FakeSuiClient knows how to
+// execute; nothing it produces is valid on a real network.
+
+export const FAKE_WALLET_NAME = "Suitter Fake Wallet";
+
+const ICON =
+  "data:image/svg+xml;base64," +
+  btoa(
+    '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 32 32">' +
+      '<rect width="32" height="32" rx="8" fill="#6366f1"/>' +
+      '<text x="16" y="22" font-size="16" text-anchor="middle" fill="#fff">F</text>' +
+      "</svg>"
+  );
+
+const CHAINS = SUITTER_NETWORKS.map((network) => `sui:${network}` as const);
+
+interface SignTransactionInput {
+  transaction: { toJSON(): Promise<string> };
+}
+
+/**
+ * Register the fake wallet with the page, connected as `address`. Uses the
+ * Wallet Standard's registration events directly, so it is picked up
+ * whether dapp-kit has loaded yet or not.
+ */
+export function registerFakeWallet(address: string) {
+  const account = {
+    address,
+    publicKey: new Uint8Array(32),
+    chains: CHAINS,
+    features: ["sui:signTransaction"] as const,
+    label: "Fixture account",
+  };
+
+  const wallet = {
+    version: "1.0.0" as const,
+    name: FAKE_WALLET_NAME,
+    icon: ICON,
+    chains: CHAINS,
+    accounts: [account],
+    features: {
+      "standard:connect": {
+        version: "1.0.0",
+        connect: async () => ({ accounts: [account] }),
+      },
+      "standard:events": {
+        version: "1.0.0",
+        on: () => () => {},
+      },
+      "sui:signTransaction": {
+        version: "2.0.0",
+        signTransaction: async ({ transaction }: SignTransactionInput) => ({
+          bytes: toBase64(new TextEncoder().encode(await transaction.toJSON())),
+          signature: toBase64(new Uint8Array(64)),
+        }),
+      },
+    },
+  };
+
+  const register = ({ register }: { register: (w: typeof wallet) => void }) =>
+    register(wallet);
+  window.dispatchEvent(
+    new CustomEvent("wallet-standard:register-wallet", { detail: register })
+  );
+  window.addEventListener("wallet-standard:app-ready", (event) =>
+    register((event as CustomEvent).detail)
+  );
+}
@@ -0,0 +1,151 @@
+import axios, { type AxiosInstance } from "axios";
+import CONFIG, { type SuitterNetwork } from "../config";
+
+// Client for the Suitter event indexer in /indexer. It answers lookups that
+// would otherwise need event scans (suits by author, comments by suit, chats
+// by participant, read receipts, follow lists, tip and withdrawal history).
+// Object contents are still read from chain so counts and edits are never
+// stale.
+
+export interface IndexedSuit {
+  suitId: string;
+  /** Index into SuitRegistry.suit_ids, same as the feed cursor */
+  position: number;
+  creator: string;
+  contentPreview: string;
+  createdAt: number;
+}
+
+export interface IndexedSuitPage {
+  data: IndexedSuit[];
+  nextCursor: number | null;
+  latestCursor: number;
+}
+
+export interface IndexedComment {
+  commentId: string;
+  suitId: string;
+  commenter: string;
+  createdAt: number;
+}
+
+export interface IndexedTip {
+  /** `${txDigest}:${eventSeq}` of the TipSent event */
+  eventId: string;
+  suitId: string;
+  tipper: string;
+  recipient: string;
+  /** u64 MIST amount as a string */
+  amount: string;
+  createdAt: number;
+}
+
+export interface IndexedWithdrawal {
+  /** `${txDigest}:${eventSeq}` of the FundsWithdrawn event */
+  eventId: string;
+  owner: string;
+  /** u64 MIST amount as a string */
+  amount: string;
+  createdAt: number;
+}
+
+export interface IndexedChat {
+  chatId: string;
+  participant1: string;
+  participant2: string;
+  createdAt: number;
+}
+
+export interface IndexedMessage {
+  chatId: string;
+  /** Index into the chat's messages */
+  messageIndex: number;
+  sender: string;
+  receiver: string;
+  createdAt: number;
+  /** When the receiver marked it read, or null */
+  readAt: number | null;
+}
+
+export interface IndexedFollow {
+  follower: string;
+  followee: string;
+  /** When the current follow started */
+  followedAt: number;
+}
+
+export class IndexerClient {
+  private readonly http: AxiosInstance;
+
+  constructor(baseURL: string) {
+    this.http = axios.create({ baseURL, timeout: 10_000 });
+  }
+
+  private async list<T>(path: string, params?: object): Promise<T[]> {
+    const res = await this.http.get<{ data: T[] }>(path, { params });
+    return res.data.data;
+  }
+
+  /**
+   * Suits older than `before` (a registry position), newest first,
+   * optionally only those by one author or any of several
+   */
+  async getSuits(options: {
+    author?: string | string[];
+    before?: number | null;
+    limit?: number;
+  }): Promise<IndexedSuitPage> {
+    const res = await this.http.get<IndexedSuitPage>("/suits", {
+      params: {
+        author: [options.author ?? []].flat().join(",") || undefined,
+        before: options.before ?? undefined,
+        limit: options.limit,
+      },
+    });
+    return res.data;
+  }
+
+  getComments(suitId: string) {
+    return this.list<IndexedComment>(`/suits/${suitId}/comments`);
+  }
+
+  getTipsReceived(recipient: string) {
+    return this.list<IndexedTip>("/tips", { recipient });
+  }
+
+  getWithdrawals(owner: string) {
+    return this.list<IndexedWithdrawal>("/withdrawals", { owner });
+  }
+
+  getChats(participant: string) {
+    return this.list<IndexedChat>("/chats", { participant });
+  }
+
+  getMessages(chatId: string) {
+    return this.list<IndexedMessage>(`/chats/${chatId}/messages`);
+  }
+
+  /** Live follows of `address`, newest first */
+  getFollowers(address: string) {
+    return this.list<IndexedFollow>("/follows", { followee: address });
+  }
+
+  /** Accounts `address` follows, newest first */
+  getFollowing(address: string) {
+    return this.list<IndexedFollow>("/follows", { follower: address });
+  }
+}
+
+const indexer: IndexerClient | null = CONFIG.VITE_API_URL
+  ? new IndexerClient(CONFIG.VITE_API_URL)
+  : null;
+
+/**
+ * The indexer for `network`: null unless VITE_API_URL is set and it tails
+ * that network (VITE_API_NETWORK). Callers fall back to RPC event scans.
+ */
+export function indexerFor(network: string): IndexerClient | null {
+  return network === (CONFIG.VITE_API_NETWORK as SuitterNetwork)
+    ? indexer
+    : null;
+}
@@ -0,0 +1,87 @@
+// Records kept in the browser, one per key in an IndexedDB object store.
+// Bookmarks and the chat directory each use a store of their own.
+
+export interface KeyValueStorage<T> {
+  load(key: string): Promise<T | null>;
+  save(key: string, data: T): Promise<void>;
+}
+
+const DB_VERSION = 1;
+
+function settle<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/** Each record as one value in `storeName`, keyed by the store's key */
+export class IndexedDbKeyValueStorage<T> implements KeyValueStorage<T> {
+  private db: Promise<IDBDatabase> | null = null;
+
+  constructor(
+    private readonly dbName: string,
+    private readonly storeName: string
+  ) {}
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      const request = indexedDB.open(this.dbName, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(this.storeName);
+      };
+      this.db = settle(request);
+      // Let a later call retry if the browser refused this one
+      this.db.catch(() => {
+        this.db = null;
+      });
+    }
+    return this.db;
+  }
+
+  async load(key: string): Promise<T | null> {
+    const db = await this.open();
+    const store = db.transaction(this.storeName).objectStore(this.storeName);
+    return ((await settle(store.get(key))) as T | undefined) ?? null;
+  }
+
+  async save(key: string, data: T): Promise<void> {
+    const db = await this.open();
+    const tx = db.transaction(this.storeName, "readwrite");
+    tx.objectStore(this.storeName).put(data, key);
+    await new Promise<void>((resolve, reject) => {
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error);
+    });
+  }
+}
+
+/** Keeps records for the session only, where IndexedDB isn't available */
+export class MemoryKeyValueStorage<T> implements KeyValueStorage<T> {
+  private readonly records = new Map<string, T>();
+
+  async load(key: string) {
+    return structuredClone(this.records.get(key) ?? null);
+  }
+
+  async save(key: string, data: T) {
+    this.records.set(key, structuredClone(data));
+  }
+}
+
+/**
+ * IndexedDB's `dbName`/`storeName`, or memory with `fallbackWarning` logged
+ * where IndexedDB isn't available
+ */
+export function createKeyValueStorage<T>(
+  dbName: string,
+  storeName: string,
+  fallbackWarning: string
+): KeyValueStorage<T> {
+  if (typeof indexedDB !== "undefined") {
+    return new IndexedDbKeyValueStorage<T>(dbName, storeName);
+  }
+  console.warn(fallbackWarning);
+  return new MemoryKeyValueStorage<T>();
+}
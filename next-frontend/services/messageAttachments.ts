@@ -0,0 +1,186 @@
+import { fromBase64, toBase64 } from "@mysten/sui/utils";
+import { WalrusService } from "./walrus";
+
+// Files sent in direct messages are encrypted in the browser, each with its
+// own AES-GCM key, and uploaded to Walrus as opaque blobs. The blob ID and
+// key travel inside the message, which Seal encrypts for the chat's two
+// participants, so nobody else can open the file even though the blob is
+// public.
+
+/** The publisher refuses uploads much larger than this */
+export const MAX_ATTACHMENT_BYTES = 5 * 1024 * 1024;
+export const MAX_ATTACHMENTS = 4;
+
+const IV_BYTES = 12;
+const PAYLOAD_TYPE = "suitter/message";
+
+export interface MessageAttachment {
+  blobId: string;
+  name: string;
+  mimeType: string;
+  /** Bytes before encryption */
+  size: number;
+  /** Base64 AES-256-GCM key */
+  key: string;
+  /** Base64 AES-GCM IV */
+  iv: string;
+}
+
+/** What a message says once decrypted */
+export interface MessagePayload {
+  text: string;
+  attachments: MessageAttachment[];
+}
+
+export type AttachmentErrorReason = "expired" | "unreachable" | "corrupt";
+
+/** Why an attachment couldn't be shown */
+export class AttachmentError extends Error {
+  constructor(
+    readonly reason: AttachmentErrorReason,
+    message: string,
+    readonly cause?: unknown
+  ) {
+    super(message);
+    this.name = "AttachmentError";
+  }
+}
+
+// Checks what the other participant sent, which could be anything
+function isAttachment(value: unknown): value is MessageAttachment {
+  if (typeof value !== "object" || value === null) return false;
+  const fields = value as Record<string, unknown>;
+  return (
+    typeof fields.blobId === "string" &&
+    typeof fields.name === "string" &&
+    typeof fields.mimeType === "string" &&
+    typeof fields.size === "number" &&
+    typeof fields.key === "string" &&
+    typeof fields.iv === "string"
+  );
+}
+
+/** Plain text when nothing is attached, as messages were before attachments */
+export function encodeMessagePayload({
+  text,
+  attachments,
+}: MessagePayload): string {
+  if (attachments.length === 0) return text;
+  return JSON.stringify({ type: PAYLOAD_TYPE, version: 1, text, attachments });
+}
+
+export function decodeMessagePayload(plaintext: string): MessagePayload {
+  if (plaintext.startsWith("{")) {
+    try {
+      const parsed: unknown = JSON.parse(plaintext);
+      if (
+        typeof parsed === "object" &&
+        parsed !== null &&
+        "type" in parsed &&
+        parsed.type === PAYLOAD_TYPE &&
+        "attachments" in parsed &&
+        Array.isArray(parsed.attachments)
+      ) {
+        return {
+          text:
+            "text" in parsed && typeof parsed.text === "string"
+              ? parsed.text
+              : "",
+          attachments: parsed.attachments.filter(isAttachment),
+        };
+      }
+    } catch {
+      // Text that happens to start with a brace
+    }
+  }
+  return { text: plaintext, attachments: [] };
+}
+
+/** Throw with a sentence for the UI if `files` can't be sent together */
+export function checkAttachments(files: File[]) {
+  if (files.length > MAX_ATTACHMENTS) {
+    throw new Error(`You can attach up to ${MAX_ATTACHMENTS} files.`);
+  }
+  const tooLarge = files.find((file) => file.size > MAX_ATTACHMENT_BYTES);
+  if (tooLarge) {
+    const limit = MAX_ATTACHMENT_BYTES / 1024 / 1024;
+    throw new Error(`"${tooLarge.name}" is larger than ${limit} MB.`);
+  }
+}
+
+/** Encrypt `file` under a fresh key and upload it, owned by `owner` */
+export async function uploadAttachment(
+  file: File,
+  owner?: string
+): Promise<MessageAttachment> {
+  const key = await crypto.subtle.generateKey(
+    { name: "AES-GCM", length: 256 },
+    true,
+    ["encrypt", "decrypt"]
+  );
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: "AES-GCM", iv },
+    key,
+    await file.arrayBuffer()
+  );
+
+  // Named and typed generically so the blob gives nothing away
+  const blob = await WalrusService.uploadFile(
+    new File([ciphertext], "attachment", { type: "application/octet-stream" }),
+    owner
+  );
+
+  return {
+    blobId: blob.blobId,
+    name: file.name,
+    mimeType: file.type || "application/octet-stream",
+    size: file.size,
+    key: toBase64(new Uint8Array(await crypto.subtle.exportKey("raw", key))),
+    iv: toBase64(iv),
+  };
+}
+
+/** Download and decrypt an attachment; rejects with an AttachmentError */
+export async function downloadAttachment(
+  attachment: MessageAttachment
+): Promise<Blob> {
+  let data: ArrayBuffer | null;
+  try {
+    data = await WalrusService.downloadBlob(attachment.blobId);
+  } catch (e) {
+    throw new AttachmentError(
+      "unreachable",
+      "Couldn't reach Walrus to download this file.",
+      e
+    );
+  }
+  if (!data) {
+    throw new AttachmentError(
+      "expired",
+      "This file is no longer stored on Walrus. Its storage may have expired."
+    );
+  }
+
+  try {
+    const key = await crypto.subtle.importKey(
+      "raw",
+      Uint8Array.from(fromBase64(attachment.key)),
+      "AES-GCM",
+      false,
+      ["decrypt"]
+    );
+    const plain = await crypto.subtle.decrypt(
+      { name: "AES-GCM", iv: Uint8Array.from(fromBase64(attachment.iv)) },
+      key,
+      data
+    );
+    return new Blob([plain], { type: attachment.mimeType });
+  } catch (e) {
+    throw new AttachmentError(
+      "corrupt",
+      "This file couldn't be decrypted. It may have been altered.",
+      e
+    );
+  }
+}
@@ -0,0 +1,56 @@
+import { fromHex, normalizeSuiAddress, toHex } from "@mysten/sui/utils";
+import type { Message } from "./suitter";
+
+// A message's `content_hash` is SHA-256 over its ciphertext, its sender and
+// its chat, so a full node (or anyone between it and the reader) can't swap
+// a message's bytes, move it to another chat or pin it on the other
+// participant without the hash giving it away.
+
+const DOMAIN = new TextEncoder().encode("suitter:message:v1");
+
+// Messages sent before hashing carry `hash_<something>` instead
+const LEGACY_PREFIX = new TextEncoder().encode("hash_");
+
+/**
+ * `verified` if the hash matches, `untrusted` if it doesn't, and `legacy`
+ * for messages sent before hashes were real
+ */
+export type MessageIntegrity = "verified" | "untrusted" | "legacy";
+
+/** SHA-256(domain ++ chat ID ++ sender ++ ciphertext) */
+export async function messageContentHash(
+  chatId: string,
+  sender: string,
+  encryptedMessage: Uint8Array
+): Promise<Uint8Array> {
+  const data = new Uint8Array([
+    ...DOMAIN,
+    ...fromHex(normalizeSuiAddress(chatId)),
+    ...fromHex(normalizeSuiAddress(sender)),
+    ...encryptedMessage,
+  ]);
+  return new Uint8Array(await crypto.subtle.digest("SHA-256", data));
+}
+
+function isLegacyHash(hash: Uint8Array) {
+  return (
+    hash.length >= LEGACY_PREFIX.length &&
+    LEGACY_PREFIX.every((byte, i) => hash[i] === byte)
+  );
+}
+
+/** Recompute a message's hash and compare it with the stored one */
+export async function checkMessageIntegrity(
+  chatId: string,
+  message: Message
+): Promise<MessageIntegrity> {
+  if (isLegacyHash(message.contentHash)) return "legacy";
+  const expected = await messageContentHash(
+    chatId,
+    message.sender,
+    message.encryptedMessage
+  );
+  return toHex(expected) === toHex(message.contentHash)
+    ? "verified"
+    : "untrusted";
+}
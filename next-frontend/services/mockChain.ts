@@ -0,0 +1,29 @@
+import type { SuiClient } from "@mysten/sui/client";
+import CONFIG, { type SuitterNetwork } from "../config";
+import { createFakeSuiClient } from "./fakeSuiClient";
+import {
+  createFixtureChain,
+  FIXTURE_WALLET_ADDRESS,
+} from "./fakeChainFixtures";
+import { FAKE_WALLET_NAME, registerFakeWallet } from "./fakeWallet";
+
+// Everything VITE_MOCK_CHAIN needs, in one module that AppProvider imports
+// on demand, so the fake chain and wallet stay out of production bundles.
+
+export { FAKE_WALLET_NAME };
+
+// Each network is its own fake chain, kept across switches
+const fakeClients = new Map<SuitterNetwork, SuiClient>();
+
+export function createFakeClient(network: SuitterNetwork): SuiClient {
+  let client = fakeClients.get(network);
+  if (!client) {
+    client = createFakeSuiClient(
+      createFixtureChain(CONFIG.DEPLOYMENTS[network])
+    );
+    fakeClients.set(network, client);
+  }
+  return client;
+}
+
+registerFakeWallet(FIXTURE_WALLET_ADDRESS);
@@ -0,0 +1,88 @@
+import type {
+  SuiClient,
+  SuiObjectData,
+  SuiObjectDataOptions,
+} from "@mysten/sui/client";
+
+/** Sui full nodes reject `multiGetObjects` calls with more IDs than this */
+export const MAX_OBJECTS_PER_REQUEST = 50;
+
+interface PendingLoad {
+  resolve: (data: SuiObjectData | null) => void;
+  reject: (error: unknown) => void;
+}
+
+/**
+ * Collects object IDs requested within the same tick and fetches them with
+ * `multiGetObjects`, chunked to the RPC page limit. Duplicate IDs in a batch
+ * share one lookup. Results are not cached beyond the batch; React Query
+ * does that one level up.
+ */
+export class ObjectLoader {
+  private queue = new Map<string, PendingLoad[]>();
+  private scheduled = false;
+
+  constructor(
+    private readonly suiClient: SuiClient,
+    private readonly options: SuiObjectDataOptions = {
+      showContent: true,
+      showType: true,
+    }
+  ) {}
+
+  /** Resolves to the object's data, or null if it doesn't exist */
+  load(id: string): Promise<SuiObjectData | null> {
+    return new Promise((resolve, reject) => {
+      const waiting = this.queue.get(id);
+      if (waiting) {
+        waiting.push({ resolve, reject });
+      } else {
+        this.queue.set(id, [{ resolve, reject }]);
+      }
+      this.schedule();
+    });
+  }
+
+  loadMany(ids: string[]): Promise<(SuiObjectData | null)[]> {
+    return Promise.all(ids.map((id) => this.load(id)));
+  }
+
+  private schedule() {
+    if (this.scheduled) return;
+    this.scheduled = true;
+    // A macrotask rather than a microtask, so callers that await once before
+    // loading (e.g. `async` map callbacks) still land in the same batch
+    setTimeout(() => {
+      this.scheduled = false;
+      void this.flush();
+    }, 0);
+  }
+
+  private async flush() {
+    const batch = this.queue;
+    this.queue = new Map();
+
+    const ids = [...batch.keys()];
+    const chunks: string[][] = [];
+    for (let i = 0; i < ids.length; i += MAX_OBJECTS_PER_REQUEST) {
+      chunks.push(ids.slice(i, i + MAX_OBJECTS_PER_REQUEST));
+    }
+
+    await Promise.all(
+      chunks.map(async (chunk) => {
+        try {
+          const res = await this.suiClient.multiGetObjects({
+            ids: chunk,
+            options: this.options,
+          });
+          chunk.forEach((id, i) => {
+            const data = res[i]?.data ?? null;
+            batch.get(id)?.forEach((p) => p.resolve(data));
+          });
+        } catch (e) {
+          chunk.forEach((id) => batch.get(id)?.forEach((p) => p.reject(e)));
+        }
+      })
+    );
+  }
+}
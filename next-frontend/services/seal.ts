@@ -0,0 +1,167 @@
+import { EncryptedObject, SealClient, type SessionKey } from "@mysten/seal";
+import type { SuiClient } from "@mysten/sui/client";
+import { Transaction } from "@mysten/sui/transactions";
+import { fromHex, normalizeSuiAddress, toHex } from "@mysten/sui/utils";
+
+// Direct messages are encrypted with Seal for the two people in the chat.
+// Each message has its own Seal ID: the chat's object ID followed by a
+// random nonce. Key servers release the key for such an ID only if
+// `messaging::seal_approve` passes, i.e. only to the chat's participants.
+
+const NONCE_BYTES = 16;
+
+/** Seal IDs are hex without the 0x prefix, as `EncryptedObject` has them */
+export function messageKeyId(
+  chatId: string,
+  nonce: Uint8Array = crypto.getRandomValues(new Uint8Array(NONCE_BYTES))
+): string {
+  const chat = fromHex(normalizeSuiAddress(chatId));
+  return toHex(new Uint8Array([...chat, ...nonce]));
+}
+
+/** Whether `keyId` is the Seal ID of a message in `chatId` */
+export function isChatKeyId(keyId: string, chatId: string): boolean {
+  return keyId.startsWith(normalizeSuiAddress(chatId).slice(2));
+}
+
+/** Who is reading, and the session key their wallet signed for Seal */
+export interface MessageReader {
+  address: string;
+  sessionKey: SessionKey | null;
+}
+
+export interface MessageCipher {
+  /** Whether `decrypt` needs the reader's signed session key */
+  readonly needsSessionKey: boolean;
+  /**
+   * Whether the deployed package has `messaging::seal_approve`. Without it
+   * no key is ever released, so nothing encrypted could be read again.
+   */
+  isSupported(): Promise<boolean>;
+  encrypt(chatId: string, text: string): Promise<Uint8Array>;
+  /**
+   * The Seal ID `data` was encrypted under, or null for a message stored as
+   * plain UTF-8 before messages were encrypted
+   */
+  keyId(data: Uint8Array): string | null;
+  /**
+   * Decrypt encrypted messages of one chat, null for any that won't open.
+   * Rejects if the key servers refuse the reader.
+   */
+  decrypt(
+    chatId: string,
+    data: Uint8Array[],
+    reader: MessageReader
+  ): Promise<(string | null)[]>;
+}
+
+/** A client that brings its own cipher in place of Seal's key servers */
+interface CipherProvider {
+  messageCipher(): MessageCipher;
+}
+
+/** The cipher `suiClient` supplies itself, as the fake chain's client does */
+export function providedCipher(suiClient: SuiClient): MessageCipher | null {
+  return (suiClient as Partial<CipherProvider>).messageCipher?.() ?? null;
+}
+
+export class SealMessageCipher implements MessageCipher {
+  readonly needsSessionKey = true;
+  private readonly seal: SealClient;
+  private readonly threshold: number;
+
+  constructor(
+    private readonly suiClient: SuiClient,
+    private readonly packageId: string,
+    keyServers: string[]
+  ) {
+    this.seal = new SealClient({
+      suiClient,
+      serverConfigs: keyServers.map((objectId) => ({ objectId, weight: 1 })),
+      verifyKeyServers: false,
+    });
+    // Any two servers can release a key, so one being down doesn't lock
+    // anyone out of their messages
+    this.threshold = Math.min(2, keyServers.length);
+  }
+
+  async isSupported(): Promise<boolean> {
+    // Read the whole module so a failed read isn't taken for a missing
+    // function
+    const messaging = await this.suiClient.getNormalizedMoveModule({
+      package: this.packageId,
+      module: "messaging",
+    });
+    return "seal_approve" in messaging.exposedFunctions;
+  }
+
+  async encrypt(chatId: string, text: string): Promise<Uint8Array> {
+    const { encryptedObject } = await this.seal.encrypt({
+      threshold: this.threshold,
+      packageId: this.packageId,
+      id: messageKeyId(chatId),
+      data: new TextEncoder().encode(text),
+    });
+    return encryptedObject;
+  }
+
+  keyId(data: Uint8Array): string | null {
+    try {
+      const parsed = EncryptedObject.parse(data);
+      return normalizeSuiAddress(parsed.packageId) ===
+        normalizeSuiAddress(this.packageId)
+        ? parsed.id
+        : null;
+    } catch {
+      return null;
+    }
+  }
+
+  async decrypt(
+    chatId: string,
+    data: Uint8Array[],
+    { sessionKey }: MessageReader
+  ): Promise<(string | null)[]> {
+    if (!sessionKey) throw new Error("Sign in to Seal to read messages.");
+
+    const ids = [
+      ...new Set(
+        data
+          .map((d) => this.keyId(d))
+          .filter((id): id is string => !!id && isChatKeyId(id, chatId))
+      ),
+    ];
+    if (ids.length === 0) return data.map(() => null);
+
+    // The key servers dry-run this to decide whether to release the keys
+    const tx = new Transaction();
+    for (const id of ids) {
+      tx.moveCall({
+        target: `${this.packageId}::messaging::seal_approve`,
+        arguments: [tx.pure.vector("u8", fromHex(id)), tx.object(chatId)],
+      });
+    }
+    const txBytes = await tx.build({
+      client: this.suiClient,
+      onlyTransactionKind: true,
+    });
+    await this.seal.fetchKeys({
+      ids,
+      txBytes,
+      sessionKey,
+      threshold: this.threshold,
+    });
+
+    return Promise.all(
+      data.map(async (d) => {
+        try {
+          const plain = await this.seal.decrypt({ data: d, sessionKey, txBytes });
+          return new TextDecoder().decode(plain);
+        } catch (e) {
+          console.error("Failed to decrypt message:", e);
+          return null;
+        }
+      })
+    );
+  }
+}
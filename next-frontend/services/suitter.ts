@@ -0,0 +1,906 @@
+import type {
+  EventId,
+  PaginatedEvents,
+  SuiClient,
+  SuiEvent,
+  SuiObjectData,
+} from "@mysten/sui/client";
+import { bcs } from "@mysten/sui/bcs";
+import { ObjectLoader } from "./objectLoader";
+
+// Typed access to the Suitter Move package. Every decoder below mirrors one
+// struct in Suits/sources, so a field rename in the contract only needs to be
+// reflected here.
+
+// ===== Domain Types =====
+
+export interface Suit {
+  id: string;
+  creator: string;
+  content: string;
+  mediaUrls: string[];
+  createdAt: number;
+  likeCount: number;
+  commentCount: number;
+  retweetCount: number;
+  tipTotal: number;
+}
+
+export interface SuitRegistry {
+  id: string;
+  suitIds: string[];
+}
+
+export interface Profile {
+  id: string;
+  owner: string;
+  username: string;
+  bio: string;
+  pfpUrl: string;
+  createdAt: number;
+  followersCount: number;
+  followingCount: number;
+}
+
+export interface Like {
+  id: string;
+  suitId: string;
+  liker: string;
+  createdAt: number;
+}
+
+export interface Comment {
+  id: string;
+  suitId: string;
+  commenter: string;
+  content: string;
+  createdAt: number;
+}
+
+export interface Retweet {
+  id: string;
+  originalSuitId: string;
+  retweeter: string;
+  createdAt: number;
+}
+
+export interface TipBalance {
+  id: string;
+  owner: string;
+  balance: number;
+  totalReceived: number;
+  totalWithdrawn: number;
+}
+
+export interface TipBalanceRegistry {
+  id: string;
+  balancesTableId: string;
+}
+
+export interface FollowRegistry {
+  id: string;
+  followsTableId: string;
+  followersTableId: string;
+  followingTableId: string;
+}
+
+/** `FollowRegistry.followers` / `.following` for one address */
+export interface FollowCounts {
+  followers: number;
+  following: number;
+}
+
+export interface Message {
+  index: number;
+  sender: string;
+  encryptedMessage: Uint8Array;
+  contentHash: Uint8Array;
+  sentTimestamp: number;
+  isRead: boolean;
+}
+
+export interface Chat {
+  id: string;
+  participant1: string;
+  participant2: string;
+  messages: Message[];
+  createdAt: number;
+}
+
+// ===== Event Types =====
+
+export interface SuitCreatedEvent {
+  suitId: string;
+  creator: string;
+  contentPreview: string;
+  timestamp: number;
+}
+
+export interface LikeCreatedEvent {
+  likeId: string;
+  suitId: string;
+  liker: string;
+  timestamp: number;
+}
+
+export interface CommentCreatedEvent {
+  commentId: string;
+  suitId: string;
+  commenter: string;
+  timestamp: number;
+}
+
+export interface RetweetCreatedEvent {
+  retweetId: string;
+  originalSuitId: string;
+  retweeter: string;
+  timestamp: number;
+}
+
+export interface TipSentEvent {
+  suitId: string;
+  tipper: string;
+  recipient: string;
+  amount: number;
+  timestamp: number;
+  txDigest: string;
+}
+
+export interface FundsWithdrawnEvent {
+  owner: string;
+  amount: number;
+  timestamp: number;
+  txDigest: string;
+}
+
+export interface ChatCreatedEvent {
+  chatId: string;
+  participant1: string;
+  participant2: string;
+  timestamp: number;
+}
+
+export interface MessageSentEvent {
+  chatId: string;
+  sender: string;
+  receiver: string;
+  messageIndex: number;
+  timestamp: number;
+}
+
+export interface MessageReadEvent {
+  chatId: string;
+  messageIndex: number;
+  reader: string;
+  originalSender: string;
+  timestamp: number;
+}
+
+export interface ProfileCreatedEvent {
+  profileId: string;
+  owner: string;
+  username: string;
+  timestamp: number;
+}
+
+export interface ProfileUpdatedEvent {
+  profileId: string;
+  owner: string;
+  timestamp: number;
+}
+
+/** `follows::Followed` and `follows::Unfollowed` share this shape */
+export interface FollowEvent {
+  follower: string;
+  followee: string;
+  timestamp: number;
+}
+
+// ===== Type Strings =====
+
+export type SuitterModule =
+  | "suits"
+  | "interactions"
+  | "profile"
+  | "tipping"
+  | "messaging"
+  | "follows";
+
+/** Fully qualified Move type for a struct or event of a Suitter package */
+export function suitterType(
+  module: SuitterModule,
+  name: string,
+  packageId: string
+): string {
+  return `${packageId}::${module}::${name}`;
+}
+
+// ===== Move Constants =====
+
+/** `tipping::MIN_TIP_AMOUNT`: smallest tip `tip_suit` accepts, in MIST */
+export const MIN_TIP_AMOUNT = 10_000_000;
+
+// ===== Field Readers =====
+
+type MoveFields = Record<string, any>;
+
+function readString(v: any): string {
+  if (typeof v === "string") return v;
+  if (v && typeof v === "object" && typeof v.bytes === "string") return v.bytes;
+  return "";
+}
+
+function readU64(v: any): number {
+  const n = Number(v);
+  return Number.isFinite(n) ? n : 0;
+}
+
+function readId(v: any): string {
+  if (typeof v === "string") return v;
+  if (v && typeof v === "object" && typeof v.id === "string") return v.id;
+  return "";
+}
+
+function readBytes(v: any): Uint8Array {
+  if (Array.isArray(v)) return new Uint8Array(v);
+  if (typeof v === "string") return new TextEncoder().encode(v);
+  return new Uint8Array();
+}
+
+function readBalance(v: any): number {
+  // Balance<T> is rendered either as its raw value or as `{ value }`
+  if (v && typeof v === "object") return readU64(v.fields?.value ?? v.value);
+  return readU64(v);
+}
+
+/** Unwrap `{ type, fields }` wrappers used for nested structs */
+function unwrapFields(v: any): MoveFields {
+  if (v && typeof v === "object" && v.fields && typeof v.fields === "object") {
+    return v.fields as MoveFields;
+  }
+  return (v ?? {}) as MoveFields;
+}
+
+/**
+ * Return the Move fields of an object if it is an instance of `module::name`
+ */
+function structFields(
+  data: SuiObjectData | null | undefined,
+  module: SuitterModule,
+  name: string
+): MoveFields | null {
+  const content = data?.content;
+  if (!content || content.dataType !== "moveObject") return null;
+  if (!content.type.endsWith(`::${module}::${name}`)) return null;
+  return unwrapFields(content.fields);
+}
+
+// ===== Object Decoders =====
+
+export function decodeSuit(data: SuiObjectData | null | undefined): Suit | null {
+  const f = structFields(data, "suits", "Suit");
+  if (!f) return null;
+  return {
+    id: readId(f.id),
+    creator: readString(f.creator),
+    content: readString(f.content),
+    mediaUrls: Array.isArray(f.media_urls) ? f.media_urls.map(readString) : [],
+    createdAt: readU64(f.created_at),
+    likeCount: readU64(f.like_count),
+    commentCount: readU64(f.comment_count),
+    retweetCount: readU64(f.retweet_count),
+    tipTotal: readU64(f.tip_total),
+  };
+}
+
+export function decodeSuitRegistry(
+  data: SuiObjectData | null | undefined
+): SuitRegistry | null {
+  const f = structFields(data, "suits", "SuitRegistry");
+  if (!f) return null;
+  return {
+    id: readId(f.id),
+    suitIds: Array.isArray(f.suit_ids) ? f.suit_ids.map(readId) : [],
+  };
+}
+
+export function decodeProfile(
+  data: SuiObjectData | null | undefined
+): Profile | null {
+  const f = structFields(data, "profile", "Profile");
+  if (!f) return null;
+  return {
+    id: readId(f.id),
+    owner: readString(f.owner),
+    username: readString(f.username),
+    bio: readString(f.bio),
+    pfpUrl: readString(f.pfp_url),
+    createdAt: readU64(f.created_at),
+    followersCount: readU64(f.followers_count),
+    followingCount: readU64(f.following_count),
+  };
+}
+
+export function decodeLike(data: SuiObjectData | null | undefined): Like | null {
+  const f = structFields(data, "interactions", "Like");
+  if (!f) return null;
+  return {
+    id: readId(f.id),
+    suitId: readId(f.suit_id),
+    liker: readString(f.liker),
+    createdAt: readU64(f.created_at),
+  };
+}
+
+export function decodeComment(
+  data: SuiObjectData | null | undefined
+): Comment | null {
+  const f = structFields(data, "interactions", "Comment");
+  if (!f) return null;
+  return {
+    id: readId(f.id),
+    suitId: readId(f.suit_id),
+    commenter: readString(f.commenter),
+    content: readString(f.content),
+    createdAt: readU64(f.created_at),
+  };
+}
+
+export function decodeRetweet(
+  data: SuiObjectData | null | undefined
+): Retweet | null {
+  const f = structFields(data, "interactions", "Retweet");
+  if (!f) return null;
+  return {
+    id: readId(f.id),
+    originalSuitId: readId(f.original_suit_id),
+    retweeter: readString(f.retweeter),
+    createdAt: readU64(f.created_at),
+  };
+}
+
+export function decodeTipBalance(
+  data: SuiObjectData | null | undefined
+): TipBalance | null {
+  const f = structFields(data, "tipping", "TipBalance");
+  if (!f) return null;
+  return {
+    id: readId(f.id),
+    owner: readString(f.owner),
+    balance: readBalance(f.balance),
+    totalReceived: readU64(f.total_received),
+    totalWithdrawn: readU64(f.total_withdrawn),
+  };
+}
+
+export function decodeTipBalanceRegistry(
+  data: SuiObjectData | null | undefined
+): TipBalanceRegistry | null {
+  const f = structFields(data, "tipping", "TipBalanceRegistry");
+  if (!f) return null;
+  return {
+    id: readId(f.id),
+    balancesTableId: readId(unwrapFields(f.balances).id),
+  };
+}
+
+export function decodeFollowRegistry(
+  data: SuiObjectData | null | undefined
+): FollowRegistry | null {
+  const f = structFields(data, "follows", "FollowRegistry");
+  if (!f) return null;
+  return {
+    id: readId(f.id),
+    followsTableId: readId(unwrapFields(f.follows).id),
+    followersTableId: readId(unwrapFields(f.followers).id),
+    followingTableId: readId(unwrapFields(f.following).id),
+  };
+}
+
+/** Decode a `Message` stored inline in `Chat.messages` */
+export function decodeMessage(value: unknown, index: number): Message {
+  const f = unwrapFields(value);
+  return {
+    index,
+    sender: readString(f.sender),
+    encryptedMessage: readBytes(f.encrypted_message),
+    contentHash: readBytes(f.content_hash),
+    sentTimestamp: readU64(f.sent_timestamp),
+    isRead: f.is_read === true,
+  };
+}
+
+export function decodeChat(data: SuiObjectData | null | undefined): Chat | null {
+  const f = structFields(data, "messaging", "Chat");
+  if (!f) return null;
+  return {
+    id: readId(f.id),
+    participant1: readString(f.participant_1),
+    participant2: readString(f.participant_2),
+    messages: Array.isArray(f.messages) ? f.messages.map(decodeMessage) : [],
+    createdAt: readU64(f.created_at),
+  };
+}
+
+// ===== Event Decoders =====
+
+function eventFields(event: SuiEvent): MoveFields {
+  return (event.parsedJson ?? {}) as MoveFields;
+}
+
+export function decodeSuitCreated(event: SuiEvent): SuitCreatedEvent {
+  const f = eventFields(event);
+  return {
+    suitId: readId(f.suit_id),
+    creator: readString(f.creator),
+    contentPreview: readString(f.content_preview),
+    timestamp: readU64(f.timestamp),
+  };
+}
+
+export function decodeLikeCreated(event: SuiEvent): LikeCreatedEvent {
+  const f = eventFields(event);
+  return {
+    likeId: readId(f.like_id),
+    suitId: readId(f.suit_id),
+    liker: readString(f.liker),
+    timestamp: readU64(f.timestamp),
+  };
+}
+
+export function decodeCommentCreated(event: SuiEvent): CommentCreatedEvent {
+  const f = eventFields(event);
+  return {
+    commentId: readId(f.comment_id),
+    suitId: readId(f.suit_id),
+    commenter: readString(f.commenter),
+    timestamp: readU64(f.timestamp),
+  };
+}
+
+export function decodeRetweetCreated(event: SuiEvent): RetweetCreatedEvent {
+  const f = eventFields(event);
+  return {
+    retweetId: readId(f.retweet_id),
+    originalSuitId: readId(f.original_suit_id),
+    retweeter: readString(f.retweeter),
+    timestamp: readU64(f.timestamp),
+  };
+}
+
+export function decodeTipSent(event: SuiEvent): TipSentEvent {
+  const f = eventFields(event);
+  return {
+    suitId: readId(f.suit_id),
+    tipper: readString(f.tipper),
+    recipient: readString(f.recipient),
+    amount: readU64(f.amount),
+    timestamp: readU64(f.timestamp),
+    txDigest: event.id.txDigest,
+  };
+}
+
+export function decodeFundsWithdrawn(event: SuiEvent): FundsWithdrawnEvent {
+  const f = eventFields(event);
+  return {
+    owner: readString(f.owner),
+    amount: readU64(f.amount),
+    timestamp: readU64(f.timestamp),
+    txDigest: event.id.txDigest,
+  };
+}
+
+export function decodeChatCreated(event: SuiEvent): ChatCreatedEvent {
+  const f = eventFields(event);
+  return {
+    chatId: readId(f.chat_id),
+    participant1: readString(f.participant_1),
+    participant2: readString(f.participant_2),
+    timestamp: readU64(f.timestamp),
+  };
+}
+
+export function decodeMessageSent(event: SuiEvent): MessageSentEvent {
+  const f = eventFields(event);
+  return {
+    chatId: readId(f.chat_id),
+    sender: readString(f.sender),
+    receiver: readString(f.receiver),
+    messageIndex: readU64(f.message_index),
+    timestamp: readU64(f.timestamp),
+  };
+}
+
+export function decodeMessageRead(event: SuiEvent): MessageReadEvent {
+  const f = eventFields(event);
+  return {
+    chatId: readId(f.chat_id),
+    messageIndex: readU64(f.message_index),
+    reader: readString(f.reader),
+    originalSender: readString(f.original_sender),
+    timestamp: readU64(f.timestamp),
+  };
+}
+
+export function decodeProfileCreated(event: SuiEvent): ProfileCreatedEvent {
+  const f = eventFields(event);
+  return {
+    profileId: readId(f.profile_id),
+    owner: readString(f.owner),
+    username: readString(f.username),
+    timestamp: readU64(f.timestamp),
+  };
+}
+
+export function decodeProfileUpdated(event: SuiEvent): ProfileUpdatedEvent {
+  const f = eventFields(event);
+  return {
+    profileId: readId(f.profile_id),
+    owner: readString(f.owner),
+    timestamp: readU64(f.timestamp),
+  };
+}
+
+export function decodeFollowEvent(event: SuiEvent): FollowEvent {
+  const f = eventFields(event);
+  return {
+    follower: readString(f.follower),
+    followee: readString(f.followee),
+    timestamp: readU64(f.timestamp),
+  };
+}
+
+// ===== Client =====
+
+export interface EventPage<T> {
+  data: T[];
+  nextCursor: EventId | null;
+  hasNextPage: boolean;
+}
+
+export class SuitterClient {
+  private readonly loader: ObjectLoader;
+
+  constructor(
+    readonly suiClient: SuiClient,
+    readonly packageId: string
+  ) {
+    this.loader = new ObjectLoader(suiClient);
+  }
+
+  /** Single reads go through the loader so concurrent ones share a batch */
+  private getObjectData(id: string): Promise<SuiObjectData | null> {
+    return this.loader.load(id);
+  }
+
+  /** Load and decode several objects, skipping any that fail */
+  private async getMany<T>(
+    ids: string[],
+    load: (id: string) => Promise<T | null>,
+    label: string
+  ): Promise<T[]> {
+    const items: (T | null)[] = await Promise.all(
+      ids.map(async (id) => {
+        try {
+          return await load(id);
+        } catch (e) {
+          console.error(`Failed to fetch ${label} ${id}:`, e);
+          return null;
+        }
+      })
+    );
+    return items.filter((item): item is T => item !== null);
+  }
+
+  /**
+   * Resolve the package that defines an object's type, e.g. the package a
+   * Suit was created by, so calls against it don't depend on config
+   */
+  async getPackageIdOf(objectId: string): Promise<string> {
+    const data = await this.getObjectData(objectId);
+    const typeStr =
+      data?.content?.dataType === "moveObject" ? data.content.type : undefined;
+    if (!typeStr) {
+      throw new Error("Unable to resolve object type for package id");
+    }
+    // Expect format: 0xPACKAGE::module::Struct
+    const pkg = typeStr.split("::")[0];
+    if (!pkg?.startsWith("0x")) {
+      throw new Error("Invalid package id derived from object type");
+    }
+    return pkg;
+  }
+
+  async getSuitRegistry(id: string) {
+    return decodeSuitRegistry(await this.getObjectData(id));
+  }
+
+  async getSuit(id: string) {
+    return decodeSuit(await this.getObjectData(id));
+  }
+
+  /** Fetch several suits, skipping any that fail to load or decode */
+  async getSuits(ids: string[]): Promise<Suit[]> {
+    return this.getMany(ids, (id) => this.getSuit(id), "suit");
+  }
+
+  async getProfile(id: string) {
+    return decodeProfile(await this.getObjectData(id));
+  }
+
+  /** The first `Profile` owned by an address, if any */
+  async getProfileByOwner(owner: string): Promise<Profile | null> {
+    const res = await this.suiClient.getOwnedObjects({
+      owner,
+      filter: { StructType: suitterType("profile", "Profile", this.packageId) },
+      options: { showType: true, showContent: true },
+    });
+    return decodeProfile(res.data?.[0]?.data);
+  }
+
+  async getProfiles(ids: string[]): Promise<Profile[]> {
+    return this.getMany(ids, (id) => this.getProfile(id), "profile");
+  }
+
+  async getComment(id: string) {
+    return decodeComment(await this.getObjectData(id));
+  }
+
+  async getComments(ids: string[]): Promise<Comment[]> {
+    return this.getMany(ids, (id) => this.getComment(id), "comment");
+  }
+
+  async getChat(id: string) {
+    return decodeChat(await this.getObjectData(id));
+  }
+
+  async getChats(ids: string[]): Promise<Chat[]> {
+    return this.getMany(ids, (id) => this.getChat(id), "chat");
+  }
+
+  async getTipBalance(id: string) {
+    return decodeTipBalance(await this.getObjectData(id));
+  }
+
+  async getTipBalanceRegistry(id: string) {
+    return decodeTipBalanceRegistry(await this.getObjectData(id));
+  }
+
+  /**
+   * The value stored under `name` in a `Table`, or null if the key is absent.
+   * Table entries are dynamic fields keyed by the table's key type.
+   */
+  private async getTableValue(
+    tableId: string,
+    name: { type: string; value: unknown }
+  ): Promise<unknown> {
+    const res = await this.suiClient.getDynamicFieldObject({
+      parentId: tableId,
+      name,
+    });
+    const content = res.data?.content;
+    if (content?.dataType !== "moveObject") return null;
+    return unwrapFields(content.fields).value ?? null;
+  }
+
+  /**
+   * The `TipBalance` registered for `owner` in `TipBalanceRegistry.balances`,
+   * or null if they have never created one
+   */
+  async getTipBalanceId(
+    owner: string,
+    registryId: string
+  ): Promise<string | null> {
+    const registry = await this.getTipBalanceRegistry(registryId);
+    if (!registry) {
+      throw new Error("TipBalanceRegistry not found");
+    }
+    const value = await this.getTableValue(registry.balancesTableId, {
+      type: "address",
+      value: owner,
+    });
+    return readId(value) || null;
+  }
+
+  async getFollowRegistry(id: string) {
+    return decodeFollowRegistry(await this.getObjectData(id));
+  }
+
+  /** Whether `follower` follows `followee`, per `FollowRegistry.follows` */
+  async isFollowing(
+    follower: string,
+    followee: string,
+    registryId: string
+  ): Promise<boolean> {
+    const registry = await this.getFollowRegistry(registryId);
+    if (!registry) {
+      throw new Error("FollowRegistry not found");
+    }
+    // follows::create_follow_key: BCS(follower) ++ BCS(followee)
+    const key = [
+      ...bcs.Address.serialize(follower).toBytes(),
+      ...bcs.Address.serialize(followee).toBytes(),
+    ];
+    const value = await this.getTableValue(registry.followsTableId, {
+      type: "vector<u8>",
+      value: key,
+    });
+    return value !== null;
+  }
+
+  /** Followers and following counts; addresses never followed read as 0 */
+  async getFollowCounts(
+    address: string,
+    registryId: string
+  ): Promise<FollowCounts> {
+    const registry = await this.getFollowRegistry(registryId);
+    if (!registry) {
+      throw new Error("FollowRegistry not found");
+    }
+    const name = { type: "address", value: address };
+    const [followers, following] = await Promise.all([
+      this.getTableValue(registry.followersTableId, name),
+      this.getTableValue(registry.followingTableId, name),
+    ]);
+    return { followers: readU64(followers), following: readU64(following) };
+  }
+
+  /** Every object of one struct type owned by `owner`, across all pages */
+  private async getAllOwned<T>(
+    owner: string,
+    structType: string,
+    decode: (data: SuiObjectData | null | undefined) => T | null
+  ): Promise<T[]> {
+    const items: T[] = [];
+    let cursor: string | null | undefined = null;
+    do {
+      const res = await this.suiClient.getOwnedObjects({
+        owner,
+        filter: { StructType: structType },
+        options: { showType: true, showContent: true },
+        cursor,
+      });
+      for (const obj of res.data) {
+        const item = decode(obj.data);
+        if (item !== null) items.push(item);
+      }
+      cursor = res.hasNextPage ? res.nextCursor : null;
+    } while (cursor);
+    return items;
+  }
+
+  async getOwnedLikes(owner: string, packageId: string = this.packageId) {
+    return this.getAllOwned(
+      owner,
+      suitterType("interactions", "Like", packageId),
+      decodeLike
+    );
+  }
+
+  async getOwnedRetweets(owner: string, packageId: string = this.packageId) {
+    return this.getAllOwned(
+      owner,
+      suitterType("interactions", "Retweet", packageId),
+      decodeRetweet
+    );
+  }
+
+  /** Query one page of a package event and decode it */
+  async queryEvents<T>(
+    module: SuitterModule,
+    name: string,
+    decode: (event: SuiEvent) => T,
+    options: {
+      limit?: number;
+      cursor?: EventId | null;
+      descending?: boolean;
+      packageId?: string;
+    } = {}
+  ): Promise<EventPage<T>> {
+    const res = await this.suiClient.queryEvents({
+      query: {
+        MoveEventType: suitterType(
+          module,
+          name,
+          options.packageId ?? this.packageId
+        ),
+      },
+      cursor: options.cursor ?? null,
+      limit: options.limit,
+      order: options.descending ? "descending" : "ascending",
+    });
+    return {
+      data: res.data.map(decode),
+      nextCursor: res.nextCursor ?? null,
+      hasNextPage: res.hasNextPage,
+    };
+  }
+
+  /**
+   * Every emitted instance of a package event, newest first. The filter is
+   * network-wide, so this reads each page to the end rather than a recent
+   * window; callers filtering for one account would otherwise lose its
+   * older history without knowing.
+   */
+  async queryAllEvents<T>(
+    module: SuitterModule,
+    name: string,
+    decode: (event: SuiEvent) => T,
+    options: { packageId?: string } = {}
+  ): Promise<T[]> {
+    const events: T[] = [];
+    let cursor: EventId | null = null;
+    for (;;) {
+      const res: EventPage<T> = await this.queryEvents(module, name, decode, {
+        limit: 50,
+        cursor,
+        descending: true,
+        packageId: options.packageId,
+      });
+      events.push(...res.data);
+      if (!res.hasNextPage || !res.nextCursor) return events;
+      cursor = res.nextCursor;
+    }
+  }
+
+  /**
+   * Every event emitted by calls into one of the package's modules, newest
+   * first and in the order they happened, whatever their type. Queries by
+   * type can't order two types against each other: events in one checkpoint
+   * share a timestamp, and transaction digests aren't ordered.
+   */
+  async queryAllModuleEvents(module: SuitterModule): Promise<SuiEvent[]> {
+    const events: SuiEvent[] = [];
+    let cursor: EventId | null = null;
+    for (;;) {
+      const res: PaginatedEvents = await this.suiClient.queryEvents({
+        query: { MoveModule: { package: this.packageId, module } },
+        cursor,
+        limit: 50,
+        order: "descending",
+      });
+      events.push(...res.data);
+      if (!res.hasNextPage || !res.nextCursor) return events;
+      cursor = res.nextCursor;
+    }
+  }
+
+  /** The newest event's ID, to read on from with `queryEventsSince` */
+  async latestEventCursor(
+    module: SuitterModule,
+    name: string
+  ): Promise<EventId | null> {
+    const res = await this.queryEvents(module, name, (event) => event.id, {
+      limit: 1,
+      descending: true,
+    });
+    return res.data[0] ?? null;
+  }
+
+  /**
+   * Events after `cursor` (from the first for null), oldest first, up to
+   * `maxPages` pages. `cursor` is where to read on from next time, and
+   * `hasNextPage` whether there was more to read already.
+   */
+  async queryEventsSince<T>(
+    module: SuitterModule,
+    name: string,
+    decode: (event: SuiEvent) => T,
+    cursor: EventId | null,
+    options: { maxPages?: number } = {}
+  ): Promise<{ data: T[]; cursor: EventId | null; hasNextPage: boolean }> {
+    const events: T[] = [];
+    let hasNextPage = false;
+    for (let page = 0; page < (options.maxPages ?? 5); page++) {
+      const res: EventPage<T> = await this.queryEvents(module, name, decode, {
+        limit: 50,
+        cursor,
+      });
+      events.push(...res.data);
+      cursor = res.nextCursor ?? cursor;
+      hasNextPage = res.hasNextPage;
+      if (!hasNextPage) break;
+    }
+    return { data: events, cursor, hasNextPage };
+  }
+}
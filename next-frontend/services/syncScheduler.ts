@@ -0,0 +1,126 @@
+// Background refreshes run through one scheduler rather than each keeping
+// its own interval. A task reports whether its run found anything new: if it
+// did, it runs again after its shortest interval, and each run that finds
+// nothing doubles the wait up to its longest. `boost` brings a task back to
+// its shortest interval, as after sending something. Nothing runs while the
+// tab is hidden; every task runs as soon as it is shown or focused again.
+
+/** Resolves true if the run found anything new */
+export type SyncTask = () => Promise<boolean>;
+
+export interface SyncTaskOptions {
+  /** Wait after a run that found changes, and after a boost (ms) */
+  minInterval: number;
+  /** Longest wait while runs keep finding nothing (ms) */
+  maxInterval: number;
+}
+
+interface ScheduledTask {
+  key: string;
+  run: SyncTask;
+  options: SyncTaskOptions;
+  interval: number;
+  timer: ReturnType<typeof setTimeout> | null;
+  running: boolean;
+  /** Boosted or resumed while running: run again right after */
+  rerun: boolean;
+}
+
+export class SyncScheduler {
+  private tasks = new Set<ScheduledTask>();
+
+  private readonly onVisible = () => {
+    if (this.isHidden()) return;
+    for (const task of this.tasks) {
+      task.interval = task.options.minInterval;
+      this.runSoon(task);
+    }
+  };
+
+  /**
+   * Run `run` now and then on its own cadence until the returned function
+   * is called. Several tasks may share a key; `boost` speeds up all of them.
+   */
+  register(key: string, run: SyncTask, options: SyncTaskOptions): () => void {
+    const task: ScheduledTask = {
+      key,
+      run,
+      options,
+      interval: options.minInterval,
+      timer: null,
+      running: false,
+      rerun: false,
+    };
+    if (this.tasks.size === 0) this.listen(true);
+    this.tasks.add(task);
+    this.runSoon(task);
+
+    return () => {
+      if (task.timer) clearTimeout(task.timer);
+      task.timer = null;
+      this.tasks.delete(task);
+      if (this.tasks.size === 0) this.listen(false);
+    };
+  }
+
+  /** Run the tasks under `key` now and go back to their shortest interval */
+  boost(key: string) {
+    for (const task of this.tasks) {
+      if (task.key !== key) continue;
+      task.interval = task.options.minInterval;
+      this.runSoon(task);
+    }
+  }
+
+  private isHidden() {
+    return typeof document !== "undefined" && document.hidden;
+  }
+
+  private listen(on: boolean) {
+    if (typeof document === "undefined") return;
+    const method = on ? "addEventListener" : "removeEventListener";
+    document[method]("visibilitychange", this.onVisible);
+    window[method]("focus", this.onVisible);
+  }
+
+  private runSoon(task: ScheduledTask) {
+    if (task.running) {
+      task.rerun = true;
+      return;
+    }
+    this.schedule(task, 0);
+  }
+
+  private schedule(task: ScheduledTask, delay: number) {
+    if (task.timer) clearTimeout(task.timer);
+    task.timer = setTimeout(() => {
+      task.timer = null;
+      // While hidden the task waits for `onVisible` instead
+      if (!this.isHidden()) this.run(task);
+    }, delay);
+  }
+
+  private async run(task: ScheduledTask) {
+    task.running = true;
+    task.rerun = false;
+    let changed = false;
+    try {
+      changed = await task.run();
+    } catch (err) {
+      console.error(`Sync task ${task.key} failed:`, err);
+    } finally {
+      task.running = false;
+    }
+    if (!this.tasks.has(task)) return;
+
+    if (changed) task.interval = task.options.minInterval;
+    const wait = task.interval;
+    if (!changed) {
+      task.interval = Math.min(task.interval * 2, task.options.maxInterval);
+    }
+    this.schedule(task, task.rerun ? 0 : wait);
+  }
+}
+
+/** Shared by every hook that refreshes in the background */
+export const syncScheduler = new SyncScheduler();
@@ -193,6 +193,39 @@ export class WalrusService {
     return `${WALRUS_AGGREGATOR_URL}/v1/blobs/${blobId}`;
   }
 
+  /**
+   * Download a blob's bytes, falling back to the backup aggregator.
+   * Resolves to null if no aggregator has the blob, e.g. once the epochs it
+   * was stored for have passed.
+   */
+  static async downloadBlob(blobId: string): Promise<ArrayBuffer | null> {
+    const aggregatorUrls = [WALRUS_AGGREGATOR_URL, BACKUP_AGGREGATOR_URL];
+    let notFound = 0;
+    let lastError: unknown = null;
+
+    for (const aggregatorUrl of aggregatorUrls) {
+      try {
+        const response = await axios.get<ArrayBuffer>(`${aggregatorUrl}/v1/blobs/${blobId}`, {
+          responseType: 'arraybuffer',
+          timeout: 60000,
+        });
+        return response.data;
+      } catch (error) {
+        console.warn(`Failed to download blob from ${aggregatorUrl}:`, error);
+        if (axios.isAxiosError(error) && error.response?.status === 404) {
+          notFound++;
+        } else {
+          lastError = error;
+        }
+      }
+    }
+
+    if (notFound === aggregatorUrls.length) {
+      return null;
+    }
+    throw new Error(`Failed to download from Walrus: ${lastError instanceof Error ? lastError.message : 'Unknown error'}`);
+  }
+
   /**
    * Check if a blob is available (certified) for reading
    */
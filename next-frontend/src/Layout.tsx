@@ -1,10 +1,11 @@
 import { Outlet } from 'react-router-dom'
+import { DeploymentBanner } from '../components/deployment-banner'
 
 export default function Layout() {
   return (
     <div className="font-sans antialiased">
+      <DeploymentBanner />
       <Outlet />
     </div>
   )
 }
-
@@ -4,10 +4,11 @@ import { MinimalHeader } from '../../components/minimal-header'
 import { AppSidebar } from '../../components/app-sidebar'
 import { ComposeModal } from '../../components/compose-modal'
 import { TrendingSidebar } from '../../components/trending-sidebar'
+import { EarningsSection } from '../../components/earnings-section'
 import { useCurrentAccount, useSuiClient } from '@mysten/dapp-kit'
-// import CONFIG from '../../config'
-
-// const PACKAGE_ID = CONFIG.VITE_PACKAGE_ID
+import { useQueryClient } from '@tanstack/react-query'
+import { decodeSuit } from '../../services/suitter'
+import { suitterKeys } from '../../hooks/queryKeys'
 
 interface Bid {
   id: string
@@ -23,6 +24,7 @@ interface Bid {
 function AssetsContent() {
   const currentAccount = useCurrentAccount()
   const suiClient = useSuiClient()
+  const queryClient = useQueryClient()
   const address = currentAccount?.address
   const isConnected = !!currentAccount
   const [isSidebarOpen, setIsSidebarOpen] = useState(false)
@@ -35,6 +37,7 @@ function AssetsContent() {
   const [suits, setSuits] = useState<any[]>([])
   const [nfts, setNfts] = useState<any[]>([])
   const [isLoadingSuits, setIsLoadingSuits] = useState(true)
+  const [earningsKey, setEarningsKey] = useState(0)
 
   // Fetch real SUI balance
   const fetchBalance = async () => {
@@ -76,25 +79,23 @@ function AssetsContent() {
       const userNfts: any[] = []
 
       ownedObjects.data.forEach((obj) => {
-        const objType = obj.data?.type
-        const content = obj.data?.content as any
-        const fields = content?.fields
+        const suit = decodeSuit(obj.data)
 
-        if (objType?.includes('::suits::Suit')) {
+        if (suit) {
           // It's a Suit
           userSuits.push({
-            id: obj.data?.objectId || '',
-            name: `Suit #${obj.data?.objectId?.slice(-4)}`,
-            description: fields?.content || 'A unique Suit NFT',
+            id: suit.id,
+            name: `Suit #${suit.id.slice(-4)}`,
+            description: suit.content || 'A unique Suit NFT',
             image: '🤵',
-            objectId: obj.data?.objectId || '',
+            objectId: suit.id,
             value: 0, // Could calculate based on engagement
             isOwned: true,
             rarity: 'Common',
-            creator: fields?.creator || '',
-            content: fields?.content || '',
-            likes: parseInt(fields?.like_count) || 0,
-            createdAt: parseInt(fields?.created_at) || Date.now(),
+            creator: suit.creator,
+            content: suit.content,
+            likes: suit.likeCount,
+            createdAt: suit.createdAt || Date.now(),
           })
         } else {
           // It's another NFT
@@ -144,7 +145,13 @@ function AssetsContent() {
 
   const handleRefresh = async () => {
     setIsRefreshing(true)
-    await Promise.all([fetchBalance(), fetchUserAssets()])
+    await Promise.all([
+      fetchBalance(),
+      fetchUserAssets(),
+      address && queryClient.invalidateQueries({ queryKey: suitterKeys.earnings(address) }),
+    ])
+    // Remount so the earnings section reads the refreshed queries
+    setEarningsKey((key) => key + 1)
     setTimeout(() => setIsRefreshing(false), 1000)
   }
 
@@ -305,6 +312,9 @@ function AssetsContent() {
               </div>
             </div>
 
+            {/* Creator Earnings */}
+            {address && <EarningsSection key={earningsKey} address={address} />}
+
             {/* Tabs */}
             <div className="border-b border-border">
               <div className="flex">
@@ -1,80 +1,180 @@
-import { Bookmark } from 'lucide-react'
-import { Heart, MessageCircle, Repeat2, Share } from 'lucide-react'
+import { Bookmark, FolderPlus, Trash2, X } from 'lucide-react'
 import { MinimalHeader } from '../../components/minimal-header'
 import { AppSidebar } from '../../components/app-sidebar'
 import { SuiProvider } from '../../components/sui-context'
 import { ComposeModal } from '../../components/compose-modal'
 import { TrendingSidebar } from '../../components/trending-sidebar'
-import { useState } from 'react'
-
-interface BookmarkedPost {
-  id: string
-  author: string
-  handle: string
-  content: string
-  timestamp: number
-  likes: number
-  replies: number
-  reposts: number
-  liked: boolean
-}
+import { SuitCard } from '../../components/suit-card'
+import { useEffect, useRef, useState } from 'react'
+import { useCurrentAccount } from '@mysten/dapp-kit'
+import { useBookmarks, type BookmarkStatus } from '../../hooks/useBookmarks'
+import { useProfile } from '../../hooks/useProfile'
+import { useInteractions, type InteractionState } from '../../hooks/useInteractions'
+import { useOptimisticInteractions } from '../../hooks/useOptimisticInteractions'
+import { useSuitOverrides, withOverride } from '../../hooks/useSuitOverrides'
+import { useToast } from '../../providers/ToastProvider'
+import type { Bookmark as SavedBookmark } from '../../services/bookmarkStorage'
+import { truncateAddress } from '@/lib/utils'
 
-const SAMPLE_BOOKMARKS: BookmarkedPost[] = [
-  {
-    id: '1',
-    author: 'Sui Foundation',
-    handle: 'suifoundation',
-    content: 'Suiter represents the future of decentralized social networks. No censorship, pure connection.',
-    timestamp: Date.now() - 2 * 60 * 60 * 1000,
-    likes: 1234,
-    replies: 342,
-    reposts: 856,
-    liked: false,
-  },
-  {
-    id: '2',
-    author: 'Developer Daily',
-    handle: 'devdaily',
-    content: 'Building with React and TypeScript on Sui feels incredible. The performance is unmatched.',
-    timestamp: Date.now() - 4 * 60 * 60 * 1000,
-    likes: 892,
-    replies: 156,
-    reposts: 423,
-    liked: false,
-  },
-  {
-    id: '3',
-    author: 'Web3 Daily',
-    handle: 'web3daily',
-    content: 'Monochrome elegance meets blockchain. Suiter proves that minimalism and functionality go hand in hand.',
-    timestamp: Date.now() - 6 * 60 * 60 * 1000,
-    likes: 2156,
-    replies: 678,
-    reposts: 1245,
-    liked: false,
-  },
-]
+// 'all', 'unsorted' or a folder ID
+type FolderFilter = string
 
 function BookmarksContent() {
   const [isSidebarOpen, setIsSidebarOpen] = useState(false)
   const [isComposeOpen, setIsComposeOpen] = useState(false)
-  const [bookmarks, setBookmarks] = useState<BookmarkedPost[]>(SAMPLE_BOOKMARKS)
-
-  const toggleLike = (id: string) => {
-    setBookmarks(bookmarks.map(post =>
-      post.id === id
-        ? { ...post, liked: !post.liked, likes: post.liked ? post.likes - 1 : post.likes + 1 }
-        : post
-    ))
+  const address = useCurrentAccount()?.address ?? null
+  const {
+    isLoaded,
+    bookmarks,
+    folders,
+    toggle,
+    remove,
+    refresh,
+    createFolder,
+    deleteFolder,
+    moveToFolder,
+  } = useBookmarks()
+  const { fetchProfileByAddress } = useProfile()
+  const { fetchInteractionState } = useInteractions()
+  const { toggleLike, toggleRepost } = useOptimisticInteractions()
+  const overrides = useSuitOverrides()
+  const { toast } = useToast()
+  const [filter, setFilter] = useState<FolderFilter>('all')
+  const [statuses, setStatuses] = useState<Record<string, BookmarkStatus>>({})
+  const [isRefreshing, setIsRefreshing] = useState(false)
+  const [names, setNames] = useState<Record<string, string>>({})
+  const [interactions, setInteractions] = useState<InteractionState | null>(null)
+  const [newFolderName, setNewFolderName] = useState('')
+  const [isNamingFolder, setIsNamingFolder] = useState(false)
+  // The wallet whose bookmarks were last re-read, so each is read once
+  const refreshedForRef = useRef<string | null>(null)
+
+  // Re-read every bookmark once the wallet's bookmarks have loaded
+  useEffect(() => {
+    if (!isLoaded || !address || refreshedForRef.current === address) return
+    refreshedForRef.current = address
+    setIsRefreshing(true)
+    Promise.all([refresh(), fetchInteractionState(address)])
+      .then(([next, state]) => {
+        setStatuses(next)
+        setInteractions(state)
+      })
+      .finally(() => setIsRefreshing(false))
+  }, [isLoaded, address, refresh, fetchInteractionState])
+
+  // Authors' usernames, for creators not looked up yet
+  useEffect(() => {
+    const missing = [...new Set(bookmarks.map((b) => b.snapshot.creator))]
+      .filter((creator) => !(creator in names))
+    if (missing.length === 0) return
+    ;(async () => {
+      const entries = await Promise.all(
+        missing.map(async (creator) => {
+          const profile = await fetchProfileByAddress(creator)
+          return [creator, profile?.username || truncateAddress(creator)] as const
+        })
+      )
+      setNames((prev) => ({ ...prev, ...Object.fromEntries(entries) }))
+    })()
+  }, [bookmarks, names, fetchProfileByAddress])
+
+  // A folder deleted elsewhere shouldn't leave the list filtered by it
+  useEffect(() => {
+    if (filter !== 'all' && filter !== 'unsorted' && !folders.some((f) => f.id === filter)) {
+      setFilter('all')
+    }
+  }, [filter, folders])
+
+  const shown = bookmarks.filter((b) =>
+    filter === 'all' ? true : filter === 'unsorted' ? b.folderId === null : b.folderId === filter
+  )
+
+  const toCard = (bookmark: SavedBookmark) => {
+    const suit = bookmark.snapshot
+    const name = names[suit.creator] ?? truncateAddress(suit.creator)
+    return withOverride(
+      {
+        id: suit.id,
+        author: name,
+        handle: name,
+        avatar: suit.creator.slice(-2).toUpperCase(),
+        authorAddress: suit.creator,
+        content: suit.content,
+        timestamp: suit.createdAt,
+        likes: suit.likeCount,
+        replies: suit.commentCount,
+        reposts: suit.retweetCount,
+        tipTotal: suit.tipTotal,
+        liked: !!interactions?.liked[suit.id],
+        reposted: !!interactions?.reposted[suit.id],
+        media:
+          suit.mediaUrls.length > 0
+            ? { type: 'image' as const, url: suit.mediaUrls[0] }
+            : undefined,
+      },
+      overrides[suit.id]
+    )
+  }
+
+  const showError = (title: string, error: unknown) => {
+    toast({
+      title,
+      description: error instanceof Error ? error.message : undefined,
+      variant: 'error',
+    })
+  }
+
+  const handleCreateFolder = async (e: React.FormEvent) => {
+    e.preventDefault()
+    try {
+      const folder = await createFolder(newFolderName)
+      setNewFolderName('')
+      setIsNamingFolder(false)
+      setFilter(folder.id)
+    } catch (error) {
+      showError("Couldn't create the folder", error)
+    }
+  }
+
+  const handleMove = (suitId: string, folderId: string) => {
+    moveToFolder(suitId, folderId || null).catch((error) =>
+      showError("Couldn't move the bookmark", error)
+    )
+  }
+
+  const handleLike = (id: string) => {
+    const bookmark = bookmarks.find((b) => b.suitId === id)
+    if (address && bookmark) toggleLike(toCard(bookmark))
   }
 
+  const handleRepost = (id: string) => {
+    const bookmark = bookmarks.find((b) => b.suitId === id)
+    if (address && bookmark) toggleRepost(toCard(bookmark))
+  }
+
+  const folderTab = (value: FolderFilter, label: string) => (
+    <button
+      key={value}
+      onClick={() => setFilter(value)}
+      className={`px-3 py-1 rounded-full text-sm font-semibold whitespace-nowrap transition-colors ${
+        filter === value
+          ? 'bg-foreground text-background'
+          : 'border border-border text-muted-foreground hover:bg-muted'
+      }`}
+    >
+      {label}
+    </button>
+  )
+
+  const activeFolder = folders.find((f) => f.id === filter)
+
   return (
     <div className="flex flex-col h-screen bg-background">
       <MinimalHeader onMenuClick={() => setIsSidebarOpen(!isSidebarOpen)} />
 
       <div className="flex flex-1 overflow-hidden">
-        <AppSidebar 
-          isOpen={isSidebarOpen} 
+        <AppSidebar
+          isOpen={isSidebarOpen}
           onClose={() => setIsSidebarOpen(false)}
           onCompose={() => setIsComposeOpen(true)}
         />
@@ -83,69 +183,147 @@ function BookmarksContent() {
         <main className="flex-1 overflow-y-auto border-r border-border max-w-4xl">
         <div className="h-full flex flex-col overflow-y-auto">
           {/* Header */}
-          <div className="sticky top-0 bg-background/80 backdrop-blur border-b border-border px-4 py-3 z-10 flex items-center gap-3">
-            <Bookmark size={20} className="text-foreground" />
-            <h2 className="text-xl font-bold text-foreground">Bookmarks</h2>
+          <div className="sticky top-0 bg-background/80 backdrop-blur border-b border-border z-10">
+            <div className="px-4 py-3 flex items-center gap-3">
+              <Bookmark size={20} className="text-foreground" />
+              <h2 className="text-xl font-bold text-foreground">Bookmarks</h2>
+              {isRefreshing && (
+                <span className="text-xs text-muted-foreground">Refreshing...</span>
+              )}
+            </div>
+
+            {/* Folders */}
+            {address && (
+              <div className="px-4 pb-3 flex items-center gap-2 overflow-x-auto">
+                {folderTab('all', 'All')}
+                {folderTab('unsorted', 'Unsorted')}
+                {folders.map((folder) => folderTab(folder.id, folder.name))}
+                {isNamingFolder ? (
+                  <form onSubmit={handleCreateFolder} className="flex items-center gap-1">
+                    <input
+                      autoFocus
+                      value={newFolderName}
+                      onChange={(e) => setNewFolderName(e.target.value)}
+                      placeholder="Folder name"
+                      className="px-3 py-1 rounded-full text-sm bg-muted/50 outline-none text-foreground"
+                    />
+                    <button
+                      type="button"
+                      onClick={() => setIsNamingFolder(false)}
+                      className="p-1 rounded-full hover:bg-muted text-muted-foreground"
+                      aria-label="Cancel"
+                    >
+                      <X size={16} />
+                    </button>
+                  </form>
+                ) : (
+                  <button
+                    onClick={() => setIsNamingFolder(true)}
+                    className="p-2 rounded-full hover:bg-muted text-muted-foreground"
+                    aria-label="New folder"
+                  >
+                    <FolderPlus size={16} />
+                  </button>
+                )}
+                {activeFolder && (
+                  <button
+                    onClick={() =>
+                      deleteFolder(activeFolder.id).catch((error) =>
+                        showError("Couldn't delete the folder", error)
+                      )
+                    }
+                    className="ml-auto p-2 rounded-full hover:bg-muted text-muted-foreground"
+                    aria-label={`Delete folder ${activeFolder.name}`}
+                    title="Delete folder (its bookmarks move to Unsorted)"
+                  >
+                    <Trash2 size={16} />
+                  </button>
+                )}
+              </div>
+            )}
           </div>
 
           {/* Bookmarks List */}
-          {bookmarks.length === 0 ? (
+          {!address ? (
             <div className="flex-1 flex items-center justify-center text-muted-foreground">
-              <p>You haven't bookmarked any posts yet</p>
+              <p>Connect your wallet to see your bookmarks</p>
+            </div>
+          ) : !isLoaded ? (
+            <div className="flex-1 flex items-center justify-center text-muted-foreground">
+              <p>Loading bookmarks...</p>
+            </div>
+          ) : shown.length === 0 ? (
+            <div className="flex-1 flex items-center justify-center text-muted-foreground">
+              <p>
+                {filter === 'all'
+                  ? "You haven't bookmarked any posts yet"
+                  : 'Nothing in this folder yet'}
+              </p>
             </div>
           ) : (
-            bookmarks.map((post) => (
-              <article
-                key={post.id}
-                className="border-b border-border p-4 hover:bg-muted/30 transition-colors cursor-pointer group"
-              >
-                <div className="flex gap-4">
-                  <div className="w-12 h-12 bg-muted rounded-full flex items-center justify-center text-sm font-bold flex-shrink-0">
-                    {post.handle.charAt(0).toUpperCase()}
-                  </div>
-                  <div className="flex-1 min-w-0">
-                    {/* Author Info */}
-                    <div className="flex items-center gap-1 text-sm">
-                      <span className="font-semibold text-foreground hover:underline">{post.author}</span>
-                      <span className="text-muted-foreground">@{post.handle}</span>
-                    </div>
-
-                    {/* Content */}
-                    <p className="mt-2 text-foreground break-words">{post.content}</p>
-
-                    {/* Engagement Stats */}
-                    <div className="mt-3 flex gap-4 text-xs text-muted-foreground">
-                      <span className="hover:underline cursor-pointer">{post.replies} replies</span>
-                      <span className="hover:underline cursor-pointer">{post.reposts} reposts</span>
-                      <span className="hover:underline cursor-pointer">{post.likes} likes</span>
-                    </div>
-
-                    {/* Action Buttons */}
-                    <div className="mt-3 flex justify-between text-muted-foreground max-w-xs opacity-0 group-hover:opacity-100 transition-opacity">
-                      <button className="flex items-center gap-2 p-2 rounded-full hover:bg-muted transition-colors">
-                        <MessageCircle size={16} />
-                      </button>
-                      <button className="flex items-center gap-2 p-2 rounded-full hover:bg-muted transition-colors">
-                        <Repeat2 size={16} />
-                      </button>
-                      <button
-                        onClick={() => toggleLike(post.id)}
-                        className="flex items-center gap-2 p-2 rounded-full hover:bg-muted transition-colors"
-                      >
-                        <Heart
-                          size={16}
-                          fill={post.liked ? 'currentColor' : 'none'}
-                          color={post.liked ? '#000' : 'currentColor'}
-                        />
-                      </button>
-                      <button className="flex items-center gap-2 p-2 rounded-full hover:bg-muted transition-colors">
-                        <Share size={16} />
-                      </button>
-                    </div>
+            shown.map((bookmark) => {
+              const status = statuses[bookmark.suitId]
+              const savedOn = new Date(bookmark.snapshotAt).toLocaleString()
+              return (
+                <div key={bookmark.suitId} className="border-b border-border">
+                  <div className="px-4 pt-3 flex items-center gap-2 text-xs text-muted-foreground">
+                    <select
+                      value={bookmark.folderId ?? ''}
+                      onChange={(e) => handleMove(bookmark.suitId, e.target.value)}
+                      className="bg-transparent border border-border rounded-full px-2 py-0.5"
+                      aria-label="Folder"
+                    >
+                      <option value="">Unsorted</option>
+                      {folders.map((folder) => (
+                        <option key={folder.id} value={folder.id}>
+                          {folder.name}
+                        </option>
+                      ))}
+                    </select>
+                    {status === 'stale' && (
+                      <span>Couldn't refresh this suit; showing the copy from {savedOn}</span>
+                    )}
                   </div>
+
+                  {status === 'removed' ? (
+                    <article className="p-4">
+                      <div className="rounded-xl border border-dashed border-border p-4">
+                        <p className="text-sm font-semibold text-foreground">
+                          This suit is no longer on chain
+                        </p>
+                        <p className="mt-1 text-xs text-muted-foreground">
+                          Saved copy from {savedOn}, by{' '}
+                          {names[bookmark.snapshot.creator] ??
+                            truncateAddress(bookmark.snapshot.creator)}
+                          :
+                        </p>
+                        <p className="mt-2 text-muted-foreground break-words">
+                          {bookmark.snapshot.content}
+                        </p>
+                        <button
+                          onClick={() =>
+                            remove(bookmark.suitId).catch((error) =>
+                              showError("Couldn't remove this bookmark", error)
+                            )
+                          }
+                          className="mt-3 text-sm font-semibold text-foreground hover:underline"
+                        >
+                          Remove bookmark
+                        </button>
+                      </div>
+                    </article>
+                  ) : (
+                    <SuitCard
+                      {...toCard(bookmark)}
+                      onLike={handleLike}
+                      onRepost={handleRepost}
+                      onBookmark={toggle}
+                      bookmarked
+                    />
+                  )}
                 </div>
-              </article>
-            ))
+              )
+            })
           )}
         </div>
         </main>
@@ -165,4 +343,3 @@ export default function BookmarksPage() {
     </SuiProvider>
   )
 }
-
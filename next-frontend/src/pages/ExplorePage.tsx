@@ -7,6 +7,11 @@ import { ComposeModal } from '../../components/compose-modal'
 import { TrendingSidebar } from '../../components/trending-sidebar'
 import { SuitCard } from '../../components/suit-card'
 import { useSearch, SearchResult } from '../../hooks/useSearch'
+import { useInteractions, type InteractionState } from '../../hooks/useInteractions'
+import { useOptimisticInteractions } from '../../hooks/useOptimisticInteractions'
+import { useSuitOverrides, withOverride, type SuitCounts } from '../../hooks/useSuitOverrides'
+import { useBookmarks } from '../../hooks/useBookmarks'
+import { useCurrentAccount } from '@mysten/dapp-kit'
 import { truncateAddress } from '@/lib/utils'
 
 interface Category {
@@ -32,7 +37,12 @@ function ExploreContent() {
   const [searchFilter, setSearchFilter] = useState<'all' | 'users' | 'posts'>('all')
   const [isSearchActive, setIsSearchActive] = useState(false)
   const { search, isSearching } = useSearch()
-  const [bookmarks, setBookmarks] = useState<Set<string>>(new Set())
+  const { isBookmarked, toggle: toggleBookmark } = useBookmarks()
+  const address = useCurrentAccount()?.address
+  const { fetchInteractionState } = useInteractions()
+  const [interactions, setInteractions] = useState<InteractionState | null>(null)
+  const { toggleLike, toggleRepost } = useOptimisticInteractions()
+  const overrides = useSuitOverrides()
 
   // Debounced search effect
   useEffect(() => {
@@ -43,8 +53,12 @@ function ExploreContent() {
           users: searchFilter === 'all' || searchFilter === 'users',
           posts: searchFilter === 'all' || searchFilter === 'posts',
         }
-        const results = await search(searchQuery, filters)
+        const [results, state] = await Promise.all([
+          search(searchQuery, filters),
+          address ? fetchInteractionState(address) : null,
+        ])
         setSearchResults(results)
+        setInteractions(state)
       } else {
         setIsSearchActive(false)
         setSearchResults([])
@@ -52,22 +66,39 @@ function ExploreContent() {
     }, 500) // 500ms debounce
 
     return () => clearTimeout(timeoutId)
-  }, [searchQuery, searchFilter, search])
+  }, [searchQuery, searchFilter, search, address, fetchInteractionState])
+
+  // Counts and flags as shown, including any pending or settled toggles
+  const countsFor = (result: SearchResult): SuitCounts =>
+    withOverride(
+      {
+        id: result.id,
+        likes: result.likeCount || 0,
+        reposts: result.retweetCount || 0,
+        replies: result.commentCount || 0,
+        liked: !!interactions?.liked[result.id],
+        reposted: !!interactions?.reposted[result.id],
+      },
+      overrides[result.id]
+    )
+
+  const findCounts = (id: string) => {
+    const result = searchResults.find((r) => r.id === id)
+    return result && countsFor(result)
+  }
 
   const handleLike = (id: string) => {
-    console.log('Like post:', id)
+    const counts = findCounts(id)
+    if (address && counts) toggleLike(counts)
   }
 
-  const handleBookmark = (id: string, isBookmarked: boolean) => {
-    setBookmarks(prev => {
-      const newBookmarks = new Set(prev)
-      if (isBookmarked) {
-        newBookmarks.add(id)
-      } else {
-        newBookmarks.delete(id)
-      }
-      return newBookmarks
-    })
+  const handleRepost = (id: string) => {
+    const counts = findCounts(id)
+    if (address && counts) toggleRepost(counts)
+  }
+
+  const handleBookmark = (id: string, bookmarked: boolean) => {
+    if (address) toggleBookmark(id, bookmarked)
   }
 
   return (
@@ -183,6 +214,7 @@ function ExploreContent() {
                           )
                         } else {
                           // Post result
+                          const counts = countsFor(result)
                           return (
                             <div
                               key={result.id}
@@ -195,11 +227,11 @@ function ExploreContent() {
                                 avatar={result.creator?.slice(-2).toUpperCase() || '??'}
                                 content={result.content || ''}
                                 timestamp={result.createdAt || Date.now()}
-                                likes={result.likeCount || 0}
-                                replies={result.commentCount || 0}
-                                reposts={result.retweetCount || 0}
-                                liked={false}
-                                reposted={false}
+                                likes={counts.likes}
+                                replies={counts.replies}
+                                reposts={counts.reposts}
+                                liked={counts.liked}
+                                reposted={counts.reposted}
                                 isNFT={true}
                                 nftValue={0}
                                 currentBid={0}
@@ -213,8 +245,9 @@ function ExploreContent() {
                                     : undefined
                                 }
                                 onLike={handleLike}
+                                onRepost={handleRepost}
                                 onBookmark={handleBookmark}
-                                bookmarked={bookmarks.has(result.id)}
+                                bookmarked={isBookmarked(result.id)}
                               />
                             </div>
                           )
@@ -9,6 +9,7 @@ import { TrendingSidebar } from '../../components/trending-sidebar'
 export default function FeedPage() {
   const [isSidebarOpen, setIsSidebarOpen] = useState(false)
   const [isComposeOpen, setIsComposeOpen] = useState(false)
+  const [following, setFollowing] = useState(false)
 
   return (
     <SuiProvider>
@@ -23,8 +24,23 @@ export default function FeedPage() {
           />
 
           {/* Vertical Feed */}
-          <main className="flex-1 overflow-hidden bg-black">
-            <FeedVertical />
+          <main className="flex-1 overflow-hidden bg-black relative">
+            <div className="absolute top-4 left-1/2 -translate-x-1/2 z-20 flex gap-1 bg-black/40 backdrop-blur rounded-full p-1">
+              {[false, true].map((value) => (
+                <button
+                  key={String(value)}
+                  onClick={() => setFollowing(value)}
+                  className={`px-4 py-1 rounded-full text-sm font-semibold transition-colors ${
+                    following === value
+                      ? 'bg-white text-black'
+                      : 'text-white hover:bg-white/20'
+                  }`}
+                >
+                  {value ? 'Following' : 'For You'}
+                </button>
+              ))}
+            </div>
+            <FeedVertical following={following} />
           </main>
 
           <TrendingSidebar />
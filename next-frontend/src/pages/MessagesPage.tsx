@@ -1,20 +1,51 @@
-import { Search, Send, ArrowLeft, Plus } from "lucide-react";
+import {
+  Search,
+  Send,
+  ArrowLeft,
+  Plus,
+  Lock,
+  ShieldAlert,
+  Check,
+  CheckCheck,
+  Paperclip,
+  X,
+} from "lucide-react";
 import { MinimalHeader } from "../../components/minimal-header";
 import { AppSidebar } from "../../components/app-sidebar";
 import { NewChatModal } from "../../components/new-chat-modal";
 import { SuiProvider } from "../../components/sui-context";
 import { ComposeModal } from "../../components/compose-modal";
+import {
+  formatFileSize,
+  MessageAttachmentView,
+} from "../../components/message-attachment";
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { useMessaging } from "../../hooks/useMessaging";
 import { useCurrentAccount } from "@mysten/dapp-kit";
+import {
+  checkAttachments,
+  type MessageAttachment,
+} from "../../services/messageAttachments";
 
 interface Message {
   id: string;
+  /** Position in the chat, null while sending */
+  index: number | null;
   sender: string;
   text: string;
+  attachments: MessageAttachment[];
+  /** Files still uploading while it sends */
+  pendingAttachments: number;
+  locked: boolean;
+  /** Its content hash doesn't match what was stored with it */
+  untrusted: boolean;
+  pending: boolean;
   timestamp: number;
   isSender: boolean;
+  isRead: boolean;
+  /** When the other participant read it, once known */
+  readAt: number | null;
 }
 
 function formatTime(timestamp: number): string {
@@ -34,10 +65,14 @@ function MessagesContent() {
     isSendingMessage,
     isCreatingChat,
     error: chatError,
+    needsSessionKey,
+    isInitializingSessionKey,
+    initializeSessionKey,
     startChat,
     sendMessage: sendMsg,
     fetchMessages,
     fetchChats,
+    markSeen,
   } = useMessaging();
 
   const [isSidebarOpen, setIsSidebarOpen] = useState(false);
@@ -45,7 +80,11 @@ function MessagesContent() {
   const [isNewChatOpen, setIsNewChatOpen] = useState(false);
   const [selectedChat, setSelectedChat] = useState<string | null>(null);
   const [inputValue, setInputValue] = useState("");
+  const [files, setFiles] = useState<File[]>([]);
+  const [fileError, setFileError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
   const [showMobileList, setShowMobileList] = useState(true);
+  const messageListRef = useRef<HTMLDivElement>(null);
 
   // Load messages when chat is selected
   useEffect(() => {
@@ -57,12 +96,43 @@ function MessagesContent() {
   // Convert messages to UI format
   const messages: Message[] = chatMessages.map((msg: any) => ({
     id: msg.id,
+    index: msg.index,
     sender: msg.sender,
     text: msg.text || "",
+    attachments: msg.attachments ?? [],
+    pendingAttachments: msg.pendingAttachments ?? 0,
+    locked: msg.locked,
+    untrusted: msg.integrity === "untrusted",
+    pending: msg.pending,
     timestamp: msg.timestamp || Date.now(),
     isSender: msg.sender === currentAccount?.address,
+    isRead: msg.is_read,
+    readAt: msg.readAt,
   }));
 
+  // Mark the other participant's messages read as they scroll into view.
+  // Locked ones haven't been read yet, whatever is on screen.
+  useEffect(() => {
+    const list = messageListRef.current;
+    if (!selectedChat || !list || typeof IntersectionObserver === "undefined") {
+      return;
+    }
+    const observer = new IntersectionObserver(
+      (entries) => {
+        for (const entry of entries) {
+          if (!entry.isIntersecting) continue;
+          const index = (entry.target as HTMLElement).dataset.unreadIndex;
+          markSeen(selectedChat, Number(index));
+        }
+      },
+      { root: list, threshold: 0.5 }
+    );
+    list
+      .querySelectorAll("[data-unread-index]")
+      .forEach((element) => observer.observe(element));
+    return () => observer.disconnect();
+  }, [selectedChat, chatMessages, markSeen]);
+
   const handleStartChat = async (receiverAddress: string) => {
     try {
       const result = await startChat(receiverAddress);
@@ -76,12 +146,33 @@ function MessagesContent() {
     }
   };
 
+  const handleAttachFiles = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const chosen = [...files, ...Array.from(e.target.files ?? [])];
+    // Let the same file be chosen again after it's removed
+    e.target.value = "";
+    try {
+      checkAttachments(chosen);
+      setFiles(chosen);
+      setFileError(null);
+    } catch (error) {
+      setFileError((error as Error).message);
+    }
+  };
+
+  const removeFile = (index: number) => {
+    setFiles((prev) => prev.filter((_, i) => i !== index));
+    setFileError(null);
+  };
+
+  const canSend = !!inputValue.trim() || files.length > 0;
+
   const handleSendMessage = async () => {
-    if (!inputValue.trim() || !selectedChat) return;
+    if (!canSend || !selectedChat) return;
 
     try {
-      await sendMsg(selectedChat, inputValue);
+      await sendMsg(selectedChat, inputValue, files);
       setInputValue("");
+      setFiles([]);
     } catch (error) {
       console.error("Error sending message:", error);
     }
@@ -195,7 +286,11 @@ function MessagesContent() {
                             <div className="font-semibold text-foreground">
                               {chat.user}
                             </div>
-                            <div className="text-sm text-muted-foreground truncate">
+                            <div
+                              className={`text-sm text-muted-foreground truncate ${
+                                chat.locked ? "italic" : ""
+                              }`}
+                            >
                               {chat.lastMsg}
                             </div>
                           </div>
@@ -254,8 +349,29 @@ function MessagesContent() {
                       })()}
                   </div>
 
+                  {/* Session key prompt */}
+                  {needsSessionKey && (
+                    <div className="border-b border-border p-4 flex items-center gap-3 bg-muted/30">
+                      <Lock size={18} className="text-muted-foreground shrink-0" />
+                      <p className="flex-1 text-sm text-muted-foreground">
+                        Messages are end-to-end encrypted. Sign in with your
+                        wallet to read them for the next 30 minutes.
+                      </p>
+                      <button
+                        onClick={initializeSessionKey}
+                        disabled={isInitializingSessionKey}
+                        className="px-4 py-1.5 bg-foreground text-background rounded-full text-sm font-semibold hover:opacity-90 transition-opacity disabled:opacity-50"
+                      >
+                        {isInitializingSessionKey ? "Waiting for wallet..." : "Unlock"}
+                      </button>
+                    </div>
+                  )}
+
                   {/* Messages */}
-                  <div className="flex-1 overflow-y-auto p-4 space-y-4">
+                  <div
+                    ref={messageListRef}
+                    className="flex-1 overflow-y-auto p-4 space-y-4"
+                  >
                     {isLoadingMessages ? (
                       <div className="flex items-center justify-center h-full text-muted-foreground">
                         <p>Loading messages...</p>
@@ -268,6 +384,14 @@ function MessagesContent() {
                       messages.map((msg) => (
                         <div
                           key={msg.id}
+                          data-unread-index={
+                            !msg.isSender &&
+                            !msg.isRead &&
+                            !msg.locked &&
+                            msg.index !== null
+                              ? msg.index
+                              : undefined
+                          }
                           className={`flex ${
                             msg.isSender ? "justify-end" : "justify-start"
                           }`}
@@ -279,15 +403,60 @@ function MessagesContent() {
                                 : "bg-muted text-foreground"
                             }`}
                           >
-                            <p className="text-sm">{msg.text}</p>
+                            {(msg.text || msg.attachments.length === 0) && (
+                              <p className={`text-sm ${msg.locked ? "italic opacity-70" : ""}`}>
+                                {msg.text}
+                              </p>
+                            )}
+                            {msg.attachments.map((attachment) => (
+                              <MessageAttachmentView
+                                key={attachment.blobId}
+                                attachment={attachment}
+                              />
+                            ))}
+                            {msg.pending && msg.pendingAttachments > 0 && (
+                              <div className="flex items-center gap-1 text-xs mt-1 opacity-70">
+                                <Paperclip size={12} />
+                                {msg.pendingAttachments === 1
+                                  ? "Uploading 1 attachment..."
+                                  : `Uploading ${msg.pendingAttachments} attachments...`}
+                              </div>
+                            )}
+                            {msg.untrusted && (
+                              <div
+                                className="flex items-center gap-1 text-xs mt-1 text-red-500"
+                                title="This message's content hash doesn't match its contents, sender or chat. It may have been tampered with."
+                              >
+                                <ShieldAlert size={12} />
+                                Couldn't verify this message
+                              </div>
+                            )}
                             <div
-                              className={`text-xs mt-1 ${
+                              className={`flex items-center gap-1 text-xs mt-1 ${
                                 msg.isSender
                                   ? "text-background/70"
                                   : "text-muted-foreground"
                               }`}
                             >
-                              {formatTime(msg.timestamp)}
+                              {msg.pending ? "Sending..." : formatTime(msg.timestamp)}
+                              {msg.isSender && !msg.pending && (
+                                msg.isRead ? (
+                                  <span
+                                    title={
+                                      msg.readAt
+                                        ? `Read at ${formatTime(msg.readAt)}`
+                                        : "Read"
+                                    }
+                                    aria-label="Read"
+                                  >
+                                    <CheckCheck size={14} />
+                                  </span>
+                                ) : (
+                                  <span title="Sent" aria-label="Sent">
+                                    <Check size={14} />
+                                  </span>
+                                )
+                              )}
                             </div>
                           </div>
                         </div>
@@ -297,7 +466,52 @@ function MessagesContent() {
 
                   {/* Message Input */}
                   <div className="border-t border-border p-4">
+                    {fileError && (
+                      <div className="mb-2 p-2 bg-red-500/10 border border-red-500/50 rounded text-red-500 text-sm">
+                        {fileError}
+                      </div>
+                    )}
+                    {files.length > 0 && (
+                      <div className="flex flex-wrap gap-2 mb-2">
+                        {files.map((file, i) => (
+                          <div
+                            key={`${file.name}-${i}`}
+                            className="flex items-center gap-1 bg-muted rounded-full pl-3 pr-1 py-1 text-xs"
+                          >
+                            <span className="max-w-[10rem] truncate">
+                              {file.name}
+                            </span>
+                            <span className="text-muted-foreground">
+                              {formatFileSize(file.size)}
+                            </span>
+                            <button
+                              onClick={() => removeFile(i)}
+                              className="p-0.5 rounded-full hover:bg-background/50"
+                              aria-label={`Remove ${file.name}`}
+                            >
+                              <X size={12} />
+                            </button>
+                          </div>
+                        ))}
+                      </div>
+                    )}
                     <div className="flex gap-2">
+                      <input
+                        ref={fileInputRef}
+                        type="file"
+                        multiple
+                        className="hidden"
+                        onChange={handleAttachFiles}
+                      />
+                      <button
+                        onClick={() => fileInputRef.current?.click()}
+                        className="p-2 rounded-full hover:bg-muted transition-colors disabled:opacity-50"
+                        aria-label="Attach files"
+                        title="Attach images or files, encrypted for this chat"
+                        disabled={isSendingMessage}
+                      >
+                        <Paperclip size={20} />
+                      </button>
                       <input
                         type="text"
                         placeholder="Type a message..."
@@ -312,7 +526,7 @@ function MessagesContent() {
                         onClick={handleSendMessage}
                         className="bg-foreground text-background p-2 rounded-full hover:opacity-90 transition-opacity disabled:opacity-50"
                         aria-label="Send message"
-                        disabled={isSendingMessage || !inputValue.trim()}
+                        disabled={isSendingMessage || !canSend}
                       >
                         <Send size={20} />
                       </button>
@@ -4,11 +4,21 @@ import { AppSidebar } from "../../components/app-sidebar";
 import { SuiProvider } from "../../components/sui-context";
 import { ComposeModal } from "../../components/compose-modal";
 import { TrendingSidebar } from "../../components/trending-sidebar";
-import { useEffect, useState } from "react";
+import { useCallback, useEffect, useRef, useState } from "react";
 import { useProfile } from "../../hooks/useProfile";
 import { useSuits } from "../../hooks/useSuits";
-import { useInteractions } from "../../hooks/useInteractions";
+import {
+  useInteractions,
+  type InteractionState,
+} from "../../hooks/useInteractions";
+import { useOptimisticInteractions } from "../../hooks/useOptimisticInteractions";
+import { useSuitOverrides, withOverride } from "../../hooks/useSuitOverrides";
 import { useMessaging } from "../../hooks/useMessaging";
+import { useFollow } from "../../hooks/useFollow";
+import { useBookmarks } from "../../hooks/useBookmarks";
+import { useOptimistic } from "../../hooks/useOptimistic";
+import { useInfiniteScroll } from "../../hooks/useInfiniteScroll";
+import type { Suit } from "../../services/suitter";
 import { CreateProfileModal } from "../../components/create-profile-modal";
 import { UpdateProfileModal } from "../../components/update-profile-modal";
 import { SuitCard } from "../../components/suit-card";
@@ -16,6 +26,8 @@ import { CommentsView } from "../../components/comments-view";
 import { useCurrentAccount } from "@mysten/dapp-kit";
 import { useSearchParams, useNavigate } from "react-router-dom";
 
+const PAGE_SIZE = 20;
+
 function ProfileContent() {
   const account = useCurrentAccount();
   const address = account?.address ?? null;
@@ -28,10 +40,25 @@ function ProfileContent() {
     "suits" | "media" | "likes" | "replies"
   >("suits");
   const [isFollowing, setIsFollowing] = useState(false);
-  const { fetchMyProfileFields, fetchProfileByAddress } = useProfile();
-  const { fetchSuits } = useSuits();
-  const { likeSuit, retweetSuit } = useInteractions();
+  const [followCounts, setFollowCounts] = useState({
+    followers: 0,
+    following: 0,
+  });
+  const { fetchMyProfile, fetchProfileByAddress } = useProfile();
+  const { fetchSuitPage } = useSuits();
+  const { fetchInteractionState } = useInteractions();
+  const { toggleLike, toggleRepost } = useOptimisticInteractions();
+  const overrides = useSuitOverrides();
   const { startChat } = useMessaging();
+  const {
+    isAvailable: canFollow,
+    follow,
+    unfollow,
+    isFollowing: checkFollowing,
+    fetchFollowCounts,
+  } = useFollow();
+  const optimistic = useOptimistic();
+  const { isBookmarked, toggle: toggleBookmark } = useBookmarks();
   const [onChainName, setOnChainName] = useState<string>("");
   const [onChainBio, setOnChainBio] = useState<string>("");
   const [onChainPfp, setOnChainPfp] = useState<string>("");
@@ -41,6 +68,10 @@ function ProfileContent() {
   const [isUpdateModalOpen, setIsUpdateModalOpen] = useState(false);
   const [userSuits, setUserSuits] = useState<any[]>([]);
   const [isLoadingSuits, setIsLoadingSuits] = useState(true);
+  const [suitsCursor, setSuitsCursor] = useState<number | null>(null);
+  const [hasMoreSuits, setHasMoreSuits] = useState(false);
+  // Bumped on every reload so pages from a previous profile are dropped
+  const suitsRequestRef = useRef(0);
   const [commentsViewOpen, setCommentsViewOpen] = useState(false);
   const [commentsForSuit, setCommentsForSuit] = useState<any | null>(null);
   const [isStartingChat, setIsStartingChat] = useState(false);
@@ -49,11 +80,11 @@ function ProfileContent() {
     (async () => {
       if (!targetAddress) return;
       const fields = targetAddress === address
-        ? await fetchMyProfileFields()
+        ? await fetchMyProfile()
         : await fetchProfileByAddress(targetAddress);
       if (fields) {
         setHasProfile(true);
-        setProfileId(fields.profileId || "");
+        setProfileId(fields.id);
         setOnChainName(fields.username || "");
         setOnChainBio(fields.bio || "");
         setOnChainPfp(fields.pfpUrl || "");
@@ -61,124 +92,118 @@ function ProfileContent() {
         setHasProfile(false);
       }
     })();
-  }, [fetchMyProfileFields, fetchProfileByAddress, targetAddress, address]);
+  }, [fetchMyProfile, fetchProfileByAddress, targetAddress, address]);
 
-  // Fetch user's suits
   useEffect(() => {
-    const loadSuits = async () => {
+    if (!targetAddress) return;
+    let cancelled = false;
+    (async () => {
+      const [counts, following] = await Promise.all([
+        fetchFollowCounts(targetAddress),
+        targetAddress === address ? false : checkFollowing(targetAddress),
+      ]);
+      if (cancelled) return;
+      setFollowCounts(counts);
+      setIsFollowing(following);
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [fetchFollowCounts, checkFollowing, targetAddress, address]);
+
+  const toCard = useCallback(
+    (suit: Suit, interactions: InteractionState | null) => ({
+      id: suit.id,
+      author: onChainName || targetAddress?.slice(0, 8),
+      handle: onChainName || targetAddress?.slice(0, 8),
+      avatar:
+        onChainPfp ||
+        onChainName?.slice(0, 2).toUpperCase() ||
+        targetAddress?.slice(-2).toUpperCase(),
+      authorAddress: suit.creator,
+      content: suit.content,
+      timestamp: suit.createdAt || Date.now(),
+      likes: suit.likeCount,
+      replies: suit.commentCount,
+      reposts: suit.retweetCount,
+      tipTotal: suit.tipTotal,
+      liked: !!interactions?.liked[suit.id],
+      reposted: !!interactions?.reposted[suit.id],
+      isNFT: true,
+      nftValue: 0,
+      currentBid: 0,
+      isEncrypted: false,
+      media:
+        suit.mediaUrls.length > 0
+          ? { type: "image" as const, url: suit.mediaUrls[0] }
+          : undefined,
+    }),
+    [targetAddress, onChainName, onChainPfp]
+  );
+
+  // Fetch a page of the user's suits; a null cursor starts over
+  const loadSuits = useCallback(
+    async (cursor: number | null) => {
       if (!targetAddress) return;
 
+      const request =
+        cursor === null ? ++suitsRequestRef.current : suitsRequestRef.current;
       setIsLoadingSuits(true);
       try {
-        const allSuits = await fetchSuits(100, 0);
-        const filtered = allSuits.filter((suit: any) => {
-          const fields = suit?.content?.fields;
-          const creator = fields?.creator;
-          return creator === targetAddress;
-        });
-
-        const transformed = filtered.map((suit: any) => {
-          const fields = suit?.content?.fields;
-          return {
-            id: suit.objectId,
-            author: onChainName || targetAddress.slice(0, 8),
-            handle: onChainName || targetAddress.slice(0, 8),
-            avatar:
-              onChainPfp ||
-              onChainName?.slice(0, 2).toUpperCase() ||
-              targetAddress.slice(-2).toUpperCase(),
-            authorAddress: fields?.creator,
-            content: fields?.content || "",
-            timestamp: parseInt(fields?.created_at) || Date.now(),
-            likes: parseInt(fields?.like_count) || 0,
-            replies: parseInt(fields?.comment_count) || 0,
-            reposts: parseInt(fields?.retweet_count) || 0,
-            liked: false,
-            reposted: false,
-            isNFT: true,
-            nftValue: 0,
-            currentBid: 0,
-            isEncrypted: false,
-            media:
-              fields?.media_urls?.length > 0
-                ? { type: "image" as const, url: fields.media_urls[0] }
-                : undefined,
-          };
+        const [page, interactions] = await Promise.all([
+          fetchSuitPage(cursor, PAGE_SIZE, targetAddress),
+          address ? fetchInteractionState(address) : null,
+        ]);
+        if (request !== suitsRequestRef.current) return;
+        if (!page) {
+          setHasMoreSuits(false);
+          return;
+        }
+
+        const cards = page.suits.map((suit) => toCard(suit, interactions));
+        setUserSuits((prev) => {
+          if (cursor === null) return cards;
+          const seen = new Set(prev.map((s) => s.id));
+          return [...prev, ...cards.filter((c) => !seen.has(c.id))];
         });
-
-        setUserSuits(transformed);
+        setSuitsCursor(page.nextCursor);
+        setHasMoreSuits(page.nextCursor !== null);
       } catch (error) {
         console.error("Failed to load suits:", error);
       } finally {
-        setIsLoadingSuits(false);
+        if (request === suitsRequestRef.current) {
+          setIsLoadingSuits(false);
+        }
       }
-    };
+    },
+    [targetAddress, address, fetchSuitPage, fetchInteractionState, toCard]
+  );
 
+  useEffect(() => {
     if (targetAddress && (onChainName || hasProfile !== null)) {
-      loadSuits();
+      loadSuits(null);
     }
-  }, [targetAddress, fetchSuits, onChainName, onChainPfp, hasProfile, address]);
+  }, [targetAddress, loadSuits, onChainName, hasProfile]);
 
-  const handleLike = async (id: string) => {
-    if (!address) return;
+  const suitsSentinelRef = useInfiniteScroll(
+    () => loadSuits(suitsCursor),
+    activeTab === "suits" && hasMoreSuits && !isLoadingSuits
+  );
 
-    const suit = userSuits.find((s) => s.id === id);
-    if (!suit) return;
-
-    setUserSuits(
-      userSuits.map((s) =>
-        s.id === id
-          ? {
-              ...s,
-              liked: !s.liked,
-              likes: s.liked ? s.likes - 1 : s.likes + 1,
-            }
-          : s
-      )
-    );
+  const visibleSuits = userSuits.map((suit) =>
+    withOverride(suit, overrides[suit.id])
+  );
 
-    try {
-      await likeSuit(id);
-    } catch (error) {
-      console.error("Failed to like suit:", error);
-      setUserSuits(
-        userSuits.map((s) =>
-          s.id === id ? { ...s, liked: suit.liked, likes: suit.likes } : s
-        )
-      );
-    }
+  const handleLike = (id: string) => {
+    if (!address) return;
+    const suit = visibleSuits.find((s) => s.id === id);
+    if (suit) toggleLike(suit);
   };
 
-  const handleRepost = async (id: string) => {
+  const handleRepost = (id: string) => {
     if (!address) return;
-
-    const suit = userSuits.find((s) => s.id === id);
-    if (!suit) return;
-
-    setUserSuits(
-      userSuits.map((s) =>
-        s.id === id
-          ? {
-              ...s,
-              reposted: !s.reposted,
-              reposts: s.reposted ? s.reposts - 1 : s.reposts + 1,
-            }
-          : s
-      )
-    );
-
-    try {
-      await retweetSuit(id);
-    } catch (error) {
-      console.error("Failed to retweet suit:", error);
-      setUserSuits(
-        userSuits.map((s) =>
-          s.id === id
-            ? { ...s, reposted: suit.reposted, reposts: suit.reposts }
-            : s
-        )
-      );
-    }
+    const suit = visibleSuits.find((s) => s.id === id);
+    if (suit) toggleRepost(suit);
   };
 
   const handleReply = async (id: string) => {
@@ -199,7 +224,40 @@ function ProfileContent() {
   };
 
   const handleBookmark = (id: string, bookmarked: boolean) => {
-    console.log("Bookmark suit:", id, bookmarked);
+    if (address) toggleBookmark(id, bookmarked);
+  };
+
+  const handleFollow = () => {
+    if (!canFollow || !targetAddress || !address || targetAddress === address) {
+      return;
+    }
+    const wasFollowing = isFollowing;
+    const name = onChainName || targetAddress.slice(0, 8);
+
+    optimistic({
+      apply: () => {
+        setIsFollowing(!wasFollowing);
+        setFollowCounts((counts) => ({
+          ...counts,
+          followers: counts.followers + (wasFollowing ? -1 : 1),
+        }));
+        return () => {
+          setIsFollowing(wasFollowing);
+          setFollowCounts((counts) => ({
+            ...counts,
+            followers: counts.followers + (wasFollowing ? 1 : -1),
+          }));
+        };
+      },
+      mutate: () =>
+        wasFollowing ? unfollow(targetAddress) : follow(targetAddress),
+      reconcile: async () => {
+        setFollowCounts(await fetchFollowCounts(targetAddress));
+      },
+      failureTitle: wasFollowing
+        ? `Couldn't unfollow ${name}`
+        : `Couldn't follow ${name}`,
+    });
   };
 
   const handleMessage = async () => {
@@ -227,8 +285,8 @@ function ProfileContent() {
     location: "San Francisco, CA",
     website: "gabby.sui",
     joinedDate: "March 2024",
-    followers: 5678,
-    following: 1234,
+    followers: followCounts.followers,
+    following: followCounts.following,
     suitsCount: 342,
     walletAddress: targetAddress || "0x1234...5678",
   };
@@ -313,16 +371,18 @@ function ProfileContent() {
                           <MessageCircle size={18} />
                           {isStartingChat ? "Starting..." : "Message"}
                         </button>
-                        <button
-                          onClick={() => setIsFollowing(!isFollowing)}
-                          className={`px-4 py-2 font-semibold rounded-full transition-all ${
-                            isFollowing
-                              ? "border border-border text-foreground hover:bg-red-50 dark:hover:bg-red-950/20 hover:border-red-300 dark:hover:border-red-800 hover:text-red-600 dark:hover:text-red-400"
-                              : "bg-foreground text-background hover:bg-foreground/90"
-                          }`}
-                        >
-                          {isFollowing ? "Unfollow" : "Follow"}
-                        </button>
+                        {canFollow && (
+                          <button
+                            onClick={handleFollow}
+                            className={`px-4 py-2 font-semibold rounded-full transition-all ${
+                              isFollowing
+                                ? "border border-border text-foreground hover:bg-red-50 dark:hover:bg-red-950/20 hover:border-red-300 dark:hover:border-red-800 hover:text-red-600 dark:hover:text-red-400"
+                                : "bg-foreground text-background hover:bg-foreground/90"
+                            }`}
+                          >
+                            {isFollowing ? "Unfollow" : "Follow"}
+                          </button>
+                        )}
                       </>
                     ) : hasProfile ? (
                       <button 
@@ -426,24 +486,34 @@ function ProfileContent() {
             <div className="flex-1">
               {activeTab === "suits" && (
                 <div className="divide-y divide-border">
-                  {isLoadingSuits ? (
+                  {isLoadingSuits && userSuits.length === 0 ? (
                     <div className="text-center py-8 text-muted-foreground">
                       <p>Loading suits...</p>
                     </div>
                   ) : userSuits.length > 0 ? (
-                    userSuits.map((suit) => (
-                      <SuitCard
-                        key={suit.id}
-                        {...suit}
-                        onLike={handleLike}
-                        onRepost={handleRepost}
-                        onReply={handleReply}
-                        onViewComments={handleViewComments}
-                        onShare={handleShare}
-                        onBookmark={handleBookmark}
-                        bookmarked={false}
-                      />
-                    ))
+                    <>
+                      {visibleSuits.map((suit) => (
+                        <SuitCard
+                          key={suit.id}
+                          {...suit}
+                          onLike={handleLike}
+                          onRepost={handleRepost}
+                          onReply={handleReply}
+                          onViewComments={handleViewComments}
+                          onShare={handleShare}
+                          onBookmark={handleBookmark}
+                          bookmarked={isBookmarked(suit.id)}
+                        />
+                      ))}
+                      {hasMoreSuits && (
+                        <div
+                          ref={suitsSentinelRef}
+                          className="text-center py-6 text-sm text-muted-foreground"
+                        >
+                          {isLoadingSuits && <p>Loading suits...</p>}
+                        </div>
+                      )}
+                    </>
                   ) : (
                     <div className="text-center py-8 text-muted-foreground">
                       <p>No suits yet</p>
@@ -495,7 +565,7 @@ function ProfileContent() {
         onClose={() => setIsCreateModalOpen(false)}
         onCreated={() => {
           (async () => {
-            const fields = await fetchMyProfileFields();
+            const fields = await fetchMyProfile();
             if (fields) {
               setHasProfile(true);
               setOnChainName(fields.username || "");
@@ -517,9 +587,9 @@ function ProfileContent() {
         }}
         onUpdated={() => {
           (async () => {
-            const fields = await fetchMyProfileFields();
+            const fields = await fetchMyProfile();
             if (fields) {
-              setProfileId(fields.profileId || "");
+              setProfileId(fields.id);
               setOnChainName(fields.username || "");
               setOnChainBio(fields.bio || "");
               setOnChainPfp(fields.pfpUrl || "");
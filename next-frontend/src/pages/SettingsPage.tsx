@@ -6,6 +6,7 @@ import {
   Trash2,
   LogOut,
   Wallet,
+  Globe,
 } from "lucide-react";
 import { MinimalHeader } from "../../components/minimal-header";
 import { AppSidebar } from "../../components/app-sidebar";
@@ -13,8 +14,13 @@ import { ComposeModal } from "../../components/compose-modal";
 import { TrendingSidebar } from "../../components/trending-sidebar";
 import { useTheme } from "../../components/theme-provider";
 import { useEffect, useState } from "react";
-import { useCurrentAccount, useDisconnectWallet } from "@mysten/dapp-kit";
+import {
+  useCurrentAccount,
+  useDisconnectWallet,
+  useSuiClientContext,
+} from "@mysten/dapp-kit";
 import { useProfile } from "../../hooks/useProfile";
+import { SUITTER_NETWORKS, isDeployed } from "../../config";
 
 interface SettingItem {
   id: string;
@@ -41,7 +47,7 @@ function SettingsContent() {
     (async () => {
       const prof = await fetchMyProfile();
       if (prof) {
-        setProfileId((prof as any).data?.objectId);
+        setProfileId(prof.id);
         // If the Move object fields are accessible, try to prefill from them (optional, keep blank if not resolvable)
       }
     })();
@@ -50,6 +56,7 @@ function SettingsContent() {
   const { mutate: disconnect } = useDisconnectWallet();
   const address = currentAccount?.address;
   const { theme, toggleTheme } = useTheme();
+  const { network, selectNetwork } = useSuiClientContext();
   const [isSidebarOpen, setIsSidebarOpen] = useState(false);
   const [isComposeOpen, setIsComposeOpen] = useState(false);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
@@ -161,6 +168,48 @@ function SettingsContent() {
                 </div>
               </section>
 
+              {/* Network Settings */}
+              <section className="p-4">
+                <h3 className="text-sm font-semibold text-foreground mb-4">
+                  Network
+                </h3>
+                <div className="space-y-3">
+                  {SUITTER_NETWORKS.map((option) => {
+                    const deployed = isDeployed(option);
+                    return (
+                      <button
+                        key={option}
+                        onClick={() => selectNetwork(option)}
+                        disabled={!deployed}
+                        aria-pressed={network === option}
+                        className="w-full flex items-center justify-between p-3 rounded-lg hover:bg-muted/30 transition-colors disabled:opacity-50 disabled:hover:bg-transparent"
+                      >
+                        <div className="flex items-center gap-3">
+                          <Globe size={20} className="text-foreground" />
+                          <div className="text-left">
+                            <div className="font-semibold text-foreground capitalize">
+                              {option}
+                            </div>
+                            <div className="text-sm text-muted-foreground">
+                              {deployed
+                                ? "Suitter is deployed here"
+                                : "Suitter isn't deployed here yet"}
+                            </div>
+                          </div>
+                        </div>
+                        {network === option && (
+                          <div className="w-2.5 h-2.5 rounded-full bg-foreground" />
+                        )}
+                      </button>
+                    );
+                  })}
+                  <p className="text-xs text-muted-foreground px-3">
+                    Switching reloads the feed, profiles and chats from the
+                    selected network.
+                  </p>
+                </div>
+              </section>
+
               {/* Privacy Settings */}
               <section className="p-4">
                 <h3 className="text-sm font-semibold text-foreground mb-4">
@@ -246,7 +295,7 @@ function SettingsContent() {
                             await createProfile(username, bio, pfpUrl);
                             const prof = await fetchMyProfile();
                             if (prof)
-                              setProfileId((prof as any).data?.objectId);
+                              setProfileId(prof.id);
                           }}
                           className="px-3 py-2 rounded-md bg-foreground text-background hover:opacity-90"
                         >
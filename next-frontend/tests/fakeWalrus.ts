@@ -0,0 +1,40 @@
+import { vi } from "vitest";
+import { WalrusService } from "../services/walrus";
+
+/**
+ * Read a Blob's bytes. jsdom's File has no arrayBuffer(), but FileReader can
+ * read it; the bytes are copied into a Node buffer, as WebCrypto doesn't
+ * accept jsdom's.
+ */
+export function readBlob(blob: Blob): Promise<ArrayBuffer> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => {
+      const bytes = new Uint8Array(reader.result as ArrayBuffer);
+      const copy = Buffer.alloc(bytes.length);
+      copy.set(bytes);
+      resolve(copy.buffer);
+    };
+    reader.onerror = () => reject(reader.error);
+    reader.readAsArrayBuffer(blob);
+  });
+}
+
+/**
+ * Stand in for Walrus: uploads are kept in `blobs`, numbered from blob-1,
+ * and downloads of anything else find nothing, as for an expired blob
+ */
+export function fakeWalrus() {
+  const blobs = new Map<string, ArrayBuffer>();
+  const upload = vi
+    .spyOn(WalrusService, "uploadFile")
+    .mockImplementation(async (file) => {
+      const blobId = `blob-${blobs.size + 1}`;
+      blobs.set(blobId, await readBlob(file));
+      return { blobId, walrusUrl: WalrusService.getBlobUrl(blobId) };
+    });
+  const download = vi
+    .spyOn(WalrusService, "downloadBlob")
+    .mockImplementation(async (blobId) => blobs.get(blobId) ?? null);
+  return { blobs, upload, download };
+}
@@ -0,0 +1,158 @@
+import { act, screen, waitFor } from "@testing-library/react";
+import { beforeEach, describe, expect, it } from "vitest";
+import CONFIG from "../../config";
+import { bookmarkStore, useBookmarks } from "../../hooks/useBookmarks";
+import { useInteractions } from "../../hooks/useInteractions";
+import type { BookmarkData } from "../../services/bookmarkStorage";
+import { MemoryKeyValueStorage } from "../../services/keyValueStorage";
+import { decodeSuit } from "../../services/suitter";
+import type { FakeChain } from "../../services/fakeChain";
+import { FIXTURE_ACCOUNTS } from "../../services/fakeChainFixtures";
+import { DEPLOYMENT, renderSuitterHook } from "../renderSuitterHook";
+
+const ALICE_KEY = `${CONFIG.DEFAULT_NETWORK}:${FIXTURE_ACCOUNTS.alice}`;
+
+/** The fixture suit that starts with `word` */
+function suitId(chain: FakeChain, word: string): string {
+  const registry = chain.getObject(DEPLOYMENT.SUIT_REGISTRY)!;
+  const id = (registry.fields.suit_ids as string[]).find((id) =>
+    decodeSuit(chain.getObjectData(id))!.content.startsWith(word)
+  );
+  if (!id) throw new Error(`No fixture suit starts with ${word}`);
+  return id;
+}
+
+async function renderBookmarks() {
+  const bookmarks = await renderSuitterHook(useBookmarks);
+  await waitFor(() => expect(bookmarks.current.isLoaded).toBe(true));
+  return bookmarks;
+}
+
+let storage: MemoryKeyValueStorage<BookmarkData>;
+
+beforeEach(() => {
+  storage = new MemoryKeyValueStorage<BookmarkData>();
+  bookmarkStore.setStorage(storage);
+});
+
+describe("useBookmarks", () => {
+  it("saves a bookmark with a snapshot, per wallet and network", async () => {
+    const bookmarks = await renderBookmarks();
+    const id = suitId(bookmarks.chain, "Hot");
+
+    await act(() => bookmarks.current.add(id));
+    await bookmarkStore.flush();
+
+    expect(bookmarks.current.isBookmarked(id)).toBe(true);
+    const saved = await storage.load(ALICE_KEY);
+    expect(saved!.bookmarks).toEqual([
+      expect.objectContaining({
+        suitId: id,
+        folderId: null,
+        snapshot: expect.objectContaining({
+          content: "Hot take: PTBs are the best thing about Sui",
+          creator: FIXTURE_ACCOUNTS.bob,
+        }),
+      }),
+    ]);
+    expect(
+      await storage.load(`${CONFIG.DEFAULT_NETWORK}:${FIXTURE_ACCOUNTS.bob}`)
+    ).toBeNull();
+  });
+
+  it("loads saved bookmarks when the page is opened again", async () => {
+    const first = await renderBookmarks();
+    const id = suitId(first.chain, "gm");
+    await act(() => first.current.add(id));
+    await bookmarkStore.flush();
+    first.unmount();
+
+    // As after a reload: nothing in memory, only what was saved
+    bookmarkStore.setStorage(storage);
+    const second = await renderBookmarks();
+
+    expect(second.current.bookmarks.map((b) => b.suitId)).toEqual([id]);
+  });
+
+  it("sorts bookmarks into folders", async () => {
+    const bookmarks = await renderBookmarks();
+    const id = suitId(bookmarks.chain, "gm");
+    await act(() => bookmarks.current.add(id));
+
+    let folder = { id: "" };
+    await act(async () => {
+      folder = await bookmarks.current.createFolder("  Sui tips ");
+    });
+    await act(() => bookmarks.current.moveToFolder(id, folder.id));
+
+    expect(bookmarks.current.folders.map((f) => f.name)).toEqual(["Sui tips"]);
+    expect(bookmarks.current.bookmarks[0].folderId).toBe(folder.id);
+    await expect(bookmarks.current.createFolder("sui TIPS")).rejects.toThrow(
+      'You already have a folder called "sui TIPS".'
+    );
+
+    await act(() => bookmarks.current.deleteFolder(folder.id));
+
+    expect(bookmarks.current.folders).toEqual([]);
+    expect(bookmarks.current.bookmarks[0].folderId).toBeNull();
+  });
+
+  it("refreshes snapshots and flags removed suits", async () => {
+    const hook = await renderSuitterHook(() => ({
+      bookmarks: useBookmarks(),
+      interactions: useInteractions(),
+    }));
+    await waitFor(() => expect(hook.current.bookmarks.isLoaded).toBe(true));
+    const id = suitId(hook.chain, "Testing");
+    await act(() => hook.current.bookmarks.add(id));
+    await act(() => hook.current.interactions.likeSuit(id));
+    // A bookmark whose suit has since gone from chain
+    await act(() =>
+      bookmarkStore.update((data) => ({
+        ...data,
+        bookmarks: [
+          ...data.bookmarks,
+          { ...data.bookmarks[0], suitId: "0xdead" },
+        ],
+      }))
+    );
+
+    let statuses = {};
+    await act(async () => {
+      statuses = await hook.current.bookmarks.refresh();
+    });
+
+    expect(statuses).toEqual({ [id]: "live", "0xdead": "removed" });
+    expect(hook.current.bookmarks.bookmarks[0].snapshot.likeCount).toBe(1);
+  });
+
+  it("keeps the snapshot when a suit can't be read", async () => {
+    const bookmarks = await renderBookmarks();
+    const id = suitId(bookmarks.chain, "gm");
+    await act(() => bookmarks.current.add(id));
+    bookmarks.client.multiGetObjects = () =>
+      Promise.reject(new Error("fullnode unreachable"));
+
+    let statuses = {};
+    await act(async () => {
+      statuses = await bookmarks.current.refresh();
+    });
+
+    expect(statuses).toEqual({ [id]: "stale" });
+    expect(bookmarks.current.bookmarks[0].snapshot.content).toBe(
+      "gm Suitter 👋 first suit on the fake chain"
+    );
+  });
+
+  it("explains a bookmark that couldn't be saved", async () => {
+    const bookmarks = await renderBookmarks();
+
+    await act(() => bookmarks.current.toggle("0xdead", true));
+
+    expect(bookmarks.current.bookmarks).toEqual([]);
+    expect(
+      await screen.findByText("Couldn't bookmark this suit")
+    ).toBeTruthy();
+    expect(screen.getByText("This suit no longer exists.")).toBeTruthy();
+  });
+});
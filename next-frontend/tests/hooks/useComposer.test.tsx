@@ -0,0 +1,61 @@
+import { act } from "@testing-library/react";
+import { beforeEach, describe, expect, it } from "vitest";
+import { useComposer, type BatchResult } from "../../hooks/useComposer";
+import { suitOverrides } from "../../hooks/useSuitOverrides";
+import { decodeSuit } from "../../services/suitter";
+import type { FakeChain } from "../../services/fakeChain";
+import { DEPLOYMENT, renderSuitterHook } from "../renderSuitterHook";
+
+/** The fixture suit that starts with `word` */
+function suitId(chain: FakeChain, word: string): string {
+  const registry = chain.getObject(DEPLOYMENT.SUIT_REGISTRY)!;
+  const id = (registry.fields.suit_ids as string[]).find((id) =>
+    decodeSuit(chain.getObjectData(id))!.content.startsWith(word)
+  );
+  if (!id) throw new Error(`No fixture suit starts with ${word}`);
+  return id;
+}
+
+beforeEach(() => {
+  suitOverrides.reset();
+});
+
+describe("useComposer", () => {
+  it("sends a like and a comment as one transaction", async () => {
+    const composer = await renderSuitterHook(useComposer);
+    const id = suitId(composer.chain, "Testing");
+
+    let result: BatchResult | undefined;
+    await act(async () => {
+      result = await composer.current.submit([
+        { kind: "like", suitId: id },
+        { kind: "comment", suitId: id, content: "Works for me" },
+      ]);
+    });
+
+    expect(result!.outcomes.map((o) => o.kind)).toEqual(["like", "comment"]);
+    const suit = decodeSuit(composer.chain.getObjectData(id))!;
+    expect(suit).toMatchObject({ likeCount: 1, commentCount: 1 });
+  });
+
+  it("leaves out a like the account has already made", async () => {
+    const composer = await renderSuitterHook(useComposer);
+    // Alice liked the gm suit in the fixtures
+    const id = suitId(composer.chain, "gm");
+    const before = decodeSuit(composer.chain.getObjectData(id))!;
+
+    let result: BatchResult | undefined;
+    await act(async () => {
+      result = await composer.current.submit([
+        { kind: "like", suitId: id },
+        { kind: "comment", suitId: id, content: "Still here" },
+      ]);
+    });
+
+    expect(result!.outcomes.map((o) => o.kind)).toEqual(["comment"]);
+    expect(decodeSuit(composer.chain.getObjectData(id))).toMatchObject({
+      likeCount: before.likeCount,
+      commentCount: before.commentCount + 1,
+    });
+  });
+});
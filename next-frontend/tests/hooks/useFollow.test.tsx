@@ -0,0 +1,108 @@
+import { act } from "@testing-library/react";
+import { normalizeSuiAddress } from "@mysten/sui/utils";
+import { describe, expect, it } from "vitest";
+import { useFollow } from "../../hooks/useFollow";
+import {
+  createFixtureChain,
+  FIXTURE_ACCOUNTS,
+} from "../../services/fakeChainFixtures";
+import { DEPLOYMENT, NOW, renderSuitterHook } from "../renderSuitterHook";
+
+const { alice, bob, carol, dave } = FIXTURE_ACCOUNTS;
+
+describe("useFollow", () => {
+  it("reads follow edges and counts", async () => {
+    const follows = await renderSuitterHook(useFollow);
+
+    expect(await follows.current.isFollowing(bob)).toBe(true);
+    expect(await follows.current.isFollowing(carol)).toBe(false);
+    expect(await follows.current.isFollowing(carol, dave)).toBe(true);
+    expect(await follows.current.fetchFollowCounts(alice)).toEqual({
+      followers: 2,
+      following: 1,
+    });
+    expect(await follows.current.fetchFollowCounts(dave)).toEqual({
+      followers: 0,
+      following: 1,
+    });
+  });
+
+  it("lists followers and following newest first", async () => {
+    const follows = await renderSuitterHook(useFollow);
+
+    expect(await follows.current.listFollowers(alice)).toEqual([carol, bob]);
+    expect(await follows.current.listFollowing(alice)).toEqual([bob]);
+    expect(await follows.current.listFollowers(dave)).toEqual([]);
+  });
+
+  it("lists follows from before the network's latest thousand", async () => {
+    const chain = createFixtureChain(DEPLOYMENT, NOW);
+    chain.transact(dave, (ctx) => {
+      for (let i = 1; i <= 1_010; i++) {
+        chain.follow(ctx, normalizeSuiAddress(`0x5${i}`));
+      }
+    });
+    const follows = await renderSuitterHook(useFollow, { chain });
+
+    expect(await follows.current.listFollowers(alice)).toEqual([carol, bob]);
+    expect(await follows.current.listFollowing(dave)).toHaveLength(1_011);
+  });
+
+  it("settles a follow and unfollow in one checkpoint by event order", async () => {
+    const chain = createFixtureChain(DEPLOYMENT, NOW);
+    const later = NOW + 60_000;
+    chain.transact(bob, (ctx) => chain.unfollow(ctx, alice), later);
+    chain.transact(bob, (ctx) => chain.follow(ctx, alice), later);
+    chain.transact(dave, (ctx) => chain.follow(ctx, alice), later);
+    chain.transact(dave, (ctx) => chain.unfollow(ctx, alice), later);
+    const follows = await renderSuitterHook(useFollow, { chain });
+
+    expect(await follows.current.listFollowers(alice)).toEqual([bob, carol]);
+  });
+
+  it("follows and unfollows, keeping counts and lists current", async () => {
+    const follows = await renderSuitterHook(useFollow);
+    await follows.current.fetchFollowCounts(carol);
+    await follows.current.listFollowers(carol);
+
+    await act(() => follows.current.follow(carol));
+
+    expect(await follows.current.isFollowing(carol)).toBe(true);
+    expect(await follows.current.fetchFollowCounts(carol)).toEqual({
+      followers: 2,
+      following: 1,
+    });
+    expect(await follows.current.listFollowers(carol)).toEqual([alice, dave]);
+
+    await act(() => follows.current.unfollow(carol));
+
+    expect(await follows.current.isFollowing(carol)).toBe(false);
+    expect((await follows.current.fetchFollowCounts(carol)).followers).toBe(1);
+    expect(await follows.current.listFollowers(carol)).toEqual([dave]);
+    expect(follows.current.isUpdating).toBe(false);
+  });
+
+  it.each([
+    ["follow", alice, "E_CANNOT_FOLLOW_SELF", "You can't follow yourself."],
+    ["follow", bob, "E_ALREADY_FOLLOWING", "You already follow this account."],
+    ["unfollow", dave, "E_NOT_FOLLOWING", "You don't follow this account."],
+  ] as const)("maps a %s that aborts to %s", async (action, target, code, message) => {
+    const follows = await renderSuitterHook(useFollow);
+
+    let thrown: unknown;
+    await act(async () => {
+      thrown = await follows.current[action](target).catch((e) => e);
+    });
+
+    expect(thrown).toMatchObject({ kind: "move_abort", code });
+    expect(follows.current.error).toBe(message);
+  });
+
+  it("needs a connected wallet to follow", async () => {
+    const follows = await renderSuitterHook(useFollow, { connect: false });
+
+    await expect(follows.current.follow(bob)).rejects.toThrow(
+      "Wallet not connected"
+    );
+  });
+});
@@ -0,0 +1,66 @@
+import { act } from "@testing-library/react";
+import { describe, expect, it } from "vitest";
+import { useFollow } from "../../hooks/useFollow";
+import { useFollowingFeed } from "../../hooks/useFollowingFeed";
+import { FIXTURE_ACCOUNTS } from "../../services/fakeChainFixtures";
+import { renderSuitterHook } from "../renderSuitterHook";
+
+const { bob, carol, dave } = FIXTURE_ACCOUNTS;
+
+function useFeedAndFollow() {
+  return { feed: useFollowingFeed(), follows: useFollow() };
+}
+
+describe("useFollowingFeed", () => {
+  it("shows suits by followed accounts, newest first", async () => {
+    const hook = await renderSuitterHook(useFollowingFeed);
+
+    const page = await hook.current.fetchFollowingPage();
+
+    expect(page!.following).toEqual([bob]);
+    expect(page!.suits.map((s) => s.content)).toEqual([
+      "Hot take: PTBs are the best thing about Sui",
+      "gm Suitter 👋 first suit on the fake chain",
+    ]);
+    expect(page!.nextCursor).toBeNull();
+  });
+
+  it("merges creators after a follow and pages through them", async () => {
+    const hook = await renderSuitterHook(useFeedAndFollow);
+    await act(() => hook.current.follows.follow(carol));
+
+    const first = await hook.current.feed.fetchFollowingPage(null, 2);
+    const second = await hook.current.feed.fetchFollowingPage(
+      first!.nextCursor,
+      2
+    );
+
+    expect(first!.suits.map((s) => s.content)).toEqual([
+      "Working on a new colour palette for the app 🎨",
+      "Hot take: PTBs are the best thing about Sui",
+    ]);
+    expect(second!.suits.map((s) => s.content)).toEqual([
+      "Shared objects are just group chats for your data",
+      "gm Suitter 👋 first suit on the fake chain",
+    ]);
+  });
+
+  it("is empty and suggests recent authors when nobody is followed", async () => {
+    const hook = await renderSuitterHook(useFeedAndFollow);
+    await act(() => hook.current.follows.unfollow(bob));
+
+    const page = await hook.current.feed.fetchFollowingPage();
+
+    expect(page).toMatchObject({ suits: [], nextCursor: null, following: [] });
+    expect(await hook.current.feed.suggestFollows(2)).toEqual([dave, carol]);
+  });
+
+  it("is empty without a connected wallet", async () => {
+    const hook = await renderSuitterHook(useFollowingFeed, { connect: false });
+
+    expect(await hook.current.fetchFollowingPage()).toMatchObject({
+      suits: [],
+      following: [],
+    });
+  });
+});
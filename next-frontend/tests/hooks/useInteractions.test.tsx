@@ -0,0 +1,103 @@
+import { act } from "@testing-library/react";
+import { describe, expect, it } from "vitest";
+import { useInteractions } from "../../hooks/useInteractions";
+import { decodeSuit } from "../../services/suitter";
+import { FIXTURE_ACCOUNTS } from "../../services/fakeChainFixtures";
+import type { FakeChain } from "../../services/fakeChain";
+import { DEPLOYMENT, renderSuitterHook } from "../renderSuitterHook";
+
+/** The fixture suit that starts with `word` */
+function suitId(chain: FakeChain, word: string): string {
+  const registry = chain.getObject(DEPLOYMENT.SUIT_REGISTRY)!;
+  const id = (registry.fields.suit_ids as string[]).find((id) =>
+    decodeSuit(chain.getObjectData(id))!.content.startsWith(word)
+  );
+  if (!id) throw new Error(`No fixture suit starts with ${word}`);
+  return id;
+}
+
+describe("useInteractions", () => {
+  it("reads which suits the account liked", async () => {
+    const interactions = await renderSuitterHook(useInteractions);
+    const { chain } = interactions;
+
+    const state = await interactions.current.fetchInteractionState(
+      FIXTURE_ACCOUNTS.alice
+    );
+
+    expect(Object.keys(state.liked).sort()).toEqual(
+      [suitId(chain, "gm"), suitId(chain, "Who"), suitId(chain, "Hot")].sort()
+    );
+    expect(state.reposted).toEqual({});
+  });
+
+  it("likes a suit and patches the cached state", async () => {
+    const interactions = await renderSuitterHook(useInteractions);
+    const id = suitId(interactions.chain, "Testing");
+    await interactions.current.fetchInteractionState(FIXTURE_ACCOUNTS.alice);
+
+    await act(() => interactions.current.likeSuit(id));
+
+    expect((await interactions.current.fetchSuit(id))!.likeCount).toBe(1);
+    expect(
+      await interactions.current.checkUserLiked(id, FIXTURE_ACCOUNTS.alice)
+    ).toBe(true);
+    expect(interactions.current.isLiking).toBe(false);
+  });
+
+  it.each([
+    ["gm", "E_ALREADY_LIKED", "You've already liked this suit."],
+    ["Shipping", "E_CANNOT_LIKE_OWN_SUIT", "You can't like or repost your own suit."],
+  ])("maps a like of the %s suit to %s", async (word, code, message) => {
+    const interactions = await renderSuitterHook(useInteractions);
+    const id = suitId(interactions.chain, word);
+
+    let thrown: unknown;
+    await act(async () => {
+      thrown = await interactions.current.likeSuit(id).catch((e) => e);
+    });
+
+    expect(thrown).toMatchObject({ kind: "move_abort", code });
+    expect(interactions.current.error).toBe(message);
+  });
+
+  it("leaves the chain untouched when a like aborts", async () => {
+    const interactions = await renderSuitterHook(useInteractions);
+    const id = suitId(interactions.chain, "gm");
+    const before = interactions.chain.getObject(id)!.fields.like_count;
+
+    await act(async () => {
+      await interactions.current.likeSuit(id).catch(() => {});
+    });
+
+    expect(interactions.chain.getObject(id)!.fields.like_count).toBe(before);
+  });
+
+  it("reads a new comment back however many the network has", async () => {
+    const interactions = await renderSuitterHook(useInteractions);
+    const { chain } = interactions;
+    const busy = suitId(chain, "gm");
+    chain.transact(FIXTURE_ACCOUNTS.bob, (ctx) => {
+      for (let i = 1; i <= 120; i++) {
+        chain.commentOnSuit(ctx, busy, `reply ${i}`);
+      }
+    });
+    const id = suitId(chain, "Testing");
+
+    await act(() => interactions.current.commentOnSuit(id, "First!"));
+
+    const comments = await interactions.current.fetchComments(id);
+    expect(comments.map((c) => c.content)).toEqual(["First!"]);
+    expect(await interactions.current.fetchComments(busy)).toHaveLength(120);
+  });
+
+  it("needs a connected wallet to like", async () => {
+    const interactions = await renderSuitterHook(useInteractions, {
+      connect: false,
+    });
+
+    await expect(
+      interactions.current.likeSuit(suitId(interactions.chain, "gm"))
+    ).rejects.toThrow("Wallet not connected");
+  });
+});
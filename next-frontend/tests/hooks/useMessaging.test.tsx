@@ -0,0 +1,348 @@
+import { File as NodeFile } from "node:buffer";
+import { act, screen, waitFor } from "@testing-library/react";
+import { beforeEach, describe, expect, it, onTestFinished, vi } from "vitest";
+import { useMessaging } from "../../hooks/useMessaging";
+import { chatDirectory } from "../../services/chatDirectory";
+import { MemoryKeyValueStorage } from "../../services/keyValueStorage";
+import {
+  decodeChat,
+  decodeChatCreated,
+  decodeMessageRead,
+} from "../../services/suitter";
+import type { FakeChain } from "../../services/fakeChain";
+import { FakeSealCipher } from "../../services/fakeSeal";
+import { messageContentHash } from "../../services/messageIntegrity";
+import {
+  decodeMessagePayload,
+  downloadAttachment,
+} from "../../services/messageAttachments";
+import { FIXTURE_ACCOUNTS } from "../../services/fakeChainFixtures";
+import { fakeWalrus, readBlob } from "../fakeWalrus";
+import { renderSuitterHook } from "../renderSuitterHook";
+
+const HOUR = 60 * 60 * 1000;
+
+/** The fixture chat between alice and `other` */
+function chatWith(chain: FakeChain, other: string): string {
+  const created = chain.events
+    .filter((event) => event.type.endsWith("::messaging::ChatCreated"))
+    .map(decodeChatCreated)
+    .find((chat) => [chat.participant1, chat.participant2].includes(other));
+  if (!created) throw new Error(`No fixture chat with ${other}`);
+  return created.chatId;
+}
+
+beforeEach(() => {
+  chatDirectory.setStorage(new MemoryKeyValueStorage());
+});
+
+describe("useMessaging", () => {
+  it("lists the account's chats with decoded previews", async () => {
+    const messaging = await renderSuitterHook(useMessaging);
+
+    await waitFor(() => {
+      expect(messaging.current.chats.map((c) => c.handle).sort()).toEqual([
+        "bob_builds",
+        "carol",
+      ]);
+    });
+
+    const bob = messaging.current.chats.find((c) => c.handle === "bob_builds");
+    expect(bob).toMatchObject({
+      id: chatWith(messaging.chain, FIXTURE_ACCOUNTS.bob),
+      lastMsg: "Absolutely, send it over",
+      unread: 2,
+    });
+  });
+
+  it("decodes a chat's messages", async () => {
+    const messaging = await renderSuitterHook(useMessaging);
+    const chatId = chatWith(messaging.chain, FIXTURE_ACCOUNTS.bob);
+
+    await act(() => messaging.current.fetchMessages(chatId));
+
+    expect(messaging.current.messages.map((m) => m.text)).toEqual([
+      "Hey! Saw your post about the new feature",
+      "Thanks! Want to try it before it ships?",
+      "Absolutely, send it over",
+    ]);
+    expect(messaging.current.messages[1].sender).toBe(FIXTURE_ACCOUNTS.alice);
+  });
+
+  it("sends a message and reads it back from the chain", async () => {
+    const messaging = await renderSuitterHook(useMessaging);
+    const chatId = chatWith(messaging.chain, FIXTURE_ACCOUNTS.carol);
+    await act(() => messaging.current.fetchMessages(chatId));
+
+    let sent: unknown;
+    await act(async () => {
+      sent = await messaging.current.sendMessage(chatId, "Thank you!");
+    });
+
+    expect(sent).toMatchObject({ digest: expect.any(String) });
+    expect(messaging.current.messages.map((m) => m.text)).toEqual([
+      "Love the new profile picture",
+      "Thank you!",
+    ]);
+    expect(messaging.chain.getObject(chatId)!.fields.messages).toHaveLength(2);
+    expect(messaging.current.isSendingMessage).toBe(false);
+  });
+
+  it("stores messages encrypted for the chat's participants only", async () => {
+    const messaging = await renderSuitterHook(useMessaging);
+    const chatId = chatWith(messaging.chain, FIXTURE_ACCOUNTS.carol);
+    await act(() => messaging.current.fetchMessages(chatId));
+
+    await act(async () => {
+      await messaging.current.sendMessage(chatId, "Just between us");
+    });
+
+    const stored = decodeChat(messaging.chain.getObjectData(chatId))!
+      .messages[1].encryptedMessage;
+    expect(new TextDecoder().decode(stored)).not.toContain("Just between us");
+
+    const cipher = new FakeSealCipher(messaging.chain);
+    const read = (address: string) =>
+      cipher.decrypt(chatId, [stored], { address, sessionKey: null });
+    expect(await read(FIXTURE_ACCOUNTS.carol)).toEqual(["Just between us"]);
+    await expect(read(FIXTURE_ACCOUNTS.dave)).rejects.toThrow(
+      /function_name: Some\("seal_approve"\) }, 45\)/
+    );
+  });
+
+  it("refuses to send to a package without seal_approve", async () => {
+    const isSupported = vi
+      .spyOn(FakeSealCipher.prototype, "isSupported")
+      .mockResolvedValue(false);
+    onTestFinished(() => isSupported.mockRestore());
+    const { upload, download } = fakeWalrus();
+    onTestFinished(() => {
+      upload.mockRestore();
+      download.mockRestore();
+    });
+    const messaging = await renderSuitterHook(useMessaging);
+    const chatId = chatWith(messaging.chain, FIXTURE_ACCOUNTS.carol);
+    await act(() => messaging.current.fetchMessages(chatId));
+
+    const photo = new NodeFile(["private"], "secret.png", {
+      type: "image/png",
+    }) as unknown as File;
+    let sent: unknown;
+    await act(async () => {
+      sent = await messaging.current.sendMessage(chatId, "In the clear?", [
+        photo,
+      ]);
+    });
+
+    expect(sent).toBeNull();
+    expect(upload).not.toHaveBeenCalled();
+    expect(messaging.chain.getObject(chatId)!.fields.messages).toHaveLength(1);
+    expect(messaging.current.messages.map((m) => m.text)).toEqual([
+      "Love the new profile picture",
+    ]);
+  });
+
+  it("sends a file the other participant can download", async () => {
+    const { upload, download } = fakeWalrus();
+    onTestFinished(() => {
+      upload.mockRestore();
+      download.mockRestore();
+    });
+    const messaging = await renderSuitterHook(useMessaging);
+    const chatId = chatWith(messaging.chain, FIXTURE_ACCOUNTS.carol);
+    await act(() => messaging.current.fetchMessages(chatId));
+
+    // jsdom's File can't be read with arrayBuffer(); Node's can
+    const photo = new NodeFile(["not really a png"], "selfie.png", {
+      type: "image/png",
+    }) as unknown as File;
+    await act(async () => {
+      await messaging.current.sendMessage(chatId, "", [photo]);
+    });
+    await act(() => messaging.current.fetchChats());
+
+    expect(upload).toHaveBeenCalledTimes(1);
+    expect(messaging.current.messages[1]).toMatchObject({
+      text: "",
+      attachments: [{ name: "selfie.png", mimeType: "image/png", size: 16 }],
+    });
+    const carol = messaging.current.chats.find((c) => c.id === chatId);
+    expect(carol?.lastMsg).toBe("Sent an attachment");
+
+    const stored = decodeChat(messaging.chain.getObjectData(chatId))!
+      .messages[1].encryptedMessage;
+    const [plaintext] = await new FakeSealCipher(messaging.chain).decrypt(
+      chatId,
+      [stored],
+      { address: FIXTURE_ACCOUNTS.carol, sessionKey: null }
+    );
+    const [attachment] = decodeMessagePayload(plaintext!).attachments;
+    const received = await downloadAttachment(attachment);
+    expect(new TextDecoder().decode(await readBlob(received))).toBe(
+      "not really a png"
+    );
+  });
+
+  it("decrypts the preview of a chat's last message", async () => {
+    const messaging = await renderSuitterHook(useMessaging);
+    const chatId = chatWith(messaging.chain, FIXTURE_ACCOUNTS.carol);
+    await act(() => messaging.current.fetchMessages(chatId));
+
+    await act(async () => {
+      await messaging.current.sendMessage(chatId, "See you there");
+    });
+    await act(() => messaging.current.fetchChats());
+
+    const carol = messaging.current.chats.find((c) => c.id === chatId);
+    expect(carol).toMatchObject({ lastMsg: "See you there", locked: false });
+    expect(messaging.current.needsSessionKey).toBe(false);
+  });
+
+  it("hashes sent messages and flags ones that don't match", async () => {
+    const first = await renderSuitterHook(useMessaging);
+    const chatId = chatWith(first.chain, FIXTURE_ACCOUNTS.carol);
+    await act(() => first.current.fetchMessages(chatId));
+    await act(async () => {
+      await first.current.sendMessage(chatId, "Thank you!");
+    });
+
+    const sent = decodeChat(first.chain.getObjectData(chatId))!.messages[1];
+    expect(sent.contentHash).toEqual(
+      await messageContentHash(
+        chatId,
+        FIXTURE_ACCOUNTS.alice,
+        sent.encryptedMessage
+      )
+    );
+    expect(first.current.messages.map((m) => m.integrity)).toEqual([
+      "legacy",
+      "verified",
+    ]);
+
+    // As if a full node served the message with someone else's hash
+    const stored = first.chain.getObject(chatId)!.fields.messages[1].fields;
+    stored.content_hash = [...stored.content_hash].reverse();
+    const second = await renderSuitterHook(useMessaging, {
+      chain: first.chain,
+    });
+    await act(() => second.current.fetchMessages(chatId));
+
+    expect(second.current.messages[1]).toMatchObject({
+      text: "Thank you!",
+      integrity: "untrusted",
+    });
+  });
+
+  it("shows a sent message once, however it is read back", async () => {
+    const messaging = await renderSuitterHook(useMessaging);
+    const chatId = chatWith(messaging.chain, FIXTURE_ACCOUNTS.carol);
+    await act(() => messaging.current.fetchMessages(chatId));
+    // The refetch after sending fails, so the sent message stays pending
+    const { multiGetObjects } = messaging.client;
+    messaging.client.multiGetObjects = () =>
+      Promise.reject(new Error("fullnode unreachable"));
+
+    await act(async () => {
+      await messaging.current.sendMessage(chatId, "Thank you!");
+    });
+    expect(
+      messaging.current.messages.filter((m) => m.text === "Thank you!")
+    ).toMatchObject([{ pending: true }]);
+
+    messaging.client.multiGetObjects = multiGetObjects;
+    await act(() => messaging.current.fetchMessages(chatId));
+
+    expect(
+      messaging.current.messages.filter((m) => m.text === "Thank you!")
+    ).toMatchObject([{ pending: false, integrity: "verified" }]);
+  });
+
+  it("rolls back a message the chain rejects and explains why", async () => {
+    const messaging = await renderSuitterHook(useMessaging);
+    const chatId = chatWith(messaging.chain, FIXTURE_ACCOUNTS.bob);
+    await act(() => messaging.current.fetchMessages(chatId));
+
+    let sent: unknown;
+    await act(async () => {
+      sent = await messaging.current.sendMessage(chatId, "");
+    });
+
+    expect(sent).toBeNull();
+    expect(messaging.current.messages).toHaveLength(3);
+    expect(
+      await screen.findByText("Couldn't send your message")
+    ).toBeTruthy();
+    expect(screen.getByText(/A message can't be empty\./)).toBeTruthy();
+  });
+
+  it("marks every message seen in one transaction", async () => {
+    const messaging = await renderSuitterHook(useMessaging);
+    const chatId = chatWith(messaging.chain, FIXTURE_ACCOUNTS.bob);
+    await act(() => messaging.current.fetchMessages(chatId));
+    await waitFor(() =>
+      expect(
+        messaging.current.chats.find((c) => c.id === chatId)?.unread
+      ).toBe(2)
+    );
+    const readsBefore = messaging.chain.events.length;
+
+    // Alice's own message is skipped, and the repeat sent once
+    act(() => {
+      for (const index of [0, 1, 2, 0]) {
+        messaging.current.markSeen(chatId, index);
+      }
+    });
+
+    await waitFor(() =>
+      expect(
+        messaging.current.chats.find((c) => c.id === chatId)?.unread
+      ).toBe(0)
+    );
+    const reads = messaging.chain.events
+      .slice(readsBefore)
+      .filter((event) => event.type.endsWith("::messaging::MessageRead"));
+    expect(reads.map(decodeMessageRead)).toMatchObject([
+      { messageIndex: 0, reader: FIXTURE_ACCOUNTS.alice },
+      { messageIndex: 2, reader: FIXTURE_ACCOUNTS.alice },
+    ]);
+    expect(new Set(reads.map((event) => event.id.txDigest)).size).toBe(1);
+  });
+
+  it("shows when the other participant read a message", async () => {
+    const messaging = await renderSuitterHook(useMessaging);
+    const chatId = chatWith(messaging.chain, FIXTURE_ACCOUNTS.bob);
+
+    await act(() => messaging.current.fetchMessages(chatId));
+
+    const [, reply, latest] = messaging.current.messages;
+    expect(reply).toMatchObject({ is_read: true, index: 1 });
+    expect(reply.readAt! - reply.timestamp).toBe(0.5 * HOUR);
+    expect(latest).toMatchObject({ is_read: false, readAt: null });
+  });
+
+  it("picks up a reply in the open chat", async () => {
+    const messaging = await renderSuitterHook(useMessaging);
+    const chatId = chatWith(messaging.chain, FIXTURE_ACCOUNTS.carol);
+    await act(() => messaging.current.fetchMessages(chatId));
+
+    const encode = (text: string) =>
+      Array.from(new TextEncoder().encode(text));
+    messaging.chain.transact(FIXTURE_ACCOUNTS.carol, (ctx) =>
+      messaging.chain.sendMessage(
+        ctx,
+        chatId,
+        encode("Thanks, made it myself"),
+        encode("hash_Thanks, made it myself")
+      )
+    );
+
+    await waitFor(
+      () =>
+        expect(messaging.current.messages.map((m) => m.text)).toEqual([
+          "Love the new profile picture",
+          "Thanks, made it myself",
+        ]),
+      { timeout: 5_000 }
+    );
+  });
+});
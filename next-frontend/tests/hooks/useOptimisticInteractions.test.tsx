@@ -0,0 +1,58 @@
+import { act, waitFor } from "@testing-library/react";
+import { beforeEach, describe, expect, it } from "vitest";
+import { useInteractions } from "../../hooks/useInteractions";
+import { useOptimisticInteractions } from "../../hooks/useOptimisticInteractions";
+import {
+  suitOverrides,
+  useSuitOverrides,
+  withOverride,
+} from "../../hooks/useSuitOverrides";
+import { decodeSuit } from "../../services/suitter";
+import { FIXTURE_ACCOUNTS } from "../../services/fakeChainFixtures";
+import type { FakeChain } from "../../services/fakeChain";
+import { DEPLOYMENT, renderSuitterHook } from "../renderSuitterHook";
+
+/** The fixture suit that starts with `word` */
+function suitId(chain: FakeChain, word: string): string {
+  const registry = chain.getObject(DEPLOYMENT.SUIT_REGISTRY)!;
+  const id = (registry.fields.suit_ids as string[]).find((id) =>
+    decodeSuit(chain.getObjectData(id))!.content.startsWith(word)
+  );
+  if (!id) throw new Error(`No fixture suit starts with ${word}`);
+  return id;
+}
+
+const useFeedCard = () => ({
+  ...useOptimisticInteractions(),
+  ...useInteractions(),
+  overrides: useSuitOverrides(),
+});
+
+beforeEach(() => {
+  suitOverrides.reset();
+});
+
+describe("useOptimisticInteractions", () => {
+  it("shows a like at once, then counts read after it from chain", async () => {
+    const feed = await renderSuitterHook(useFeedCard);
+    const id = suitId(feed.chain, "Testing");
+    // As the page loaded it
+    const card = { id, likes: 0, reposts: 0, replies: 0, liked: false };
+    const shown = () => withOverride(card, feed.current.overrides[id]);
+
+    await act(async () => {
+      await feed.current.toggleLike(shown());
+    });
+
+    expect(shown()).toMatchObject({ likes: 1, liked: true });
+    expect(suitOverrides.get(id).likes).toBeUndefined();
+
+    // Someone else's like shows up with the next read
+    feed.chain.transact(FIXTURE_ACCOUNTS.bob, (ctx) =>
+      feed.chain.likeSuit(ctx, id)
+    );
+    await act(() => feed.current.fetchSuit(id));
+
+    await waitFor(() => expect(shown().likes).toBe(2));
+  });
+});
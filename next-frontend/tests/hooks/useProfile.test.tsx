@@ -0,0 +1,55 @@
+import { describe, expect, it, vi } from "vitest";
+import { useProfile } from "../../hooks/useProfile";
+import { FIXTURE_ACCOUNTS } from "../../services/fakeChainFixtures";
+import { renderSuitterHook } from "../renderSuitterHook";
+
+describe("useProfile", () => {
+  it("reads a profile by its owner", async () => {
+    const profile = await renderSuitterHook(useProfile);
+
+    const bob = await profile.current.fetchProfileByAddress(FIXTURE_ACCOUNTS.bob);
+    expect(bob).toMatchObject({
+      owner: FIXTURE_ACCOUNTS.bob,
+      username: "bob_builds",
+      bio: "Move developer, coffee enthusiast",
+    });
+  });
+
+  it("reads the connected account's profile", async () => {
+    const profile = await renderSuitterHook(useProfile);
+
+    expect(profile.current.address).toBe(FIXTURE_ACCOUNTS.alice);
+    expect(await profile.current.fetchMyProfile()).toMatchObject({
+      username: "alice",
+    });
+  });
+
+  it("returns null for an address without a profile", async () => {
+    const profile = await renderSuitterHook(useProfile);
+
+    expect(await profile.current.fetchProfileByAddress("0x123")).toBeNull();
+  });
+
+  it("serves repeat reads from the query cache", async () => {
+    const profile = await renderSuitterHook(useProfile);
+    const first = await profile.current.fetchProfileByAddress(
+      FIXTURE_ACCOUNTS.carol
+    );
+
+    const getOwnedObjects = vi.spyOn(profile.client, "getOwnedObjects");
+
+    expect(
+      await profile.current.fetchProfileByAddress(FIXTURE_ACCOUNTS.carol)
+    ).toBe(first);
+    expect(getOwnedObjects).not.toHaveBeenCalled();
+  });
+
+  it("needs a connected wallet to create a profile", async () => {
+    const profile = await renderSuitterHook(useProfile, { connect: false });
+
+    await expect(profile.current.fetchMyProfile()).resolves.toBeNull();
+    await expect(
+      profile.current.createProfile("newbie", "", "")
+    ).rejects.toThrow("Wallet not connected");
+  });
+});
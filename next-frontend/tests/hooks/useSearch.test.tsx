@@ -0,0 +1,80 @@
+import { act } from "@testing-library/react";
+import { describe, expect, it } from "vitest";
+import { useSearch } from "../../hooks/useSearch";
+import { FIXTURE_ACCOUNTS } from "../../services/fakeChainFixtures";
+import { renderSuitterHook } from "../renderSuitterHook";
+
+describe("useSearch", () => {
+  it("finds users by username, bio or address", async () => {
+    const search = await renderSuitterHook(useSearch);
+
+    expect(await search.current.searchUsers("BOB")).toEqual([
+      expect.objectContaining({
+        type: "user",
+        username: "bob_builds",
+        address: FIXTURE_ACCOUNTS.bob,
+      }),
+    ]);
+    expect(
+      (await search.current.searchUsers("coffee")).map((r) => r.username)
+    ).toEqual(["bob_builds"]);
+    expect(
+      (await search.current.searchUsers(FIXTURE_ACCOUNTS.dave)).map(
+        (r) => r.username
+      )
+    ).toEqual(["dave_on_chain"]);
+  });
+
+  it("finds posts newest first", async () => {
+    const search = await renderSuitterHook(useSearch);
+
+    const posts = await search.current.searchPosts("new");
+
+    expect(posts.map((r) => r.content)).toEqual([
+      "Working on a new colour palette for the app 🎨",
+      "Shipping a new feature this week. Stay tuned!",
+    ]);
+    expect(posts[1]).toMatchObject({
+      type: "post",
+      creator: FIXTURE_ACCOUNTS.alice,
+      likeCount: 3,
+    });
+  });
+
+  it("combines users and posts unless filtered out", async () => {
+    const search = await renderSuitterHook(useSearch);
+
+    let all: Awaited<ReturnType<typeof search.current.search>> = [];
+    await act(async () => {
+      all = await search.current.search("fake chain");
+    });
+    expect(all.map((r) => r.username ?? r.content)).toEqual([
+      "alice",
+      "gm Suitter 👋 first suit on the fake chain",
+    ]);
+    expect(search.current.isSearching).toBe(false);
+
+    const users = await search.current.search("fake chain", { posts: false });
+    expect(users.map((r) => r.type)).toEqual(["user"]);
+
+    const posts = await search.current.search("fake chain", { users: false });
+    expect(posts.map((r) => r.type)).toEqual(["post"]);
+  });
+
+  it("skips blank queries without touching the chain", async () => {
+    const search = await renderSuitterHook(useSearch);
+    search.client.queryEvents = () => {
+      throw new Error("should not be called");
+    };
+
+    expect(await search.current.search("   ")).toEqual([]);
+  });
+
+  it("returns nothing when the full node fails", async () => {
+    const search = await renderSuitterHook(useSearch);
+    search.client.queryEvents = () =>
+      Promise.reject(new Error("fullnode unreachable"));
+
+    expect(await search.current.searchUsers("alice")).toEqual([]);
+  });
+});
@@ -0,0 +1,141 @@
+import { act, waitFor } from "@testing-library/react";
+import { describe, expect, it } from "vitest";
+import { useSuits } from "../../hooks/useSuits";
+import { useSuitOverrides } from "../../hooks/useSuitOverrides";
+import { SuitterError } from "../../services/errors";
+import { FIXTURE_ACCOUNTS } from "../../services/fakeChainFixtures";
+import { renderSuitterHook } from "../renderSuitterHook";
+
+const contents = (suits: { content: string }[]) =>
+  suits.map((suit) => suit.content.split(" ")[0]);
+
+describe("useSuits", () => {
+  it("pages through the registry newest first", async () => {
+    const suits = await renderSuitterHook(useSuits);
+
+    const first = await suits.current.fetchSuitPage(null, 3);
+    expect(contents(first!.suits)).toEqual(["Testing", "Working", "Hot"]);
+    expect(first!.nextCursor).toBe(4);
+    expect(first!.latestCursor).toBe(7);
+
+    const second = await suits.current.fetchSuitPage(first!.nextCursor, 3);
+    expect(contents(second!.suits)).toEqual(["Shipping", "Who", "Shared"]);
+    expect(second!.nextCursor).toBe(1);
+
+    const last = await suits.current.fetchSuitPage(second!.nextCursor, 3);
+    expect(contents(last!.suits)).toEqual(["gm"]);
+    expect(last!.nextCursor).toBeNull();
+  });
+
+  it("walks back past windows with no suits by the creator", async () => {
+    const suits = await renderSuitterHook(useSuits);
+
+    const page = await suits.current.fetchSuitPage(
+      null,
+      2,
+      FIXTURE_ACCOUNTS.bob
+    );
+
+    expect(contents(page!.suits)).toEqual(["Hot", "gm"]);
+    expect(page!.nextCursor).toBeNull();
+  });
+
+  it("stops each creator page after reading a bounded part of the registry", async () => {
+    const suits = await renderSuitterHook(useSuits);
+    suits.chain.transact(FIXTURE_ACCOUNTS.carol, (ctx) => {
+      for (let i = 1; i <= 250; i++) {
+        suits.chain.createSuit(ctx, `Update ${i}`, []);
+      }
+    });
+
+    const pages = [];
+    let cursor: number | null = null;
+    do {
+      const page = await suits.current.fetchSuitPage(
+        cursor,
+        2,
+        FIXTURE_ACCOUNTS.bob
+      );
+      pages.push(page!);
+      cursor = page!.nextCursor;
+    } while (cursor !== null);
+
+    expect(pages.map((page) => page.nextCursor)).toEqual([157, 57, null]);
+    expect(pages.map((page) => contents(page.suits))).toEqual([
+      [],
+      [],
+      ["Hot", "gm"],
+    ]);
+  });
+
+  it("refreshes the counts of suits already loaded", async () => {
+    const feed = await renderSuitterHook(() => ({
+      ...useSuits(),
+      overrides: useSuitOverrides(),
+    }));
+    const page = await feed.current.fetchSuitPage(null, 1);
+    const [loaded] = page!.suits;
+
+    feed.chain.transact(FIXTURE_ACCOUNTS.carol, (ctx) =>
+      feed.chain.likeSuit(ctx, loaded.id)
+    );
+    await act(() => feed.current.refreshSuits([loaded.id]));
+
+    await waitFor(() =>
+      expect(feed.current.overrides[loaded.id]?.likes).toBe(
+        loaded.likeCount + 1
+      )
+    );
+  });
+
+  it("posts a suit and picks it up as new", async () => {
+    const suits = await renderSuitterHook(useSuits);
+    const { latestCursor } = (await suits.current.fetchSuitPage(null, 1))!;
+
+    await act(() => suits.current.postSuit("Hello from the test suite"));
+
+    const fresh = await suits.current.fetchNewSuits(latestCursor);
+    expect(fresh.suits).toHaveLength(1);
+    expect(fresh.suits[0]).toMatchObject({
+      content: "Hello from the test suite",
+      creator: FIXTURE_ACCOUNTS.alice,
+      likeCount: 0,
+    });
+    expect(fresh.latestCursor).toBe(latestCursor + 1);
+  });
+
+  it("maps a content-length abort to a readable error", async () => {
+    const suits = await renderSuitterHook(useSuits);
+
+    let thrown: unknown;
+    await act(async () => {
+      thrown = await suits.current.postSuit("x".repeat(281)).catch((e) => e);
+    });
+
+    expect(thrown).toBeInstanceOf(SuitterError);
+    expect(thrown).toMatchObject({
+      kind: "move_abort",
+      code: "E_CONTENT_TOO_LONG",
+      module: "suits",
+      abortCode: 11,
+    });
+    expect(suits.current.error).toBe(
+      "That suit is longer than 280 characters."
+    );
+    expect(suits.current.isPosting).toBe(false);
+  });
+
+  it("reports a failed read instead of throwing", async () => {
+    const suits = await renderSuitterHook(useSuits);
+    suits.client.multiGetObjects = () =>
+      Promise.reject(new Error("fullnode unreachable"));
+
+    let page: unknown;
+    await act(async () => {
+      page = await suits.current.fetchSuitPage(null, 3);
+    });
+
+    expect(page).toBeNull();
+    expect(suits.current.error).toBe("fullnode unreachable");
+  });
+});
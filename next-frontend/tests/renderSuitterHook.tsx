@@ -0,0 +1,90 @@
+import {
+  SuiClientProvider,
+  useConnectWallet,
+  useWallets,
+  WalletProvider,
+} from "@mysten/dapp-kit";
+import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import { act, renderHook, waitFor } from "@testing-library/react";
+import CONFIG from "../config";
+import { networkConfig } from "../hooks/useDeployment";
+import type { FakeChain } from "../services/fakeChain";
+import { createFixtureChain } from "../services/fakeChainFixtures";
+import { createFakeSuiClient } from "../services/fakeSuiClient";
+import { FAKE_WALLET_NAME } from "../services/fakeWallet";
+import { SessionKeyProvider } from "../providers/SessionKeyProvider";
+import { ToastProvider } from "../providers/ToastProvider";
+
+/** The deployment the hooks resolve under the default network */
+export const DEPLOYMENT = CONFIG.DEPLOYMENTS[CONFIG.DEFAULT_NETWORK];
+
+/** Fixed so fixture timestamps are the same in every run */
+export const NOW = Date.UTC(2025, 0, 1);
+
+interface Options {
+  chain?: FakeChain;
+  /** Connect the fake wallet as the fixture account (default true) */
+  connect?: boolean;
+}
+
+/**
+ * Render a hook inside the app's providers, on a fixture chain and with the
+ * fake wallet connected. Returns the chain so tests can check what the
+ * hook's transactions did to it.
+ */
+export async function renderSuitterHook<T>(
+  hook: () => T,
+  { chain = createFixtureChain(DEPLOYMENT, NOW), connect = true }: Options = {}
+) {
+  const client = createFakeSuiClient(chain);
+  const queryClient = new QueryClient({
+    defaultOptions: { queries: { retry: false } },
+  });
+
+  const wrapper = ({ children }: { children: React.ReactNode }) => (
+    <QueryClientProvider client={queryClient}>
+      <SuiClientProvider
+        networks={networkConfig}
+        network={CONFIG.DEFAULT_NETWORK}
+        createClient={() => client}
+      >
+        <WalletProvider autoConnect={false}>
+          <ToastProvider>
+            <SessionKeyProvider>{children}</SessionKeyProvider>
+          </ToastProvider>
+        </WalletProvider>
+      </SuiClientProvider>
+    </QueryClientProvider>
+  );
+
+  const rendered = renderHook(
+    () => ({
+      hook: hook(),
+      wallets: useWallets(),
+      connectWallet: useConnectWallet().mutateAsync,
+    }),
+    { wrapper }
+  );
+
+  if (connect) {
+    const wallet = await waitFor(() => {
+      const found = rendered.result.current.wallets.find(
+        (w) => w.name === FAKE_WALLET_NAME
+      );
+      if (!found) throw new Error("Fake wallet not registered");
+      return found;
+    });
+    await act(() => rendered.result.current.connectWallet({ wallet }));
+  }
+
+  return {
+    /** Always the latest render's hook value */
+    get current() {
+      return rendered.result.current.hook;
+    },
+    chain,
+    client,
+    queryClient,
+    unmount: rendered.unmount,
+  };
+}
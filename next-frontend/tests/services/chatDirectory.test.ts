@@ -0,0 +1,116 @@
+import { normalizeSuiAddress } from "@mysten/sui/utils";
+import { describe, expect, it, vi } from "vitest";
+import CONFIG from "../../config";
+import {
+  ChatDirectory,
+  chatDirectoryKey,
+  type ChatDirectoryData,
+} from "../../services/chatDirectory";
+import type { FakeChain } from "../../services/fakeChain";
+import {
+  createFixtureChain,
+  FIXTURE_ACCOUNTS,
+} from "../../services/fakeChainFixtures";
+import { createFakeSuiClient } from "../../services/fakeSuiClient";
+import { MemoryKeyValueStorage } from "../../services/keyValueStorage";
+import { SuitterClient } from "../../services/suitter";
+import { DEPLOYMENT, NOW } from "../renderSuitterHook";
+
+const { alice, bob, carol, dave } = FIXTURE_ACCOUNTS;
+const KEY = chatDirectoryKey(
+  CONFIG.DEFAULT_NETWORK,
+  DEPLOYMENT.PACKAGE_ID,
+  alice
+);
+
+function setup() {
+  const chain = createFixtureChain(DEPLOYMENT, NOW);
+  const suiClient = createFakeSuiClient(chain);
+  const client = new SuitterClient(suiClient, DEPLOYMENT.PACKAGE_ID);
+  return { chain, suiClient, client };
+}
+
+function startChat(chain: FakeChain, from: string, to: string): string {
+  let chatId = "";
+  chain.transact(from, (ctx) => {
+    chatId = chain.startChat(ctx, to);
+  });
+  return chatId;
+}
+
+/** Chats between bob and strangers, enough to fill several event pages */
+function addStrangerChats(chain: FakeChain, count: number) {
+  for (let i = 1; i <= count; i++) {
+    startChat(chain, bob, normalizeSuiAddress(`0x5${i}`));
+  }
+}
+
+const others = (chats: { participant1: string; participant2: string }[]) =>
+  chats
+    .map((chat) =>
+      chat.participant1 === alice ? chat.participant2 : chat.participant1
+    )
+    .sort();
+
+describe("ChatDirectory", () => {
+  it("finds an account's chats past the first page of events", async () => {
+    const { chain, client } = setup();
+    addStrangerChats(chain, 120);
+    startChat(chain, dave, alice);
+    const directory = new ChatDirectory(new MemoryKeyValueStorage());
+
+    const chats = await directory.sync(client, KEY, alice);
+
+    expect(others(chats)).toEqual([bob, carol, dave].sort());
+  });
+
+  it("reads only the events since the last sync", async () => {
+    const { chain, suiClient, client } = setup();
+    addStrangerChats(chain, 120);
+    const storage = new MemoryKeyValueStorage<ChatDirectoryData>();
+    await new ChatDirectory(storage).sync(client, KEY, alice);
+    startChat(chain, alice, dave);
+
+    // As after a reload: only what was saved
+    const directory = new ChatDirectory(storage);
+    const queryEvents = vi.spyOn(suiClient, "queryEvents");
+    const cached = await directory.cached(KEY);
+    const synced = await directory.sync(client, KEY, alice);
+
+    expect(others(cached!)).toEqual([bob, carol].sort());
+    expect(others(synced)).toEqual([bob, carol, dave].sort());
+    expect(queryEvents).toHaveBeenCalledTimes(1);
+  });
+
+  it("starts again for a republished package", async () => {
+    const { client } = setup();
+    const storage = new MemoryKeyValueStorage<ChatDirectoryData>();
+    await new ChatDirectory(storage).sync(client, KEY, alice);
+
+    const republished = chatDirectoryKey(
+      CONFIG.DEFAULT_NETWORK,
+      "0x2",
+      alice
+    );
+    expect(await new ChatDirectory(storage).cached(republished)).toBeNull();
+  });
+
+  it("has nothing cached before the first sync", async () => {
+    const directory = new ChatDirectory(new MemoryKeyValueStorage());
+
+    expect(await directory.cached(KEY)).toBeNull();
+  });
+
+  it("shares one sync between concurrent callers", async () => {
+    const { client } = setup();
+    const directory = new ChatDirectory(new MemoryKeyValueStorage());
+
+    const [first, second] = await Promise.all([
+      directory.sync(client, KEY, alice),
+      directory.sync(client, KEY, alice),
+    ]);
+
+    expect(second).toBe(first);
+    expect(first).toHaveLength(2);
+  });
+});
@@ -0,0 +1,38 @@
+import type { SuiEvent } from "@mysten/sui/client";
+import { describe, expect, it } from "vitest";
+import { splitOutcomes, type SuitterAction } from "../../services/composer";
+
+const commentCreated = {
+  id: { txDigest: "digest", eventSeq: "0" },
+  packageId: "0x1",
+  transactionModule: "interactions",
+  sender: "0xa11ce",
+  type: "0x1::interactions::CommentCreated",
+  parsedJson: {
+    comment_id: "0xc0",
+    suit_id: "0x5",
+    commenter: "0xa11ce",
+    timestamp: "1",
+  },
+  bcs: "",
+  bcsEncoding: "base64",
+} as SuiEvent;
+
+describe("splitOutcomes", () => {
+  it("reports the actions it found events for when one is missing", () => {
+    const actions: SuitterAction[] = [
+      { kind: "like", suitId: "0x5" },
+      { kind: "comment", suitId: "0x5", content: "hi" },
+    ];
+
+    const outcomes = splitOutcomes(actions, [commentCreated]);
+
+    expect(outcomes).toEqual([
+      {
+        kind: "comment",
+        action: actions[1],
+        event: expect.objectContaining({ commentId: "0xc0", suitId: "0x5" }),
+      },
+    ]);
+  });
+});
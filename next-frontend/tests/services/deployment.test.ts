@@ -0,0 +1,26 @@
+import { describe, expect, it } from "vitest";
+import { createFixtureChain } from "../../services/fakeChainFixtures";
+import { createFakeSuiClient } from "../../services/fakeSuiClient";
+import { checkDeployment } from "../../services/deployment";
+import { DEPLOYMENT, NOW } from "../renderSuitterHook";
+
+const suiClient = () =>
+  createFakeSuiClient(createFixtureChain(DEPLOYMENT, NOW));
+
+describe("checkDeployment", () => {
+  it("passes a deployment whose objects all exist", async () => {
+    expect(await checkDeployment(suiClient(), DEPLOYMENT)).toEqual([]);
+  });
+
+  it("reports a missing registry", async () => {
+    expect(
+      await checkDeployment(suiClient(), { ...DEPLOYMENT, CHAT_REGISTRY: "" })
+    ).toEqual([{ name: "CHAT_REGISTRY", id: "", problem: "Not configured" }]);
+  });
+
+  it("runs without an optional registry", async () => {
+    expect(
+      await checkDeployment(suiClient(), { ...DEPLOYMENT, FOLLOW_REGISTRY: "" })
+    ).toEqual([]);
+  });
+});
@@ -0,0 +1,24 @@
+import { describe, expect, it } from "vitest";
+import { toSuitterError } from "../../services/errors";
+
+describe("toSuitterError", () => {
+  it.each([
+    ["a rejection message", new Error("User rejected the request.")],
+    ["Suiet's message", new Error("[WALLET.SIGN_TX_ERROR] Rejected from user")],
+    ["code 4001", { code: 4001, message: "Request declined" }],
+    ["a UserRejected… name", { name: "UserRejectedRequestError", message: "" }],
+  ])("treats %s as a wallet rejection", (_, error) => {
+    expect(toSuitterError(error, "Failed").kind).toBe("wallet_rejected");
+  });
+
+  it.each([
+    new Error("Seal key server: access denied"),
+    new Error("fetch failed: request cancelled"),
+    new Error("Transaction rejected by validators: object is locked"),
+  ])("doesn't treat %s as a wallet rejection", (error) => {
+    expect(toSuitterError(error, "Failed")).toMatchObject({
+      kind: "unknown",
+      message: error.message,
+    });
+  });
+});
@@ -0,0 +1,164 @@
+import { File as NodeFile } from "node:buffer";
+import { afterEach, describe, expect, it } from "vitest";
+import {
+  AttachmentError,
+  checkAttachments,
+  decodeMessagePayload,
+  downloadAttachment,
+  encodeMessagePayload,
+  MAX_ATTACHMENT_BYTES,
+  uploadAttachment,
+  type MessageAttachment,
+} from "../../services/messageAttachments";
+import { fakeWalrus, readBlob } from "../fakeWalrus";
+
+const { blobs, upload, download } = fakeWalrus();
+
+afterEach(() => {
+  blobs.clear();
+  upload.mockClear();
+});
+
+const file = (text: string, name = "note.txt", type = "text/plain") =>
+  new NodeFile([text], name, { type }) as unknown as File;
+
+const text = async (blob: Blob) =>
+  new TextDecoder().decode(await readBlob(blob));
+
+const attachment = (blobId: string): MessageAttachment => ({
+  blobId,
+  name: "cat.png",
+  mimeType: "image/png",
+  size: 3,
+  key: "a2V5",
+  iv: "aXY=",
+});
+
+describe("message payloads", () => {
+  it("stays plain text without attachments", () => {
+    expect(encodeMessagePayload({ text: "hi", attachments: [] })).toBe("hi");
+    expect(decodeMessagePayload("hi")).toEqual({ text: "hi", attachments: [] });
+  });
+
+  it("round-trips attachments", () => {
+    const payload = { text: "look", attachments: [attachment("blob-1")] };
+
+    expect(decodeMessagePayload(encodeMessagePayload(payload))).toEqual(
+      payload
+    );
+  });
+
+  it("drops attachments that aren't well formed", () => {
+    const plaintext = JSON.stringify({
+      type: "suitter/message",
+      version: 1,
+      text: 42,
+      attachments: [null, "blob-1", { blobId: "blob-2" }, attachment("blob-3")],
+    });
+
+    expect(decodeMessagePayload(plaintext)).toEqual({
+      text: "",
+      attachments: [attachment("blob-3")],
+    });
+  });
+
+  it("reads text that only looks like a payload as text", () => {
+    expect(decodeMessagePayload('{"type":"other"}')).toEqual({
+      text: '{"type":"other"}',
+      attachments: [],
+    });
+    expect(decodeMessagePayload("{not json")).toEqual({
+      text: "{not json",
+      attachments: [],
+    });
+  });
+});
+
+describe("checkAttachments", () => {
+  it("limits how many files are sent together", () => {
+    const files = Array.from({ length: 5 }, (_, i) => file("x", `${i}.txt`));
+
+    expect(() => checkAttachments(files)).toThrow(
+      "You can attach up to 4 files."
+    );
+  });
+
+  it("limits how large each file is", () => {
+    const big = {
+      name: "movie.mp4",
+      size: MAX_ATTACHMENT_BYTES + 1,
+    } as File;
+
+    expect(() => checkAttachments([file("x"), big])).toThrow(
+      '"movie.mp4" is larger than 5 MB.'
+    );
+  });
+});
+
+describe("attachments", () => {
+  it("uploads a file encrypted and reads it back", async () => {
+    const sent = await uploadAttachment(
+      file("meet at noon", "plan.txt"),
+      "0xa11ce"
+    );
+
+    expect(sent).toMatchObject({
+      blobId: "blob-1",
+      name: "plan.txt",
+      mimeType: "text/plain",
+      size: 12,
+    });
+    const [uploaded, owner] = upload.mock.calls[0];
+    expect(owner).toBe("0xa11ce");
+    expect(uploaded).toMatchObject({
+      name: "attachment",
+      type: "application/octet-stream",
+    });
+    expect(new TextDecoder().decode(blobs.get("blob-1"))).not.toContain(
+      "meet at noon"
+    );
+
+    const received = await downloadAttachment(sent);
+    expect(received.type).toBe("text/plain");
+    expect(await text(received)).toBe("meet at noon");
+  });
+
+  it("encrypts each file under its own key", async () => {
+    const first = await uploadAttachment(file("same"));
+    const second = await uploadAttachment(file("same"));
+
+    expect(first.key).not.toBe(second.key);
+  });
+
+  it("explains a blob that is no longer stored", async () => {
+    const error = await downloadAttachment(attachment("blob-gone")).catch(
+      (e) => e
+    );
+
+    expect(error).toBeInstanceOf(AttachmentError);
+    expect(error).toMatchObject({
+      reason: "expired",
+      message:
+        "This file is no longer stored on Walrus. Its storage may have expired.",
+    });
+  });
+
+  it("refuses a file encrypted under another key", async () => {
+    const sent = await uploadAttachment(file("meet at noon"));
+    const other = await uploadAttachment(file("something else"));
+
+    await expect(
+      downloadAttachment({ ...sent, key: other.key })
+    ).rejects.toMatchObject({ reason: "corrupt" });
+  });
+
+  it("tells an unreachable Walrus apart from an expired blob", async () => {
+    download.mockRejectedValueOnce(
+      new Error("Failed to download from Walrus: Network Error")
+    );
+
+    await expect(
+      downloadAttachment(attachment("blob-1"))
+    ).rejects.toMatchObject({ reason: "unreachable" });
+  });
+});
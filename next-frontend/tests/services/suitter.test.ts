@@ -0,0 +1,39 @@
+import { normalizeSuiAddress } from "@mysten/sui/utils";
+import { describe, expect, it, vi } from "vitest";
+import {
+  createFixtureChain,
+  FIXTURE_ACCOUNTS,
+} from "../../services/fakeChainFixtures";
+import { createFakeSuiClient } from "../../services/fakeSuiClient";
+import { decodeChatCreated, SuitterClient } from "../../services/suitter";
+import { DEPLOYMENT, NOW } from "../renderSuitterHook";
+
+describe("SuitterClient", () => {
+  describe("queryAllEvents", () => {
+    it("reads every page, however many events there are", async () => {
+      const chain = createFixtureChain(DEPLOYMENT, NOW);
+      const suiClient = createFakeSuiClient(chain);
+      const client = new SuitterClient(suiClient, DEPLOYMENT.PACKAGE_ID);
+      chain.transact(FIXTURE_ACCOUNTS.bob, (ctx) => {
+        for (let i = 1; i <= 1_050; i++) {
+          chain.startChat(ctx, normalizeSuiAddress(`0x5${i}`));
+        }
+      });
+      const queryEvents = vi.spyOn(suiClient, "queryEvents");
+
+      const chats = await client.queryAllEvents(
+        "messaging",
+        "ChatCreated",
+        decodeChatCreated
+      );
+
+      // The fixture's own two chats come last, being the oldest
+      expect(chats).toHaveLength(1_052);
+      const oldest = chats.at(-1)!;
+      expect([oldest.participant1, oldest.participant2]).toContain(
+        FIXTURE_ACCOUNTS.alice
+      );
+      expect(queryEvents).toHaveBeenCalledTimes(22);
+    });
+  });
+});
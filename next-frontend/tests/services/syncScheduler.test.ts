@@ -0,0 +1,122 @@
+import {
+  afterEach,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  vi,
+  type MockInstance,
+} from "vitest";
+import { SyncScheduler } from "../../services/syncScheduler";
+
+const OPTIONS = { minInterval: 1_000, maxInterval: 8_000 };
+
+let hidden = false;
+let hiddenGetter: MockInstance;
+
+function setHidden(value: boolean) {
+  hidden = value;
+  document.dispatchEvent(new Event("visibilitychange"));
+}
+
+/** Times (ms since the start) at which `task` ran */
+function recordRuns(results: boolean[] = []) {
+  const start = Date.now();
+  const runs: number[] = [];
+  const task = vi.fn(async () => {
+    runs.push(Date.now() - start);
+    return results.shift() ?? false;
+  });
+  return { runs, task };
+}
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  hidden = false;
+  hiddenGetter = vi
+    .spyOn(document, "hidden", "get")
+    .mockImplementation(() => hidden);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  hiddenGetter.mockRestore();
+});
+
+describe("SyncScheduler", () => {
+  it("backs off while nothing changes and speeds up on a change", async () => {
+    const scheduler = new SyncScheduler();
+    // The fourth run finds something
+    const { runs, task } = recordRuns([false, false, false, true]);
+    const stop = scheduler.register("chat", task, OPTIONS);
+
+    await vi.advanceTimersByTimeAsync(20_000);
+    stop();
+
+    expect(runs.slice(0, 7)).toEqual([
+      0, 1_000, 3_000, 7_000, 8_000, 9_000, 11_000,
+    ]);
+  });
+
+  it("never waits longer than the maximum interval", async () => {
+    const scheduler = new SyncScheduler();
+    const { runs, task } = recordRuns();
+    const stop = scheduler.register("chat", task, OPTIONS);
+
+    await vi.advanceTimersByTimeAsync(40_000);
+    stop();
+
+    expect(runs).toEqual([
+      0, 1_000, 3_000, 7_000, 15_000, 23_000, 31_000, 39_000,
+    ]);
+  });
+
+  it("runs boosted tasks right away and resets their backoff", async () => {
+    const scheduler = new SyncScheduler();
+    const chat = recordRuns();
+    const list = recordRuns();
+    const stopChat = scheduler.register("chat", chat.task, OPTIONS);
+    const stopList = scheduler.register("list", list.task, OPTIONS);
+    await vi.advanceTimersByTimeAsync(7_500);
+
+    scheduler.boost("chat");
+    await vi.advanceTimersByTimeAsync(1_000);
+    stopChat();
+    stopList();
+
+    expect(chat.runs).toEqual([0, 1_000, 3_000, 7_000, 7_500, 8_500]);
+    expect(list.runs).toEqual([0, 1_000, 3_000, 7_000]);
+  });
+
+  it("pauses while the tab is hidden and catches up once shown", async () => {
+    const scheduler = new SyncScheduler();
+    const { runs, task } = recordRuns();
+    const stop = scheduler.register("chat", task, OPTIONS);
+    await vi.advanceTimersByTimeAsync(0);
+
+    setHidden(true);
+    await vi.advanceTimersByTimeAsync(60_000);
+    expect(runs).toEqual([0]);
+
+    setHidden(false);
+    await vi.advanceTimersByTimeAsync(1_000);
+    stop();
+
+    expect(runs).toEqual([0, 60_000, 61_000]);
+  });
+
+  it("keeps going after a failed run and stops once unregistered", async () => {
+    const scheduler = new SyncScheduler();
+    const task = vi
+      .fn()
+      .mockRejectedValueOnce(new Error("fullnode unreachable"));
+    const stop = scheduler.register("chat", task, OPTIONS);
+    await vi.advanceTimersByTimeAsync(1_000);
+    expect(task).toHaveBeenCalledTimes(2);
+
+    stop();
+    await vi.advanceTimersByTimeAsync(60_000);
+
+    expect(task).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,167 @@
+import { File as NodeFile } from "node:buffer";
+import axios, { AxiosError, AxiosHeaders, type AxiosResponse } from "axios";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { WalrusService } from "../../services/walrus";
+
+const put = vi.spyOn(axios, "put");
+const head = vi.spyOn(axios, "head");
+const get = vi.spyOn(axios, "get");
+
+afterEach(() => {
+  put.mockReset();
+  head.mockReset();
+  get.mockReset();
+});
+
+function ok<T>(data: T, status = 200): AxiosResponse<T> {
+  return {
+    data,
+    status,
+    statusText: "OK",
+    headers: {},
+    config: { headers: new AxiosHeaders() },
+  };
+}
+
+function httpError(status: number): AxiosError {
+  const response = ok({}, status);
+  return new AxiosError(
+    `Request failed with status code ${status}`,
+    AxiosError.ERR_BAD_RESPONSE,
+    response.config,
+    {},
+    response
+  );
+}
+
+// jsdom's File can't be read back with arrayBuffer(); Node's can
+const file = () =>
+  new NodeFile(["hello walrus"], "hello.txt") as unknown as File;
+
+describe("WalrusService", () => {
+  describe("uploadFile", () => {
+    it("stores a new blob for the owner", async () => {
+      put.mockResolvedValue(
+        ok({ newlyCreated: { blobObject: { id: "0x1", blobId: "blob-new" } } })
+      );
+
+      const blob = await WalrusService.uploadFile(file(), "0xa11ce");
+
+      expect(blob).toEqual({
+        blobId: "blob-new",
+        walrusUrl: WalrusService.getBlobUrl("blob-new"),
+      });
+      const [url, body] = put.mock.calls[0];
+      expect(url).toMatch(/\/v1\/blobs\?epochs=5&send_object_to=0xa11ce$/);
+      expect(new TextDecoder().decode(body as ArrayBuffer)).toBe("hello walrus");
+    });
+
+    it("reuses a blob that is already certified", async () => {
+      put.mockResolvedValue(ok({ alreadyCertified: { blobId: "blob-old" } }));
+
+      const blob = await WalrusService.uploadFile(file());
+
+      expect(blob.blobId).toBe("blob-old");
+      expect(put.mock.calls[0][0]).not.toContain("send_object_to");
+    });
+
+    it("rejects a response without a blob ID", async () => {
+      put.mockResolvedValue(ok({}));
+
+      await expect(WalrusService.uploadFile(file())).rejects.toThrow(
+        "Failed to upload to Walrus: Failed to get blob ID from Walrus response"
+      );
+    });
+
+    it.each([
+      [413, "File too large for Walrus publisher (HTTP 413)"],
+      [403, "Access denied"],
+      [404, "Service unavailable"],
+      [502, "Server error"],
+    ])("explains an HTTP %i", async (status, message) => {
+      put.mockRejectedValue(httpError(status));
+
+      await expect(WalrusService.uploadFile(file())).rejects.toThrow(message);
+    });
+
+    it("explains network failures and timeouts", async () => {
+      put.mockRejectedValueOnce(new AxiosError("Network Error"));
+      await expect(WalrusService.uploadFile(file())).rejects.toThrow(
+        /^Network error: Unable to connect to Walrus/
+      );
+
+      put.mockRejectedValueOnce(
+        new AxiosError("timeout of 60000ms exceeded", AxiosError.ECONNABORTED)
+      );
+      await expect(WalrusService.uploadFile(file())).rejects.toThrow(
+        /^Upload timeout/
+      );
+    });
+  });
+
+  describe("downloadBlob", () => {
+    it("falls back to the backup aggregator", async () => {
+      const data = new TextEncoder().encode("hello walrus").buffer;
+      get.mockRejectedValueOnce(httpError(503)).mockResolvedValueOnce(ok(data));
+
+      expect(await WalrusService.downloadBlob("blob")).toBe(data);
+      expect(get.mock.calls[1][0]).toBe(
+        "https://wal-aggregator-testnet.staketab.org/v1/blobs/blob"
+      );
+    });
+
+    it("resolves to null when no aggregator has the blob", async () => {
+      get.mockRejectedValue(httpError(404));
+
+      expect(await WalrusService.downloadBlob("blob")).toBeNull();
+    });
+
+    it("rejects when an aggregator can't be reached", async () => {
+      get
+        .mockRejectedValueOnce(httpError(404))
+        .mockRejectedValueOnce(new AxiosError("Network Error"));
+
+      await expect(WalrusService.downloadBlob("blob")).rejects.toThrow(
+        "Failed to download from Walrus: Network Error"
+      );
+    });
+  });
+
+  describe("checkBlobAvailability", () => {
+    it("falls back to the backup aggregator", async () => {
+      head
+        .mockRejectedValueOnce(httpError(503))
+        .mockResolvedValueOnce(ok(null));
+
+      expect(await WalrusService.checkBlobAvailability("blob", 1)).toBe(true);
+      expect(head.mock.calls.map(([url]) => new URL(url).host)).toEqual([
+        "aggregator.walrus-testnet.walrus.space",
+        "wal-aggregator-testnet.staketab.org",
+      ]);
+    });
+
+    it("gives up after the last retry", async () => {
+      head.mockRejectedValue(httpError(404));
+
+      expect(await WalrusService.checkBlobAvailability("blob", 2, 0)).toBe(
+        false
+      );
+      expect(head).toHaveBeenCalledTimes(4);
+    });
+  });
+
+  describe("validateUrlForUpload", () => {
+    it.each([
+      ["https://i.imgur.com/cat.png", true, "This URL should work for Walrus upload"],
+      ["https://www.instagram.com/p/abc", false, "This domain typically blocks cross-origin requests"],
+      ["https://example.com/cat.png", true, "URL upload may work but could fail due to CORS restrictions"],
+      [WalrusService.getBlobUrl("blob"), false, "This URL is already stored on Walrus"],
+      ["not a url", false, "Invalid URL format"],
+    ])("%s", (url, isValid, message) => {
+      expect(WalrusService.validateUrlForUpload(url)).toMatchObject({
+        isValid,
+        message,
+      });
+    });
+  });
+});
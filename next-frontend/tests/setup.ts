@@ -0,0 +1,16 @@
+import { afterEach, vi } from "vitest";
+import { cleanup } from "@testing-library/react";
+import { registerFakeWallet } from "../services/fakeWallet";
+import { FIXTURE_WALLET_ADDRESS } from "../services/fakeChainFixtures";
+
+registerFakeWallet(FIXTURE_WALLET_ADDRESS);
+
+// The hooks log every fetch and every expected failure
+vi.spyOn(console, "log").mockImplementation(() => {});
+vi.spyOn(console, "error").mockImplementation(() => {});
+vi.spyOn(console, "warn").mockImplementation(() => {});
+
+afterEach(() => {
+  cleanup();
+  localStorage.clear();
+});
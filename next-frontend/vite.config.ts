@@ -1,3 +1,4 @@
+/// <reference types="vitest/config" />
 import { defineConfig } from "vite";
 import react from "@vitejs/plugin-react-swc";
 import path from "path";
@@ -14,4 +15,11 @@ export default defineConfig({
   server: {
     port: 3000,
   },
+  test: {
+    environment: "jsdom",
+    include: ["tests/**/*.test.{ts,tsx}"],
+    setupFiles: ["./tests/setup.ts"],
+    // Hooks run against the fixture chain, with the indexer switched off
+    env: { VITE_MOCK_CHAIN: "1" },
+  },
 });